@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+
+/**
+ * Alert Template Preview Script
+ *
+ * This script renders alert templates against a sample alert built from
+ * the sample configuration, so template changes can be checked before deploying.
+ */
+
+import { promises as fs } from 'fs';
+import { AlertTool } from '../src/tools/alert-tool';
+import { createSampleConfig } from '../src/utils/config-validator';
+import { ALERT_TEMPLATE_NAMES, createSampleAlert, loadAlertTemplates, parseAlertTemplates } from '../src/utils/alert-templates';
+import { SUPPORTED_LOCALES } from '../src/utils/localization';
+import { AlertLevel, AlertLocale, AlertTemplateName, AlertTemplates } from '../src/types';
+
+interface CliOptions {
+  template?: string;
+  source?: string;
+  name?: AlertTemplateName;
+  locale?: AlertLocale;
+  level?: AlertLevel;
+  noAi?: boolean;
+  data?: boolean;
+  help?: boolean;
+}
+
+class TemplatePreviewCli {
+  private options: CliOptions;
+
+  constructor(options: CliOptions) {
+    this.options = options;
+  }
+
+  async run(): Promise<number> {
+    try {
+      if (this.options.help) {
+        this.showHelp();
+        return 0;
+      }
+
+      const sampleConfig = createSampleConfig();
+      const { costAnalysis, alertContext } = createSampleAlert({
+        spendThreshold: sampleConfig.spendThreshold,
+        bedrockConfig: this.options.noAi ? undefined : sampleConfig.bedrockConfig
+      });
+      if (this.options.level) {
+        alertContext.alertLevel = this.options.level;
+      }
+
+      const alertTool = new AlertTool(sampleConfig.region);
+
+      if (this.options.data) {
+        console.log(JSON.stringify(alertTool.formatTemplateData(costAnalysis, alertContext, this.options.locale), null, 2));
+        return 0;
+      }
+
+      const templates = await this.loadTemplates();
+      const names = ALERT_TEMPLATE_NAMES.filter(name =>
+        templates[name] !== undefined && (!this.options.name || name === this.options.name)
+      );
+      if (names.length === 0) {
+        console.error('❌ No templates to preview. Pass --template FILE or --source, or set ALERT_TEMPLATES / ALERT_TEMPLATE_SOURCE');
+        return 1;
+      }
+
+      for (const name of names) {
+        console.log(`📄 ${name}`);
+        console.log('='.repeat(name.length + 3));
+        console.log(alertTool.formatTemplatedMessage(templates[name] as string, costAnalysis, alertContext, this.options.locale));
+        console.log('');
+      }
+      return 0;
+
+    } catch (error) {
+      console.error('❌ Template preview failed:', error instanceof Error ? error.message : 'Unknown error');
+      return 1;
+    }
+  }
+
+  private async loadTemplates(): Promise<AlertTemplates> {
+    if (this.options.template) {
+      return { [this.options.name || 'email']: await fs.readFile(this.options.template, 'utf8') };
+    }
+
+    const source = this.options.source || process.env.ALERT_TEMPLATE_SOURCE || undefined;
+    const templates = process.env.ALERT_TEMPLATES ? parseAlertTemplates(process.env.ALERT_TEMPLATES) : undefined;
+    if (!source && !templates) {
+      return {};
+    }
+    return loadAlertTemplates({ templates, source }, process.env.AWS_REGION || 'us-east-1');
+  }
+
+  private showHelp(): void {
+    console.log('AWS Spend Monitor Alert Template Preview');
+    console.log('========================================\n');
+    console.log('Usage: npm run preview:template [options]\n');
+    console.log('Options:');
+    console.log('  --template FILE     Preview a single template file');
+    console.log('  --source LOCATION   Template document (s3://bucket/key or JSON file path)');
+    console.log(`  --name NAME         Template to preview (${ALERT_TEMPLATE_NAMES.join(', ')})`);
+    console.log(`  --locale LOCALE     Locale for amounts and labels (${SUPPORTED_LOCALES.join(', ')})`);
+    console.log('  --level LEVEL       Sample alert level (PROJECTED, WARNING, CRITICAL)');
+    console.log('  --no-ai             Preview without AI analysis');
+    console.log('  --data              Show the template variables for the sample alert');
+    console.log('  --help              Show this help message\n');
+    console.log('Without --template or --source, ALERT_TEMPLATES and ALERT_TEMPLATE_SOURCE are used.\n');
+    console.log('Examples:');
+    console.log('  npm run preview:template -- --data');
+    console.log('  npm run preview:template -- --template sms.mustache --name sms --locale de');
+    console.log('  npm run preview:template -- --source s3://my-bucket/alert-templates.json --level CRITICAL');
+  }
+}
+
+// Parse command line arguments
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--template':
+        options.template = args[++i];
+        break;
+      case '--source':
+        options.source = args[++i];
+        break;
+      case '--name':
+        options.name = args[++i] as AlertTemplateName;
+        break;
+      case '--locale':
+        options.locale = args[++i] as AlertLocale;
+        break;
+      case '--level':
+        options.level = args[++i] as AlertLevel;
+        break;
+      case '--no-ai':
+        options.noAi = true;
+        break;
+      case '--data':
+        options.data = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        console.error(`Unknown option: ${arg}`);
+        process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+// Main execution
+async function main() {
+  const options = parseArgs();
+  const cli = new TemplatePreviewCli(options);
+  const exitCode = await cli.run();
+  process.exit(exitCode);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
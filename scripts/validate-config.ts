@@ -9,6 +9,7 @@
 
 import { ConfigValidator, validateEnvironmentVariables, createSampleConfig } from '../src/utils/config-validator';
 import { SpendMonitorConfigValidation } from '../src/utils/config-validator';
+import { parseAlertRoutingRules } from '../src/utils/alert-routing';
 
 interface CliOptions {
   config?: string;
@@ -135,6 +136,10 @@ class ConfigValidationCli {
           };
         }
 
+        if (process.env.ALERT_ROUTING_RULES) {
+          config.alertRoutingRules = parseAlertRoutingRules(process.env.ALERT_ROUTING_RULES);
+        }
+
         return config;
       }
     } catch (error) {
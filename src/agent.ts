@@ -7,16 +7,42 @@ try {
 }
 import { CostExplorerClient } from '@aws-sdk/client-cost-explorer';
 import { SNSClient } from '@aws-sdk/client-sns';
-import { SpendMonitorConfig, CostAnalysis, AlertContext } from './types';
+import { SpendMonitorConfig, CostAnalysis, EnhancedCostAnalysis, AlertContext, AlertLevel, AlertScope, AlertStateRecord, AlertAcknowledgementRecord, SpendDigest } from './types';
 import { validateSpendMonitorConfig } from './validation';
 import { CostAnalysisTool } from './tools/cost-analysis-tool';
 import { AlertTool } from './tools/alert-tool';
 import { iOSManagementTool } from './tools/ios-management-tool';
-import { BedrockAnalysisTool } from './tools/bedrock-analysis-tool';
 import { SpendMonitorTask } from './tasks/spend-monitor-task';
 import { iOSMonitoringService } from './utils/ios-monitoring';
 import { createLogger } from './utils/logger';
 import { createMetricsCollector } from './utils/metrics';
+import {
+  AlertStateStore,
+  createAlertStateStore,
+  decideAlertAction,
+  describeAlertScope,
+  getAlertScopeKey,
+  getBillingPeriod,
+  maxAlertLevel
+} from './utils/alert-state';
+import {
+  AlertAcknowledgementStore,
+  createAlertAcknowledgementStore,
+  createAlertId,
+  createOpenAlertRecord
+} from './utils/alert-acknowledgements';
+import { getTierAmount, resolveThresholdTier } from './utils/threshold-tiers';
+import { resolveAlertRoute } from './utils/alert-routing';
+import { getScopedSpend, mergeCostGroupings } from './utils/cost-groupings';
+import { detectCostSpikes } from './utils/spike-detection';
+import { DEFAULT_SPARKLINE_DAYS } from './utils/email-report';
+import { buildSpendDigest, getDigestPeriods } from './utils/spend-digest';
+import {
+  CostSnapshotRepository,
+  buildCostComparisons,
+  createCostSnapshot,
+  createCostSnapshotRepository
+} from './utils/cost-history';
 
 /**
  * AWS Spend Monitor Agent with iOS push notification support
@@ -31,9 +57,11 @@ export class SpendMonitorAgent extends Agent {
   private costAnalysisTool?: CostAnalysisTool;
   private alertTool?: AlertTool;
   private iosManagementTool?: iOSManagementTool;
-  private bedrockTool?: BedrockAnalysisTool;
   private spendMonitorTask?: SpendMonitorTask;
   private iosMonitoringService?: iOSMonitoringService;
+  private alertStateStore?: AlertStateStore;
+  private alertAcknowledgementStore?: AlertAcknowledgementStore;
+  private costSnapshotRepository?: CostSnapshotRepository;
   private agentLogger = createLogger('SpendMonitorAgent');
   private metrics = createMetricsCollector('us-east-1', 'SpendMonitor/Agent');
 
@@ -97,7 +125,11 @@ export class SpendMonitorAgent extends Agent {
       // Initialize Cost Analysis Tool
       this.costAnalysisTool = new CostAnalysisTool(
         this.config.region,
-        { maxAttempts: this.config.retryAttempts }
+        { maxAttempts: this.config.retryAttempts },
+        this.config.bedrockConfig,
+        this.config.forecastConfig,
+        mergeCostGroupings(this.config.costGroupings, this.config.scopedBudgets?.map(budget => budget.grouping)),
+        this.config.costMetricConfig
       );
       this.registerTool(this.costAnalysisTool);
       console.log('Cost Analysis Tool registered');
@@ -105,11 +137,29 @@ export class SpendMonitorAgent extends Agent {
       // Initialize Alert Tool with multi-channel support
       this.alertTool = new AlertTool(
         this.config.region,
-        { maxAttempts: this.config.retryAttempts }
+        { maxAttempts: this.config.retryAttempts },
+        this.config.webhookConfig,
+        this.config.incidentConfig,
+        this.config.emailReportConfig,
+        this.config.quietHoursConfig,
+        this.config.localizationConfig,
+        this.config.alertTemplateConfig,
+        this.config.channelTopicArns
       );
       this.registerTool(this.alertTool);
       console.log('Alert Tool registered');
 
+      // Initialize alert state store used to suppress repeat alerts
+      this.alertStateStore = createAlertStateStore(this.config.region, this.config.alertStateConfig);
+
+      // Initialize store for alerts acknowledged or snoozed through the device API
+      this.alertAcknowledgementStore = createAlertAcknowledgementStore(this.config.region, this.config.alertStateConfig);
+
+      // Initialize cost snapshot repository used for month-over-month comparisons
+      if (this.config.costHistoryConfig) {
+        this.costSnapshotRepository = createCostSnapshotRepository(this.config.region, this.config.costHistoryConfig);
+      }
+
       // Initialize iOS Management Tool if iOS config is provided
       if (this.config.iosConfig) {
         this.iosManagementTool = new iOSManagementTool(
@@ -164,24 +214,18 @@ export class SpendMonitorAgent extends Agent {
         }
       }
 
-      // Initialize Bedrock Analysis Tool if Bedrock config is provided
+      // Bedrock analysis runs through the Cost Analysis Tool, which charges every model call to the spend ledger
       if (this.config.bedrockConfig?.enabled) {
-        this.bedrockTool = new BedrockAnalysisTool(
-          this.config.bedrockConfig,
-          { maxAttempts: this.config.retryAttempts }
-        );
-        this.registerTool(this.bedrockTool);
-        
         // Perform Bedrock health check during initialization
         try {
-          const isBedrockHealthy = await this.bedrockTool.validateModelAccess();
+          const isBedrockHealthy = await this.costAnalysisTool.validateAIModelAccess();
           
           if (isBedrockHealthy) {
             this.agentLogger.info('Bedrock model access validated successfully', {
               modelId: this.config.bedrockConfig.modelId,
               region: this.config.bedrockConfig.region
             });
-            console.log('Bedrock Analysis Tool registered and health check passed');
+            console.log('Bedrock AI analysis enabled and health check passed');
             
             // Record successful health check metric
             await this.metrics.recordBedrockHealthCheck(
@@ -260,6 +304,11 @@ export class SpendMonitorAgent extends Agent {
         throw new Error(`Task execution failed: ${taskResult.error}`);
       }
 
+      // Notifications held overnight go out before any new alerts
+      if (this.config.quietHoursConfig) {
+        await this.deliverNotificationDigests();
+      }
+
       // Perform cost analysis
       const costAnalysis = await this.analyzeCosts();
       this.spendMonitorTask.setCostAnalysis(costAnalysis);
@@ -290,42 +339,369 @@ export class SpendMonitorAgent extends Agent {
   }
 
   /**
-   * Checks spending threshold and sends alerts if exceeded
+   * Delivers digests of notifications deferred during quiet hours for channels whose quiet hours are over
+   */
+  async deliverNotificationDigests(): Promise<number> {
+    if (!this.alertTool) {
+      throw new Error('Alert Tool not initialized');
+    }
+
+    try {
+      const delivered = await this.alertTool.deliverDeferredNotifications(this.config.snsTopicArn);
+      if (delivered > 0) {
+        console.log(`Delivered ${delivered} deferred notification(s) in quiet hours digests`);
+      }
+      return delivered;
+    } catch (error) {
+      // Undelivered notifications stay queued for the next run
+      this.agentLogger.warn('Deferred notifications unavailable, retrying on the next run', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Sends the scheduled spend digest regardless of thresholds: spend to date, projection, top movers
+   * against the previous period and, when Bedrock is enabled, an AI summary
+   */
+  async sendSpendDigest(): Promise<SpendDigest> {
+    const digestConfig = this.config.spendDigestConfig;
+    if (!digestConfig) {
+      throw new Error('Spend digest not configured');
+    }
+    if (!this.costAnalysisTool || !this.alertTool) {
+      throw new Error('Agent tools not initialized');
+    }
+
+    const costAnalysisTool = this.costAnalysisTool;
+    const monthToDate = await costAnalysisTool.getCurrentMonthCosts();
+    const periods = getDigestPeriods(digestConfig.frequency);
+    const [currentPeriod, previousPeriod] = await Promise.all([
+      costAnalysisTool.getCostDataForRange(periods.current.start, periods.current.end),
+      costAnalysisTool.getCostDataForRange(periods.previous.start, periods.previous.end)
+    ]);
+
+    const digest = buildSpendDigest(digestConfig, this.config.spendThreshold, {
+      monthToDate,
+      period: periods.current,
+      currentPeriod,
+      previousPeriod,
+      topServices: this.getTopServices(monthToDate.serviceBreakdown),
+      aiSummary: await this.summarizeSpending(monthToDate)
+    });
+
+    await this.alertTool.sendSpendDigest(digest, this.config.snsTopicArn, digestConfig.channels);
+    console.log(`${digestConfig.frequency === 'weekly' ? 'Weekly' : 'Daily'} spend digest sent: $${digest.spendToDate.toFixed(2)} month-to-date`);
+
+    return digest;
+  }
+
+  /**
+   * AI summary for the spend digest, or undefined when Bedrock is disabled or unavailable
+   */
+  private async summarizeSpending(costAnalysis: CostAnalysis): Promise<string | undefined> {
+    if (!this.config.bedrockConfig?.enabled || !this.costAnalysisTool) {
+      return undefined;
+    }
+
+    try {
+      const enhanced = await this.costAnalysisTool.enhanceWithAIAnalysisAdvanced(costAnalysis, undefined, {
+        includeAnomalies: false,
+        includeRecommendations: false
+      });
+      return enhanced.fallbackUsed ? undefined : enhanced.aiAnalysis?.summary;
+    } catch (error) {
+      // The summary only enriches the digest, so it is sent without one
+      this.agentLogger.warn('AI summary unavailable, sending spend digest without it', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks the account threshold and any per-service budgets, sending alerts for newly crossed thresholds
    */
   private async checkThresholdAndAlert(costAnalysis: CostAnalysis): Promise<boolean> {
-    if (costAnalysis.totalCost <= this.config.spendThreshold) {
-      console.log('Spending is within threshold - no alert needed');
-      return false;
+    const accountAlertSent = await this.evaluateBudget(
+      costAnalysis,
+      { type: 'account' },
+      costAnalysis.totalCost,
+      this.config.spendThreshold
+    );
+
+    const scopedAlertsSent = await this.checkScopedBudgets(costAnalysis);
+
+    return accountAlertSent || scopedAlertsSent;
+  }
+
+  /**
+   * Evaluates each configured service and grouping budget against its cost breakdown
+   */
+  private async checkScopedBudgets(costAnalysis: CostAnalysis): Promise<boolean> {
+    const budgets: Array<{ scope: AlertScope; budget: number }> = [
+      ...Object.entries(this.config.serviceBudgets || {}).map(([service, budget]) => ({
+        scope: { type: 'service' as const, value: service },
+        budget
+      })),
+      ...(this.config.scopedBudgets || []).map(scopedBudget => ({
+        scope: { type: 'group' as const, value: scopedBudget.value, grouping: scopedBudget.grouping },
+        budget: scopedBudget.budget
+      }))
+    ];
+
+    let alertSent = false;
+    for (const { scope, budget } of budgets) {
+      const spend = getScopedSpend(costAnalysis, scope);
+      if (spend === undefined) {
+        // Without a breakdown we cannot tell whether the scope is over budget, so leave its state untouched
+        this.agentLogger.warn('Cost breakdown unavailable, skipping scoped budget', { scope: getAlertScopeKey(scope) });
+        continue;
+      }
+
+      try {
+        const sent = await this.evaluateBudget(costAnalysis, scope, spend, budget);
+        alertSent = alertSent || sent;
+      } catch (error) {
+        // A failing scoped alert must not block the remaining budgets
+        this.agentLogger.error('Failed to evaluate scoped budget', error as Error, { scope: getAlertScopeKey(scope), budget });
+      }
     }
 
-    console.log(`Spending threshold exceeded: $${costAnalysis.totalCost.toFixed(2)} > $${this.config.spendThreshold.toFixed(2)}`);
+    return alertSent;
+  }
+
+  /**
+   * Checks spend for a scope against the threshold tiers (and, for the account, the month-end
+   * projection when forecast alerts are enabled) and sends an alert if not already sent
+   */
+  private async evaluateBudget(costAnalysis: CostAnalysis, scope: AlertScope, spend: number, budget: number): Promise<boolean> {
+    const isAccount = scope.type === 'account';
+    const scopeKey = getAlertScopeKey(scope);
+    const scopeLabel = describeAlertScope(scope);
+    const billingPeriod = getBillingPeriod(costAnalysis.period.start);
+    const previousState = await this.loadAlertState(scopeKey, billingPeriod);
+    const tier = resolveThresholdTier(spend, budget, this.config.thresholdTiers);
+
+    let alertLevel: AlertLevel;
+    if (tier) {
+      console.log(`Spending threshold tier '${tier.name}' exceeded for ${scopeLabel}: $${spend.toFixed(2)} > $${getTierAmount(tier, budget).toFixed(2)} (${tier.percentOfBudget}% of $${budget.toFixed(2)})`);
+      alertLevel = tier.severity;
+    } else if (isAccount && this.isProjectedBreach(costAnalysis)) {
+      console.log(`Projected monthly cost exceeds threshold: $${costAnalysis.projectedMonthly.toFixed(2)} > $${budget.toFixed(2)}`);
+      alertLevel = 'PROJECTED';
+    } else {
+      console.log(isAccount ? 'Spending is within threshold - no alert needed' : `Spending for ${scopeLabel} is within budget`);
+      await this.resolveAlertIfNeeded(costAnalysis, budget, previousState, scope);
+      return false;
+    }
 
     // Create alert context
     const alertContext: AlertContext = {
-      threshold: this.config.spendThreshold,
-      exceedAmount: costAnalysis.totalCost - this.config.spendThreshold,
-      percentageOver: ((costAnalysis.totalCost - this.config.spendThreshold) / this.config.spendThreshold) * 100,
-      topServices: this.getTopServices(costAnalysis.serviceBreakdown),
-      alertLevel: this.determineAlertLevel(costAnalysis.totalCost, this.config.spendThreshold)
+      threshold: budget,
+      exceedAmount: spend - budget,
+      percentageOver: ((spend - budget) / budget) * 100,
+      topServices: isAccount
+        ? this.getTopServices(costAnalysis.serviceBreakdown)
+        : [{ serviceName: scope.value || 'Unknown', cost: spend, percentage: costAnalysis.totalCost > 0 ? (spend / costAnalysis.totalCost) * 100 : 0 }],
+      alertLevel,
+      tier: tier ?? undefined,
+      scope: isAccount ? undefined : scope
     };
 
-    // Update task with alert context
-    if (this.spendMonitorTask) {
+    const routingRule = resolveAlertRoute(this.config.alertRoutingRules, alertContext);
+    if (routingRule) {
+      console.log(`Alert routing rule '${routingRule.name}' matched for ${scopeLabel}: ${routingRule.channels.join(', ')}`);
+      alertContext.routingRule = routingRule;
+    }
+
+    // Update task with the account-level alert context
+    if (isAccount && this.spendMonitorTask) {
       this.spendMonitorTask.setAlertContext(alertContext);
     }
 
-    // Send alert via all configured channels
+    const acknowledgement = await this.loadAcknowledgement(previousState);
+    const decision = decideAlertAction(previousState, alertContext, this.config.alertStateConfig?.cooldownHours, new Date(), acknowledgement);
+    if (decision.action === 'suppress') {
+      this.agentLogger.info('Alert suppressed - already notified for billing period', {
+        scope: scopeKey,
+        billingPeriod,
+        alertLevel: alertContext.alertLevel,
+        tier: tier?.name,
+        lastAlertLevel: previousState?.lastAlertLevel,
+        lastAlertedAt: previousState?.lastAlertedAt,
+        acknowledgement: acknowledgement?.status,
+        reason: decision.reason
+      });
+      return false;
+    }
+
+    // Send alert via the matching routing rule's channels, else the tier's (all channels for projected breaches)
+    alertContext.alertId = createAlertId();
     await this.sendAlert(costAnalysis, alertContext);
-    
+
+    const stillOpen = previousState && !previousState.resolved ? previousState : null;
+    await this.saveAlertState({
+      scope: scopeKey,
+      billingPeriod,
+      lastAlertLevel: this.escalatedLevel(alertContext.alertLevel, previousState),
+      lastAlertedAt: new Date().toISOString(),
+      lastAlertedCost: spend,
+      lastTierPercent: Math.max(tier?.percentOfBudget ?? 0, stillOpen?.lastTierPercent ?? 0),
+      resolved: false,
+      lastAlertId: alertContext.alertId
+    });
+    await this.saveAcknowledgement(createOpenAlertRecord(alertContext.alertId, scopeKey, billingPeriod, alertContext.alertLevel));
+
     return true;
   }
 
   /**
-   * Determines alert level based on spending amount
+   * Whether the month-end projection exceeds the threshold far enough into the period to be trusted
+   */
+  private isProjectedBreach(costAnalysis: CostAnalysis): boolean {
+    const forecastConfig = this.config.forecastAlertConfig;
+    if (!forecastConfig?.enabled) {
+      return false;
+    }
+
+    const daysElapsed = new Date(costAnalysis.period.end).getUTCDate();
+    if (daysElapsed < forecastConfig.minDaysElapsed) {
+      return false;
+    }
+
+    return costAnalysis.projectedMonthly > this.config.spendThreshold;
+  }
+
+  /**
+   * Sends a resolved notification when a previously alerted scope drops back under its threshold
+   */
+  private async resolveAlertIfNeeded(
+    costAnalysis: CostAnalysis,
+    threshold: number,
+    previousState: AlertStateRecord | null,
+    scope: AlertScope
+  ): Promise<void> {
+    const decision = decideAlertAction(previousState, null);
+    if (decision.action !== 'resolve' || !previousState) {
+      return;
+    }
+
+    // Routing rules can open incidents at any level, so any open incident is closed whether or not resolve notifications are on
+    if (this.alertTool) {
+      try {
+        await this.alertTool.resolveIncident(
+          previousState,
+          this.config.snsTopicArn,
+          scope.type === 'account' ? undefined : scope
+        );
+      } catch (error) {
+        this.agentLogger.error('Failed to resolve incident', error as Error, {
+          scope: previousState.scope,
+          billingPeriod: previousState.billingPeriod
+        });
+      }
+    }
+
+    if (this.config.alertStateConfig?.notifyOnResolve && this.alertTool) {
+      try {
+        await this.alertTool.sendResolvedAlert(
+          costAnalysis,
+          threshold,
+          previousState,
+          this.config.snsTopicArn,
+          scope.type === 'account' ? undefined : scope
+        );
+      } catch (error) {
+        this.agentLogger.error('Failed to send resolved notification', error as Error, {
+          scope: previousState.scope,
+          billingPeriod: previousState.billingPeriod
+        });
+        return;
+      }
+    }
+
+    await this.saveAlertState({
+      ...previousState,
+      resolved: true,
+      resolvedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Keeps the highest level already alerted so a drop in severity is not treated as a new alert
+   */
+  private escalatedLevel(alertLevel: AlertLevel, previousState: AlertStateRecord | null): AlertLevel {
+    if (previousState && !previousState.resolved) {
+      return maxAlertLevel(alertLevel, previousState.lastAlertLevel);
+    }
+    return alertLevel;
+  }
+
+  /**
+   * Loads the stored alert state, failing open so alerts are still sent if the store is unavailable
    */
-  private determineAlertLevel(currentSpend: number, threshold: number): 'WARNING' | 'CRITICAL' {
-    const percentageOver = ((currentSpend - threshold) / threshold) * 100;
-    return percentageOver > 50 ? 'CRITICAL' : 'WARNING';
+  private async loadAlertState(scope: string, billingPeriod: string): Promise<AlertStateRecord | null> {
+    if (!this.alertStateStore) {
+      return null;
+    }
+
+    try {
+      return await this.alertStateStore.getState(scope, billingPeriod);
+    } catch (error) {
+      this.agentLogger.error('Failed to load alert state', error as Error, { scope, billingPeriod });
+      return null;
+    }
+  }
+
+  /**
+   * Persists alert state without failing the execution
+   */
+  private async saveAlertState(record: AlertStateRecord): Promise<void> {
+    if (!this.alertStateStore) {
+      return;
+    }
+
+    try {
+      await this.alertStateStore.saveState(record);
+    } catch (error) {
+      this.agentLogger.error('Failed to save alert state', error as Error, {
+        scope: record.scope,
+        billingPeriod: record.billingPeriod
+      });
+    }
+  }
+
+  /**
+   * Loads the acknowledgement for the last open alert, failing open so unacknowledged alerts still repeat
+   */
+  private async loadAcknowledgement(previousState: AlertStateRecord | null): Promise<AlertAcknowledgementRecord | null> {
+    if (!this.alertAcknowledgementStore || !previousState?.lastAlertId || previousState.resolved) {
+      return null;
+    }
+
+    try {
+      return await this.alertAcknowledgementStore.getAlert(previousState.lastAlertId);
+    } catch (error) {
+      this.agentLogger.error('Failed to load alert acknowledgement', error as Error, { alertId: previousState.lastAlertId });
+      return null;
+    }
+  }
+
+  /**
+   * Records a sent alert so it can be acknowledged, without failing the execution
+   */
+  private async saveAcknowledgement(record: AlertAcknowledgementRecord): Promise<void> {
+    if (!this.alertAcknowledgementStore) {
+      return;
+    }
+
+    try {
+      await this.alertAcknowledgementStore.saveAlert(record);
+    } catch (error) {
+      this.agentLogger.error('Failed to save alert for acknowledgement', error as Error, { alertId: record.alertId });
+    }
   }
 
   /**
@@ -353,7 +729,115 @@ export class SpendMonitorAgent extends Agent {
       throw new Error('Cost Analysis Tool not initialized');
     }
     
-    return await this.costAnalysisTool.getCurrentMonthCosts();
+    const costAnalysis = await this.costAnalysisTool.getCurrentMonthCosts();
+    const withComparisons = await this.compareWithCostHistory(costAnalysis);
+    const withDailySpend = await this.addDailySpend(withComparisons);
+    return await this.analyzeDailyHistory(withDailySpend);
+  }
+
+  /**
+   * Adds trailing daily spend for the email report sparkline when email reports are enabled
+   */
+  private async addDailySpend(costAnalysis: CostAnalysis): Promise<CostAnalysis> {
+    const emailConfig = this.config.emailReportConfig;
+    if (!emailConfig || !this.costAnalysisTool) {
+      return costAnalysis;
+    }
+
+    try {
+      const dailyCosts = await this.costAnalysisTool.getDailyCosts(new Date(), emailConfig.sparklineDays ?? DEFAULT_SPARKLINE_DAYS);
+      return { ...costAnalysis, dailyCosts };
+    } catch (error) {
+      // The sparkline only decorates the email report, so alerting carries on without it
+      this.agentLogger.warn('Daily spend unavailable, sending email reports without a sparkline', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return costAnalysis;
+    }
+  }
+
+  /**
+   * Adds comparisons against last month's stored snapshots and stores today's snapshot
+   */
+  private async compareWithCostHistory(costAnalysis: CostAnalysis): Promise<CostAnalysis> {
+    if (!this.costSnapshotRepository) {
+      return costAnalysis;
+    }
+
+    let result = costAnalysis;
+    try {
+      const comparisons = await buildCostComparisons(this.costSnapshotRepository, costAnalysis);
+      if (comparisons.monthOverMonth || comparisons.sameDayLastMonth) {
+        result = { ...costAnalysis, comparisons };
+      }
+    } catch (error) {
+      // Comparisons only enrich the analysis, so threshold alerting carries on without them
+      this.agentLogger.warn('Cost history unavailable, skipping month-over-month comparisons', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    const snapshot = createCostSnapshot(costAnalysis);
+    try {
+      await this.costSnapshotRepository.saveSnapshot(snapshot);
+    } catch (error) {
+      this.agentLogger.error('Failed to save cost snapshot', error as Error, {
+        billingPeriod: snapshot.billingPeriod,
+        snapshotDate: snapshot.snapshotDate
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Adds spike findings from daily cost history and, when Bedrock is enabled, AI spending analysis and anomaly detection over that history
+   */
+  private async analyzeDailyHistory(costAnalysis: CostAnalysis): Promise<CostAnalysis | EnhancedCostAnalysis> {
+    const spikeConfig = this.config.spikeDetectionConfig;
+    if (!spikeConfig?.enabled || !this.costAnalysisTool) {
+      return costAnalysis;
+    }
+
+    let history: CostAnalysis[];
+    try {
+      history = await this.costAnalysisTool.getDailyServiceCosts(new Date(), spikeConfig.lookbackDays);
+    } catch (error) {
+      // History only enriches the analysis, so threshold alerting carries on without it
+      this.agentLogger.warn('Daily cost history unavailable, skipping spike detection', {
+        lookbackDays: spikeConfig.lookbackDays,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return costAnalysis;
+    }
+
+    const spikes = detectCostSpikes(history, spikeConfig);
+    if (spikes.length > 0) {
+      this.agentLogger.info('Daily cost spikes detected', {
+        spikes: spikes.map(spike => ({ service: spike.service, date: spike.date, score: spike.score }))
+      });
+    }
+
+    const withSpikes = { ...costAnalysis, spikes };
+    if (!this.config.bedrockConfig?.enabled) {
+      return withSpikes;
+    }
+
+    try {
+      // Only the AI fields are taken, as a cached result carries the cost data it was made for
+      const enhanced = await this.costAnalysisTool.enhanceWithAIAnalysisAdvanced(withSpikes, history, {
+        includeRecommendations: false
+      });
+      if (enhanced.fallbackUsed) {
+        return withSpikes;
+      }
+      return { ...withSpikes, aiAnalysis: enhanced.aiAnalysis, anomalies: enhanced.anomalies };
+    } catch (error) {
+      this.agentLogger.warn('AI anomaly detection failed, continuing with statistical findings', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return withSpikes;
+    }
   }
 
   /**
@@ -488,15 +972,15 @@ export class SpendMonitorAgent extends Agent {
     // Check Bedrock AI Analysis if enabled
     if (this.config.bedrockConfig?.enabled) {
       try {
-        if (this.bedrockTool) {
-          const isBedrockHealthy = await this.bedrockTool.validateModelAccess();
+        if (this.costAnalysisTool) {
+          const isBedrockHealthy = await this.costAnalysisTool.validateAIModelAccess();
           components.bedrock = isBedrockHealthy ? 'healthy' : 'unhealthy';
           if (!isBedrockHealthy) {
             errors.push('Bedrock model access validation failed');
           }
         } else {
           components.bedrock = 'unhealthy';
-          errors.push('Bedrock Analysis Tool not initialized');
+          errors.push('Cost Analysis Tool not initialized');
         }
       } catch (error) {
         components.bedrock = 'unhealthy';
@@ -12,8 +12,21 @@ import {
   DeviceListResponse,
   DeviceDeleteRequest,
   DeviceDeleteResponse,
+  AlertAcknowledgementRequest,
+  AlertAcknowledgementResponse,
   iOSDeviceRegistration
 } from './types';
+import {
+  AlertAcknowledgementStore,
+  DynamoDBAlertAcknowledgementStore,
+  DEFAULT_SNOOZE_HOURS,
+  MAX_SNOOZE_HOURS,
+  acknowledgeAlert,
+  snoozeAlert
+} from './utils/alert-acknowledgements';
+
+/** POST /alerts/{alertId}/ack and /alerts/{alertId}/snooze */
+const ALERT_ACTION_PATH = /^\/alerts\/([^/]+)\/(ack|snooze)$/;
 
 /**
  * Device Registration API Handler
@@ -27,6 +40,7 @@ export class DeviceRegistrationHandler {
   private platformApplicationArn: string;
   private deviceTableName: string;
   private bundleId: string;
+  private alertAcknowledgementStore?: AlertAcknowledgementStore;
 
   constructor() {
     const region = process.env.AWS_REGION || 'us-east-1';
@@ -37,6 +51,10 @@ export class DeviceRegistrationHandler {
     this.deviceTableName = process.env.DEVICE_TOKEN_TABLE_NAME || '';
     this.bundleId = process.env.IOS_BUNDLE_ID || 'com.example.spendmonitor';
 
+    if (process.env.ALERT_ACKNOWLEDGEMENT_TABLE_NAME) {
+      this.alertAcknowledgementStore = new DynamoDBAlertAcknowledgementStore(process.env.ALERT_ACKNOWLEDGEMENT_TABLE_NAME, region);
+    }
+
     if (!this.platformApplicationArn) {
       throw new Error('IOS_PLATFORM_APP_ARN environment variable is required');
     }
@@ -76,6 +94,7 @@ export class DeviceRegistrationHandler {
       // Route requests based on path and method
       const path = event.path;
       const method = event.httpMethod;
+      const alertAction = ALERT_ACTION_PATH.exec(path);
 
       if (path === '/devices' && method === 'POST') {
         return await this.registerDevice(event, corsHeaders);
@@ -85,6 +104,8 @@ export class DeviceRegistrationHandler {
         return await this.listDevices(event, corsHeaders);
       } else if (path.startsWith('/devices/') && method === 'DELETE') {
         return await this.deleteDevice(event, corsHeaders);
+      } else if (alertAction && method === 'POST') {
+        return await this.updateAlertAcknowledgement(event, alertAction[1], alertAction[2] as 'ack' | 'snooze', corsHeaders);
       } else {
         return {
           statusCode: 404,
@@ -386,6 +407,117 @@ export class DeviceRegistrationHandler {
     }
   }
 
+  /**
+   * Acknowledge or snooze a sent alert so repeat alerts are suppressed until it escalates
+   */
+  private async updateAlertAcknowledgement(
+    event: APIGatewayEvent,
+    pathAlertId: string,
+    action: 'ack' | 'snooze',
+    headers: { [key: string]: string }
+  ): Promise<APIGatewayResponse> {
+    try {
+      if (!this.alertAcknowledgementStore) {
+        return {
+          statusCode: 503,
+          headers,
+          body: JSON.stringify({ success: false, error: 'Alert acknowledgements are not configured' })
+        };
+      }
+
+      const alertId = decodeURIComponent(event.pathParameters?.alertId || pathAlertId);
+      if (!this.isValidAlertId(alertId)) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ success: false, error: 'Invalid alert ID format' })
+        };
+      }
+
+      const request: AlertAcknowledgementRequest = event.body ? JSON.parse(event.body) : {};
+      const validation = this.validateAlertAcknowledgementRequest(request, action);
+      if (!validation.valid) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ success: false, error: validation.error })
+        };
+      }
+
+      const existingAlert = await this.alertAcknowledgementStore.getAlert(alertId);
+      if (!existingAlert) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ success: false, error: 'Alert not found' })
+        };
+      }
+
+      const updatedAlert = action === 'ack'
+        ? acknowledgeAlert(existingAlert, request.userId)
+        : snoozeAlert(existingAlert, request.durationHours ?? DEFAULT_SNOOZE_HOURS, request.userId);
+
+      await this.alertAcknowledgementStore.saveAlert(updatedAlert);
+
+      const response: AlertAcknowledgementResponse = {
+        success: true,
+        alertId,
+        status: updatedAlert.status,
+        acknowledgedAt: updatedAlert.acknowledgedAt,
+        snoozedUntil: updatedAlert.snoozedUntil
+      };
+
+      console.log(`Alert ${action === 'ack' ? 'acknowledged' : 'snoozed'}:`, alertId);
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify(response)
+      };
+
+    } catch (error) {
+      console.error('Error updating alert acknowledgement:', error);
+
+      const response: AlertAcknowledgementResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Acknowledgement failed'
+      };
+
+      return {
+        statusCode: 500,
+        headers,
+        body: JSON.stringify(response)
+      };
+    }
+  }
+
+  /**
+   * Validate alert acknowledgement or snooze request
+   */
+  private validateAlertAcknowledgementRequest(request: AlertAcknowledgementRequest, action: 'ack' | 'snooze'): { valid: boolean; error?: string } {
+    if (request.userId !== undefined && typeof request.userId !== 'string') {
+      return { valid: false, error: 'userId must be a string' };
+    }
+
+    if (request.durationHours !== undefined) {
+      if (action !== 'snooze') {
+        return { valid: false, error: 'durationHours is only supported when snoozing' };
+      }
+      if (typeof request.durationHours !== 'number' || request.durationHours <= 0 || request.durationHours > MAX_SNOOZE_HOURS) {
+        return { valid: false, error: `durationHours must be greater than 0 and at most ${MAX_SNOOZE_HOURS}` };
+      }
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate alert ID format (as generated for customData.alertId)
+   */
+  private isValidAlertId(alertId: string): boolean {
+    return /^[A-Za-z0-9._:-]{1,128}$/.test(alertId);
+  }
+
   /**
    * Validate device registration request
    */
@@ -1,5 +1,14 @@
 import { SpendMonitorAgent } from './agent';
-import { SpendMonitorConfig, iOSPushConfig, BedrockCostInsightsConfig } from './types';
+import { SpendMonitorConfig, iOSPushConfig, BedrockConfig, AlertStateConfig, ThresholdTier, ForecastAlertConfig, ForecastConfig, ForecastMethod, CostGrouping, ScopedBudget, CostMetric, CostMetricConfig, SpikeDetectionConfig, SpikeDetectionMethod, CostHistoryConfig, WebhookConfig, IncidentConfig, IncidentProvider, EmailReportConfig, AlertRoutingRule, QuietHoursConfig, AlertChannel, SpendDigestConfig, SpendDigestFrequency, LocalizationConfig, AlertLocale, AlertTemplateConfig, ChannelTopicConfig } from './types';
+import { parseThresholdTiers } from './utils/threshold-tiers';
+import { parseAlertRoutingRules } from './utils/alert-routing';
+import { NOTIFICATION_DIGEST_ACTION, parseQuietHoursConfig } from './utils/quiet-hours';
+import { SPEND_DIGEST_ACTION } from './utils/spend-digest';
+import { parseLocaleAssignments } from './utils/localization';
+import { parseAlertTemplates } from './utils/alert-templates';
+import { parseCostGroupings, parseScopedBudgets } from './utils/cost-groupings';
+import { parseCostMetrics } from './utils/cost-metrics';
+import { parseBedrockModelPricing } from './utils/bedrock-models';
 import { createDefaultConfig } from './validation';
 
 /**
@@ -31,6 +40,15 @@ export const handler = async (event: any, context: any) => {
       region: config.region,
       checkPeriodDays: config.checkPeriodDays,
       iosEnabled: !!config.iosConfig,
+      slackEnabled: !!config.webhookConfig?.slackWebhookUrl,
+      teamsEnabled: !!config.webhookConfig?.teamsWebhookUrl,
+      webhookEndpoints: config.webhookConfig?.urls?.length ?? 0,
+      incidentProvider: config.incidentConfig?.provider,
+      emailReportsEnabled: !!config.emailReportConfig,
+      quietHoursEnabled: !!config.quietHoursConfig,
+      spendDigest: config.spendDigestConfig?.frequency,
+      alertLocale: config.localizationConfig?.defaultLocale,
+      alertTemplatesEnabled: !!config.alertTemplateConfig,
       retryAttempts: config.retryAttempts
     });
 
@@ -39,6 +57,41 @@ export const handler = async (event: any, context: any) => {
     await agent.initialize();
     
     console.log('Agent initialized successfully');
+
+    // Scheduled at the end of quiet hours: only deliver the held notifications
+    if (event?.action === NOTIFICATION_DIGEST_ACTION) {
+      const delivered = await agent.deliverNotificationDigests();
+
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          success: true,
+          message: 'Notification digests delivered',
+          executionId,
+          executionTime: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+          delivered
+        })
+      };
+    }
+
+    // Separate schedule: summarise spend regardless of thresholds
+    if (event?.action === SPEND_DIGEST_ACTION) {
+      const digest = await agent.sendSpendDigest();
+
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          success: true,
+          message: 'Spend digest sent',
+          executionId,
+          executionTime: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+          frequency: digest.frequency,
+          spendToDate: digest.spendToDate
+        })
+      };
+    }
     
     // Perform health check before execution
     const healthCheck = await agent.healthCheck();
@@ -104,7 +157,7 @@ function loadConfiguration(): SpendMonitorConfig {
 
     // Load iOS configuration if provided
     let iosConfig: iOSPushConfig | undefined;
-    let bedrockConfig: BedrockCostInsightsConfig | undefined;
+    let bedrockConfig: BedrockConfig | undefined;
     
     if (process.env.IOS_PLATFORM_APP_ARN) {
       console.log('iOS push notifications enabled - loading APNS configuration');
@@ -126,35 +179,314 @@ function loadConfiguration(): SpendMonitorConfig {
       });
     }
 
+    let webhookConfig: WebhookConfig | undefined;
+
+    if (process.env.SLACK_WEBHOOK_URL || process.env.TEAMS_WEBHOOK_URL || process.env.WEBHOOK_URLS) {
+      webhookConfig = {
+        slackWebhookUrl: process.env.SLACK_WEBHOOK_URL || undefined,
+        teamsWebhookUrl: process.env.TEAMS_WEBHOOK_URL || undefined,
+        urls: parseOptionalList(process.env.WEBHOOK_URLS),
+        signingSecret: process.env.WEBHOOK_SIGNING_SECRET || undefined,
+        timeoutMs: parseOptionalNumber(process.env.WEBHOOK_TIMEOUT_MS)
+      };
+
+      // Webhook URLs embed credentials, so only log which channels are enabled
+      console.log('Webhook channels enabled:', {
+        slack: !!webhookConfig.slackWebhookUrl,
+        teams: !!webhookConfig.teamsWebhookUrl,
+        webhookEndpoints: webhookConfig.urls?.length ?? 0
+      });
+    }
+
+    let channelTopicArns: ChannelTopicConfig | undefined;
+
+    if (process.env.EMAIL_TOPIC_ARN || process.env.SMS_TOPIC_ARN || process.env.IOS_TOPIC_ARN) {
+      channelTopicArns = {
+        email: process.env.EMAIL_TOPIC_ARN || undefined,
+        sms: process.env.SMS_TOPIC_ARN || undefined,
+        ios: process.env.IOS_TOPIC_ARN || undefined
+      };
+      console.log('Channel topics loaded:', channelTopicArns);
+    }
+
+    let incidentConfig: IncidentConfig | undefined;
+
+    if (process.env.INCIDENT_PROVIDER) {
+      incidentConfig = {
+        provider: process.env.INCIDENT_PROVIDER as IncidentProvider,
+        routingKey: process.env.PAGERDUTY_ROUTING_KEY || undefined,
+        apiKey: process.env.OPSGENIE_API_KEY || undefined,
+        apiUrl: process.env.INCIDENT_API_URL || undefined,
+        timeoutMs: parseOptionalNumber(process.env.INCIDENT_TIMEOUT_MS)
+      };
+      console.log('Incident integration enabled:', { provider: incidentConfig.provider });
+    }
+
+    let emailReportConfig: EmailReportConfig | undefined;
+
+    if (process.env.EMAIL_FROM_ADDRESS) {
+      const recipientsByLevel = {
+        PROJECTED: parseOptionalList(process.env.EMAIL_RECIPIENTS_PROJECTED),
+        WARNING: parseOptionalList(process.env.EMAIL_RECIPIENTS_WARNING),
+        CRITICAL: parseOptionalList(process.env.EMAIL_RECIPIENTS_CRITICAL)
+      };
+
+      emailReportConfig = {
+        fromAddress: process.env.EMAIL_FROM_ADDRESS,
+        recipients: parseOptionalList(process.env.EMAIL_RECIPIENTS) ?? [],
+        recipientsByLevel: Object.values(recipientsByLevel).some(recipients => recipients) ? recipientsByLevel : undefined,
+        templatePath: process.env.EMAIL_TEMPLATE_PATH || undefined,
+        configurationSetName: process.env.SES_CONFIGURATION_SET || undefined,
+        sparklineDays: parseOptionalNumber(process.env.EMAIL_SPARKLINE_DAYS)
+      };
+
+      console.log('Email reports enabled:', {
+        fromAddress: emailReportConfig.fromAddress,
+        recipients: emailReportConfig.recipients.length,
+        hasTemplateOverride: !!emailReportConfig.templatePath
+      });
+    }
+
     if (process.env.BEDROCK_MODEL_ID) {
       console.log('Bedrock cost insights enabled - loading configuration');
       bedrockConfig = {
+        enabled: process.env.BEDROCK_ENABLED !== 'false',
         modelId: process.env.BEDROCK_MODEL_ID,
-        region: process.env.BEDROCK_REGION,
-        maxOutputTokens: parseOptionalNumber(process.env.BEDROCK_MAX_TOKENS),
-        temperature: parseOptionalFloatInRange(process.env.BEDROCK_TEMPERATURE),
-        topP: parseOptionalFloatInRange(process.env.BEDROCK_TOP_P)
+        region: process.env.BEDROCK_REGION || process.env.AWS_REGION || 'us-east-1',
+        maxTokens: parseOptionalNumber(process.env.BEDROCK_MAX_TOKENS) ?? 1000,
+        temperature: parseOptionalFloatInRange(process.env.BEDROCK_TEMPERATURE) ?? 0.1,
+        topP: parseOptionalFloatInRange(process.env.BEDROCK_TOP_P),
+        costThreshold: parseOptionalNumber(process.env.BEDROCK_COST_THRESHOLD) ?? 50,
+        rateLimitPerMinute: parseOptionalNumber(process.env.BEDROCK_RATE_LIMIT_PER_MINUTE) ?? 10,
+        cacheResults: true,
+        cacheTTLMinutes: parseOptionalNumber(process.env.BEDROCK_CACHE_TTL_MINUTES) ?? 60,
+        fallbackOnError: true,
+        maxRepairAttempts: parseOptionalNumber(process.env.BEDROCK_MAX_REPAIR_ATTEMPTS),
+        repairBudget: parseOptionalNumber(process.env.BEDROCK_REPAIR_BUDGET),
+        cacheTableName: process.env.BEDROCK_CACHE_TABLE_NAME || undefined,
+        spendLedgerTableName: process.env.BEDROCK_SPEND_LEDGER_TABLE_NAME || undefined,
+        modelPricing: process.env.BEDROCK_MODEL_PRICING ? parseBedrockModelPricing(process.env.BEDROCK_MODEL_PRICING) : undefined
       };
 
       console.log('Bedrock configuration loaded:', {
+        enabled: bedrockConfig.enabled,
         modelId: bedrockConfig.modelId,
-        region: bedrockConfig.region || process.env.AWS_REGION || 'us-east-1',
-        maxOutputTokens: bedrockConfig.maxOutputTokens,
+        region: bedrockConfig.region,
+        maxTokens: bedrockConfig.maxTokens,
         temperature: bedrockConfig.temperature,
-        topP: bedrockConfig.topP
+        topP: bedrockConfig.topP,
+        maxRepairAttempts: bedrockConfig.maxRepairAttempts,
+        repairBudget: bedrockConfig.repairBudget,
+        cacheTableName: bedrockConfig.cacheTableName,
+        spendLedgerTableName: bedrockConfig.spendLedgerTableName,
+        pricedModelPrefixes: bedrockConfig.modelPricing ? Object.keys(bedrockConfig.modelPricing) : undefined
+      });
+    }
+
+    let alertStateConfig: AlertStateConfig | undefined;
+
+    if (process.env.ALERT_STATE_TABLE_NAME || process.env.ALERT_ACKNOWLEDGEMENT_TABLE_NAME || process.env.ALERT_COOLDOWN_HOURS || process.env.ALERT_NOTIFY_ON_RESOLVE) {
+      alertStateConfig = {
+        tableName: process.env.ALERT_STATE_TABLE_NAME || undefined,
+        acknowledgementTableName: process.env.ALERT_ACKNOWLEDGEMENT_TABLE_NAME || undefined,
+        cooldownHours: parseOptionalNumber(process.env.ALERT_COOLDOWN_HOURS),
+        notifyOnResolve: process.env.ALERT_NOTIFY_ON_RESOLVE === 'true'
+      };
+
+      console.log('Alert state configuration loaded:', alertStateConfig);
+    }
+
+    let thresholdTiers: ThresholdTier[] | undefined;
+
+    if (process.env.THRESHOLD_TIERS) {
+      thresholdTiers = parseThresholdTiers(process.env.THRESHOLD_TIERS);
+
+      console.log('Threshold tiers loaded:', thresholdTiers.map(tier => ({
+        name: tier.name,
+        percentOfBudget: tier.percentOfBudget,
+        severity: tier.severity,
+        channels: tier.channels
+      })));
+    }
+
+    let quietHoursConfig: QuietHoursConfig | undefined;
+
+    if (process.env.QUIET_HOURS) {
+      quietHoursConfig = parseQuietHoursConfig(process.env.QUIET_HOURS, process.env.DEFERRED_NOTIFICATION_QUEUE_URL);
+
+      console.log('Quiet hours loaded:', quietHoursConfig);
+    }
+
+    let spendDigestConfig: SpendDigestConfig | undefined;
+
+    if (process.env.SPEND_DIGEST_FREQUENCY) {
+      spendDigestConfig = {
+        frequency: process.env.SPEND_DIGEST_FREQUENCY as SpendDigestFrequency,
+        channels: parseOptionalList(process.env.SPEND_DIGEST_CHANNELS) as AlertChannel[] | undefined,
+        topMoverCount: parseOptionalNumber(process.env.SPEND_DIGEST_TOP_MOVERS)
+      };
+
+      console.log('Spend digest enabled:', spendDigestConfig);
+    }
+
+    let localizationConfig: LocalizationConfig | undefined;
+
+    if (process.env.ALERT_LOCALE || process.env.ALERT_CHANNEL_LOCALES || process.env.ALERT_RECIPIENT_LOCALES) {
+      localizationConfig = {
+        defaultLocale: (process.env.ALERT_LOCALE || undefined) as AlertLocale | undefined,
+        channelLocales: process.env.ALERT_CHANNEL_LOCALES ? parseLocaleAssignments(process.env.ALERT_CHANNEL_LOCALES) : undefined,
+        recipientLocales: process.env.ALERT_RECIPIENT_LOCALES ? parseLocaleAssignments(process.env.ALERT_RECIPIENT_LOCALES) : undefined
+      };
+
+      console.log('Alert localization loaded:', localizationConfig);
+    }
+
+    let alertTemplateConfig: AlertTemplateConfig | undefined;
+
+    if (process.env.ALERT_TEMPLATES || process.env.ALERT_TEMPLATE_SOURCE) {
+      alertTemplateConfig = {
+        templates: process.env.ALERT_TEMPLATES ? parseAlertTemplates(process.env.ALERT_TEMPLATES) : undefined,
+        source: process.env.ALERT_TEMPLATE_SOURCE || undefined
+      };
+
+      console.log('Alert templates loaded:', {
+        templates: Object.keys(alertTemplateConfig.templates ?? {}),
+        source: alertTemplateConfig.source
       });
     }
 
+    let alertRoutingRules: AlertRoutingRule[] | undefined;
+
+    if (process.env.ALERT_ROUTING_RULES) {
+      alertRoutingRules = parseAlertRoutingRules(process.env.ALERT_ROUTING_RULES);
+
+      console.log('Alert routing rules loaded:', alertRoutingRules.map(rule => ({
+        name: rule.name,
+        alertLevels: rule.alertLevels,
+        channels: rule.channels
+      })));
+    }
+
+    let serviceBudgets: { [service: string]: number } | undefined;
+
+    if (process.env.SERVICE_BUDGETS) {
+      try {
+        serviceBudgets = JSON.parse(process.env.SERVICE_BUDGETS);
+      } catch (error) {
+        throw new Error(`Invalid service budgets JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      console.log('Service budgets loaded:', serviceBudgets);
+    }
+
+    let costGroupings: CostGrouping[] | undefined;
+
+    if (process.env.COST_GROUPINGS) {
+      costGroupings = parseCostGroupings(process.env.COST_GROUPINGS);
+
+      console.log('Cost groupings loaded:', costGroupings);
+    }
+
+    let scopedBudgets: ScopedBudget[] | undefined;
+
+    if (process.env.SCOPED_BUDGETS) {
+      scopedBudgets = parseScopedBudgets(process.env.SCOPED_BUDGETS);
+
+      console.log('Scoped budgets loaded:', scopedBudgets.map(scopedBudget => ({
+        grouping: scopedBudget.grouping,
+        value: scopedBudget.value,
+        budget: scopedBudget.budget
+      })));
+    }
+
+    let forecastAlertConfig: ForecastAlertConfig | undefined;
+
+    if (process.env.FORECAST_ALERTS_ENABLED === 'true') {
+      forecastAlertConfig = {
+        enabled: true,
+        minDaysElapsed: parseOptionalNumber(process.env.FORECAST_MIN_DAYS_ELAPSED) ?? 3
+      };
+
+      console.log('Forecast alerting enabled:', forecastAlertConfig);
+    }
+
+    let forecastConfig: ForecastConfig | undefined;
+
+    if (process.env.FORECAST_METHOD) {
+      forecastConfig = {
+        method: process.env.FORECAST_METHOD as ForecastMethod,
+        lookbackDays: parseOptionalNumber(process.env.FORECAST_LOOKBACK_DAYS),
+        confidenceLevel: parseOptionalNumber(process.env.FORECAST_CONFIDENCE_LEVEL)
+      };
+
+      console.log('Forecast configuration loaded:', forecastConfig);
+    }
+
+    let spikeDetectionConfig: SpikeDetectionConfig | undefined;
+
+    if (process.env.SPIKE_DETECTION_ENABLED === 'true') {
+      spikeDetectionConfig = {
+        enabled: true,
+        lookbackDays: parseOptionalNumber(process.env.SPIKE_LOOKBACK_DAYS) ?? 14,
+        method: (process.env.SPIKE_METHOD || undefined) as SpikeDetectionMethod | undefined,
+        threshold: parseOptionalNumber(process.env.SPIKE_THRESHOLD),
+        minDailyCost: parseOptionalNumber(process.env.SPIKE_MIN_DAILY_COST)
+      };
+
+      console.log('Spike detection enabled:', spikeDetectionConfig);
+    }
+
+    let costMetricConfig: CostMetricConfig | undefined;
+
+    if (process.env.COST_METRIC || process.env.COST_COMPARISON_METRICS) {
+      costMetricConfig = {
+        metric: (process.env.COST_METRIC || 'BlendedCost') as CostMetric,
+        comparisonMetrics: process.env.COST_COMPARISON_METRICS ? parseCostMetrics(process.env.COST_COMPARISON_METRICS) : undefined
+      };
+
+      console.log('Cost metric configuration loaded:', costMetricConfig);
+    }
+
+    let costHistoryConfig: CostHistoryConfig | undefined;
+
+    if (process.env.COST_HISTORY_TABLE_NAME || process.env.COST_HISTORY_FILE) {
+      costHistoryConfig = {
+        tableName: process.env.COST_HISTORY_TABLE_NAME || undefined,
+        filePath: process.env.COST_HISTORY_FILE || undefined
+      };
+
+      console.log('Cost history configuration loaded:', costHistoryConfig);
+    }
+
     // Create configuration with validation
     const config = createDefaultConfig({
       spendThreshold: parseFloat(process.env.SPEND_THRESHOLD || '10'),
       snsTopicArn: process.env.SNS_TOPIC_ARN || '',
+      channelTopicArns,
       checkPeriodDays: parseInt(process.env.CHECK_PERIOD_DAYS || '1'),
       region: process.env.AWS_REGION || 'us-east-1',
       retryAttempts: parseInt(process.env.RETRY_ATTEMPTS || '3'),
       minServiceCostThreshold: parseFloat(process.env.MIN_SERVICE_COST_THRESHOLD || '1'),
       iosConfig,
-      bedrockConfig
+      webhookConfig,
+      incidentConfig,
+      emailReportConfig,
+      quietHoursConfig,
+      spendDigestConfig,
+      localizationConfig,
+      alertTemplateConfig,
+      bedrockConfig,
+      alertStateConfig,
+      thresholdTiers,
+      alertRoutingRules,
+      serviceBudgets,
+      scopedBudgets,
+      costGroupings,
+      forecastAlertConfig,
+      forecastConfig,
+      costMetricConfig,
+      spikeDetectionConfig,
+      costHistoryConfig
     });
 
     console.log('Configuration validation completed');
@@ -175,6 +507,15 @@ function parseOptionalNumber(value?: string): number | undefined {
   return Number.isFinite(parsed) ? parsed : undefined;
 }
 
+function parseOptionalList(value?: string): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const items = value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
 function parseOptionalFloatInRange(value?: string): number | undefined {
   const parsed = parseOptionalNumber(value);
   if (parsed === undefined) {
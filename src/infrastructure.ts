@@ -6,10 +6,14 @@ import * as sns from 'aws-cdk-lib/aws-sns';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as logs from 'aws-cdk-lib/aws-logs';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import * as scheduler from 'aws-cdk-lib/aws-scheduler';
 import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
 import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import { Construct } from 'constructs';
+import { parseS3Uri } from './utils/alert-templates';
+import { getBaseModelId, getBedrockModelResourceArns } from './utils/bedrock-models';
 
 export class SpendMonitorStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props?: cdk.StackProps) {
@@ -28,6 +32,18 @@ export class SpendMonitorStack extends cdk.Stack {
       topicName: 'aws-spend-alerts'
     });
 
+    // SMS and iOS push get their own topics so tier, routing rule and quiet hours channel
+    // selection decides which subscribers are notified; email subscribes to the alert topic
+    const smsAlertTopic = new sns.Topic(this, 'SpendAlertSmsTopic', {
+      displayName: 'AWS Spend Monitor SMS Alerts',
+      topicName: 'aws-spend-alerts-sms'
+    });
+
+    const iosAlertTopic = new sns.Topic(this, 'SpendAlertIosTopic', {
+      displayName: 'AWS Spend Monitor iOS Push Alerts',
+      topicName: 'aws-spend-alerts-ios'
+    });
+
     // SNS Platform Application for APNS (iOS push notifications) - optional
     let iosPlatformApp: cdk.CfnResource | undefined;
     const apnsCertificate = this.node.tryGetContext('apnsCertificate');
@@ -61,15 +77,67 @@ export class SpendMonitorStack extends cdk.Stack {
       }
     });
 
+    // DynamoDB table tracking the last alert sent per scope and billing period
+    const alertStateTable = new dynamodb.Table(this, 'AlertStateTable', {
+      tableName: 'spend-monitor-alert-state',
+      partitionKey: {
+        name: 'scope',
+        type: dynamodb.AttributeType.STRING
+      },
+      sortKey: {
+        name: 'billingPeriod',
+        type: dynamodb.AttributeType.STRING
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
+    // DynamoDB table recording sent alerts and their acknowledgement or snooze state
+    const alertAcknowledgementTable = new dynamodb.Table(this, 'AlertAcknowledgementTable', {
+      tableName: 'spend-monitor-alert-acknowledgements',
+      partitionKey: {
+        name: 'alertId',
+        type: dynamodb.AttributeType.STRING
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'expiresAt'
+    });
+
+    // DynamoDB table storing a daily cost snapshot per billing period for month-over-month comparisons
+    const costHistoryTable = new dynamodb.Table(this, 'CostHistoryTable', {
+      tableName: 'spend-monitor-cost-history',
+      partitionKey: {
+        name: 'billingPeriod',
+        type: dynamodb.AttributeType.STRING
+      },
+      sortKey: {
+        name: 'snapshotDate',
+        type: dynamodb.AttributeType.STRING
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY
+    });
+
     const stackRegion = cdk.Stack.of(this).region;
     const bedrockModelId = this.node.tryGetContext('bedrockModelId');
     const bedrockRegion = this.node.tryGetContext('bedrockRegion') || stackRegion;
+    const emailFromAddress = this.node.tryGetContext('emailFromAddress');
     const bedrockMaxTokens = this.node.tryGetContext('bedrockMaxTokens');
     const bedrockTemperature = this.node.tryGetContext('bedrockTemperature');
     const bedrockTopP = this.node.tryGetContext('bedrockTopP');
+    const thresholdTiers = this.node.tryGetContext('thresholdTiers');
+    const alertRoutingRules = this.node.tryGetContext('alertRoutingRules');
+    const serviceBudgets = this.node.tryGetContext('serviceBudgets');
+    const scopedBudgets = this.node.tryGetContext('scopedBudgets');
+    const costGroupings = this.node.tryGetContext('costGroupings');
+    const alertTemplates = this.node.tryGetContext('alertTemplates');
+    const alertTemplateSource: string | undefined = this.node.tryGetContext('alertTemplateSource');
 
     const lambdaEnvironment: { [key: string]: string } = {
       SNS_TOPIC_ARN: alertTopic.topicArn,
+      SMS_TOPIC_ARN: smsAlertTopic.topicArn,
+      IOS_TOPIC_ARN: iosAlertTopic.topicArn,
       SPEND_THRESHOLD: this.node.tryGetContext('spendThreshold') || '10',
       CHECK_PERIOD_DAYS: this.node.tryGetContext('checkPeriodDays') || '1',
       RETRY_ATTEMPTS: this.node.tryGetContext('retryAttempts') || '3',
@@ -78,6 +146,47 @@ export class SpendMonitorStack extends cdk.Stack {
       IOS_BUNDLE_ID: this.node.tryGetContext('iosBundleId') || 'com.example.spendmonitor',
       APNS_SANDBOX: this.node.tryGetContext('apnsSandbox') || 'true',
       DEVICE_TOKEN_TABLE_NAME: deviceTokenTable.tableName,
+      ALERT_STATE_TABLE_NAME: alertStateTable.tableName,
+      ALERT_ACKNOWLEDGEMENT_TABLE_NAME: alertAcknowledgementTable.tableName,
+      COST_HISTORY_TABLE_NAME: costHistoryTable.tableName,
+      ALERT_COOLDOWN_HOURS: this.node.tryGetContext('alertCooldownHours') || '',
+      ALERT_NOTIFY_ON_RESOLVE: this.node.tryGetContext('alertNotifyOnResolve') || 'true',
+      FORECAST_ALERTS_ENABLED: this.node.tryGetContext('forecastAlertsEnabled') || 'false',
+      FORECAST_MIN_DAYS_ELAPSED: this.node.tryGetContext('forecastMinDaysElapsed') || '3',
+      FORECAST_METHOD: this.node.tryGetContext('forecastMethod') || 'linear',
+      FORECAST_LOOKBACK_DAYS: this.node.tryGetContext('forecastLookbackDays') || '',
+      FORECAST_CONFIDENCE_LEVEL: this.node.tryGetContext('forecastConfidenceLevel') || '',
+      COST_METRIC: this.node.tryGetContext('costMetric') || 'BlendedCost',
+      COST_COMPARISON_METRICS: this.node.tryGetContext('costComparisonMetrics') || '',
+      SPIKE_DETECTION_ENABLED: this.node.tryGetContext('spikeDetectionEnabled') || 'false',
+      SPIKE_LOOKBACK_DAYS: this.node.tryGetContext('spikeLookbackDays') || '14',
+      SPIKE_METHOD: this.node.tryGetContext('spikeMethod') || 'mad',
+      SPIKE_THRESHOLD: this.node.tryGetContext('spikeThreshold') || '',
+      SPIKE_MIN_DAILY_COST: this.node.tryGetContext('spikeMinDailyCost') || '',
+      SLACK_WEBHOOK_URL: this.node.tryGetContext('slackWebhookUrl') || '',
+      TEAMS_WEBHOOK_URL: this.node.tryGetContext('teamsWebhookUrl') || '',
+      WEBHOOK_URLS: this.node.tryGetContext('webhookUrls') || '',
+      WEBHOOK_SIGNING_SECRET: this.node.tryGetContext('webhookSigningSecret') || '',
+      WEBHOOK_TIMEOUT_MS: this.node.tryGetContext('webhookTimeoutMs') || '',
+      INCIDENT_PROVIDER: this.node.tryGetContext('incidentProvider') || '',
+      PAGERDUTY_ROUTING_KEY: this.node.tryGetContext('pagerDutyRoutingKey') || '',
+      OPSGENIE_API_KEY: this.node.tryGetContext('opsgenieApiKey') || '',
+      INCIDENT_API_URL: this.node.tryGetContext('incidentApiUrl') || '',
+      EMAIL_FROM_ADDRESS: emailFromAddress || '',
+      EMAIL_RECIPIENTS: this.node.tryGetContext('emailRecipients') || '',
+      EMAIL_RECIPIENTS_CRITICAL: this.node.tryGetContext('emailRecipientsCritical') || '',
+      EMAIL_TEMPLATE_PATH: this.node.tryGetContext('emailTemplatePath') || '',
+      SES_CONFIGURATION_SET: this.node.tryGetContext('sesConfigurationSet') || '',
+      ALERT_LOCALE: this.node.tryGetContext('alertLocale') || '',
+      ALERT_CHANNEL_LOCALES: this.node.tryGetContext('alertChannelLocales') || '',
+      ALERT_RECIPIENT_LOCALES: this.node.tryGetContext('alertRecipientLocales') || '',
+      ALERT_TEMPLATES: typeof alertTemplates === 'string' ? alertTemplates : alertTemplates ? JSON.stringify(alertTemplates) : '',
+      ALERT_TEMPLATE_SOURCE: alertTemplateSource || '',
+      THRESHOLD_TIERS: typeof thresholdTiers === 'string' ? thresholdTiers : thresholdTiers ? JSON.stringify(thresholdTiers) : '',
+      ALERT_ROUTING_RULES: typeof alertRoutingRules === 'string' ? alertRoutingRules : alertRoutingRules ? JSON.stringify(alertRoutingRules) : '',
+      SERVICE_BUDGETS: typeof serviceBudgets === 'string' ? serviceBudgets : serviceBudgets ? JSON.stringify(serviceBudgets) : '',
+      SCOPED_BUDGETS: typeof scopedBudgets === 'string' ? scopedBudgets : scopedBudgets ? JSON.stringify(scopedBudgets) : '',
+      COST_GROUPINGS: typeof costGroupings === 'string' ? costGroupings : costGroupings ? JSON.stringify(costGroupings) : '',
       BEDROCK_MODEL_ID: bedrockModelId || '',
       BEDROCK_REGION: bedrockRegion || '',
       BEDROCK_MAX_TOKENS: bedrockMaxTokens || '',
@@ -101,6 +210,7 @@ export class SpendMonitorStack extends cdk.Stack {
       effect: iam.Effect.ALLOW,
       actions: [
         'ce:GetCostAndUsage',
+        'ce:GetCostForecast',
         'ce:GetUsageReport',
         'ce:GetDimensionValues',
         'ce:GetReservationCoverage',
@@ -115,26 +225,34 @@ export class SpendMonitorStack extends cdk.Stack {
     const bedrockModelId = this.node.tryGetContext('bedrockModelId') || 'amazon.titan-text-express-v1';
     const bedrockRegion = this.node.tryGetContext('bedrockRegion') || this.region;
     const bedrockCostThreshold = this.node.tryGetContext('bedrockCostThreshold') || '50';
+    let aiCacheTable: dynamodb.Table | undefined;
+    let bedrockSpendLedgerTable: dynamodb.Table | undefined;
 
     if (bedrockEnabled) {
-      // Bedrock InvokeModel permissions with least-privilege access to specific Titan models
+      // Bedrock InvokeModel permissions (also used by the Converse API) limited to the Titan models and the configured
+      // model; an inference profile ID also needs its base model in the regions the profile routes to
+      const analysisModelIds = Array.from(new Set([
+        'amazon.titan-text-express-v1',
+        'amazon.titan-text-lite-v1',
+        'amazon.titan-embed-text-v1',
+        bedrockModelId
+      ]));
+      const analysisModelArns = analysisModelIds.flatMap(modelId =>
+        getBedrockModelResourceArns(modelId, bedrockRegion, cdk.Stack.of(this).account)
+      );
       agentFunction.addToRolePolicy(new iam.PolicyStatement({
         effect: iam.Effect.ALLOW,
         actions: [
           'bedrock:InvokeModel'
         ],
-        resources: [
-          `arn:aws:bedrock:${bedrockRegion}::foundation-model/amazon.titan-text-express-v1`,
-          `arn:aws:bedrock:${bedrockRegion}::foundation-model/amazon.titan-text-lite-v1`,
-          `arn:aws:bedrock:${bedrockRegion}::foundation-model/amazon.titan-embed-text-v1`
-        ],
+        resources: analysisModelArns,
         conditions: {
-          StringEquals: {
-            'bedrock:ModelId': [
-              'amazon.titan-text-express-v1',
-              'amazon.titan-text-lite-v1',
-              'amazon.titan-embed-text-v1'
-            ]
+          StringLike: {
+            'bedrock:ModelId': Array.from(new Set([
+              ...analysisModelIds,
+              ...analysisModelIds.map(getBaseModelId),
+              ...analysisModelArns
+            ]))
           }
         }
       }));
@@ -172,12 +290,63 @@ export class SpendMonitorStack extends cdk.Stack {
       agentFunction.addEnvironment('BEDROCK_CACHE_TTL_MINUTES', this.node.tryGetContext('bedrockCacheTTL') || '60');
       agentFunction.addEnvironment('BEDROCK_LOG_LEVEL', this.node.tryGetContext('bedrockLogLevel') || 'INFO');
       agentFunction.addEnvironment('BEDROCK_ENABLE_DETAILED_LOGGING', this.node.tryGetContext('bedrockDetailedLogging') || 'true');
+
+      const bedrockMaxRepairAttempts = this.node.tryGetContext('bedrockMaxRepairAttempts');
+      if (bedrockMaxRepairAttempts !== undefined) {
+        agentFunction.addEnvironment('BEDROCK_MAX_REPAIR_ATTEMPTS', String(bedrockMaxRepairAttempts));
+      }
+      const bedrockRepairBudget = this.node.tryGetContext('bedrockRepairBudget');
+      if (bedrockRepairBudget !== undefined) {
+        agentFunction.addEnvironment('BEDROCK_REPAIR_BUDGET', String(bedrockRepairBudget));
+      }
+
+      const bedrockModelPricing = this.node.tryGetContext('bedrockModelPricing');
+      if (bedrockModelPricing) {
+        agentFunction.addEnvironment(
+          'BEDROCK_MODEL_PRICING',
+          typeof bedrockModelPricing === 'string' ? bedrockModelPricing : JSON.stringify(bedrockModelPricing)
+        );
+      }
+
+      // DynamoDB table keeping cached AI results across cold starts; entries expire after the cache TTL
+      aiCacheTable = new dynamodb.Table(this, 'AICacheTable', {
+        tableName: 'spend-monitor-ai-cache',
+        partitionKey: {
+          name: 'cacheKey',
+          type: dynamodb.AttributeType.STRING
+        },
+        billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+        timeToLiveAttribute: 'expiresAt'
+      });
+      aiCacheTable.grantReadWriteData(agentFunction);
+      agentFunction.addEnvironment('BEDROCK_CACHE_TABLE_NAME', aiCacheTable.tableName);
+
+      // Month-to-date Bedrock spend, so the cost threshold holds across invocations
+      bedrockSpendLedgerTable = new dynamodb.Table(this, 'BedrockSpendLedgerTable', {
+        tableName: 'spend-monitor-bedrock-spend',
+        partitionKey: {
+          name: 'month',
+          type: dynamodb.AttributeType.STRING
+        },
+        sortKey: {
+          name: 'entryId',
+          type: dynamodb.AttributeType.STRING
+        },
+        billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+        timeToLiveAttribute: 'expiresAt'
+      });
+      bedrockSpendLedgerTable.grantReadWriteData(agentFunction);
+      agentFunction.addEnvironment('BEDROCK_SPEND_LEDGER_TABLE_NAME', bedrockSpendLedgerTable.tableName);
     } else {
       agentFunction.addEnvironment('BEDROCK_ENABLED', 'false');
     }
 
     // Grant SNS publish permissions
     alertTopic.grantPublish(agentFunction);
+    smsAlertTopic.grantPublish(agentFunction);
+    iosAlertTopic.grantPublish(agentFunction);
 
     // Grant SNS platform application permissions for iOS push notifications (if platform app exists)
     if (iosPlatformApp) {
@@ -199,17 +368,90 @@ export class SpendMonitorStack extends cdk.Stack {
     }
 
     if (bedrockModelId) {
-      const bedrockArn = `arn:aws:bedrock:${bedrockRegion || stackRegion}::foundation-model/${bedrockModelId}`;
       agentFunction.addToRolePolicy(new iam.PolicyStatement({
         effect: iam.Effect.ALLOW,
         actions: ['bedrock:InvokeModel'],
-        resources: [bedrockArn]
+        resources: getBedrockModelResourceArns(bedrockModelId, bedrockRegion || stackRegion, cdk.Stack.of(this).account)
+      }));
+    }
+
+    // Grant SES permissions for HTML email reports
+    if (emailFromAddress) {
+      agentFunction.addToRolePolicy(new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['ses:SendEmail'],
+        resources: [
+          `arn:aws:ses:${stackRegion}:${cdk.Stack.of(this).account}:identity/*`,
+          `arn:aws:ses:${stackRegion}:${cdk.Stack.of(this).account}:configuration-set/*`
+        ]
+      }));
+    }
+
+    // Grant read access to an alert template document kept in S3
+    const alertTemplateLocation = alertTemplateSource ? parseS3Uri(alertTemplateSource) : undefined;
+    if (alertTemplateLocation) {
+      agentFunction.addToRolePolicy(new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:GetObject'],
+        resources: [`arn:aws:s3:::${alertTemplateLocation.bucket}/${alertTemplateLocation.key}`]
       }));
     }
 
+    // Pending-notification queue and digest schedules for SMS / push quiet hours (optional)
+    const quietHoursContext = this.node.tryGetContext('quietHours');
+    if (quietHoursContext) {
+      const quietHours = typeof quietHoursContext === 'string' ? JSON.parse(quietHoursContext) : quietHoursContext;
+      const deferredNotificationQueue = new sqs.Queue(this, 'DeferredNotificationQueue', {
+        queueName: 'spend-monitor-deferred-notifications',
+        retentionPeriod: cdk.Duration.days(4),
+        encryption: sqs.QueueEncryption.SQS_MANAGED
+      });
+      deferredNotificationQueue.grantSendMessages(agentFunction);
+      deferredNotificationQueue.grantConsumeMessages(agentFunction);
+      agentFunction.addEnvironment('QUIET_HOURS', JSON.stringify(quietHours));
+      agentFunction.addEnvironment('DEFERRED_NOTIFICATION_QUEUE_URL', deferredNotificationQueue.queueUrl);
+
+      // One schedule per distinct quiet hours end, evaluated in the channel's own time zone
+      const digestSchedulerRole = new iam.Role(this, 'NotificationDigestSchedulerRole', {
+        assumedBy: new iam.ServicePrincipal('scheduler.amazonaws.com')
+      });
+      agentFunction.grantInvoke(digestSchedulerRole);
+
+      const digestTimes = new Map<string, { end: string; timeZone: string }>();
+      ['sms', 'ios'].forEach(channel => {
+        const window = quietHours[channel];
+        if (window?.end) {
+          const timeZone = window.timeZone || 'UTC';
+          digestTimes.set(`${window.end} ${timeZone}`, { end: window.end, timeZone });
+        }
+      });
+
+      Array.from(digestTimes.values()).forEach(({ end, timeZone }, index) => {
+        const [hour, minute] = end.split(':').map(Number);
+        new scheduler.CfnSchedule(this, `NotificationDigestSchedule${index + 1}`, {
+          description: `Deliver quiet hours notification digests at ${end} ${timeZone}`,
+          scheduleExpression: `cron(${minute} ${hour} * * ? *)`,
+          scheduleExpressionTimezone: timeZone,
+          flexibleTimeWindow: { mode: 'OFF' },
+          target: {
+            arn: agentFunction.functionArn,
+            roleArn: digestSchedulerRole.roleArn,
+            input: JSON.stringify({ action: 'deliver-notification-digest' })
+          }
+        });
+      });
+    }
+
     // Grant DynamoDB permissions for device token management
     deviceTokenTable.grantReadWriteData(agentFunction);
 
+    // Grant DynamoDB permissions for alert deduplication state
+    alertStateTable.grantReadWriteData(agentFunction);
+    alertAcknowledgementTable.grantReadWriteData(agentFunction);
+
+    // Grant DynamoDB permissions for cost snapshots
+    costHistoryTable.grantReadWriteData(agentFunction);
+
     // Device Registration API Lambda Function
     const deviceRegistrationFunction = new lambda.Function(this, 'DeviceRegistrationFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
@@ -220,12 +462,14 @@ export class SpendMonitorStack extends cdk.Stack {
       environment: {
         IOS_PLATFORM_APP_ARN: iosPlatformApp?.ref || '',
         DEVICE_TOKEN_TABLE_NAME: deviceTokenTable.tableName,
+        ALERT_ACKNOWLEDGEMENT_TABLE_NAME: alertAcknowledgementTable.tableName,
         IOS_BUNDLE_ID: this.node.tryGetContext('iosBundleId') || 'com.example.spendmonitor'
       }
     });
 
     // Grant permissions for device registration function
     deviceTokenTable.grantReadWriteData(deviceRegistrationFunction);
+    alertAcknowledgementTable.grantReadWriteData(deviceRegistrationFunction);
 
     // Grant SNS platform application permissions for device registration
     if (iosPlatformApp) {
@@ -332,6 +576,18 @@ export class SpendMonitorStack extends cdk.Stack {
       }
     });
 
+    // POST /alerts/{alertId}/ack and /alerts/{alertId}/snooze - Acknowledge or snooze a sent alert
+    const alertResource = deviceRegistrationApi.root.addResource('alerts').addResource('{alertId}');
+    for (const action of ['ack', 'snooze']) {
+      alertResource.addResource(action).addMethod('POST', deviceRegistrationIntegration, {
+        authorizationType: apigateway.AuthorizationType.NONE,
+        apiKeyRequired: true,
+        requestParameters: {
+          'method.request.path.alertId': true
+        }
+      });
+    }
+
     // API Key for rate limiting and access control
     const apiKey = new apigateway.ApiKey(this, 'DeviceRegistrationApiKey', {
       apiKeyName: 'spend-monitor-device-registration-key',
@@ -426,7 +682,7 @@ export class SpendMonitorStack extends cdk.Stack {
       bedrockValidationFunction.addToRolePolicy(new iam.PolicyStatement({
         effect: iam.Effect.ALLOW,
         actions: ['bedrock:InvokeModel'],
-        resources: [`arn:aws:bedrock:${bedrockRegion}::foundation-model/${bedrockModelId}`]
+        resources: getBedrockModelResourceArns(bedrockModelId, bedrockRegion, cdk.Stack.of(this).account)
       }));
 
       // Create custom resource for validation
@@ -459,6 +715,34 @@ export class SpendMonitorStack extends cdk.Stack {
     // Add Lambda as target
     scheduleRule.addTarget(new targets.LambdaFunction(agentFunction));
 
+    // Separate daily or weekly spend digest, sent regardless of thresholds (optional)
+    const spendDigestFrequency = this.node.tryGetContext('spendDigest');
+    if (spendDigestFrequency) {
+      const digestHour = this.node.tryGetContext('spendDigestHour') || scheduleHour;
+      const isWeekly = spendDigestFrequency === 'weekly';
+      const spendDigestRule = new events.Rule(this, 'SpendDigestSchedule', {
+        schedule: events.Schedule.cron({
+          minute: '0',
+          hour: digestHour,
+          ...(isWeekly ? { weekDay: 'MON' } : { day: '*' }),
+          month: '*',
+          year: '*'
+        }),
+        description: isWeekly
+          ? `Weekly AWS spend digest on Mondays at ${digestHour}:00 UTC`
+          : `Daily AWS spend digest at ${digestHour}:00 UTC`
+      });
+      spendDigestRule.addTarget(new targets.LambdaFunction(agentFunction, {
+        event: events.RuleTargetInput.fromObject({ action: 'send-spend-digest' })
+      }));
+
+      agentFunction.addEnvironment('SPEND_DIGEST_FREQUENCY', spendDigestFrequency);
+      const spendDigestChannels = this.node.tryGetContext('spendDigestChannels');
+      if (spendDigestChannels) {
+        agentFunction.addEnvironment('SPEND_DIGEST_CHANNELS', spendDigestChannels);
+      }
+    }
+
     // Create SNS topic for operational alerts
     const operationalAlertTopic = new sns.Topic(this, 'OperationalAlertTopic', {
       displayName: 'Spend Monitor Operational Alerts',
@@ -1137,6 +1421,16 @@ export class SpendMonitorStack extends cdk.Stack {
       description: 'SNS Topic ARN for spend alerts'
     });
 
+    new cdk.CfnOutput(this, 'SmsTopicArn', {
+      value: smsAlertTopic.topicArn,
+      description: 'SNS Topic ARN for SMS spend alerts'
+    });
+
+    new cdk.CfnOutput(this, 'IosTopicArn', {
+      value: iosAlertTopic.topicArn,
+      description: 'SNS Topic ARN for iOS push spend alerts'
+    });
+
     new cdk.CfnOutput(this, 'AgentFunctionName', {
       value: agentFunction.functionName,
       description: 'Lambda function name for the spend monitor agent'
@@ -1154,6 +1448,21 @@ export class SpendMonitorStack extends cdk.Stack {
       description: 'DynamoDB table name for device token storage'
     });
 
+    new cdk.CfnOutput(this, 'AlertStateTableName', {
+      value: alertStateTable.tableName,
+      description: 'DynamoDB table name for alert deduplication state'
+    });
+
+    new cdk.CfnOutput(this, 'AlertAcknowledgementTableName', {
+      value: alertAcknowledgementTable.tableName,
+      description: 'DynamoDB table name for alert acknowledgements and snoozes'
+    });
+
+    new cdk.CfnOutput(this, 'CostHistoryTableName', {
+      value: costHistoryTable.tableName,
+      description: 'DynamoDB table name for daily cost snapshots'
+    });
+
     new cdk.CfnOutput(this, 'LogGroupName', {
       value: logGroup.logGroupName,
       description: 'CloudWatch Log Group for the spend monitor agent'
@@ -1206,6 +1515,20 @@ export class SpendMonitorStack extends cdk.Stack {
         description: 'Monthly cost threshold for Bedrock usage (USD)'
       });
 
+      if (aiCacheTable) {
+        new cdk.CfnOutput(this, 'AICacheTableName', {
+          value: aiCacheTable.tableName,
+          description: 'DynamoDB table name for cached AI analysis results'
+        });
+      }
+
+      if (bedrockSpendLedgerTable) {
+        new cdk.CfnOutput(this, 'BedrockSpendLedgerTableName', {
+          value: bedrockSpendLedgerTable.tableName,
+          description: 'DynamoDB table name for the Bedrock spend ledger'
+        });
+      }
+
       new cdk.CfnOutput(this, 'BedrockDashboardURL', {
         value: `https://${this.region}.console.aws.amazon.com/cloudwatch/home?region=${this.region}#dashboards:name=${dashboard.dashboardName}`,
         description: 'CloudWatch Dashboard URL with Bedrock metrics'
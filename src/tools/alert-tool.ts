@@ -1,15 +1,91 @@
+import { randomUUID } from 'crypto';
 import { Tool } from 'strands-agents';
 import { SNSClient, PublishCommand, PublishCommandInput } from '@aws-sdk/client-sns';
+import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
 import { 
   CostAnalysis, 
   EnhancedCostAnalysis, 
   AlertContext, 
   ServiceCost, 
   APNSPayload, 
-  RetryConfig
+  RetryConfig,
+  AlertStateRecord,
+  AlertChannel,
+  AlertScope,
+  ChannelTopicConfig,
+  CostComparison,
+  CostComparisons,
+  CostMetric,
+  CostSpike,
+  ThresholdTier,
+  WebhookConfig,
+  IncidentConfig,
+  AlertWebhookDocument,
+  EmailReportConfig,
+  QuietHoursConfig,
+  DeferredNotification,
+  AlertLevel,
+  AlertLocale,
+  LocalizationConfig,
+  AlertTemplateConfig,
+  AlertTemplateData,
+  AlertTemplateName,
+  AlertTemplates,
+  SpendDigest
 } from '../types';
 import { createLogger } from '../utils/logger';
 import { createMetricsCollector } from '../utils/metrics';
+import { getAlertScopeKey, getBillingPeriod, maxAlertLevel } from '../utils/alert-state';
+import { getScopedSpend } from '../utils/cost-groupings';
+import { formatCostMetric } from '../utils/cost-metrics';
+import { ALERT_CHANNELS, DEFAULT_THRESHOLD_TIERS, EMAIL_REPORT_CHANNEL, INCIDENT_CHANNEL, WEBHOOK_CHANNELS, getTierAmount, renderTierMessage, resolveThresholdTier } from '../utils/threshold-tiers';
+import { DEFAULT_WEBHOOK_TIMEOUT_MS, postSignedWebhook, postWebhook } from '../utils/webhooks';
+import { withRetry } from '../utils/retry';
+import { DEFAULT_EMAIL_TEMPLATE, loadEmailTemplate, renderEmailHtml, renderTextSparkline } from '../utils/email-report';
+import { IncidentNotifier, createIncidentNotifier, getIncidentDedupKey } from '../utils/incidents';
+import { DeferredNotificationQueue, QUIET_HOURS_CHANNELS, createDeferredNotificationQueue, getQuietChannels } from '../utils/quiet-hours';
+import { AlertMessageFormatter, MessageKey, resolveLocale } from '../utils/localization';
+import { loadAlertTemplates, renderAlertTemplate } from '../utils/alert-templates';
+import { ALERT_NOTIFICATION_CATEGORY } from '../utils/alert-acknowledgements';
+import { SpendMonitorError } from '../utils/errors';
+
+const GENERAL_RECOMMENDATIONS: MessageKey[] = [
+  'recommendation.review',
+  'recommendation.scaleDown',
+  'recommendation.charges',
+  'recommendation.alarms'
+];
+
+/** English USD formatting used when no formatter is passed */
+const DEFAULT_FORMATTER = new AlertMessageFormatter();
+
+const SLACK_ALERT_COLORS: Record<AlertContext['alertLevel'], string> = {
+  PROJECTED: '#439FE0',
+  WARNING: '#F2C744',
+  CRITICAL: '#D93F0B'
+};
+
+const TEAMS_ALERT_COLORS: Record<AlertContext['alertLevel'], string> = {
+  PROJECTED: 'Accent',
+  WARNING: 'Warning',
+  CRITICAL: 'Attention'
+};
+
+const EMAIL_ALERT_COLORS: Record<AlertContext['alertLevel'], string> = {
+  PROJECTED: '#0366D6',
+  WARNING: '#B08800',
+  CRITICAL: '#CB2431'
+};
+
+const EMAIL_DIGEST_COLOR = '#24292F';
+
+/** Slack rejects section text longer than 3000 characters */
+const SLACK_SECTION_MAX_LENGTH = 3000;
+
+/**
+ * Schema version of the document posted to generic webhooks
+ */
+export const ALERT_WEBHOOK_SCHEMA_VERSION = '1.0';
 
 /**
  * Tool for sending multi-channel alerts via AWS SNS
@@ -19,10 +95,42 @@ export class AlertTool extends Tool {
   private retryConfig: RetryConfig;
   private alertLogger = createLogger('AlertTool');
   private metrics = createMetricsCollector('us-east-1', 'SpendMonitor/Alerts');
-
-  constructor(region: string = 'us-east-1', retryConfig?: Partial<RetryConfig>) {
+  private webhookConfig?: WebhookConfig;
+  private incidentNotifier?: IncidentNotifier;
+  private emailReportConfig?: EmailReportConfig;
+  private sesClient?: SESv2Client;
+  private emailTemplate?: Promise<string>;
+  private quietHoursConfig?: QuietHoursConfig;
+  private deferredNotificationQueue?: DeferredNotificationQueue;
+  private localizationConfig?: LocalizationConfig;
+  private alertTemplateConfig?: AlertTemplateConfig;
+  private alertTemplates?: Promise<AlertTemplates>;
+  private channelTopicArns?: ChannelTopicConfig;
+  private region: string;
+
+  constructor(
+    region: string = 'us-east-1',
+    retryConfig?: Partial<RetryConfig>,
+    webhookConfig?: WebhookConfig,
+    incidentConfig?: IncidentConfig,
+    emailReportConfig?: EmailReportConfig,
+    quietHoursConfig?: QuietHoursConfig,
+    localizationConfig?: LocalizationConfig,
+    alertTemplateConfig?: AlertTemplateConfig,
+    channelTopicArns?: ChannelTopicConfig
+  ) {
     super();
+    this.region = region;
     this.snsClient = new SNSClient({ region });
+    this.webhookConfig = webhookConfig;
+    this.incidentNotifier = incidentConfig ? createIncidentNotifier(incidentConfig) : undefined;
+    this.emailReportConfig = emailReportConfig;
+    this.sesClient = emailReportConfig ? new SESv2Client({ region }) : undefined;
+    this.quietHoursConfig = quietHoursConfig;
+    this.deferredNotificationQueue = quietHoursConfig ? createDeferredNotificationQueue(region, quietHoursConfig) : undefined;
+    this.localizationConfig = localizationConfig;
+    this.alertTemplateConfig = alertTemplateConfig;
+    this.channelTopicArns = channelTopicArns;
     this.metrics = createMetricsCollector(region, 'SpendMonitor/Alerts');
     this.retryConfig = {
       maxAttempts: 3,
@@ -34,135 +142,1462 @@ export class AlertTool extends Tool {
   }
 
   /**
-   * Sends spend alert to all configured notification channels
+   * Sends spend alert to all configured notification channels
+   */
+  async sendSpendAlert(
+    costAnalysis: CostAnalysis | EnhancedCostAnalysis,
+    alertContext: AlertContext,
+    topicArn: string,
+    iosConfig?: { platformApplicationArn: string; bundleId: string }
+  ): Promise<void> {
+    try {
+      const routedChannels = this.getAlertChannels(alertContext);
+      const templates = await this.getAlertTemplates();
+
+      // Non-CRITICAL SMS and push notifications wait for the digest during quiet hours
+      const deferredChannels = await this.deferNotifications(costAnalysis, alertContext, routedChannels, templates, iosConfig);
+      const channels = routedChannels.filter(channel => !deferredChannels.includes(channel));
+
+      // Format messages for different channels, each in its configured locale
+      const emailLocale = this.getChannelLocale('email');
+      const emailSmsMessage = this.formatFromTemplate(templates, 'email', costAnalysis, alertContext, emailLocale)
+        ?? this.formatAlertMessage(costAnalysis, alertContext, emailLocale);
+      const iosPayload = iosConfig && channels.includes('ios') ? this.formatTemplatedIOSPayload(templates, costAnalysis, alertContext, this.getChannelLocale('ios')) : null;
+
+      const messageAttributes: any = {
+        alert_level: { DataType: 'String', StringValue: alertContext.alertLevel }
+      };
+      if (alertContext.tier) {
+        messageAttributes.threshold_tier = { DataType: 'String', StringValue: alertContext.tier.name };
+      }
+      if (alertContext.scope) {
+        messageAttributes.alert_scope = { DataType: 'String', StringValue: getAlertScopeKey(alertContext.scope) };
+      }
+      if (alertContext.routingRule) {
+        messageAttributes.routing_rule = { DataType: 'String', StringValue: alertContext.routingRule.name };
+      }
+
+      // Prepare the message structure for SNS
+      let message: string;
+      let messageStructure: string | undefined;
+
+      if (iosPayload) {
+        // Use message structure for multi-platform delivery
+        messageStructure = 'json';
+        message = JSON.stringify({
+          default: emailSmsMessage,
+          APNS: JSON.stringify(iosPayload),
+          APNS_SANDBOX: JSON.stringify(iosPayload),
+          email: emailSmsMessage,
+          sms: this.formatTemplatedSMS(templates, costAnalysis, alertContext, this.getChannelLocale('sms'))
+        });
+      } else if (this.localizationConfig || templates.sms !== undefined) {
+        // Per-protocol messages so SMS subscribers get the short message in their own locale or template
+        messageStructure = 'json';
+        message = JSON.stringify({
+          default: emailSmsMessage,
+          email: emailSmsMessage,
+          sms: this.formatTemplatedSMS(templates, costAnalysis, alertContext, this.getChannelLocale('sms'))
+        });
+      } else {
+        // Simple message for email/SMS only
+        message = emailSmsMessage;
+      }
+
+      // Only the topics of routed channels are published to; routing rules can target only webhook,
+      // SES or incident channels, leaving SNS subscribers out entirely
+      const subject = this.formatAlertSubject(costAnalysis, alertContext, this.createFormatter(costAnalysis, emailLocale));
+      for (const [channelTopicArn, topicChannels] of this.getChannelTopics(this.getSnsChannels(channels), topicArn)) {
+        const publishInput: PublishCommandInput = {
+          TopicArn: channelTopicArn,
+          Message: message,
+          MessageStructure: messageStructure,
+          Subject: subject,
+          MessageAttributes: {
+            ...messageAttributes,
+            channels: { DataType: 'String.Array', StringValue: JSON.stringify(topicChannels) }
+          }
+        };
+        await this.executeWithRetry(() => this.snsClient.send(new PublishCommand(publishInput)));
+      }
+
+      // A chat template replaces the Slack blocks and Teams card with a plain message
+      const formatChatMessage = (locale: AlertLocale) => {
+        const chatMessage = this.formatFromTemplate(templates, 'chat', costAnalysis, alertContext, locale);
+        return chatMessage !== undefined
+          ? { title: this.formatAlertSubject(costAnalysis, alertContext, this.createFormatter(costAnalysis, locale)), message: chatMessage }
+          : undefined;
+      };
+      await this.sendWebhookAlerts(channels, {
+        slack: () => {
+          const locale = this.getChannelLocale('slack');
+          const chat = formatChatMessage(locale);
+          return chat ? this.formatSlackTextPayload(chat.title, chat.message) : this.formatSlackPayload(costAnalysis, alertContext, locale);
+        },
+        teams: () => {
+          const locale = this.getChannelLocale('teams');
+          const chat = formatChatMessage(locale);
+          return chat ? this.formatTeamsTextPayload(chat.title, chat.message) : this.formatTeamsPayload(costAnalysis, alertContext, locale);
+        }
+      });
+
+      if (channels.includes('webhook')) {
+        await this.sendAlertDocument(this.formatAlertDocument(costAnalysis, alertContext));
+      }
+
+      // The HTML report replaces plain SNS email, and also goes to tiers that only list 'ses'
+      if (channels.includes('email') || channels.includes(EMAIL_REPORT_CHANNEL)) {
+        await this.sendEmailReports(costAnalysis, alertContext);
+      }
+
+      if (channels.includes(INCIDENT_CHANNEL)) {
+        await this.triggerIncident(costAnalysis, alertContext, topicArn);
+      }
+
+      this.alertLogger.info('Spend alert sent successfully', {
+        totalCost: costAnalysis.totalCost,
+        threshold: alertContext.threshold,
+        exceedAmount: alertContext.exceedAmount,
+        alertLevel: alertContext.alertLevel,
+        tier: alertContext.tier?.name,
+        scope: getAlertScopeKey(alertContext.scope),
+        routingRule: alertContext.routingRule?.name,
+        channels,
+        deferredChannels,
+        topServices: alertContext.topServices.length,
+        hasIOSPayload: !!iosPayload
+      });
+
+    } catch (error) {
+      this.alertLogger.error('Failed to send spend alert', error as Error, {
+        topicArn,
+        totalCost: costAnalysis.totalCost,
+        threshold: alertContext.threshold
+      });
+      throw new Error(`Alert delivery failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Sends a notification that spending has dropped back under the threshold
+   */
+  async sendResolvedAlert(
+    costAnalysis: CostAnalysis,
+    threshold: number,
+    previousState: AlertStateRecord,
+    topicArn: string,
+    scope?: AlertScope
+  ): Promise<void> {
+    try {
+      const emailLocale = this.getChannelLocale('email');
+      const subject = this.formatResolvedSubject(costAnalysis, this.createFormatter(costAnalysis, emailLocale), scope);
+      const message = this.formatResolvedMessage(costAnalysis, threshold, previousState, scope, emailLocale);
+
+      for (const channelTopicArn of this.getChannelTopics(ALERT_CHANNELS, topicArn).keys()) {
+        const publishInput: PublishCommandInput = {
+          TopicArn: channelTopicArn,
+          Message: message,
+          Subject: subject
+        };
+        await this.executeWithRetry(() => this.snsClient.send(new PublishCommand(publishInput)));
+      }
+
+      const formatChat = (locale: AlertLocale) => ({
+        title: this.formatResolvedSubject(costAnalysis, this.createFormatter(costAnalysis, locale), scope),
+        message: this.formatResolvedMessage(costAnalysis, threshold, previousState, scope, locale)
+      });
+      await this.sendWebhookAlerts(this.getConfiguredWebhookChannels(), {
+        slack: () => {
+          const chat = formatChat(this.getChannelLocale('slack'));
+          return this.formatSlackTextPayload(chat.title, chat.message);
+        },
+        teams: () => {
+          const chat = formatChat(this.getChannelLocale('teams'));
+          return this.formatTeamsTextPayload(chat.title, chat.message);
+        }
+      });
+
+      this.alertLogger.info('Spend alert resolved notification sent', {
+        totalCost: costAnalysis.totalCost,
+        threshold,
+        scope: previousState.scope,
+        previousAlertLevel: previousState.lastAlertLevel,
+        billingPeriod: previousState.billingPeriod
+      });
+    } catch (error) {
+      this.alertLogger.error('Failed to send resolved notification', error as Error, {
+        topicArn,
+        totalCost: costAnalysis.totalCost,
+        threshold
+      });
+      throw new Error(`Resolved notification delivery failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Formats the resolved notification subject line
+   */
+  private formatResolvedSubject(costAnalysis: CostAnalysis, format: AlertMessageFormatter, scope?: AlertScope): string {
+    if (this.isScoped(scope)) {
+      return format.t('subject.scopedResolved', {
+        budget: this.getBudgetLabel(scope, format),
+        scope: this.formatScopeName(scope, format),
+        amount: format.money(this.getScopedSpend(costAnalysis, scope))
+      });
+    }
+    return format.t('subject.resolved', { amount: format.money(costAnalysis.totalCost) });
+  }
+
+  /**
+   * Formats the resolved notification message
+   */
+  formatResolvedMessage(
+    costAnalysis: CostAnalysis,
+    threshold: number,
+    previousState: AlertStateRecord,
+    scope?: AlertScope,
+    locale?: AlertLocale
+  ): string {
+    const format = this.createFormatter(costAnalysis, locale);
+    const previouslyAlerted = format.t('resolved.previouslyAlerted', {
+      amount: format.money(previousState.lastAlertedCost),
+      level: format.level(previousState.lastAlertLevel)
+    });
+    const footer = [
+      '',
+      format.t('alert.period', { period: this.formatDateRange(costAnalysis.period, format) }),
+      '',
+      format.t('resolved.resolvedAt', { time: format.dateTime(new Date()) })
+    ];
+
+    if (this.isScoped(scope)) {
+      const scopeName = this.formatScopeName(scope, format);
+      return [
+        format.t('resolved.scopedTitle', { budget: this.getBudgetLabel(scope, format) }),
+        '',
+        format.t('resolved.scopedHeadline', { scope: scopeName, budget: this.getBudgetLabel(scope, format, true) }),
+        '',
+        format.t('alert.scopeSpending', { scope: scopeName, amount: format.money(this.getScopedSpend(costAnalysis, scope)) }),
+        format.t('alert.budget', { budget: this.getBudgetLabel(scope, format), amount: format.money(threshold) }),
+        format.t('alert.accountTotal', { amount: format.money(costAnalysis.totalCost) }),
+        previouslyAlerted,
+        ...footer
+      ].join('\n');
+    }
+
+    return [
+      format.t('resolved.title'),
+      '',
+      format.t(previousState.lastAlertLevel === 'PROJECTED' ? 'resolved.projectedHeadline' : 'resolved.headline'),
+      '',
+      format.t('alert.currentSpending', { amount: format.money(costAnalysis.totalCost) }),
+      format.t('alert.projectedMonthly', { amount: format.money(costAnalysis.projectedMonthly), details: '' }),
+      format.t('alert.threshold', { amount: format.money(threshold) }),
+      previouslyAlerted,
+      ...footer
+    ].join('\n');
+  }
+
+  /**
+   * Formats alert message for email and general display with AI insights
+   */
+  formatAlertMessage(costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext, locale?: AlertLocale): string {
+    const format = this.createFormatter(costAnalysis, locale);
+    if (this.isScoped(alertContext.scope)) {
+      return this.formatScopedAlertMessage(costAnalysis, alertContext, alertContext.scope, format);
+    }
+
+    const isProjected = alertContext.alertLevel === 'PROJECTED';
+    const lines = [
+      format.t(isProjected ? 'alert.forecastTitle' : 'alert.title', { level: format.level(alertContext.alertLevel) }),
+      '',
+      this.formatAlertHeadline(costAnalysis, alertContext, format.locale),
+      '',
+      format.t('alert.currentSpending', { amount: format.money(costAnalysis.totalCost) }),
+      format.t('alert.threshold', { amount: format.money(alertContext.threshold) })
+    ];
+
+    if (isProjected) {
+      const projectedOverage = costAnalysis.projectedMonthly - alertContext.threshold;
+      lines.push(format.t('alert.projectedOverage', {
+        amount: format.money(projectedOverage),
+        percent: format.percent((projectedOverage / alertContext.threshold) * 100, 1)
+      }));
+    }
+
+    lines.push(this.formatBudgetStatus(alertContext, format));
+
+    if (alertContext.tier) {
+      lines.push(format.t('alert.thresholdTier', { tier: alertContext.tier.name, percent: format.percent(alertContext.tier.percentOfBudget) }));
+    }
+
+    lines.push(
+      format.t('alert.projectedMonthly', { amount: format.money(costAnalysis.projectedMonthly), details: this.formatForecastDetails(costAnalysis, format) }),
+      ...this.formatCostMetricDetails(costAnalysis, format),
+      '',
+      format.t('alert.period', { period: this.formatDateRange(costAnalysis.period, format) }),
+      ''
+    );
+
+    if (alertContext.topServices.length > 0) {
+      lines.push(format.t('alert.topServices'));
+      alertContext.topServices.forEach((service, index) => {
+        lines.push(`${index + 1}. ${service.serviceName}: ${format.money(service.cost)} (${format.percent(service.percentage, 1)})`);
+      });
+      lines.push('');
+    }
+
+    if (costAnalysis.spikes && costAnalysis.spikes.length > 0) {
+      lines.push(...this.formatCostSpikes(costAnalysis.spikes, format), '');
+    }
+
+    if (costAnalysis.comparisons) {
+      lines.push(...this.formatCostComparisons(costAnalysis.comparisons, format), '');
+    }
+
+    // Add AI insights if available
+    const enhancedAnalysis = costAnalysis as EnhancedCostAnalysis;
+    if (enhancedAnalysis.aiAnalysis || enhancedAnalysis.anomalies || enhancedAnalysis.recommendations) {
+      const aiInsights = this.formatAIInsights(enhancedAnalysis, format.locale);
+      if (aiInsights) {
+        lines.push(aiInsights, '');
+      }
+    }
+
+    lines.push(
+      format.t('alert.recommendations'),
+      ...GENERAL_RECOMMENDATIONS.map(recommendation => `• ${format.t(recommendation)}`),
+      '',
+      format.t('alert.generatedAt', { time: format.dateTime(new Date()) })
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Formats the alert message for a service or grouping exceeding its own budget
+   */
+  private formatScopedAlertMessage(costAnalysis: CostAnalysis, alertContext: AlertContext, scope: AlertScope, format: AlertMessageFormatter): string {
+    const lines = [
+      format.t('alert.scopedTitle', { budget: this.getBudgetLabel(scope, format), level: format.level(alertContext.alertLevel) }),
+      '',
+      this.formatAlertHeadline(costAnalysis, alertContext, format.locale),
+      '',
+      format.t('alert.scopeSpending', { scope: this.formatScopeName(scope, format), amount: format.money(this.getScopedSpend(costAnalysis, scope)) }),
+      format.t('alert.budget', { budget: this.getBudgetLabel(scope, format), amount: format.money(alertContext.threshold) }),
+      this.formatBudgetStatus(alertContext, format)
+    ];
+
+    if (alertContext.tier) {
+      lines.push(format.t('alert.thresholdTier', { tier: alertContext.tier.name, percent: format.percent(alertContext.tier.percentOfBudget) }));
+    }
+
+    lines.push(
+      format.t('alert.accountTotal', { amount: format.money(costAnalysis.totalCost) }),
+      ...this.formatCostMetricDetails(costAnalysis, format),
+      ...this.formatServiceComparison(costAnalysis.comparisons, scope, format),
+      '',
+      format.t('alert.period', { period: this.formatDateRange(costAnalysis.period, format) }),
+      '',
+      format.t('alert.generatedAt', { time: format.dateTime(new Date()) })
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Amount over budget, or the share of the budget used when under it
+   */
+  private formatBudgetStatus(alertContext: AlertContext, format: AlertMessageFormatter): string {
+    return alertContext.exceedAmount >= 0
+      ? format.t('alert.overBudget', { amount: format.money(alertContext.exceedAmount), percent: format.percent(alertContext.percentageOver, 1) })
+      : format.t('alert.budgetUsed', { percent: format.percent(100 + alertContext.percentageOver, 1), amount: format.money(Math.abs(alertContext.exceedAmount)) });
+  }
+
+  /**
+   * Formats the alert headline, using the tier message template when configured
+   */
+  formatAlertHeadline(costAnalysis: CostAnalysis, alertContext: AlertContext, locale?: AlertLocale): string {
+    const format = this.createFormatter(costAnalysis, locale);
+    const tier = alertContext.tier;
+    const scope = alertContext.scope;
+    if (tier?.messageTemplate) {
+      return renderTierMessage(tier.messageTemplate, {
+        tierName: tier.name,
+        percentOfBudget: tier.percentOfBudget,
+        severity: tier.severity,
+        scope: this.isScoped(scope) ? this.formatScopeName(scope, format) : 'account',
+        totalCost: this.getScopedSpend(costAnalysis, scope).toFixed(2),
+        threshold: alertContext.threshold.toFixed(2),
+        tierAmount: getTierAmount(tier, alertContext.threshold).toFixed(2),
+        budgetUsed: (100 + alertContext.percentageOver).toFixed(1),
+        projectedMonthly: costAnalysis.projectedMonthly.toFixed(2)
+      });
+    }
+
+    if (this.isScoped(scope)) {
+      return format.t(tier && tier.percentOfBudget < 100 ? 'headline.scopedPassed' : 'headline.scopedExceeded', {
+        scope: this.formatScopeName(scope, format),
+        percent: tier ? format.percent(tier.percentOfBudget) : '',
+        budget: this.getBudgetLabel(scope, format, true)
+      });
+    }
+
+    if (alertContext.alertLevel === 'PROJECTED') {
+      return format.t('headline.projected');
+    }
+
+    if (tier && tier.percentOfBudget < 100) {
+      return format.t('headline.passed', { percent: format.percent(tier.percentOfBudget) });
+    }
+
+    return format.t('headline.exceeded');
+  }
+
+  /**
+   * Formats the forecast method and confidence interval shown next to the projection
+   */
+  private formatForecastDetails(costAnalysis: CostAnalysis, format: AlertMessageFormatter): string {
+    const forecast = costAnalysis.forecast;
+    if (!forecast || forecast.method === 'linear') {
+      return '';
+    }
+
+    const interval = forecast.confidenceInterval;
+    return interval
+      ? ` (${format.t('forecast.range', {
+        method: forecast.method,
+        level: format.percent(interval.level),
+        lower: format.money(interval.lower),
+        upper: format.money(interval.upper)
+      })})`
+      : ` (${forecast.method})`;
+  }
+
+  /**
+   * Formats day-over-day cost spikes found by statistical spike detection
+   */
+  private formatCostSpikes(spikes: CostSpike[], format: AlertMessageFormatter): string[] {
+    return [
+      format.t('spikes.title'),
+      ...spikes.slice(0, 5).map(spike => {
+        const change = spike.previousDayCost > 0
+          ? format.t('spikes.change', { percent: format.percent(((spike.cost - spike.previousDayCost) / spike.previousDayCost) * 100, 0, true) })
+          : format.t('spikes.newSpend');
+        return format.t('spikes.line', {
+          service: spike.service,
+          date: spike.date,
+          cost: format.money(spike.cost),
+          baseline: format.money(spike.baseline),
+          change,
+          score: format.number(spike.score, 1)
+        });
+      })
+    ];
+  }
+
+  /**
+   * Formats month-over-month and same-day-last-month deltas from stored cost snapshots
+   */
+  private formatCostComparisons(comparisons: CostComparisons, format: AlertMessageFormatter): string[] {
+    const lines = [format.t('comparisons.title')];
+    if (comparisons.sameDayLastMonth) {
+      lines.push(this.formatComparisonLine(format.t('comparisons.sameDay'), comparisons.sameDayLastMonth, format));
+    }
+    if (comparisons.monthOverMonth) {
+      lines.push(this.formatComparisonLine(format.t('comparisons.lastMonth'), comparisons.monthOverMonth, format));
+    }
+
+    // Per-service changes prefer the like-for-like same-day comparison
+    const reference = comparisons.sameDayLastMonth || comparisons.monthOverMonth;
+    const serviceChanges = (reference?.services || [])
+      .filter(service => service.delta !== 0)
+      .slice(0, 5);
+    lines.push(...serviceChanges.map(service => format.t('comparisons.service', {
+      service: service.service,
+      current: format.money(service.currentCost),
+      previous: format.money(service.previousCost),
+      delta: this.formatDelta(service.delta, service.deltaPercent, format)
+    })));
+
+    return lines;
+  }
+
+  /**
+   * Formats the same-day-last-month delta for a service-scoped alert
+   */
+  private formatServiceComparison(comparisons: CostComparisons | undefined, scope: AlertScope, format: AlertMessageFormatter): string[] {
+    const comparison = comparisons?.sameDayLastMonth || comparisons?.monthOverMonth;
+    const service = scope.type === 'service' ? comparison?.services.find(delta => delta.service === scope.value) : undefined;
+    if (!comparison || !service) {
+      return [];
+    }
+
+    const label = format.t(comparison === comparisons?.sameDayLastMonth ? 'comparisons.sameDayInline' : 'comparisons.lastMonthInline');
+    return [format.t('comparisons.scoped', {
+      label,
+      amount: format.money(service.previousCost),
+      delta: this.formatDelta(service.delta, service.deltaPercent, format)
+    })];
+  }
+
+  private formatComparisonLine(label: string, comparison: CostComparison, format: AlertMessageFormatter): string {
+    return format.t('comparisons.line', {
+      label,
+      date: comparison.snapshotDate,
+      amount: format.money(comparison.previousTotal),
+      delta: this.formatDelta(comparison.totalDelta, comparison.totalDeltaPercent, format)
+    });
+  }
+
+  private formatDelta(delta: number, deltaPercent?: number, format: AlertMessageFormatter = DEFAULT_FORMATTER): string {
+    const amount = `${delta >= 0 ? '+' : '-'}${format.money(Math.abs(delta))}`;
+    return `${amount}, ${deltaPercent !== undefined ? format.percent(deltaPercent, 1, true) : format.t('delta.new')}`;
+  }
+
+  /**
+   * Formats the cost metric used for the alert and the comparison metric totals
+   */
+  private formatCostMetricDetails(costAnalysis: CostAnalysis, format: AlertMessageFormatter): string[] {
+    if (!costAnalysis.metric) {
+      return [];
+    }
+
+    const lines = [format.t('metric.name', { metric: formatCostMetric(costAnalysis.metric) })];
+    const comparisons = Object.entries(costAnalysis.metricTotals || {})
+      .filter(([metric]) => metric !== costAnalysis.metric)
+      .map(([metric, total]) => `${formatCostMetric(metric as CostMetric)} ${format.money(total)}`);
+    if (comparisons.length > 0) {
+      lines.push(format.t('metric.other', { views: comparisons.join(' | ') }));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Formats the alert subject line for email delivery
+   */
+  private formatAlertSubject(
+    costAnalysis: CostAnalysis,
+    alertContext: AlertContext,
+    format: AlertMessageFormatter = this.createFormatter(costAnalysis)
+  ): string {
+    const scope = alertContext.scope;
+    if (this.isScoped(scope)) {
+      const budget = this.getBudgetLabel(scope, format);
+      const scopeName = this.formatScopeName(scope, format);
+      return alertContext.exceedAmount < 0 && alertContext.tier
+        ? format.t('subject.scopedTier', {
+          budget,
+          scope: scopeName,
+          amount: format.money(this.getScopedSpend(costAnalysis, scope)),
+          percent: format.percent(alertContext.tier.percentOfBudget)
+        })
+        : format.t('subject.scopedOver', { budget, scope: scopeName, amount: format.money(alertContext.exceedAmount) });
+    }
+    if (alertContext.alertLevel === 'PROJECTED') {
+      return format.t('subject.forecast', { projected: format.money(costAnalysis.projectedMonthly), threshold: format.money(alertContext.threshold) });
+    }
+    if (alertContext.exceedAmount < 0 && alertContext.tier) {
+      return format.t('subject.tier', { amount: format.money(costAnalysis.totalCost), percent: format.percent(alertContext.tier.percentOfBudget) });
+    }
+    return format.t('subject.over', { amount: format.money(alertContext.exceedAmount) });
+  }
+
+  /**
+   * Formatter for the alert or digest billing currency in the given locale (the default locale when omitted)
+   */
+  private createFormatter(amounts: { currency?: string }, locale?: AlertLocale): AlertMessageFormatter {
+    return new AlertMessageFormatter(locale ?? this.localizationConfig?.defaultLocale, amounts.currency);
+  }
+
+  private getChannelLocale(channel: AlertChannel, recipient?: string): AlertLocale {
+    return resolveLocale(this.localizationConfig, channel, recipient);
+  }
+
+  /**
+   * Configured alert templates; if the template source cannot be loaded only inline templates apply
+   */
+  private getAlertTemplates(): Promise<AlertTemplates> {
+    const config = this.alertTemplateConfig;
+    if (!config) {
+      return Promise.resolve({});
+    }
+
+    this.alertTemplates ??= loadAlertTemplates(config, this.region).catch(error => {
+      this.alertLogger.warn('Alert template source unavailable, using inline and built-in templates', {
+        source: config.source,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return { ...config.templates };
+    });
+    return this.alertTemplates;
+  }
+
+  /**
+   * Variables available to alert templates, formatted for the locale (the default locale when omitted)
+   */
+  formatTemplateData(costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext, locale?: AlertLocale): AlertTemplateData {
+    const format = this.createFormatter(costAnalysis, locale);
+    const enhancedAnalysis = costAnalysis as EnhancedCostAnalysis;
+    const ai = enhancedAnalysis.aiAnalysis;
+    const topServices = alertContext.topServices.map((service, index) => ({
+      rank: index + 1,
+      name: service.serviceName,
+      cost: format.money(service.cost),
+      percentage: format.percent(service.percentage, 1)
+    }));
+
+    return {
+      alert: {
+        level: alertContext.alertLevel,
+        levelLabel: format.level(alertContext.alertLevel),
+        subject: this.formatAlertSubject(costAnalysis, alertContext, format),
+        headline: this.formatAlertHeadline(costAnalysis, alertContext, format.locale),
+        isProjected: alertContext.alertLevel === 'PROJECTED',
+        isCritical: alertContext.alertLevel === 'CRITICAL',
+        overThreshold: alertContext.exceedAmount >= 0,
+        threshold: format.money(alertContext.threshold),
+        exceedAmount: format.money(alertContext.exceedAmount),
+        budgetUsed: format.percent(100 + alertContext.percentageOver, 0),
+        tier: alertContext.tier ? { name: alertContext.tier.name, percentOfBudget: format.percent(alertContext.tier.percentOfBudget) } : undefined,
+        scope: this.isScoped(alertContext.scope) ? {
+          type: alertContext.scope.type,
+          name: this.formatScopeName(alertContext.scope, format),
+          spend: format.money(this.getScopedSpend(costAnalysis, alertContext.scope))
+        } : undefined
+      },
+      cost: {
+        total: format.money(costAnalysis.totalCost),
+        projectedMonthly: format.money(costAnalysis.projectedMonthly),
+        currency: format.currency,
+        period: this.formatDateRange(costAnalysis.period, format),
+        periodStart: costAnalysis.period.start,
+        periodEnd: costAnalysis.period.end,
+        lastUpdated: costAnalysis.lastUpdated,
+        topService: topServices[0],
+        topServices
+      },
+      ai: ai ? {
+        summary: ai.summary,
+        keyInsights: ai.keyInsights ?? [],
+        confidence: format.percent(Math.round(ai.confidenceScore * 100)),
+        anomalies: (enhancedAnalysis.anomalies?.anomalies ?? []).map(anomaly => ({
+          service: anomaly.service,
+          severity: anomaly.severity,
+          description: anomaly.description,
+          confidence: format.percent(Math.round(anomaly.confidenceScore * 100)),
+          suggestedAction: anomaly.suggestedAction
+        })),
+        fallbackUsed: !!enhancedAnalysis.fallbackUsed
+      } : undefined,
+      recommendations: (enhancedAnalysis.recommendations ?? []).map(recommendation => ({
+        service: recommendation.service,
+        category: recommendation.category,
+        priority: recommendation.priority,
+        description: recommendation.description,
+        estimatedSavings: recommendation.estimatedSavings ? format.money(recommendation.estimatedSavings) : undefined
+      })),
+      tips: GENERAL_RECOMMENDATIONS.map(recommendation => format.t(recommendation)),
+      generatedAt: format.dateTime(new Date())
+    };
+  }
+
+  /**
+   * Renders an alert template against the alert's template variables
+   */
+  formatTemplatedMessage(template: string, costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext, locale?: AlertLocale): string {
+    return renderAlertTemplate(template, this.formatTemplateData(costAnalysis, alertContext, locale));
+  }
+
+  /**
+   * Renders the named template if one is configured; templates that fail to render fall back to the built-in message
+   */
+  private formatFromTemplate(
+    templates: AlertTemplates,
+    name: AlertTemplateName,
+    costAnalysis: CostAnalysis | EnhancedCostAnalysis,
+    alertContext: AlertContext,
+    locale: AlertLocale
+  ): string | undefined {
+    const template = templates[name];
+    if (template === undefined) {
+      return undefined;
+    }
+
+    try {
+      return this.formatTemplatedMessage(template, costAnalysis, alertContext, locale);
+    } catch (error) {
+      this.alertLogger.warn('Alert template could not be rendered, using built-in message', {
+        template: name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return undefined;
+    }
+  }
+
+  private formatTemplatedSMS(templates: AlertTemplates, costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext, locale: AlertLocale): string {
+    return this.formatFromTemplate(templates, 'sms', costAnalysis, alertContext, locale) ?? this.formatSMSMessage(costAnalysis, alertContext, locale);
+  }
+
+  /**
+   * iOS payload with the push title and body templates applied
+   */
+  private formatTemplatedIOSPayload(
+    templates: AlertTemplates,
+    costAnalysis: CostAnalysis | EnhancedCostAnalysis,
+    alertContext: AlertContext,
+    locale: AlertLocale
+  ): APNSPayload {
+    const payload = this.formatIOSPayload(costAnalysis, alertContext, locale);
+    const title = this.formatFromTemplate(templates, 'pushTitle', costAnalysis, alertContext, locale);
+    const body = this.formatFromTemplate(templates, 'pushBody', costAnalysis, alertContext, locale);
+    if (title !== undefined) {
+      payload.aps.alert.title = title;
+    }
+    if (body !== undefined) {
+      payload.aps.alert.body = this.truncateForMobile(body, 200);
+    }
+    return payload;
+  }
+
+  /**
+   * Channels to notify for an alert: the routing rule's channels when one matched, otherwise the
+   * tier channels (all channels when no tier is set)
+   */
+  private getAlertChannels(alertContext: AlertContext): AlertChannel[] {
+    if (alertContext.routingRule) {
+      return [...alertContext.routingRule.channels];
+    }
+
+    const tierChannels = alertContext.tier?.channels ?? [...ALERT_CHANNELS];
+
+    // Configured webhooks receive every alert unless the tier routes webhooks explicitly
+    const routesWebhooks = tierChannels.some(channel => WEBHOOK_CHANNELS.includes(channel));
+    const channels = routesWebhooks ? [...tierChannels] : [...tierChannels, ...this.getConfiguredWebhookChannels()];
+
+    if (alertContext.alertLevel === 'CRITICAL' && this.incidentNotifier && !channels.includes(INCIDENT_CHANNEL)) {
+      channels.push(INCIDENT_CHANNEL);
+    }
+    return channels;
+  }
+
+  /**
+   * Channels delivered through SNS; email goes out as the SES report instead when email reports are configured
+   */
+  private getSnsChannels(channels: AlertChannel[]): AlertChannel[] {
+    return this.emailReportConfig ? channels.filter(channel => channel !== 'email') : channels;
+  }
+
+  /**
+   * SNS channels grouped by the topic that delivers them, so each topic is published once with the channels it carries
+   */
+  private getChannelTopics(channels: AlertChannel[], topicArn: string): Map<string, AlertChannel[]> {
+    const topics = new Map<string, AlertChannel[]>();
+    channels.filter(channel => ALERT_CHANNELS.includes(channel)).forEach(channel => {
+      const channelTopicArn = this.getChannelTopicArn(channel, topicArn);
+      topics.set(channelTopicArn, [...(topics.get(channelTopicArn) ?? []), channel]);
+    });
+    return topics;
+  }
+
+  /**
+   * The channel's own topic, or the alert topic when it has none
+   */
+  private getChannelTopicArn(channel: AlertChannel, topicArn: string): string {
+    return this.channelTopicArns?.[channel as keyof ChannelTopicConfig] || topicArn;
+  }
+
+  /**
+   * Webhook channels with a URL configured
+   */
+  private getConfiguredWebhookChannels(): AlertChannel[] {
+    return WEBHOOK_CHANNELS.filter(channel =>
+      channel === 'webhook' ? this.getAlertDocumentUrls().length > 0 : !!this.getWebhookUrl(channel)
+    );
+  }
+
+  private getAlertDocumentUrls(): string[] {
+    return this.webhookConfig?.signingSecret ? this.webhookConfig.urls ?? [] : [];
+  }
+
+  private getWebhookUrl(channel: AlertChannel): string | undefined {
+    if (channel === 'slack') {
+      return this.webhookConfig?.slackWebhookUrl;
+    }
+    return channel === 'teams' ? this.webhookConfig?.teamsWebhookUrl : undefined;
+  }
+
+  /**
+   * Posts to the Slack and Teams webhooks for the alert channels, logging failures so SNS delivery still counts
+   */
+  private async sendWebhookAlerts(
+    channels: AlertChannel[],
+    payloads: { slack: () => object; teams: () => object }
+  ): Promise<void> {
+    const timeoutMs = this.webhookConfig?.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS;
+    const deliveries = this.getConfiguredWebhookChannels()
+      .filter(channel => channels.includes(channel) && !!this.getWebhookUrl(channel))
+      .map(async channel => {
+        const payload = channel === 'slack' ? payloads.slack() : payloads.teams();
+        try {
+          await this.executeWithRetry(() => postWebhook(this.getWebhookUrl(channel) as string, payload, timeoutMs));
+          this.alertLogger.info('Webhook alert sent', { channel });
+        } catch (error) {
+          this.alertLogger.error('Failed to send webhook alert', error as Error, { channel });
+        }
+      });
+
+    await Promise.all(deliveries);
+  }
+
+  /**
+   * Formats the alert as an HTML email with a plain-text alternative
+   */
+  formatEmailReport(
+    costAnalysis: CostAnalysis | EnhancedCostAnalysis,
+    alertContext: AlertContext,
+    template: string = DEFAULT_EMAIL_TEMPLATE,
+    locale?: AlertLocale
+  ): { subject: string; html: string; text: string } {
+    const format = this.createFormatter(costAnalysis, locale);
+    const subject = this.formatAlertSubject(costAnalysis, alertContext, format);
+    const aiInsights = this.formatAIInsights(costAnalysis as EnhancedCostAnalysis, format.locale);
+    const html = renderEmailHtml({
+      title: subject,
+      headline: this.formatAlertHeadline(costAnalysis, alertContext, format.locale),
+      accentColor: EMAIL_ALERT_COLORS[alertContext.alertLevel],
+      facts: this.getWebhookFacts(costAnalysis, alertContext, format),
+      spend: this.getScopedSpend(costAnalysis, alertContext.scope),
+      threshold: alertContext.threshold,
+      services: alertContext.topServices,
+      dailyCosts: costAnalysis.dailyCosts,
+      aiInsights: aiInsights ? aiInsights.trim().split('\n') : [],
+      recommendations: GENERAL_RECOMMENDATIONS.map(recommendation => format.t(recommendation)),
+      period: this.formatDateRange(costAnalysis.period, format),
+      generatedAt: `${format.dateTime(new Date())} UTC`,
+      currency: format.currency,
+      locale: format.locale
+    }, template);
+
+    let text = this.formatAlertMessage(costAnalysis, alertContext, format.locale);
+    if (costAnalysis.dailyCosts && costAnalysis.dailyCosts.length > 1) {
+      text += `\n\n${format.t('report.dailySpend', { days: costAnalysis.dailyCosts.length })}: ${renderTextSparkline(costAnalysis.dailyCosts, format.currency, format.locale)}`;
+    }
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Recipients for an alert level: the base list plus any level-specific recipients
+   */
+  private getEmailRecipients(alertLevel: AlertContext['alertLevel']): string[] {
+    const config = this.emailReportConfig;
+    if (!config) {
+      return [];
+    }
+    return Array.from(new Set([...config.recipients, ...(config.recipientsByLevel?.[alertLevel] ?? [])]));
+  }
+
+  /**
+   * Template override, falling back to the built-in template if it cannot be loaded
+   */
+  private getEmailTemplate(): Promise<string> {
+    const templatePath = this.emailReportConfig?.templatePath;
+    if (!templatePath) {
+      return Promise.resolve(DEFAULT_EMAIL_TEMPLATE);
+    }
+
+    this.emailTemplate ??= loadEmailTemplate(templatePath).catch(error => {
+      this.alertLogger.warn('Email template override unavailable, using built-in template', {
+        templatePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return DEFAULT_EMAIL_TEMPLATE;
+    });
+    return this.emailTemplate;
+  }
+
+  /**
+   * Sends the HTML alert report to the recipients for the alert level
+   */
+  private async sendEmailReports(costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext): Promise<void> {
+    if (!this.emailReportConfig) {
+      return;
+    }
+
+    // Recipients sharing a locale receive the same rendered report
+    const template = await this.getEmailTemplate();
+    const recipientsByLocale = new Map<AlertLocale, string[]>();
+    for (const recipient of this.getEmailRecipients(alertContext.alertLevel)) {
+      const locale = this.getChannelLocale(EMAIL_REPORT_CHANNEL, recipient);
+      recipientsByLocale.set(locale, [...(recipientsByLocale.get(locale) ?? []), recipient]);
+    }
+
+    for (const [locale, recipients] of recipientsByLocale) {
+      await this.sendEmailReport(this.formatEmailReport(costAnalysis, alertContext, template, locale), recipients);
+    }
+  }
+
+  /**
+   * Sends a rendered report to each recipient separately, recording delivery metrics and logging failures
+   */
+  private async sendEmailReport(report: { subject: string; html: string; text: string }, recipients: string[]): Promise<void> {
+    const config = this.emailReportConfig;
+    const sesClient = this.sesClient;
+    if (!config || !sesClient) {
+      return;
+    }
+
+    const deliveries = recipients.map(async recipient => {
+      try {
+        await this.executeWithRetry(() => sesClient.send(new SendEmailCommand({
+          FromEmailAddress: config.fromAddress,
+          Destination: { ToAddresses: [recipient] },
+          ConfigurationSetName: config.configurationSetName,
+          Content: {
+            Simple: {
+              Subject: { Data: report.subject, Charset: 'UTF-8' },
+              Body: {
+                Html: { Data: report.html, Charset: 'UTF-8' },
+                Text: { Data: report.text, Charset: 'UTF-8' }
+              }
+            }
+          }
+        })));
+        await this.metrics.recordAlertDelivery([EMAIL_REPORT_CHANNEL], true);
+        this.alertLogger.info('Email report sent', { recipient });
+      } catch (error) {
+        await this.metrics.recordAlertDelivery([EMAIL_REPORT_CHANNEL], false);
+        this.alertLogger.error('Failed to send email report', error as Error, { recipient });
+      }
+    });
+
+    await Promise.all(deliveries);
+  }
+
+  /**
+   * Builds the versioned alert document for generic webhooks
+   */
+  formatAlertDocument(costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext): AlertWebhookDocument {
+    return {
+      schemaVersion: ALERT_WEBHOOK_SCHEMA_VERSION,
+      type: 'spend_alert',
+      id: randomUUID(),
+      sentAt: new Date().toISOString(),
+      costAnalysis,
+      alertContext
+    };
+  }
+
+  /**
+   * Posts the signed alert document to each generic webhook, recording delivery metrics and logging failures
+   */
+  private async sendAlertDocument(document: AlertWebhookDocument): Promise<void> {
+    const signingSecret = this.webhookConfig?.signingSecret as string;
+    const timeoutMs = this.webhookConfig?.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS;
+
+    const deliveries = this.getAlertDocumentUrls().map(async url => {
+      const host = new URL(url).host;
+      let attempts = 0;
+      try {
+        await withRetry(() => {
+          attempts++;
+          return postSignedWebhook(url, document, signingSecret, timeoutMs);
+        }, {
+          maxAttempts: this.retryConfig.maxAttempts,
+          baseDelay: this.retryConfig.baseDelay,
+          maxDelay: this.retryConfig.maxDelay,
+          backoffMultiplier: this.retryConfig.backoffMultiplier
+        }, 'Alert webhook delivery');
+
+        await this.metrics.recordAlertDelivery(['webhook'], true, attempts - 1);
+        this.alertLogger.info('Webhook alert sent', { channel: 'webhook', host, documentId: document.id });
+      } catch (error) {
+        await this.metrics.recordAlertDelivery(['webhook'], false, attempts - 1);
+        this.alertLogger.error('Failed to send webhook alert', error as Error, { channel: 'webhook', host });
+      }
+    });
+
+    await Promise.all(deliveries);
+  }
+
+  /**
+   * Opens (or updates) the incident for an alert routed to the incident channel, logging failures so SNS delivery still counts
+   */
+  private async triggerIncident(costAnalysis: CostAnalysis, alertContext: AlertContext, topicArn: string): Promise<void> {
+    if (!this.incidentNotifier) {
+      return;
+    }
+
+    const notifier = this.incidentNotifier;
+    const format = this.createFormatter(costAnalysis);
+    const billingPeriod = getBillingPeriod(costAnalysis.period.start);
+    const dedupKey = getIncidentDedupKey(topicArn, billingPeriod, alertContext.scope);
+    try {
+      await this.executeWithRetry(() => notifier.trigger({
+        dedupKey,
+        summary: this.formatAlertSubject(costAnalysis, alertContext),
+        details: {
+          billingPeriod,
+          scope: getAlertScopeKey(alertContext.scope),
+          spend: this.getScopedSpend(costAnalysis, alertContext.scope).toFixed(2),
+          threshold: alertContext.threshold.toFixed(2),
+          exceedAmount: alertContext.exceedAmount.toFixed(2),
+          percentageOver: alertContext.percentageOver.toFixed(1),
+          projectedMonthly: costAnalysis.projectedMonthly.toFixed(2),
+          currency: format.currency,
+          tier: alertContext.tier?.name,
+          topServices: alertContext.topServices
+            .map(service => `${service.serviceName}: ${format.money(service.cost)}`)
+            .join(', ')
+        }
+      }));
+      this.alertLogger.info('Incident triggered', { dedupKey });
+    } catch (error) {
+      this.alertLogger.error('Failed to trigger incident', error as Error, { dedupKey });
+    }
+  }
+
+  /**
+   * Queues the alert for channels in quiet hours, returning the channels deferred; channels that
+   * cannot be queued are delivered immediately
+   */
+  private async deferNotifications(
+    costAnalysis: CostAnalysis,
+    alertContext: AlertContext,
+    channels: AlertChannel[],
+    templates: AlertTemplates,
+    iosConfig?: { platformApplicationArn: string; bundleId: string }
+  ): Promise<AlertChannel[]> {
+    const queue = this.deferredNotificationQueue;
+    if (!queue || alertContext.alertLevel === 'CRITICAL') {
+      return [];
+    }
+
+    const deferred: AlertChannel[] = [];
+    // Without its own topic a channel's subscribers are on the shared alert topic and would receive the alert anyway
+    const quietChannels = getQuietChannels(this.quietHoursConfig, channels)
+      .filter(channel => !!this.channelTopicArns?.[channel] && (channel !== 'ios' || !!iosConfig));
+    for (const channel of quietChannels) {
+      try {
+        await queue.enqueue(this.createDeferredNotification(costAnalysis, alertContext, channel, templates));
+        deferred.push(channel);
+        this.alertLogger.info('Notification deferred for quiet hours', {
+          channel,
+          alertLevel: alertContext.alertLevel,
+          scope: getAlertScopeKey(alertContext.scope)
+        });
+      } catch (error) {
+        this.alertLogger.error('Failed to defer notification, delivering now', error as Error, { channel });
+      }
+    }
+    return deferred;
+  }
+
+  private createDeferredNotification(
+    costAnalysis: CostAnalysis,
+    alertContext: AlertContext,
+    channel: DeferredNotification['channel'],
+    templates: AlertTemplates
+  ): DeferredNotification {
+    const locale = this.getChannelLocale(channel);
+    const iosAlert = channel === 'ios' ? this.formatTemplatedIOSPayload(templates, costAnalysis, alertContext, locale).aps.alert : undefined;
+    return {
+      id: randomUUID(),
+      channel,
+      alertLevel: alertContext.alertLevel,
+      scope: getAlertScopeKey(alertContext.scope),
+      title: iosAlert?.title ?? this.formatAlertSubject(costAnalysis, alertContext, this.createFormatter(costAnalysis, locale)),
+      message: iosAlert?.body ?? this.formatTemplatedSMS(templates, costAnalysis, alertContext, locale),
+      spend: this.getScopedSpend(costAnalysis, alertContext.scope),
+      threshold: alertContext.threshold,
+      currency: costAnalysis.currency,
+      deferredAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Publishes one digest per channel whose quiet hours are over, returning the number of notifications delivered.
+   * Notifications stay queued when their digest cannot be published.
    */
-  async sendSpendAlert(
-    costAnalysis: CostAnalysis | EnhancedCostAnalysis,
-    alertContext: AlertContext,
-    topicArn: string,
-    iosConfig?: { platformApplicationArn: string; bundleId: string }
-  ): Promise<void> {
-    try {
-      // Format messages for different channels
-      const emailSmsMessage = this.formatAlertMessage(costAnalysis, alertContext);
-      const iosPayload = iosConfig ? this.formatIOSPayload(costAnalysis, alertContext) : null;
+  async deliverDeferredNotifications(topicArn: string, now: Date = new Date()): Promise<number> {
+    const queue = this.deferredNotificationQueue;
+    if (!queue) {
+      return 0;
+    }
 
-      // Create message attributes for multi-channel delivery
-      const messageAttributes: any = {};
+    const quietChannels = getQuietChannels(this.quietHoursConfig, QUIET_HOURS_CHANNELS, now);
+    const dueChannels = QUIET_HOURS_CHANNELS.filter(channel => !quietChannels.includes(channel));
+    if (dueChannels.length === 0) {
+      return 0;
+    }
 
-      // Prepare the message structure for SNS
-      let message: string;
-      let messageStructure: string | undefined;
+    const entries = await queue.receive(dueChannels);
+    let delivered = 0;
 
-      if (iosPayload) {
-        // Use message structure for multi-platform delivery
-        messageStructure = 'json';
-        message = JSON.stringify({
-          default: emailSmsMessage,
-          APNS: JSON.stringify(iosPayload),
-          APNS_SANDBOX: JSON.stringify(iosPayload),
-          email: emailSmsMessage,
-          sms: this.formatSMSMessage(costAnalysis, alertContext)
-        });
-      } else {
-        // Simple message for email/SMS only
-        message = emailSmsMessage;
+    for (const channel of dueChannels) {
+      const channelEntries = entries.filter(entry => entry.notification.channel === channel);
+      if (channelEntries.length === 0) {
+        continue;
       }
 
-      const publishInput: PublishCommandInput = {
-        TopicArn: topicArn,
-        Message: message,
-        MessageStructure: messageStructure,
-        Subject: `AWS Spend Alert: $${alertContext.exceedAmount.toFixed(2)} over budget`,
-        MessageAttributes: messageAttributes
-      };
+      const notifications = channelEntries
+        .map(entry => entry.notification)
+        .sort((a, b) => a.deferredAt.localeCompare(b.deferredAt));
+      try {
+        const publishInput = this.formatDigestPublishInput(channel, notifications, this.getChannelTopicArn(channel, topicArn));
+        await this.executeWithRetry(() => this.snsClient.send(new PublishCommand(publishInput)));
+        await queue.remove(channelEntries);
+        delivered += notifications.length;
+        this.alertLogger.info('Notification digest delivered', { channel, notifications: notifications.length });
+      } catch (error) {
+        this.alertLogger.error('Failed to deliver notification digest', error as Error, { channel, notifications: notifications.length });
+      }
+    }
 
-      await this.executeWithRetry(() => this.snsClient.send(new PublishCommand(publishInput)));
+    return delivered;
+  }
 
-      this.alertLogger.info('Spend alert sent successfully', {
-        totalCost: costAnalysis.totalCost,
-        threshold: alertContext.threshold,
-        exceedAmount: alertContext.exceedAmount,
-        alertLevel: alertContext.alertLevel,
-        topServices: alertContext.topServices.length,
-        hasIOSPayload: !!iosPayload
+  /**
+   * Digest title and body in the channel's locale; a single deferred notification is delivered as it was written
+   */
+  formatNotificationDigest(notifications: DeferredNotification[]): { title: string; body: string } {
+    const latest = notifications[notifications.length - 1];
+    if (notifications.length === 1) {
+      return { title: latest.title, body: latest.message };
+    }
+
+    const locale = this.getChannelLocale(latest.channel);
+    const format = this.createFormatter(latest, locale);
+    return {
+      title: format.t('quietDigest.title', {
+        count: notifications.length,
+        level: format.level(this.getHighestAlertLevel(notifications))
+      }),
+      body: notifications
+        .map(notification => {
+          const lineFormat = this.createFormatter(notification, locale);
+          return lineFormat.t('quietDigest.line', {
+            level: lineFormat.level(notification.alertLevel),
+            scope: notification.scope,
+            spend: lineFormat.money(notification.spend),
+            threshold: lineFormat.money(notification.threshold)
+          });
+        })
+        .join('\n')
+    };
+  }
+
+  private getHighestAlertLevel(notifications: DeferredNotification[]): AlertLevel {
+    return notifications.reduce<AlertLevel>((level, notification) => maxAlertLevel(level, notification.alertLevel), 'PROJECTED');
+  }
+
+  private formatDigestPublishInput(
+    channel: DeferredNotification['channel'],
+    notifications: DeferredNotification[],
+    topicArn: string
+  ): PublishCommandInput {
+    const digest = this.formatNotificationDigest(notifications);
+    const highestLevel = this.getHighestAlertLevel(notifications);
+    const text = `${digest.title}\n${digest.body}`;
+    const messageAttributes: any = {
+      alert_level: { DataType: 'String', StringValue: highestLevel },
+      channels: { DataType: 'String.Array', StringValue: JSON.stringify([channel]) },
+      digest: { DataType: 'String', StringValue: 'true' }
+    };
+
+    if (channel === 'sms') {
+      return { TopicArn: topicArn, Message: text, MessageAttributes: messageAttributes };
+    }
+
+    const payload = JSON.stringify({
+      aps: {
+        alert: { title: digest.title, body: this.truncateForMobile(digest.body, 200) },
+        badge: notifications.length,
+        sound: 'default',
+        'content-available': 1
+      },
+      customData: {
+        digest: true,
+        alertLevel: highestLevel,
+        alertIds: notifications.map(notification => notification.id)
+      }
+    });
+    return {
+      TopicArn: topicArn,
+      Message: JSON.stringify({ default: text, APNS: payload, APNS_SANDBOX: payload }),
+      MessageStructure: 'json',
+      MessageAttributes: messageAttributes
+    };
+  }
+
+  /**
+   * Sends the scheduled spend digest regardless of thresholds; generic webhooks and incidents only receive alerts
+   */
+  async sendSpendDigest(digest: SpendDigest, topicArn: string, channels?: AlertChannel[]): Promise<void> {
+    const digestChannels = channels ?? this.getDefaultDigestChannels();
+
+    try {
+      const emailLocale = this.getChannelLocale('email');
+      const subject = this.formatSpendDigestSubject(digest, emailLocale);
+      const message = this.formatSpendDigestMessage(digest, emailLocale);
+
+      for (const [channelTopicArn, topicChannels] of this.getChannelTopics(this.getSnsChannels(digestChannels), topicArn)) {
+        const publishInput: PublishCommandInput = {
+          TopicArn: channelTopicArn,
+          Message: message,
+          Subject: subject,
+          MessageAttributes: {
+            channels: { DataType: 'String.Array', StringValue: JSON.stringify(topicChannels) },
+            spend_digest: { DataType: 'String', StringValue: digest.frequency }
+          }
+        };
+        await this.executeWithRetry(() => this.snsClient.send(new PublishCommand(publishInput)));
+      }
+
+      await this.sendWebhookAlerts(digestChannels, {
+        slack: () => {
+          const locale = this.getChannelLocale('slack');
+          return this.formatSlackTextPayload(this.formatSpendDigestSubject(digest, locale), this.formatSpendDigestMessage(digest, locale));
+        },
+        teams: () => {
+          const locale = this.getChannelLocale('teams');
+          return this.formatTeamsTextPayload(this.formatSpendDigestSubject(digest, locale), this.formatSpendDigestMessage(digest, locale));
+        }
       });
 
+      if (this.emailReportConfig && (digestChannels.includes('email') || digestChannels.includes(EMAIL_REPORT_CHANNEL))) {
+        // Recipients sharing a locale receive the same rendered digest
+        const template = await this.getEmailTemplate();
+        const recipientsByLocale = new Map<AlertLocale, string[]>();
+        for (const recipient of this.emailReportConfig.recipients) {
+          const locale = this.getChannelLocale(EMAIL_REPORT_CHANNEL, recipient);
+          recipientsByLocale.set(locale, [...(recipientsByLocale.get(locale) ?? []), recipient]);
+        }
+
+        for (const [locale, recipients] of recipientsByLocale) {
+          await this.sendEmailReport(this.formatSpendDigestEmail(digest, template, locale), recipients);
+        }
+      }
+
+      this.alertLogger.info('Spend digest sent', {
+        frequency: digest.frequency,
+        spendToDate: digest.spendToDate,
+        topMovers: digest.topMovers.length,
+        channels: digestChannels
+      });
     } catch (error) {
-      this.alertLogger.error('Failed to send spend alert', error as Error, {
+      this.alertLogger.error('Failed to send spend digest', error as Error, {
         topicArn,
-        totalCost: costAnalysis.totalCost,
-        threshold: alertContext.threshold
+        frequency: digest.frequency
       });
-      throw new Error(`Alert delivery failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Spend digest delivery failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Formats alert message for email and general display with AI insights
+   * Email plus the configured Slack and Teams webhooks
+   */
+  private getDefaultDigestChannels(): AlertChannel[] {
+    return ['email', ...this.getConfiguredWebhookChannels().filter(channel => channel !== 'webhook')];
+  }
+
+  /**
+   * Formats the spend digest subject line
    */
-  formatAlertMessage(costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext): string {
+  formatSpendDigestSubject(digest: SpendDigest, locale?: AlertLocale): string {
+    const format = this.createFormatter(digest, locale);
+    return format.t(`digest.subject.${digest.frequency}`, { amount: format.money(digest.spendToDate) });
+  }
+
+  /**
+   * Formats the spend digest for email, SMS and chat channels
+   */
+  formatSpendDigestMessage(digest: SpendDigest, locale?: AlertLocale): string {
+    const format = this.createFormatter(digest, locale);
     const lines = [
-      `🚨 AWS Spend Alert - ${alertContext.alertLevel}`,
+      format.t(`digest.title.${digest.frequency}`),
       '',
-      `Your AWS spending has exceeded the configured threshold.`,
+      format.t('digest.monthToDate', {
+        amount: format.money(digest.spendToDate),
+        threshold: format.money(digest.threshold),
+        percent: format.percent(this.getBudgetUsedPercent(digest), 1)
+      }),
+      format.t('digest.projectedMonthly', { amount: format.money(digest.projectedMonthly) }),
+      format.t('alert.period', { period: this.formatDateRange(digest.monthToDate, format) }),
       '',
-      `💰 Current Spending: $${costAnalysis.totalCost.toFixed(2)}`,
-      `🎯 Threshold: $${alertContext.threshold.toFixed(2)}`,
-      `📈 Over Budget: $${alertContext.exceedAmount.toFixed(2)} (${alertContext.percentageOver.toFixed(1)}%)`,
-      `📊 Projected Monthly: $${costAnalysis.projectedMonthly.toFixed(2)}`,
-      '',
-      `📅 Period: ${this.formatDateRange(costAnalysis.period)}`,
-      ''
+      format.t('digest.periodLine', { period: this.formatDigestPeriod(digest, format), spend: this.formatDigestPeriodSpend(digest, format) })
     ];
 
-    if (alertContext.topServices.length > 0) {
-      lines.push('🔝 Top Cost-Driving Services:');
-      alertContext.topServices.forEach((service, index) => {
-        lines.push(`${index + 1}. ${service.serviceName}: $${service.cost.toFixed(2)} (${service.percentage.toFixed(1)}%)`);
-      });
-      lines.push('');
+    if (digest.topMovers.length > 0) {
+      lines.push('', format.t('digest.topMovers'), ...digest.topMovers.map(mover => format.t('comparisons.service', {
+        service: mover.service,
+        current: format.money(mover.currentCost),
+        previous: format.money(mover.previousCost),
+        delta: this.formatDelta(mover.delta, mover.deltaPercent, format)
+      })));
     }
 
-    // Add AI insights if available
-    const enhancedAnalysis = costAnalysis as EnhancedCostAnalysis;
-    if (enhancedAnalysis.aiAnalysis || enhancedAnalysis.anomalies || enhancedAnalysis.recommendations) {
-      const aiInsights = this.formatAIInsights(enhancedAnalysis);
-      if (aiInsights) {
-        lines.push(aiInsights, '');
-      }
+    if (digest.topServices.length > 0) {
+      lines.push('', format.t('digest.topServices'), ...digest.topServices.map((service, index) =>
+        `${index + 1}. ${service.serviceName}: ${format.money(service.cost)} (${format.percent(service.percentage, 1)})`
+      ));
     }
 
-    lines.push(
-      '💡 General Recommendations:',
-      '• Review your AWS resources and usage patterns',
-      '• Consider scaling down or terminating unused resources',
-      '• Check for any unexpected charges or services',
-      '• Set up additional CloudWatch alarms for specific services',
-      '',
-      `⏰ Alert generated at: ${new Date().toLocaleString('en-US', { timeZone: 'UTC' })} UTC`
-    );
+    if (digest.aiSummary) {
+      lines.push('', format.t('digest.aiSummary'), digest.aiSummary);
+    }
 
+    lines.push('', format.t('digest.generatedAt', { time: format.dateTime(new Date()) }));
     return lines.join('\n');
   }
 
+  /**
+   * Formats the spend digest as an HTML email with a plain-text alternative
+   */
+  formatSpendDigestEmail(
+    digest: SpendDigest,
+    template: string = DEFAULT_EMAIL_TEMPLATE,
+    locale?: AlertLocale
+  ): { subject: string; html: string; text: string } {
+    const format = this.createFormatter(digest, locale);
+    const subject = this.formatSpendDigestSubject(digest, format.locale);
+    const html = renderEmailHtml({
+      title: subject,
+      headline: format.t('digest.headline', { projected: format.money(digest.projectedMonthly), threshold: format.money(digest.threshold) }),
+      accentColor: EMAIL_DIGEST_COLOR,
+      facts: [
+        [format.t('digest.facts.monthToDate'), format.t('digest.facts.monthToDateValue', {
+          amount: format.money(digest.spendToDate),
+          percent: format.percent(this.getBudgetUsedPercent(digest), 1)
+        })],
+        [format.t('facts.projectedMonthly'), format.money(digest.projectedMonthly)],
+        [this.formatDigestPeriod(digest, format), this.formatDigestPeriodSpend(digest, format)],
+        ...digest.topMovers.map((mover): [string, string] => [
+          format.t('digest.facts.mover', { service: mover.service }),
+          `${format.money(mover.currentCost)} (${this.formatDelta(mover.delta, mover.deltaPercent, format)})`
+        ])
+      ],
+      spend: digest.spendToDate,
+      threshold: digest.threshold,
+      services: digest.topServices,
+      aiInsights: digest.aiSummary ? [digest.aiSummary] : [],
+      recommendations: [],
+      period: this.formatDateRange(digest.monthToDate, format),
+      generatedAt: `${format.dateTime(new Date())} UTC`,
+      currency: format.currency,
+      locale: format.locale
+    }, template);
+
+    return { subject, html, text: this.formatSpendDigestMessage(digest, format.locale) };
+  }
+
+  private getBudgetUsedPercent(digest: SpendDigest): number {
+    return digest.threshold > 0 ? (digest.spendToDate / digest.threshold) * 100 : 0;
+  }
+
+  /**
+   * Label for the period the movers cover, e.g. 'Yesterday (Mar 14, 2024)'
+   */
+  private formatDigestPeriod(digest: SpendDigest, format: AlertMessageFormatter): string {
+    if (digest.frequency === 'weekly') {
+      return format.t('digest.last7Days', { period: this.formatDateRange(digest.period, format) });
+    }
+    return format.t('digest.yesterday', { date: format.date(digest.period.start) });
+  }
+
+  private formatDigestPeriodSpend(digest: SpendDigest, format: AlertMessageFormatter): string {
+    const delta = digest.periodTotal - digest.previousPeriodTotal;
+    const deltaPercent = digest.previousPeriodTotal > 0 ? (delta / digest.previousPeriodTotal) * 100 : undefined;
+    return format.t(`digest.periodSpend.${digest.frequency}`, {
+      amount: format.money(digest.periodTotal),
+      delta: this.formatDelta(delta, deltaPercent, format)
+    });
+  }
+
+  /**
+   * Resolves the incident opened for a billing period once spend is back under the threshold
+   */
+  async resolveIncident(previousState: AlertStateRecord, topicArn: string, scope?: AlertScope): Promise<void> {
+    if (!this.incidentNotifier) {
+      return;
+    }
+
+    const notifier = this.incidentNotifier;
+    const dedupKey = getIncidentDedupKey(topicArn, previousState.billingPeriod, scope);
+    try {
+      await this.executeWithRetry(() => notifier.resolve(dedupKey));
+      this.alertLogger.info('Incident resolved', { dedupKey });
+    } catch (error) {
+      this.alertLogger.error('Failed to resolve incident', error as Error, { dedupKey });
+    }
+  }
+
+  /**
+   * Spend attributed to the alert scope (the account total when unscoped)
+   */
+  private getScopedSpend(costAnalysis: CostAnalysis, scope?: AlertScope): number {
+    return getScopedSpend(costAnalysis, scope) ?? 0;
+  }
+
+  /**
+   * Whether the alert is for a service or grouping budget rather than the account threshold
+   */
+  private isScoped(scope?: AlertScope): scope is AlertScope {
+    return !!scope && scope.type !== 'account';
+  }
+
+  /**
+   * Name of the scoped budget's subject (e.g. 'Amazon EC2', 'team:platform', 'Account 123456789012')
+   */
+  private formatScopeName(scope: AlertScope, format: AlertMessageFormatter = DEFAULT_FORMATTER): string {
+    if (scope.type === 'group' && scope.grouping?.type === 'TAG') {
+      return `${scope.grouping.tagKey}:${scope.value}`;
+    }
+    if (scope.type === 'group' && scope.grouping?.type === 'LINKED_ACCOUNT') {
+      return format.t('scope.linkedAccount', { account: scope.value || 'Unknown' });
+    }
+    return scope.value || 'Unknown';
+  }
+
+  /**
+   * Budget label for a scope (e.g. 'Service Budget', 'Tag Budget'), or its in-sentence form when inline
+   */
+  private getBudgetLabel(scope: AlertScope, format: AlertMessageFormatter = DEFAULT_FORMATTER, inline: boolean = false): string {
+    const prefix = inline ? 'budgetInline' : 'budget';
+    switch (scope.type === 'group' ? scope.grouping?.type : undefined) {
+      case 'TAG':
+        return format.t(`${prefix}.tag`);
+      case 'LINKED_ACCOUNT':
+        return format.t(`${prefix}.account`);
+      case 'REGION':
+        return format.t(`${prefix}.region`);
+      case 'USAGE_TYPE':
+        return format.t(`${prefix}.usageType`);
+      default:
+        return format.t(`${prefix}.service`);
+    }
+  }
+
   /**
    * Formats AI insights for structured presentation in alerts
    */
-  formatAIInsights(enhancedAnalysis: EnhancedCostAnalysis): string {
+  formatAIInsights(enhancedAnalysis: EnhancedCostAnalysis, locale?: AlertLocale): string {
+    const format = this.createFormatter(enhancedAnalysis, locale);
     const lines: string[] = [];
 
     // Add AI analysis summary and insights
     if (enhancedAnalysis.aiAnalysis) {
       const ai = enhancedAnalysis.aiAnalysis;
       lines.push(
-        '🤖 AI Analysis:',
+        format.t('ai.title'),
         `📊 ${ai.summary}`,
         ''
       );
 
       if (ai.keyInsights && ai.keyInsights.length > 0) {
-        lines.push('🔍 Key Insights:');
+        lines.push(format.t('ai.keyInsights'));
         ai.keyInsights.forEach(insight => {
           lines.push(`• ${insight}`);
         });
@@ -172,19 +1607,25 @@ export class AlertTool extends Tool {
       // Add confidence score display
       const confidencePercentage = Math.round(ai.confidenceScore * 100);
       const confidenceEmoji = confidencePercentage >= 80 ? '🟢' : confidencePercentage >= 60 ? '🟡' : '🔴';
-      lines.push(`${confidenceEmoji} AI Confidence: ${confidencePercentage}%`);
+      lines.push(format.t('ai.confidence', { emoji: confidenceEmoji, percent: format.percent(confidencePercentage) }));
       lines.push('');
     }
 
     // Add anomaly detection results
     if (enhancedAnalysis.anomalies && enhancedAnalysis.anomalies.anomaliesDetected) {
-      lines.push('⚠️ Detected Anomalies:');
+      lines.push(format.t('ai.anomalies'));
       enhancedAnalysis.anomalies.anomalies.forEach((anomaly, index) => {
         const severityEmoji = anomaly.severity === 'HIGH' ? '🔴' : anomaly.severity === 'MEDIUM' ? '🟡' : '🟢';
         const confidenceDisplay = Math.round(anomaly.confidenceScore * 100);
-        lines.push(`${index + 1}. ${severityEmoji} ${anomaly.service}: ${anomaly.description} (${confidenceDisplay}% confidence)`);
+        lines.push(format.t('ai.anomaly', {
+          index: index + 1,
+          emoji: severityEmoji,
+          service: anomaly.service,
+          description: anomaly.description,
+          confidence: format.percent(confidenceDisplay)
+        }));
         if (anomaly.suggestedAction) {
-          lines.push(`   💡 Action: ${anomaly.suggestedAction}`);
+          lines.push(format.t('ai.action', { action: anomaly.suggestedAction }));
         }
       });
       lines.push('');
@@ -192,7 +1633,7 @@ export class AlertTool extends Tool {
 
     // Add optimization recommendations
     if (enhancedAnalysis.recommendations && enhancedAnalysis.recommendations.length > 0) {
-      lines.push('💰 AI Optimization Recommendations:');
+      lines.push(format.t('ai.recommendations'));
       
       // Show top 3 recommendations to keep alert concise
       const topRecommendations = enhancedAnalysis.recommendations
@@ -204,7 +1645,7 @@ export class AlertTool extends Tool {
 
       topRecommendations.forEach((rec, index) => {
         const priorityEmoji = rec.priority === 'HIGH' ? '🔴' : rec.priority === 'MEDIUM' ? '🟡' : '🟢';
-        const savingsText = rec.estimatedSavings ? ` (Save ~$${rec.estimatedSavings.toFixed(2)}/month)` : '';
+        const savingsText = rec.estimatedSavings ? format.t('ai.savings', { amount: format.money(rec.estimatedSavings) }) : '';
         lines.push(`${index + 1}. ${priorityEmoji} ${rec.service}: ${rec.description}${savingsText}`);
       });
 
@@ -213,14 +1654,14 @@ export class AlertTool extends Tool {
         (sum, rec) => sum + (rec.estimatedSavings || 0), 0
       );
       if (totalSavings > 0) {
-        lines.push(`💵 Total Potential Monthly Savings: $${totalSavings.toFixed(2)}`);
+        lines.push(format.t('ai.totalSavings', { amount: format.money(totalSavings) }));
       }
       lines.push('');
     }
 
     // Add fallback indicator if AI analysis failed
     if (enhancedAnalysis.fallbackUsed) {
-      lines.push('ℹ️ Note: AI analysis unavailable, using basic cost analysis');
+      lines.push(format.t('ai.fallback'));
       lines.push('');
     }
 
@@ -230,11 +1671,45 @@ export class AlertTool extends Tool {
   /**
    * Formats a shorter message for SMS delivery with AI insights
    */
-  formatSMSMessage(costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext): string {
+  formatSMSMessage(costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext, locale?: AlertLocale): string {
+    const format = this.createFormatter(costAnalysis, locale);
     const topService = alertContext.topServices[0];
-    const topServiceText = topService ? ` Top service: ${topService.serviceName} ($${topService.cost.toFixed(2)})` : '';
+    const topServiceText = topService ? format.t('sms.topService', { service: topService.serviceName, amount: format.money(topService.cost) }) : '';
+    // Budgets read as whole amounts (e.g. $10) unless they have minor units
+    const threshold = format.money(alertContext.threshold, { trimZeros: true });
+    const budgetUsed = format.t('sms.budgetUsed', { percent: format.percent(100 + alertContext.percentageOver, 0), threshold });
     
-    let baseMessage = `AWS Spend Alert: $${costAnalysis.totalCost.toFixed(2)} spent (over $${alertContext.threshold} threshold by $${alertContext.exceedAmount.toFixed(2)}).${topServiceText} Projected monthly: $${costAnalysis.projectedMonthly.toFixed(2)}`;
+    if (this.isScoped(alertContext.scope)) {
+      const budgetText = alertContext.exceedAmount >= 0
+        ? format.t('sms.scopedOver', { threshold, amount: format.money(alertContext.exceedAmount) })
+        : budgetUsed;
+      return format.t('sms.scoped', {
+        budget: this.getBudgetLabel(alertContext.scope, format),
+        scope: this.formatScopeName(alertContext.scope, format),
+        amount: format.money(this.getScopedSpend(costAnalysis, alertContext.scope)),
+        budgetText,
+        total: format.money(costAnalysis.totalCost)
+      });
+    }
+
+    if (alertContext.alertLevel === 'PROJECTED') {
+      return format.t('sms.forecast', {
+        amount: format.money(costAnalysis.totalCost),
+        projected: format.money(costAnalysis.projectedMonthly),
+        threshold,
+        topService: topServiceText
+      });
+    }
+
+    const thresholdText = alertContext.exceedAmount >= 0
+      ? format.t('sms.over', { threshold, amount: format.money(alertContext.exceedAmount) })
+      : budgetUsed;
+    let baseMessage = format.t('sms.alert', {
+      amount: format.money(costAnalysis.totalCost),
+      thresholdText,
+      topService: topServiceText,
+      projected: format.money(costAnalysis.projectedMonthly)
+    });
     
     // Add concise AI insights for SMS (keep it brief due to SMS length limits)
     const enhancedAnalysis = costAnalysis as EnhancedCostAnalysis;
@@ -242,7 +1717,10 @@ export class AlertTool extends Tool {
       // Only add AI insights if confidence is high and we have space
       const topRecommendation = enhancedAnalysis.recommendations?.[0];
       if (topRecommendation && topRecommendation.estimatedSavings && topRecommendation.estimatedSavings > 5) {
-        baseMessage += ` AI Tip: ${topRecommendation.description.substring(0, 50)}... (Save ~$${topRecommendation.estimatedSavings.toFixed(0)}/mo)`;
+        baseMessage += format.t('sms.aiTip', {
+          tip: topRecommendation.description.substring(0, 50),
+          amount: format.money(topRecommendation.estimatedSavings, { wholeUnits: true })
+        });
       }
     }
     
@@ -252,19 +1730,39 @@ export class AlertTool extends Tool {
   /**
    * Formats iOS push notification payload with AI insights
    */
-  formatIOSPayload(costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext): APNSPayload {
+  formatIOSPayload(costAnalysis: CostAnalysis | EnhancedCostAnalysis, alertContext: AlertContext, locale?: AlertLocale): APNSPayload {
+    const format = this.createFormatter(costAnalysis, locale);
     const topService = alertContext.topServices[0];
-    const alertId = `spend-alert-${Date.now()}`;
+    const alertId = alertContext.alertId ?? `spend-alert-${Date.now()}`;
     const enhancedAnalysis = costAnalysis as EnhancedCostAnalysis;
 
     // Create enhanced alert body with AI insights
-    let alertBody = `$${costAnalysis.totalCost.toFixed(2)} spent - $${alertContext.exceedAmount.toFixed(2)} over budget`;
+    const spent = format.money(costAnalysis.totalCost);
+    const budgetUsed = format.percent(100 + alertContext.percentageOver, 0);
+    let alertBody: string;
+    if (this.isScoped(alertContext.scope)) {
+      const scopeName = this.formatScopeName(alertContext.scope, format);
+      const scopedSpend = format.money(this.getScopedSpend(costAnalysis, alertContext.scope));
+      const budget = this.getBudgetLabel(alertContext.scope, format, true);
+      alertBody = alertContext.exceedAmount >= 0
+        ? format.t('ios.scopedOver', { scope: scopeName, amount: scopedSpend, exceed: format.money(alertContext.exceedAmount), budget })
+        : format.t('ios.scopedUsed', { scope: scopeName, amount: scopedSpend, percent: budgetUsed, budget });
+    } else if (alertContext.alertLevel === 'PROJECTED') {
+      alertBody = format.t('ios.projected', { amount: spent, projected: format.money(costAnalysis.projectedMonthly) });
+    } else if (alertContext.exceedAmount >= 0) {
+      alertBody = format.t('ios.over', { amount: spent, exceed: format.money(alertContext.exceedAmount) });
+    } else {
+      alertBody = format.t('ios.used', { amount: spent, percent: budgetUsed });
+    }
     
     // Add AI recommendation to body if available and high confidence
     if (enhancedAnalysis.aiAnalysis && enhancedAnalysis.aiAnalysis.confidenceScore >= 0.7) {
       const topRecommendation = enhancedAnalysis.recommendations?.[0];
       if (topRecommendation && topRecommendation.estimatedSavings && topRecommendation.estimatedSavings > 10) {
-        alertBody += `. AI suggests: ${this.truncateForMobile(topRecommendation.description, 60)} (Save ~$${topRecommendation.estimatedSavings.toFixed(0)}/mo)`;
+        alertBody += format.t('ios.aiSuggests', {
+          tip: this.truncateForMobile(topRecommendation.description, 60),
+          amount: format.money(topRecommendation.estimatedSavings, { wholeUnits: true })
+        });
       }
     }
 
@@ -288,13 +1786,15 @@ export class AlertTool extends Tool {
     return {
       aps: {
         alert: {
-          title: 'AWS Spend Alert',
+          title: this.formatIOSTitle(alertContext, format),
           body: this.truncateForMobile(alertBody, 200), // iOS has limits on notification length
-          subtitle: alertContext.alertLevel === 'CRITICAL' ? 'Critical Budget Exceeded' : 'Budget Threshold Exceeded'
+          subtitle: this.formatIOSSubtitle(alertContext, format)
         },
         badge: 1,
         sound: alertContext.alertLevel === 'CRITICAL' ? 'critical-alert.caf' : 'default',
-        'content-available': 1
+        'content-available': 1,
+        // Acknowledge and Snooze actions post to /alerts/{alertId}/ack and /snooze
+        category: ALERT_NOTIFICATION_CATEGORY
       },
       customData: {
         spendAmount: costAnalysis.totalCost,
@@ -310,6 +1810,252 @@ export class AlertTool extends Tool {
     };
   }
 
+  /**
+   * Formats the iOS notification title for the alert scope and level
+   */
+  private formatIOSTitle(alertContext: AlertContext, format: AlertMessageFormatter): string {
+    if (this.isScoped(alertContext.scope)) {
+      return format.t('ios.title.scoped', { budget: this.getBudgetLabel(alertContext.scope, format) });
+    }
+    return format.t(alertContext.alertLevel === 'PROJECTED' ? 'ios.title.forecast' : 'ios.title.alert');
+  }
+
+  /**
+   * Formats the iOS notification subtitle for the alert severity and tier
+   */
+  private formatIOSSubtitle(alertContext: AlertContext, format: AlertMessageFormatter): string {
+    if (alertContext.alertLevel === 'CRITICAL') {
+      return format.t('ios.subtitle.critical');
+    }
+    if (alertContext.alertLevel === 'PROJECTED') {
+      return format.t('ios.subtitle.projected');
+    }
+    if (alertContext.exceedAmount < 0 && alertContext.tier) {
+      return format.t('ios.subtitle.tier', { percent: format.percent(alertContext.tier.percentOfBudget) });
+    }
+    return format.t('ios.subtitle.exceeded');
+  }
+
+  /**
+   * Formats the alert as a Slack Block Kit message with a severity color bar
+   */
+  formatSlackPayload(
+    costAnalysis: CostAnalysis | EnhancedCostAnalysis,
+    alertContext: AlertContext,
+    locale: AlertLocale = this.getChannelLocale('slack')
+  ): object {
+    const format = this.createFormatter(costAnalysis, locale);
+    const subject = this.formatAlertSubject(costAnalysis, alertContext, format);
+    const blocks: object[] = [
+      { type: 'header', text: { type: 'plain_text', text: this.truncateForMobile(subject, 150), emoji: true } },
+      { type: 'section', text: { type: 'mrkdwn', text: this.escapeSlack(this.formatAlertHeadline(costAnalysis, alertContext, format.locale)) } },
+      {
+        type: 'section',
+        fields: this.getWebhookFacts(costAnalysis, alertContext, format).map(([label, value]) => ({
+          type: 'mrkdwn',
+          text: `*${this.escapeSlack(label)}*\n${this.escapeSlack(value)}`
+        }))
+      }
+    ];
+
+    if (alertContext.topServices.length > 0) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*${format.t('chat.topServices')}*\n\`\`\`${this.formatServicesTable(alertContext.topServices, format)}\`\`\`` }
+      });
+    }
+
+    const aiInsights = this.formatAIInsights(costAnalysis as EnhancedCostAnalysis, format.locale);
+    if (aiInsights) {
+      blocks.push({ type: 'divider' }, {
+        type: 'section',
+        text: { type: 'mrkdwn', text: this.truncateForMobile(this.escapeSlack(aiInsights.trim()), SLACK_SECTION_MAX_LENGTH) }
+      });
+    }
+
+    blocks.push(
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: [`*${format.t('chat.recommendations')}*`, ...GENERAL_RECOMMENDATIONS.map(recommendation => `• ${format.t(recommendation)}`)].join('\n') }
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `📅 ${this.formatDateRange(costAnalysis.period, format)} | ${format.level(alertContext.alertLevel)}` }]
+      }
+    );
+
+    return {
+      text: subject,
+      attachments: [{ color: SLACK_ALERT_COLORS[alertContext.alertLevel], blocks }]
+    };
+  }
+
+  /**
+   * Formats the alert as a Microsoft Teams message with an Adaptive Card
+   */
+  formatTeamsPayload(
+    costAnalysis: CostAnalysis | EnhancedCostAnalysis,
+    alertContext: AlertContext,
+    locale: AlertLocale = this.getChannelLocale('teams')
+  ): object {
+    const format = this.createFormatter(costAnalysis, locale);
+    const body: object[] = [
+      {
+        type: 'TextBlock',
+        text: this.formatAlertSubject(costAnalysis, alertContext, format),
+        size: 'Large',
+        weight: 'Bolder',
+        color: TEAMS_ALERT_COLORS[alertContext.alertLevel],
+        wrap: true
+      },
+      { type: 'TextBlock', text: this.formatAlertHeadline(costAnalysis, alertContext, format.locale), wrap: true },
+      {
+        type: 'FactSet',
+        facts: this.getWebhookFacts(costAnalysis, alertContext, format).map(([title, value]) => ({ title, value }))
+      }
+    ];
+
+    if (alertContext.topServices.length > 0) {
+      const headerCell = (text: string) => ({ type: 'TableCell', items: [{ type: 'TextBlock', text, weight: 'Bolder' }] });
+      const cell = (text: string) => ({ type: 'TableCell', items: [{ type: 'TextBlock', text, wrap: true }] });
+      body.push(
+        { type: 'TextBlock', text: format.t('chat.topServices'), weight: 'Bolder', separator: true },
+        {
+          type: 'Table',
+          columns: [{ width: 3 }, { width: 1 }, { width: 1 }],
+          firstRowAsHeader: true,
+          rows: [
+            { type: 'TableRow', cells: [headerCell(format.t('chat.service')), headerCell(format.t('chat.cost')), headerCell(format.t('chat.share'))] },
+            ...alertContext.topServices.map(service => ({
+              type: 'TableRow',
+              cells: [cell(service.serviceName), cell(format.money(service.cost)), cell(format.percent(service.percentage, 1))]
+            }))
+          ]
+        }
+      );
+    }
+
+    const aiInsights = this.formatAIInsights(costAnalysis as EnhancedCostAnalysis, format.locale);
+    if (aiInsights) {
+      // One block per line, since Teams collapses single newlines inside a TextBlock
+      body.push(...aiInsights.split('\n').filter(line => line.trim() !== '').map((line, index) => ({
+        type: 'TextBlock',
+        text: line,
+        wrap: true,
+        spacing: 'Small',
+        separator: index === 0
+      })));
+    }
+
+    body.push(
+      { type: 'TextBlock', text: format.t('chat.recommendations'), weight: 'Bolder', separator: true },
+      { type: 'TextBlock', text: GENERAL_RECOMMENDATIONS.map(recommendation => `- ${format.t(recommendation)}`).join('\n'), wrap: true },
+      { type: 'TextBlock', text: `📅 ${this.formatDateRange(costAnalysis.period, format)}`, isSubtle: true, size: 'Small', wrap: true }
+    );
+
+    return this.wrapAdaptiveCard(body);
+  }
+
+  /**
+   * Formats a plain notification (e.g. a resolved alert) for Slack
+   */
+  private formatSlackTextPayload(title: string, message: string): object {
+    return {
+      text: title,
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: this.truncateForMobile(title, 150), emoji: true } },
+        { type: 'section', text: { type: 'mrkdwn', text: this.truncateForMobile(this.escapeSlack(message), SLACK_SECTION_MAX_LENGTH) } }
+      ]
+    };
+  }
+
+  /**
+   * Formats a plain notification (e.g. a resolved alert) for Teams
+   */
+  private formatTeamsTextPayload(title: string, message: string): object {
+    return this.wrapAdaptiveCard([
+      { type: 'TextBlock', text: title, size: 'Large', weight: 'Bolder', color: 'Good', wrap: true },
+      ...message.split('\n').filter(line => line.trim() !== '').map(line => ({ type: 'TextBlock', text: line, wrap: true, spacing: 'Small' }))
+    ]);
+  }
+
+  private wrapAdaptiveCard(body: object[]): object {
+    return {
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.5',
+          msteams: { width: 'Full' },
+          body
+        }
+      }]
+    };
+  }
+
+  /**
+   * Label/value pairs summarising the alert for webhook channels and email reports
+   */
+  private getWebhookFacts(costAnalysis: CostAnalysis, alertContext: AlertContext, format: AlertMessageFormatter): Array<[string, string]> {
+    const scope = alertContext.scope;
+    const facts: Array<[string, string]> = this.isScoped(scope)
+      ? [
+        [format.t('facts.scopeSpending', { scope: this.formatScopeName(scope, format) }), format.money(this.getScopedSpend(costAnalysis, scope))],
+        [this.getBudgetLabel(scope, format), format.money(alertContext.threshold)],
+        [format.t('facts.accountTotal'), format.money(costAnalysis.totalCost)]
+      ]
+      : [
+        [format.t('facts.currentSpending'), format.money(costAnalysis.totalCost)],
+        [format.t('facts.threshold'), format.money(alertContext.threshold)],
+        [format.t('facts.projectedMonthly'), format.money(costAnalysis.projectedMonthly)]
+      ];
+
+    facts.push(alertContext.exceedAmount >= 0
+      ? [format.t('facts.overBudget'), format.t('facts.overBudgetValue', {
+        amount: format.money(alertContext.exceedAmount),
+        percent: format.percent(alertContext.percentageOver, 1)
+      })]
+      : [format.t('facts.budgetUsed'), format.t('facts.budgetUsedValue', {
+        percent: format.percent(100 + alertContext.percentageOver, 1),
+        amount: format.money(Math.abs(alertContext.exceedAmount))
+      })]);
+
+    if (alertContext.tier) {
+      facts.push([format.t('facts.thresholdTier'), format.t('facts.tierValue', {
+        tier: alertContext.tier.name,
+        percent: format.percent(alertContext.tier.percentOfBudget)
+      })]);
+    }
+    facts.push([format.t('facts.alertLevel'), format.level(alertContext.alertLevel)]);
+
+    return facts;
+  }
+
+  /**
+   * Fixed-width service/cost/share table for code blocks
+   */
+  private formatServicesTable(services: ServiceCost[], format: AlertMessageFormatter): string {
+    const header = format.t('chat.service');
+    const nameWidth = Math.min(32, Math.max(header.length, ...services.map(service => service.serviceName.length)));
+    const row = (name: string, cost: string, share: string) =>
+      `${this.truncateForMobile(name, nameWidth).padEnd(nameWidth)}  ${cost.padStart(10)}  ${share.padStart(6)}`;
+
+    return [
+      row(header, format.t('chat.cost'), format.t('chat.share')),
+      ...services.map(service => row(service.serviceName, format.money(service.cost), format.percent(service.percentage, 1)))
+    ].join('\n');
+  }
+
+  /**
+   * Escapes the characters Slack treats as control sequences in mrkdwn
+   */
+  private escapeSlack(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
   /**
    * Truncates text for mobile-friendly display with ellipsis
    */
@@ -323,19 +2069,25 @@ export class AlertTool extends Tool {
   /**
    * Creates alert context from cost analysis and threshold
    */
-  createAlertContext(costAnalysis: CostAnalysis, threshold: number, topServices: ServiceCost[]): AlertContext {
+  createAlertContext(
+    costAnalysis: CostAnalysis,
+    threshold: number,
+    topServices: ServiceCost[],
+    tiers: ThresholdTier[] = DEFAULT_THRESHOLD_TIERS
+  ): AlertContext {
     const exceedAmount = costAnalysis.totalCost - threshold;
     const percentageOver = (exceedAmount / threshold) * 100;
-    
-    // Determine alert level based on how much over threshold
-    const alertLevel: 'WARNING' | 'CRITICAL' = percentageOver > 50 ? 'CRITICAL' : 'WARNING';
+
+    // Determine alert level from the highest tier crossed
+    const tier = resolveThresholdTier(costAnalysis.totalCost, threshold, tiers) ?? undefined;
 
     return {
       threshold,
       exceedAmount,
       percentageOver,
       topServices,
-      alertLevel
+      alertLevel: tier?.severity ?? 'WARNING',
+      tier
     };
   }
 
@@ -364,18 +2116,8 @@ export class AlertTool extends Tool {
   /**
    * Formats date range for display
    */
-  private formatDateRange(period: { start: string; end: string }): string {
-    const startDate = new Date(period.start);
-    const endDate = new Date(period.end);
-    
-    const formatOptions: Intl.DateTimeFormatOptions = {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      timeZone: 'UTC'
-    };
-
-    return `${startDate.toLocaleDateString('en-US', formatOptions)} - ${endDate.toLocaleDateString('en-US', formatOptions)}`;
+  private formatDateRange(period: { start: string; end: string }, format: AlertMessageFormatter = DEFAULT_FORMATTER): string {
+    return format.dateRange(period);
   }
 
   /**
@@ -431,6 +2173,10 @@ export class AlertTool extends Tool {
   private isRetryableError(error: any): boolean {
     if (!error) return false;
 
+    if (error instanceof SpendMonitorError) {
+      return error.retryable;
+    }
+
     // AWS SDK error codes that are retryable
     const retryableErrorCodes = [
       'ThrottlingException',
@@ -569,8 +2315,10 @@ export class AlertTool extends Tool {
       });
 
       // Format messages for different channels
-      const emailSmsMessage = this.formatAlertMessage(costAnalysis, alertContext);
-      const iosPayload = iosConfig ? this.formatIOSPayload(costAnalysis, alertContext) : null;
+      const templates = await this.getAlertTemplates();
+      const emailSmsMessage = this.formatFromTemplate(templates, 'email', costAnalysis, alertContext, this.getChannelLocale('email'))
+        ?? this.formatAlertMessage(costAnalysis, alertContext, this.getChannelLocale('email'));
+      const iosPayload = iosConfig ? this.formatTemplatedIOSPayload(templates, costAnalysis, alertContext, this.getChannelLocale('ios')) : null;
       const payloadSize = iosPayload ? JSON.stringify(iosPayload).length : emailSmsMessage.length;
 
       // Determine available channels
@@ -630,7 +2378,7 @@ export class AlertTool extends Tool {
           APNS: JSON.stringify(iosPayload),
           APNS_SANDBOX: JSON.stringify(iosPayload),
           email: emailSmsMessage,
-          sms: this.formatSMSMessage(costAnalysis, alertContext)
+          sms: this.formatTemplatedSMS(templates, costAnalysis, alertContext, this.getChannelLocale('sms'))
         });
       } else {
         message = emailSmsMessage;
@@ -1,28 +1,52 @@
 import { Tool } from 'strands-agents';
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
 import { 
   CostAnalysis, 
   AIAnalysisResult, 
   AnomalyDetectionResult, 
   OptimizationRecommendation, 
   BedrockConfig,
-  RetryConfig 
+  BedrockModelResponse,
+  JsonSchema,
+  RetryConfig,
+  StructuredOutputResult
 } from '../types';
+import { estimateBedrockCost, estimateBedrockTokens, invokeBedrockModel } from '../utils/bedrock-models';
+import { BedrockSpendLedger, createBedrockInvocationRecord, createBedrockSpendLedger } from '../utils/bedrock-spend-ledger';
+import { MetricsCollector } from '../utils/metrics';
+import { getBillingPeriod } from '../utils/alert-state';
+import {
+  AI_ANALYSIS_SCHEMA,
+  ANOMALY_DETECTION_SCHEMA,
+  OPTIMIZATION_RECOMMENDATIONS_SCHEMA,
+  formatRepairPrompt,
+  parseStructuredOutput
+} from '../utils/structured-output';
+
+/** Re-prompts allowed when model output fails schema validation, unless configured */
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 1;
+
+type AIAnalysisOutput = Pick<AIAnalysisResult, 'summary' | 'keyInsights' | 'confidenceScore'>;
 
 /**
- * Tool for AI-enhanced cost analysis using AWS Bedrock and Titan models
+ * Tool for AI-enhanced cost analysis using AWS Bedrock (Titan, Anthropic Claude, Llama, Mistral or any Converse model)
  */
 export class BedrockAnalysisTool extends Tool {
   private bedrockClient: BedrockRuntimeClient;
   private config: BedrockConfig;
   private retryConfig: RetryConfig;
+  private metrics: MetricsCollector;
+  private spendLedger: BedrockSpendLedger;
+  private totalProcessingCost: number = 0;
   private requestCount: number = 0;
   private lastResetTime: number = Date.now();
 
-  constructor(config: BedrockConfig, retryConfig?: Partial<RetryConfig>) {
+  constructor(config: BedrockConfig, retryConfig?: Partial<RetryConfig>, spendLedger?: BedrockSpendLedger) {
     super();
     this.config = config;
     this.bedrockClient = new BedrockRuntimeClient({ region: config.region });
+    this.metrics = new MetricsCollector(config.region, 'SpendMonitor/Bedrock');
+    this.spendLedger = spendLedger ?? createBedrockSpendLedger(config.region, config);
     this.retryConfig = {
       maxAttempts: 3,
       baseDelay: 1000,
@@ -33,7 +57,7 @@ export class BedrockAnalysisTool extends Tool {
   }
 
   /**
-   * Analyzes spending patterns using Titan Text model
+   * Analyzes spending patterns using the configured Bedrock model
    */
   async analyzeSpendingPatterns(costData: CostAnalysis): Promise<AIAnalysisResult> {
     if (!this.config.enabled) {
@@ -42,29 +66,16 @@ export class BedrockAnalysisTool extends Tool {
 
     await this.checkRateLimit();
 
-    const prompt = this.formatPromptForTitan(costData, 'spending_analysis');
+    const prompt = this.formatPrompt(costData, 'spending_analysis');
     
+    const startTime = Date.now();
+    let output: StructuredOutputResult<AIAnalysisOutput>;
+    let processingCost: number;
     try {
-      const startTime = Date.now();
-      const response = await this.executeWithRetry(() => this.invokeModel(prompt));
-      const processingTime = Date.now() - startTime;
-
-      const aiResult = this.parseAIResponse(response);
-      
-      this.logger.info('Bedrock spending analysis completed', {
-        modelUsed: this.config.modelId,
-        processingTime,
-        confidenceScore: aiResult.confidenceScore
-      });
-
-      return {
-        ...aiResult,
-        analysisTimestamp: new Date().toISOString(),
-        modelUsed: this.config.modelId,
-        processingCost: this.estimateProcessingCost(prompt, response)
-      };
+      ({ output, processingCost } = await this.invokeWithSchema<AIAnalysisOutput>(prompt, AI_ANALYSIS_SCHEMA, 'spending_analysis'));
     } catch (error) {
       this.logger.error('Bedrock spending analysis failed', { error });
+      await this.metrics.recordBedrockResponseOutcome(this.config.modelId, 'spending_analysis', 'API_FAILURE');
       
       if (this.config.fallbackOnError) {
         return this.createFallbackAnalysis(costData);
@@ -72,6 +83,27 @@ export class BedrockAnalysisTool extends Tool {
       
       throw new Error(`Bedrock analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+    const processingTime = Date.now() - startTime;
+
+    if (!output.valid) {
+      if (this.config.fallbackOnError) {
+        return this.createFallbackAnalysis(costData);
+      }
+      throw new Error(`Bedrock analysis failed: response did not match the expected schema (${output.errors.join('; ')})`);
+    }
+
+    const aiResult = this.toAIAnalysisResult(output.value);
+    
+    this.logger.info('Bedrock spending analysis completed', {
+      modelUsed: this.config.modelId,
+      processingTime,
+      confidenceScore: aiResult.confidenceScore
+    });
+
+    return {
+      ...aiResult,
+      processingCost
+    };
   }
 
   /**
@@ -86,24 +118,12 @@ export class BedrockAnalysisTool extends Tool {
 
     const prompt = this.formatAnomalyDetectionPrompt(costData, historicalData);
     
+    let output: StructuredOutputResult<AnomalyDetectionResult>;
     try {
-      const response = await this.executeWithRetry(() => this.invokeModel(prompt));
-      const result = this.parseAnomalyResponse(response);
-      
-      // Enhance anomalies with confidence scoring based on data quality
-      const enhancedResult = this.enhanceAnomalyConfidence(result, costData, historicalData);
-      
-      this.logger.info('Bedrock anomaly detection completed', {
-        anomaliesDetected: enhancedResult.anomaliesDetected,
-        anomalyCount: enhancedResult.anomalies.length,
-        averageConfidence: enhancedResult.anomalies.length > 0 
-          ? enhancedResult.anomalies.reduce((sum, a) => sum + a.confidenceScore, 0) / enhancedResult.anomalies.length 
-          : 0
-      });
-
-      return enhancedResult;
+      ({ output } = await this.invokeWithSchema<AnomalyDetectionResult>(prompt, ANOMALY_DETECTION_SCHEMA, 'anomaly_detection'));
     } catch (error) {
       this.logger.error('Bedrock anomaly detection failed', { error });
+      await this.metrics.recordBedrockResponseOutcome(this.config.modelId, 'anomaly_detection', 'API_FAILURE');
       
       if (this.config.fallbackOnError) {
         return this.createFallbackAnomalyResult(costData, historicalData);
@@ -111,6 +131,27 @@ export class BedrockAnalysisTool extends Tool {
       
       throw new Error(`Anomaly detection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    // An empty result would read as "no anomalies", so an unusable response is reported as a failure
+    if (!output.valid) {
+      if (this.config.fallbackOnError) {
+        return this.createFallbackAnomalyResult(costData, historicalData);
+      }
+      throw new Error(`Anomaly detection failed: response did not match the expected schema (${output.errors.join('; ')})`);
+    }
+
+    // Enhance anomalies with confidence scoring based on data quality
+    const enhancedResult = this.enhanceAnomalyConfidence(output.value, costData, historicalData);
+    
+    this.logger.info('Bedrock anomaly detection completed', {
+      anomaliesDetected: enhancedResult.anomaliesDetected,
+      anomalyCount: enhancedResult.anomalies.length,
+      averageConfidence: enhancedResult.anomalies.length > 0 
+        ? enhancedResult.anomalies.reduce((sum, a) => sum + a.confidenceScore, 0) / enhancedResult.anomalies.length 
+        : 0
+    });
+
+    return enhancedResult;
   }
 
   /**
@@ -125,22 +166,16 @@ export class BedrockAnalysisTool extends Tool {
 
     const prompt = this.formatOptimizationPrompt(costData);
     
+    let output: StructuredOutputResult<{ recommendations: OptimizationRecommendation[] }>;
     try {
-      const response = await this.executeWithRetry(() => this.invokeModel(prompt));
-      const recommendations = this.parseOptimizationResponse(response);
-      
-      // Enhance recommendations with priority scoring and validation
-      const enhancedRecommendations = this.enhanceOptimizationRecommendations(recommendations, costData);
-      
-      this.logger.info('Bedrock optimization recommendations generated', {
-        recommendationCount: enhancedRecommendations.length,
-        highPriorityCount: enhancedRecommendations.filter(r => r.priority === 'HIGH').length,
-        totalEstimatedSavings: enhancedRecommendations.reduce((sum, r) => sum + (r.estimatedSavings || 0), 0)
-      });
-
-      return enhancedRecommendations;
+      ({ output } = await this.invokeWithSchema<{ recommendations: OptimizationRecommendation[] }>(
+        prompt,
+        OPTIMIZATION_RECOMMENDATIONS_SCHEMA,
+        'optimization_recommendations'
+      ));
     } catch (error) {
       this.logger.error('Bedrock optimization recommendations failed', { error });
+      await this.metrics.recordBedrockResponseOutcome(this.config.modelId, 'optimization_recommendations', 'API_FAILURE');
       
       if (this.config.fallbackOnError) {
         return this.createFallbackOptimizationRecommendations(costData);
@@ -148,6 +183,32 @@ export class BedrockAnalysisTool extends Tool {
       
       throw new Error(`Optimization recommendations failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    // An empty list would read as "nothing to optimize", so an unusable response is reported as a failure
+    if (!output.valid) {
+      if (this.config.fallbackOnError) {
+        return this.createFallbackOptimizationRecommendations(costData);
+      }
+      throw new Error(`Optimization recommendations failed: response did not match the expected schema (${output.errors.join('; ')})`);
+    }
+
+    // Enhance recommendations with priority scoring and validation
+    const enhancedRecommendations = this.enhanceOptimizationRecommendations(output.value.recommendations, costData);
+    
+    this.logger.info('Bedrock optimization recommendations generated', {
+      recommendationCount: enhancedRecommendations.length,
+      highPriorityCount: enhancedRecommendations.filter(r => r.priority === 'HIGH').length,
+      totalEstimatedSavings: enhancedRecommendations.reduce((sum, r) => sum + (r.estimatedSavings || 0), 0)
+    });
+
+    return enhancedRecommendations;
+  }
+
+  /**
+   * Total cost in USD of the model calls made by this tool, priced from the token counts Bedrock reported
+   */
+  getTotalProcessingCost(): number {
+    return Math.round(this.totalProcessingCost * 100000) / 100000;
   }
 
   /**
@@ -156,7 +217,8 @@ export class BedrockAnalysisTool extends Tool {
   async validateModelAccess(): Promise<boolean> {
     try {
       const testPrompt = 'Test prompt for model validation';
-      await this.invokeModel(testPrompt);
+      const response = await this.invokeModel(testPrompt);
+      await this.recordInvocation('health_check', testPrompt, response);
       
       this.logger.info('Bedrock model access validated successfully', {
         modelId: this.config.modelId,
@@ -177,8 +239,16 @@ export class BedrockAnalysisTool extends Tool {
 
   /**
    * Formats cost data into structured prompt for Titan model
+   * @deprecated The prompt is model-agnostic; use formatPrompt
    */
   formatPromptForTitan(costData: CostAnalysis, analysisType: string): string {
+    return this.formatPrompt(costData, analysisType);
+  }
+
+  /**
+   * Formats cost data into a structured prompt; the model adapter wraps it in the model's request format
+   */
+  formatPrompt(costData: CostAnalysis, analysisType: string): string {
     const topServices = Object.entries(costData.serviceBreakdown)
       .sort(([, a], [, b]) => b - a)
       .slice(0, 10)
@@ -482,7 +552,14 @@ ${Object.entries(costData.serviceBreakdown)
     if (historicalData && historicalData.length > 0) {
       prompt += `\n\nHistorical Data for Comparison:`;
       historicalData.forEach((data, index) => {
-        prompt += `\nPeriod ${index + 1}: $${data.totalCost.toFixed(2)}`;
+        prompt += `\nPeriod ${index + 1} (${data.period.start.split('T')[0]}): $${data.totalCost.toFixed(2)}`;
+      });
+    }
+
+    if (costData.spikes && costData.spikes.length > 0) {
+      prompt += `\n\nStatistical Spike Findings (latest day vs baseline):`;
+      costData.spikes.forEach(spike => {
+        prompt += `\n${spike.service} on ${spike.date}: $${spike.cost.toFixed(2)} vs $${spike.baseline.toFixed(2)} baseline (${spike.method} score ${spike.score.toFixed(1)})`;
       });
     }
 
@@ -541,131 +618,139 @@ Provide cost optimization recommendations in JSON format:
   }
 
   /**
-   * Invokes Bedrock model with the given prompt
+   * Invokes the Bedrock model with the given prompt using the request format for its model family
    */
-  private async invokeModel(prompt: string): Promise<string> {
-    const payload = {
-      inputText: prompt,
-      textGenerationConfig: {
-        maxTokenCount: this.config.maxTokens,
-        temperature: this.config.temperature,
-        topP: 0.9
-      }
-    };
+  private async invokeModel(prompt: string): Promise<BedrockModelResponse> {
+    return invokeBedrockModel(this.bedrockClient, this.config.modelId, prompt, {
+      maxTokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      topP: this.config.topP ?? 0.9
+    }, this.config.useConverseApi);
+  }
 
-    const command = new InvokeModelCommand({
-      modelId: this.config.modelId,
-      contentType: 'application/json',
-      accept: 'application/json',
-      body: JSON.stringify(payload)
-    });
+  /**
+   * Records a model call in the spend ledger and returns its cost; a ledger failure does not fail the analysis
+   */
+  private async recordInvocation(purpose: string, prompt: string, response: BedrockModelResponse): Promise<number> {
+    const cost = estimateBedrockCost(this.config.modelId, prompt, response, this.config.modelPricing);
+    this.totalProcessingCost += cost;
+    const { inputTokens, outputTokens } = estimateBedrockTokens(prompt, response);
+    try {
+      await this.spendLedger.recordInvocation(
+        createBedrockInvocationRecord(this.config.modelId, purpose, inputTokens, outputTokens, cost)
+      );
+    } catch (error) {
+      this.logger.warn('Failed to record Bedrock invocation in spend ledger', { error, purpose, cost });
+    }
+    return cost;
+  }
 
-    const response = await this.bedrockClient.send(command);
-    
-    if (!response.body) {
-      throw new Error('Empty response from Bedrock model');
+  /**
+   * Whether a repair call of at least the given cost fits in the repair budget and in what is left of the monthly
+   * costThreshold after the spend recorded in the ledger
+   */
+  private async canAffordRepair(analysisType: string, repairCost: number, minimumRepairCost: number): Promise<boolean> {
+    if (this.config.repairBudget !== undefined && repairCost + minimumRepairCost > this.config.repairBudget) {
+      return false;
     }
 
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-    
-    if (!responseBody.results || !responseBody.results[0] || !responseBody.results[0].outputText) {
-      throw new Error('Invalid response format from Bedrock model');
+    let monthlySpend = this.totalProcessingCost;
+    try {
+      const summary = await this.spendLedger.getMonthlySpend(getBillingPeriod(new Date().toISOString()));
+      monthlySpend = Math.max(monthlySpend, summary.totalCost);
+    } catch (error) {
+      this.logger.warn('Failed to load Bedrock spend ledger, using local spend tracking', { error });
     }
 
-    return responseBody.results[0].outputText;
+    if (monthlySpend + minimumRepairCost > this.config.costThreshold) {
+      this.logger.warn('Skipping Bedrock response repair, monthly cost threshold would be exceeded', {
+        analysisType,
+        monthlySpend,
+        threshold: this.config.costThreshold
+      });
+      return false;
+    }
+    return true;
   }
 
   /**
-   * Parses AI response into structured format
+   * Invokes the model and validates its output against the schema, re-prompting with the validation
+   * errors until the output conforms or the repair attempts, repair budget or monthly cost threshold run out
    */
-  parseAIResponse(response: string): AIAnalysisResult {
-    try {
-      // Clean the response - remove any markdown formatting or extra text
-      const cleanResponse = response.trim();
-      let jsonStr = cleanResponse;
-
-      // Try to extract JSON if it's wrapped in other text
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[0];
+  private async invokeWithSchema<T>(
+    prompt: string,
+    schema: JsonSchema,
+    analysisType: string
+  ): Promise<{ output: StructuredOutputResult<T>; processingCost: number }> {
+    const maxRepairAttempts = this.config.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+    let response = await this.executeWithRetry(() => this.invokeModel(prompt));
+    let output = parseStructuredOutput<T>(response.text, schema);
+    let processingCost = await this.recordInvocation(analysisType, prompt, response);
+    let repairCost = 0;
+    let repairAttempts = 0;
+
+    while (!output.valid && repairAttempts < maxRepairAttempts) {
+      const repairPrompt = formatRepairPrompt(prompt, response.text, output.errors);
+
+      // The repair prompt's input tokens alone must fit in the remaining budgets
+      const minimumRepairCost = estimateBedrockCost(this.config.modelId, repairPrompt, { text: '' }, this.config.modelPricing);
+      if (!(await this.canAffordRepair(analysisType, repairCost, minimumRepairCost))) {
+        break;
       }
 
-      const parsed = JSON.parse(jsonStr);
-
-      // Validate required fields
-      if (!parsed.summary || !Array.isArray(parsed.keyInsights) || typeof parsed.confidenceScore !== 'number') {
-        throw new Error('Invalid AI response structure');
-      }
+      repairAttempts++;
+      await this.checkRateLimit();
+      response = await this.executeWithRetry(() => this.invokeModel(repairPrompt));
+      output = parseStructuredOutput<T>(response.text, schema);
 
-      // Ensure confidence score is within valid range
-      const confidenceScore = Math.max(0, Math.min(1, parsed.confidenceScore));
+      const cost = await this.recordInvocation(analysisType, repairPrompt, response);
+      repairCost += cost;
+      processingCost += cost;
+    }
 
-      return {
-        summary: parsed.summary,
-        keyInsights: parsed.keyInsights,
-        confidenceScore,
-        analysisTimestamp: new Date().toISOString(),
-        modelUsed: this.config.modelId
-      };
-    } catch (error) {
-      this.logger.error('Failed to parse AI response', { error, response });
-      
-      // Return fallback response
-      return {
-        summary: 'AI analysis parsing failed - using fallback response',
-        keyInsights: ['Unable to parse AI insights'],
-        confidenceScore: 0.1,
-        analysisTimestamp: new Date().toISOString(),
-        modelUsed: this.config.modelId
-      };
+    if (!output.valid) {
+      this.logger.error('Bedrock response failed schema validation', {
+        analysisType,
+        repairAttempts,
+        errors: output.errors,
+        response: response.text.slice(0, 500)
+      });
     }
+
+    const outcome = !output.valid ? 'PARSE_FAILURE' : repairAttempts > 0 ? 'REPAIRED' : 'VALID';
+    await this.metrics.recordBedrockResponseOutcome(this.config.modelId, analysisType, outcome, repairAttempts);
+
+    return { output, processingCost: Math.round(processingCost * 100000) / 100000 };
   }
 
   /**
-   * Parses anomaly detection response
+   * Parses AI response into structured format, validated against AI_ANALYSIS_SCHEMA. Invalid output yields the
+   * fallback analysis of the given cost data when fallbackOnError is set and throws otherwise.
    */
-  private parseAnomalyResponse(response: string): AnomalyDetectionResult {
-    try {
-      const cleanResponse = response.trim();
-      let jsonStr = cleanResponse;
-
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[0];
+  parseAIResponse(response: string, costData?: CostAnalysis): AIAnalysisResult {
+    const output = parseStructuredOutput<AIAnalysisOutput>(response, AI_ANALYSIS_SCHEMA);
+    if (!output.valid) {
+      this.logger.error('Failed to parse AI response', { errors: output.errors, response });
+      if (this.config.fallbackOnError && costData) {
+        return this.createFallbackAnalysis(costData);
       }
-
-      const parsed = JSON.parse(jsonStr);
-
-      return {
-        anomaliesDetected: Boolean(parsed.anomaliesDetected),
-        anomalies: Array.isArray(parsed.anomalies) ? parsed.anomalies : []
-      };
-    } catch (error) {
-      this.logger.error('Failed to parse anomaly response', { error, response });
-      return { anomaliesDetected: false, anomalies: [] };
+      throw new Error(`AI response did not match the expected schema (${output.errors.join('; ')})`);
     }
+
+    return this.toAIAnalysisResult(output.value);
   }
 
   /**
-   * Parses optimization recommendations response
+   * Converts validated analysis output into a result, clamping the confidence score to 0.0-1.0
    */
-  private parseOptimizationResponse(response: string): OptimizationRecommendation[] {
-    try {
-      const cleanResponse = response.trim();
-      let jsonStr = cleanResponse;
-
-      const jsonMatch = cleanResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[0];
-      }
-
-      const parsed = JSON.parse(jsonStr);
-
-      return Array.isArray(parsed.recommendations) ? parsed.recommendations : [];
-    } catch (error) {
-      this.logger.error('Failed to parse optimization response', { error, response });
-      return [];
-    }
+  private toAIAnalysisResult(output: AIAnalysisOutput): AIAnalysisResult {
+    return {
+      summary: output.summary,
+      keyInsights: output.keyInsights,
+      confidenceScore: Math.max(0, Math.min(1, output.confidenceScore)),
+      analysisTimestamp: new Date().toISOString(),
+      modelUsed: this.config.modelId
+    };
   }
 
   /**
@@ -688,21 +773,6 @@ Provide cost optimization recommendations in JSON format:
     };
   }
 
-  /**
-   * Estimates processing cost for Bedrock API call
-   */
-  private estimateProcessingCost(prompt: string, response: string): number {
-    // Rough estimation based on token count
-    // Titan Text pricing is approximately $0.0008 per 1K input tokens and $0.0016 per 1K output tokens
-    const inputTokens = Math.ceil(prompt.length / 4); // Rough token estimation
-    const outputTokens = Math.ceil(response.length / 4);
-    
-    const inputCost = (inputTokens / 1000) * 0.0008;
-    const outputCost = (outputTokens / 1000) * 0.0016;
-    
-    return Math.round((inputCost + outputCost) * 100000) / 100000; // Round to 5 decimal places
-  }
-
   /**
    * Checks rate limiting to prevent excessive API calls
    */
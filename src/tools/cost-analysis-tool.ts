@@ -1,16 +1,49 @@
 import { Tool } from '../mock-strands-agent';
-import { CostExplorerClient, GetCostAndUsageCommand, GetCostAndUsageCommandInput } from '@aws-sdk/client-cost-explorer';
-import { CostAnalysis, ServiceCost, RetryConfig, EnhancedCostAnalysis, BedrockConfig, OptimizationRecommendation } from '../types';
+import { CostExplorerClient, GetCostAndUsageCommand, GetCostAndUsageCommandInput, ResultByTime } from '@aws-sdk/client-cost-explorer';
+import {
+  AIAnalysisCacheEntry,
+  BedrockSpendSummary,
+  CostAnalysis,
+  CostBucket,
+  ServiceCost,
+  RetryConfig,
+  EnhancedCostAnalysis,
+  BedrockConfig,
+  OptimizationRecommendation,
+  ForecastConfig,
+  DailyCost,
+  CostBreakdown,
+  CostGrouping,
+  CostMetric,
+  CostMetricConfig
+} from '../types';
 import { BedrockAnalysisTool } from './bedrock-analysis-tool';
-
-/**
- * Cache entry for AI analysis results
- */
-interface CacheEntry {
-  result: EnhancedCostAnalysis;
-  timestamp: number;
-  costDataHash: string;
-}
+import {
+  CostForecaster,
+  DEFAULT_FORECAST_CONFIDENCE_LEVEL,
+  DEFAULT_FORECAST_LOOKBACK_DAYS,
+  LinearForecaster,
+  createForecaster,
+  linearProjection
+} from '../utils/forecasting';
+import { getCostGroupingKey, parseGroupValue, toGroupDefinition } from '../utils/cost-groupings';
+import { DEFAULT_COST_METRIC, getRequestedMetrics } from '../utils/cost-metrics';
+import {
+  AI_CACHE_PROMPT_VERSION,
+  AIAnalysisCacheStore,
+  InMemoryAIAnalysisCacheStore,
+  createAICacheEntry,
+  createAICacheKey,
+  createAIAnalysisCacheStore,
+  isAICacheEntryFresh
+} from '../utils/ai-cache';
+import { MetricsCollector } from '../utils/metrics';
+import { BedrockSpendLedger, InMemoryBedrockSpendLedger, createBedrockSpendLedger } from '../utils/bedrock-spend-ledger';
+import { getBillingPeriod } from '../utils/alert-state';
+import { getBedrockModelPricing } from '../utils/bedrock-models';
+
+/** Tokens in the instructions and JSON format of an analysis prompt, excluding the service breakdown */
+const ESTIMATED_PROMPT_TEMPLATE_TOKENS = 300;
 
 /**
  * Tool for analyzing AWS costs using the Cost Explorer API with AI enhancement capabilities
@@ -20,14 +53,36 @@ export class CostAnalysisTool extends Tool {
   private retryConfig: RetryConfig;
   private bedrockTool?: BedrockAnalysisTool;
   private bedrockConfig?: BedrockConfig;
-  private aiAnalysisCache: Map<string, CacheEntry> = new Map();
+  private aiCache: AIAnalysisCacheStore = new InMemoryAIAnalysisCacheStore();
+  private cacheHits: number = 0;
+  private cacheMisses: number = 0;
+  private metrics?: MetricsCollector;
   private costThresholdTracker: number = 0;
   private monthlyBedrockSpend: number = 0;
+  private spendLedger: BedrockSpendLedger = new InMemoryBedrockSpendLedger();
+  private spendSummary?: BedrockSpendSummary;
   private lastSpendReset: number = Date.now();
-
-  constructor(region: string = 'us-east-1', retryConfig?: Partial<RetryConfig>, bedrockConfig?: BedrockConfig) {
+  private forecaster: CostForecaster;
+  private forecastConfig?: ForecastConfig;
+  private costGroupings: CostGrouping[];
+  private metric: CostMetric;
+  private comparisonMetrics: CostMetric[];
+
+  constructor(
+    region: string = 'us-east-1',
+    retryConfig?: Partial<RetryConfig>,
+    bedrockConfig?: BedrockConfig,
+    forecastConfig?: ForecastConfig,
+    costGroupings: CostGrouping[] = [],
+    costMetricConfig?: CostMetricConfig
+  ) {
     super();
     this.costExplorerClient = new CostExplorerClient({ region });
+    this.forecastConfig = forecastConfig;
+    this.costGroupings = costGroupings;
+    this.metric = costMetricConfig?.metric ?? DEFAULT_COST_METRIC;
+    this.comparisonMetrics = costMetricConfig?.comparisonMetrics ?? [];
+    this.forecaster = createForecaster(forecastConfig, this.costExplorerClient, fn => this.executeWithRetry(fn));
     this.retryConfig = {
       maxAttempts: 3,
       baseDelay: 1000,
@@ -38,7 +93,12 @@ export class CostAnalysisTool extends Tool {
     
     if (bedrockConfig?.enabled) {
       this.bedrockConfig = bedrockConfig;
-      this.bedrockTool = new BedrockAnalysisTool(bedrockConfig, retryConfig);
+      this.spendLedger = createBedrockSpendLedger(region, bedrockConfig);
+      this.bedrockTool = new BedrockAnalysisTool(bedrockConfig, retryConfig, this.spendLedger);
+      this.metrics = new MetricsCollector(region, 'SpendMonitor/Bedrock');
+      if (bedrockConfig.cacheResults) {
+        this.aiCache = createAIAnalysisCacheStore(region, bedrockConfig);
+      }
     }
   }
 
@@ -60,7 +120,7 @@ export class CostAnalysisTool extends Tool {
         End: end
       },
       Granularity: 'MONTHLY',
-      Metrics: ['BlendedCost'],
+      Metrics: getRequestedMetrics(this.metric, this.comparisonMetrics),
       GroupBy: [
         {
           Type: 'DIMENSION',
@@ -70,11 +130,11 @@ export class CostAnalysisTool extends Tool {
     };
 
     try {
-      const response = await this.executeWithRetry(() => 
-        this.costExplorerClient.send(new GetCostAndUsageCommand(input))
-      );
+      const results = await this.getAllResultsByTime(input);
 
-      return this.formatCostData(response, start, end, now, endOfMonth);
+      const costAnalysis = this.formatCostData(results, start, end, now, endOfMonth);
+      const withBreakdowns = await this.applyBreakdowns(costAnalysis, start, end);
+      return await this.applyForecast(withBreakdowns, now, startOfMonth, endOfMonth);
     } catch (error) {
       this.logger.error('Failed to retrieve cost data from Cost Explorer', { error });
       throw new Error(`Cost Explorer API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -82,36 +142,58 @@ export class CostAnalysisTool extends Tool {
   }
 
   /**
-   * Formats raw Cost Explorer API response into CostAnalysis object
+   * Formats Cost Explorer results into a CostAnalysis object, aggregating across all time buckets
    */
-  private formatCostData(response: any, start: string, end: string, now: Date, endOfMonth: Date): CostAnalysis {
+  private formatCostData(results: ResultByTime[], start: string, end: string, now: Date, endOfMonth: Date): CostAnalysis {
     const serviceBreakdown: { [service: string]: number } = {};
-    let totalCost = 0;
+    const metricTotals: { [metric: string]: number } = {};
+    const metrics = getRequestedMetrics(this.metric, this.comparisonMetrics);
+    metrics.forEach(metric => { metricTotals[metric] = 0; });
+
+    const buckets: CostBucket[] = [];
+    for (const result of results) {
+      const bucket: CostBucket = {
+        start: result.TimePeriod?.Start || start,
+        end: result.TimePeriod?.End || end,
+        totalCost: 0,
+        serviceBreakdown: {},
+        estimated: result.Estimated ?? false
+      };
+      const bucketTotals: { [metric: string]: number } = {};
+      metrics.forEach(metric => { bucketTotals[metric] = 0; });
 
-    if (response.ResultsByTime && response.ResultsByTime.length > 0) {
-      const result = response.ResultsByTime[0];
-      
-      if (result.Groups) {
-        for (const group of result.Groups) {
-          const serviceName = group.Keys?.[0] || 'Unknown Service';
-          const cost = parseFloat(group.Metrics?.BlendedCost?.Amount || '0');
-          
-          if (cost > 0) {
-            serviceBreakdown[serviceName] = cost;
-            totalCost += cost;
+      for (const group of result.Groups || []) {
+        const serviceName = group.Keys?.[0] || 'Unknown Service';
+
+        for (const metric of metrics) {
+          const cost = parseFloat(group.Metrics?.[metric]?.Amount || '0');
+          if (cost <= 0) {
+            continue;
+          }
+
+          bucketTotals[metric] += cost;
+          if (metric === this.metric) {
+            bucket.serviceBreakdown[serviceName] = (bucket.serviceBreakdown[serviceName] || 0) + cost;
+            serviceBreakdown[serviceName] = (serviceBreakdown[serviceName] || 0) + cost;
           }
         }
       }
 
-      // Also include total from the result if available
-      if (result.Total?.BlendedCost?.Amount) {
-        const apiTotal = parseFloat(result.Total.BlendedCost.Amount);
-        if (apiTotal > totalCost) {
-          totalCost = apiTotal;
+      // Also include totals from the result if available
+      for (const metric of metrics) {
+        const apiTotal = parseFloat(result.Total?.[metric]?.Amount || '0');
+        if (apiTotal > bucketTotals[metric]) {
+          bucketTotals[metric] = apiTotal;
         }
+        metricTotals[metric] += bucketTotals[metric];
       }
+
+      bucket.totalCost = bucketTotals[this.metric];
+      buckets.push(bucket);
     }
 
+    const totalCost = metricTotals[this.metric];
+
     // Calculate projected monthly cost
     const projectedMonthly = this.calculateProjectedMonthlyCost(totalCost, now, endOfMonth);
 
@@ -123,27 +205,247 @@ export class CostAnalysisTool extends Tool {
         end: `${end}T23:59:59.999Z`
       },
       projectedMonthly,
-      currency: 'USD',
+      metric: this.metric,
+      metricTotals,
+      buckets,
+      currency: this.getCurrency(results),
       lastUpdated: new Date().toISOString()
     };
   }
 
+  /**
+   * Billing currency Cost Explorer reported the primary metric in, USD when no amounts were returned
+   */
+  private getCurrency(results: ResultByTime[]): string {
+    for (const result of results) {
+      const unit = result.Total?.[this.metric]?.Unit
+        ?? result.Groups?.find(group => group.Metrics?.[this.metric]?.Unit)?.Metrics?.[this.metric]?.Unit;
+      if (unit) {
+        return unit;
+      }
+    }
+    return 'USD';
+  }
+
   /**
    * Calculates projected monthly cost based on current usage
    */
   private calculateProjectedMonthlyCost(currentCost: number, now: Date, endOfMonth: Date): number {
-    const dayOfMonth = now.getDate();
-    const daysInMonth = endOfMonth.getDate();
-    
-    if (dayOfMonth === 0) {
-      return currentCost;
+    return linearProjection(currentCost, now.getDate(), endOfMonth.getDate());
+  }
+
+  /**
+   * Replaces the linear projection with the configured forecaster, falling back to linear on failure
+   */
+  private async applyForecast(costAnalysis: CostAnalysis, now: Date, startOfMonth: Date, endOfMonth: Date): Promise<CostAnalysis> {
+    const confidenceLevel = this.forecastConfig?.confidenceLevel ?? DEFAULT_FORECAST_CONFIDENCE_LEVEL;
+
+    try {
+      const dailyCosts = this.forecaster.requiresDailyCosts
+        ? await this.getDailyCosts(now, this.forecastConfig?.lookbackDays ?? DEFAULT_FORECAST_LOOKBACK_DAYS)
+        : [];
+
+      const forecast = await this.forecaster.forecast({
+        monthToDateCost: costAnalysis.totalCost,
+        now,
+        startOfMonth,
+        endOfMonth,
+        dailyCosts,
+        confidenceLevel,
+        metric: this.metric
+      });
+
+      return { ...costAnalysis, projectedMonthly: forecast.projectedMonthly, forecast };
+    } catch (error) {
+      this.logger.warn('Forecast failed, falling back to linear projection', {
+        method: this.forecaster.method,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      const forecast = await new LinearForecaster().forecast({
+        monthToDateCost: costAnalysis.totalCost,
+        now,
+        startOfMonth,
+        endOfMonth,
+        dailyCosts: [],
+        confidenceLevel
+      });
+
+      return { ...costAnalysis, projectedMonthly: forecast.projectedMonthly, forecast };
     }
+  }
 
-    // Simple linear projection based on elapsed days
-    const projectedCost = (currentCost / dayOfMonth) * daysInMonth;
-    
-    // Round to 2 decimal places
-    return Math.round(projectedCost * 100) / 100;
+  /**
+   * Adds the configured grouping breakdowns, skipping any grouping whose query fails
+   */
+  private async applyBreakdowns(costAnalysis: CostAnalysis, start: string, end: string): Promise<CostAnalysis> {
+    if (this.costGroupings.length === 0) {
+      return costAnalysis;
+    }
+
+    const breakdowns: { [groupingKey: string]: CostBreakdown } = {};
+    for (const grouping of this.costGroupings) {
+      try {
+        breakdowns[getCostGroupingKey(grouping)] = await this.getCostBreakdown(grouping, start, end);
+      } catch (error) {
+        this.logger.warn('Cost breakdown failed, skipping grouping', {
+          grouping: getCostGroupingKey(grouping),
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return { ...costAnalysis, breakdowns };
+  }
+
+  /**
+   * Retrieves month-to-date cost grouped by a tag, linked account, region or usage type
+   */
+  async getCostBreakdown(grouping: CostGrouping, start: string, end: string): Promise<CostBreakdown> {
+    const costs: { [value: string]: number } = {};
+    const results = await this.getAllResultsByTime({
+      TimePeriod: {
+        Start: start,
+        End: end
+      },
+      Granularity: 'MONTHLY',
+      Metrics: [this.metric],
+      GroupBy: [toGroupDefinition(grouping)]
+    });
+
+    for (const result of results) {
+      for (const group of result.Groups || []) {
+        const value = parseGroupValue(grouping, group.Keys?.[0] || '');
+        const cost = parseFloat(group.Metrics?.[this.metric]?.Amount || '0');
+
+        if (cost > 0) {
+          costs[value] = (costs[value] || 0) + cost;
+        }
+      }
+    }
+
+    return { grouping, costs };
+  }
+
+  /**
+   * Retrieves completed daily cost per service for the lookback window ending yesterday, oldest first
+   */
+  async getDailyServiceCosts(now: Date, lookbackDays: number): Promise<CostAnalysis[]> {
+    const startDate = new Date(now);
+    startDate.setDate(startDate.getDate() - lookbackDays);
+
+    const results = await this.getAllResultsByTime({
+      TimePeriod: {
+        Start: startDate.toISOString().split('T')[0],
+        End: now.toISOString().split('T')[0]
+      },
+      Granularity: 'DAILY',
+      Metrics: [this.metric],
+      GroupBy: [
+        {
+          Type: 'DIMENSION',
+          Key: 'SERVICE'
+        }
+      ]
+    });
+
+    const days: CostAnalysis[] = [];
+    for (const result of results) {
+      const date = result.TimePeriod?.Start;
+      if (!date) {
+        continue;
+      }
+
+      const day = this.createDailyCostAnalysis(date, this.getCurrency([result]));
+      for (const group of result.Groups || []) {
+        const cost = parseFloat(group.Metrics?.[this.metric]?.Amount || '0');
+        if (cost > 0) {
+          const serviceName = group.Keys?.[0] || 'Unknown Service';
+          day.serviceBreakdown[serviceName] = (day.serviceBreakdown[serviceName] || 0) + cost;
+          day.totalCost += cost;
+        }
+      }
+      days.push({ ...day, projectedMonthly: this.projectDailyRunRate(day) });
+    }
+
+    return days;
+  }
+
+  private createDailyCostAnalysis(date: string, currency: string): CostAnalysis {
+    return {
+      totalCost: 0,
+      serviceBreakdown: {},
+      period: {
+        start: `${date}T00:00:00.000Z`,
+        end: `${date}T23:59:59.999Z`
+      },
+      projectedMonthly: 0,
+      metric: this.metric,
+      currency,
+      lastUpdated: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Projects a single day's cost over its month, for comparing daily history with monthly figures
+   */
+  private projectDailyRunRate(day: CostAnalysis): number {
+    const date = new Date(day.period.start);
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    return Math.round(day.totalCost * daysInMonth * 100) / 100;
+  }
+
+  /**
+   * Retrieves completed daily costs for the lookback window ending yesterday
+   */
+  async getDailyCosts(now: Date, lookbackDays: number): Promise<DailyCost[]> {
+    const startDate = new Date(now);
+    startDate.setDate(startDate.getDate() - lookbackDays);
+
+    const results = await this.getAllResultsByTime({
+      TimePeriod: {
+        Start: startDate.toISOString().split('T')[0],
+        End: now.toISOString().split('T')[0]
+      },
+      Granularity: 'DAILY',
+      Metrics: [this.metric]
+    });
+
+    return results.map(result => ({
+      date: result.TimePeriod?.Start || '',
+      cost: parseFloat(result.Total?.[this.metric]?.Amount || '0')
+    })).filter(day => day.date !== '');
+  }
+
+  /**
+   * Runs a GetCostAndUsage query across all pages and returns its time buckets, oldest first
+   */
+  private async getAllResultsByTime(input: GetCostAndUsageCommandInput): Promise<ResultByTime[]> {
+    const buckets = new Map<string, ResultByTime>();
+    let nextPageToken: string | undefined;
+
+    do {
+      const response = await this.executeWithRetry(() =>
+        this.costExplorerClient.send(new GetCostAndUsageCommand({ ...input, NextPageToken: nextPageToken }))
+      );
+
+      for (const result of response.ResultsByTime || []) {
+        // Pages can split a bucket's groups, so merge them into the same bucket
+        const key = result.TimePeriod?.Start || '';
+        const existing = buckets.get(key);
+        if (existing) {
+          existing.Groups = [...(existing.Groups || []), ...(result.Groups || [])];
+          existing.Total = existing.Total ?? result.Total;
+        } else {
+          buckets.set(key, { ...result, Groups: [...(result.Groups || [])] });
+        }
+      }
+
+      nextPageToken = response.NextPageToken;
+    } while (nextPageToken);
+
+    return Array.from(buckets.values())
+      .sort((a, b) => (a.TimePeriod?.Start || '').localeCompare(b.TimePeriod?.Start || ''));
   }
 
   /**
@@ -301,7 +603,7 @@ export class CostAnalysisTool extends Tool {
         End: end
       },
       Granularity: 'MONTHLY',
-      Metrics: ['BlendedCost'],
+      Metrics: getRequestedMetrics(this.metric, this.comparisonMetrics),
       GroupBy: [
         {
           Type: 'DIMENSION',
@@ -311,11 +613,9 @@ export class CostAnalysisTool extends Tool {
     };
 
     try {
-      const response = await this.executeWithRetry(() => 
-        this.costExplorerClient.send(new GetCostAndUsageCommand(input))
-      );
+      const results = await this.getAllResultsByTime(input);
 
-      return this.formatCostData(response, start, end, endDate, endDate);
+      return this.formatCostData(results, start, end, endDate, endDate);
     } catch (error) {
       this.logger.error('Failed to retrieve cost data for custom range', { 
         error, 
@@ -340,6 +640,8 @@ export class CostAnalysisTool extends Tool {
       };
     }
 
+    await this.refreshMonthlySpend();
+
     // Check cost threshold before proceeding
     if (!this.canAffordAIAnalysis()) {
       this.logger.warn('Bedrock cost threshold exceeded, skipping AI analysis', {
@@ -354,7 +656,7 @@ export class CostAnalysisTool extends Tool {
 
     // Check cache first if enabled
     if (this.bedrockConfig.cacheResults) {
-      const cachedResult = this.getCachedAnalysis(costAnalysis);
+      const cachedResult = await this.getCachedAnalysis(costAnalysis);
       if (cachedResult) {
         this.logger.info('Using cached AI analysis result');
         return cachedResult;
@@ -363,6 +665,7 @@ export class CostAnalysisTool extends Tool {
 
     try {
       const startTime = Date.now();
+      const processingCostBefore = this.bedrockTool.getTotalProcessingCost();
       
       // Perform AI analysis
       const [aiAnalysis, anomalies, recommendations] = await Promise.allSettled([
@@ -373,6 +676,9 @@ export class CostAnalysisTool extends Tool {
 
       const processingTime = Date.now() - startTime;
 
+      // Track the cost of every model call, including failed analyses and repairs
+      this.trackBedrockCost(this.getProcessingCostSince(processingCostBefore));
+
       // Build enhanced result with successful analyses
       const enhancedResult: EnhancedCostAnalysis = {
         ...costAnalysis,
@@ -383,7 +689,6 @@ export class CostAnalysisTool extends Tool {
       // Add AI analysis if successful
       if (aiAnalysis.status === 'fulfilled') {
         enhancedResult.aiAnalysis = aiAnalysis.value;
-        this.trackBedrockCost(aiAnalysis.value.processingCost || 0);
       } else {
         this.logger.warn('AI analysis failed', { error: aiAnalysis.reason });
       }
@@ -420,7 +725,7 @@ export class CostAnalysisTool extends Tool {
 
       // Cache the result if caching is enabled and we have at least one successful AI result
       if (this.bedrockConfig.cacheResults) {
-        this.cacheAnalysisResult(costAnalysis, enhancedResult);
+        await this.cacheAnalysisResult(costAnalysis, enhancedResult);
       }
 
       this.logger.info('AI-enhanced cost analysis completed', {
@@ -448,6 +753,31 @@ export class CostAnalysisTool extends Tool {
     }
   }
 
+  /**
+   * Loads month-to-date spend from the ledger so budget checks include earlier invocations. The local total
+   * is only raised within a month, so spend whose ledger write failed still counts.
+   */
+  private async refreshMonthlySpend(now: Date = new Date()): Promise<void> {
+    const month = getBillingPeriod(now.toISOString());
+    try {
+      const summary = await this.spendLedger.getMonthlySpend(month);
+      if (this.spendSummary && this.spendSummary.month !== month) {
+        this.monthlyBedrockSpend = 0;
+      }
+      this.spendSummary = summary;
+      this.monthlyBedrockSpend = Math.max(this.monthlyBedrockSpend, summary.totalCost);
+    } catch (error) {
+      this.logger.warn('Failed to load Bedrock spend ledger, using local spend tracking', { error });
+    }
+  }
+
+  /**
+   * Cost of the Bedrock tool's model calls since it reported the given total
+   */
+  private getProcessingCostSince(processingCostBefore: number): number {
+    return Math.round((this.bedrockTool!.getTotalProcessingCost() - processingCostBefore) * 100000) / 100000;
+  }
+
   /**
    * Checks if AI analysis can be performed within cost limits
    */
@@ -481,106 +811,87 @@ export class CostAnalysisTool extends Tool {
   }
 
   /**
-   * Generates a hash for cost data to use as cache key
-   */
-  private generateCostDataHash(costAnalysis: CostAnalysis): string {
-    const hashData = {
-      totalCost: costAnalysis.totalCost,
-      projectedMonthly: costAnalysis.projectedMonthly,
-      period: costAnalysis.period,
-      serviceCount: Object.keys(costAnalysis.serviceBreakdown).length,
-      topServices: Object.entries(costAnalysis.serviceBreakdown)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 5)
-        .map(([service, cost]) => `${service}:${cost.toFixed(2)}`)
-        .join('|')
-    };
-    
-    return Buffer.from(JSON.stringify(hashData)).toString('base64');
-  }
-
-  /**
-   * Retrieves cached AI analysis result if available and valid
+   * Retrieves a cached AI analysis result if available and unexpired, reporting the hit or miss
    */
-  private getCachedAnalysis(costAnalysis: CostAnalysis): EnhancedCostAnalysis | null {
+  private async getCachedAnalysis(
+    costAnalysis: CostAnalysis,
+    estimatedCost?: number,
+    analyses?: string[]
+  ): Promise<EnhancedCostAnalysis | null> {
     if (!this.bedrockConfig?.cacheResults) return null;
 
-    const cacheKey = this.generateCostDataHash(costAnalysis);
-    const cacheEntry = this.aiAnalysisCache.get(cacheKey);
-    
-    if (!cacheEntry) return null;
-
-    // Check if cache entry is still valid
-    const now = Date.now();
-    const cacheAge = now - cacheEntry.timestamp;
-    const maxAge = this.bedrockConfig.cacheTTLMinutes * 60 * 1000;
-    
-    if (cacheAge > maxAge) {
-      this.aiAnalysisCache.delete(cacheKey);
-      return null;
+    const cacheKey = createAICacheKey(costAnalysis, this.bedrockConfig.modelId, AI_CACHE_PROMPT_VERSION, analyses);
+    let cacheEntry: AIAnalysisCacheEntry | null = null;
+    try {
+      cacheEntry = await this.aiCache.get(cacheKey);
+    } catch (error) {
+      this.logger.warn('Failed to read AI analysis cache', { error });
     }
 
-    // Verify the cached result matches current cost data
-    if (cacheEntry.costDataHash !== cacheKey) {
-      this.aiAnalysisCache.delete(cacheKey);
+    if (!isAICacheEntryFresh(cacheEntry)) {
+      this.cacheMisses++;
+      await this.metrics?.recordBedrockCacheMetrics(0, 1, this.getAICacheSize());
       return null;
     }
 
+    this.cacheHits++;
+    await this.metrics?.recordBedrockCacheMetrics(
+      1,
+      0,
+      this.getAICacheSize(),
+      cacheEntry.result.aiAnalysis?.processingCost ?? estimatedCost
+    );
     return cacheEntry.result;
   }
 
   /**
-   * Caches AI analysis result
+   * Caches AI analysis result for the configured TTL
    */
-  private cacheAnalysisResult(costAnalysis: CostAnalysis, enhancedResult: EnhancedCostAnalysis): void {
+  private async cacheAnalysisResult(
+    costAnalysis: CostAnalysis,
+    enhancedResult: EnhancedCostAnalysis,
+    analyses?: string[]
+  ): Promise<void> {
     if (!this.bedrockConfig?.cacheResults) return;
 
-    const cacheKey = this.generateCostDataHash(costAnalysis);
-    const cacheEntry: CacheEntry = {
-      result: enhancedResult,
-      timestamp: Date.now(),
-      costDataHash: cacheKey
-    };
-
-    this.aiAnalysisCache.set(cacheKey, cacheEntry);
-
-    // Clean up old cache entries to prevent memory leaks
-    this.cleanupExpiredCacheEntries();
+    const cacheKey = createAICacheKey(costAnalysis, this.bedrockConfig.modelId, AI_CACHE_PROMPT_VERSION, analyses);
+    try {
+      await this.aiCache.put(createAICacheEntry(cacheKey, enhancedResult, this.bedrockConfig.cacheTTLMinutes));
+    } catch (error) {
+      this.logger.warn('Failed to write AI analysis cache', { error });
+    }
   }
 
   /**
-   * Removes expired cache entries
+   * Entries held by the in-memory cache (0 when results are cached in DynamoDB)
    */
-  private cleanupExpiredCacheEntries(): void {
-    if (!this.bedrockConfig?.cacheResults) return;
-
-    const now = Date.now();
-    const maxAge = this.bedrockConfig.cacheTTLMinutes * 60 * 1000;
-    
-    for (const [key, entry] of this.aiAnalysisCache.entries()) {
-      if (now - entry.timestamp > maxAge) {
-        this.aiAnalysisCache.delete(key);
-      }
-    }
+  private getAICacheSize(): number {
+    return this.aiCache instanceof InMemoryAIAnalysisCacheStore ? this.aiCache.size : 0;
   }
 
   /**
    * Gets current Bedrock usage statistics
    */
   getBedrockUsageStats(): { monthlySpend: number; threshold: number; cacheSize: number; cacheHitRate?: number } {
+    const cacheLookups = this.cacheHits + this.cacheMisses;
     return {
       monthlySpend: this.monthlyBedrockSpend,
       threshold: this.bedrockConfig?.costThreshold || 0,
-      cacheSize: this.aiAnalysisCache.size,
-      // Note: Cache hit rate would need to be tracked separately for accurate reporting
+      cacheSize: this.getAICacheSize(),
+      cacheHitRate: cacheLookups > 0 ? this.cacheHits / cacheLookups : undefined
     };
   }
 
   /**
-   * Clears the AI analysis cache
+   * Clears the in-memory AI analysis cache and hit counters; DynamoDB entries expire through their TTL
+   * or when AI_CACHE_PROMPT_VERSION changes
    */
   clearAICache(): void {
-    this.aiAnalysisCache.clear();
+    if (this.aiCache instanceof InMemoryAIAnalysisCacheStore) {
+      this.aiCache.clear();
+    }
+    this.cacheHits = 0;
+    this.cacheMisses = 0;
     this.logger.info('AI analysis cache cleared');
   }
 
@@ -700,36 +1011,37 @@ export class CostAnalysisTool extends Tool {
   }
 
   /**
-   * Estimates the cost of an AI analysis request before execution
+   * Estimates the cost of an AI-enhanced analysis from the configured model's pricing, using the average
+   * tokens per model call recorded in the ledger this month
    */
   private estimateRequestCost(costAnalysis: CostAnalysis, includeAnomalies: boolean = true, includeRecommendations: boolean = true): number {
-    // Base cost estimation based on data size and complexity
-    const serviceCount = Object.keys(costAnalysis.serviceBreakdown).length;
-    const dataComplexity = Math.min(serviceCount / 10, 1.0); // Normalize to 0-1 scale
-    
-    // Estimate tokens based on service count and cost values
-    const estimatedInputTokens = 200 + (serviceCount * 50); // Base prompt + service data
-    const estimatedOutputTokens = 150; // Typical response size
-    
-    // Titan Text pricing (approximate)
-    const inputCostPerToken = 0.0008 / 1000;
-    const outputCostPerToken = 0.0016 / 1000;
-    
-    let estimatedCost = (estimatedInputTokens * inputCostPerToken) + (estimatedOutputTokens * outputCostPerToken);
-    
-    // Multiply by number of AI operations requested
-    let operationCount = 1; // Base analysis
-    if (includeAnomalies) operationCount++;
-    if (includeRecommendations) operationCount++;
-    
-    estimatedCost *= operationCount;
-    
-    // Add complexity multiplier
-    estimatedCost *= (1 + dataComplexity * 0.5);
-    
+    const operationCount = 1 + (includeAnomalies ? 1 : 0) + (includeRecommendations ? 1 : 0);
+    const pricing = getBedrockModelPricing(this.bedrockConfig!.modelId, this.bedrockConfig!.modelPricing);
+    const { inputTokens, outputTokens } = this.estimateTokensPerOperation(costAnalysis);
+
+    const estimatedCost = operationCount * ((inputTokens / 1000) * pricing.inputPer1K + (outputTokens / 1000) * pricing.outputPer1K);
     return Math.round(estimatedCost * 100000) / 100000; // Round to 5 decimal places
   }
 
+  /**
+   * Average tokens per model call from the ledger, or before any calls are recorded, the prompt size
+   * for this cost data and a full-length response
+   */
+  private estimateTokensPerOperation(costAnalysis: CostAnalysis): { inputTokens: number; outputTokens: number } {
+    const invocationCount = this.spendSummary?.invocationCount ?? 0;
+    if (this.spendSummary && invocationCount > 0) {
+      return {
+        inputTokens: this.spendSummary.inputTokens / invocationCount,
+        outputTokens: this.spendSummary.outputTokens / invocationCount
+      };
+    }
+
+    return {
+      inputTokens: ESTIMATED_PROMPT_TEMPLATE_TOKENS + Math.ceil(JSON.stringify(costAnalysis.serviceBreakdown).length / 4),
+      outputTokens: this.bedrockConfig!.maxTokens
+    };
+  }
+
   /**
    * Checks if a request can be afforded within the remaining budget
    */
@@ -763,6 +1075,8 @@ export class CostAnalysisTool extends Tool {
       };
     }
 
+    await this.refreshMonthlySpend();
+
     // Check cost threshold and auto-disable if exceeded
     if (!forceExecution && !this.checkCostThresholdAndDisable()) {
       return {
@@ -792,9 +1106,14 @@ export class CostAnalysisTool extends Tool {
       await this.intelligentRateLimit();
     }
 
+    // Partial requests are cached apart from the full analysis of the same cost data
+    const analyses = includeAnomalies && includeRecommendations
+      ? undefined
+      : ['spending', ...(includeAnomalies ? ['anomalies'] : []), ...(includeRecommendations ? ['recommendations'] : [])];
+
     // Check cache first if enabled
     if (this.bedrockConfig.cacheResults) {
-      const cachedResult = this.getCachedAnalysis(costAnalysis);
+      const cachedResult = await this.getCachedAnalysis(costAnalysis, estimatedCost, analyses);
       if (cachedResult) {
         this.logger.info('Using cached AI analysis result', {
           estimatedCostSaved: estimatedCost
@@ -805,6 +1124,7 @@ export class CostAnalysisTool extends Tool {
 
     try {
       const startTime = Date.now();
+      const processingCostBefore = this.bedrockTool.getTotalProcessingCost();
       
       // Build array of AI operations to perform
       const aiOperations: Promise<any>[] = [
@@ -830,12 +1150,12 @@ export class CostAnalysisTool extends Tool {
         fallbackUsed: false
       };
 
-      let actualCost = 0;
+      // Cost of every model call made for this request, priced from the token counts Bedrock reported
+      const actualCost = this.getProcessingCostSince(processingCostBefore);
 
       // Process results
       if (results[0].status === 'fulfilled') {
         enhancedResult.aiAnalysis = results[0].value;
-        actualCost += results[0].value.processingCost || 0;
       }
 
       if (includeAnomalies && results[1]?.status === 'fulfilled') {
@@ -846,18 +1166,27 @@ export class CostAnalysisTool extends Tool {
         enhancedResult.recommendations = (results[includeAnomalies ? 2 : 1] as PromiseFulfilledResult<OptimizationRecommendation[]>).value;
       }
 
-      // Track actual cost
-      this.trackBedrockCost(actualCost || estimatedCost);
+      // Track actual cost and reconcile it with the estimate
+      this.trackBedrockCost(actualCost);
+      await this.refreshMonthlySpend();
+      await this.metrics?.recordBedrockCostTracking(
+        this.monthlyBedrockSpend,
+        this.bedrockConfig.costThreshold,
+        this.spendSummary?.invocationCount ?? 0,
+        0,
+        estimatedCost,
+        actualCost
+      );
 
       // Cache the result if successful
       if (this.bedrockConfig.cacheResults && (enhancedResult.aiAnalysis || enhancedResult.anomalies || enhancedResult.recommendations)) {
-        this.cacheAnalysisResult(costAnalysis, enhancedResult);
+        await this.cacheAnalysisResult(costAnalysis, enhancedResult, analyses);
       }
 
       this.logger.info('Advanced AI-enhanced cost analysis completed', {
         processingTime,
         estimatedCost,
-        actualCost: actualCost || estimatedCost,
+        actualCost,
         hasAIAnalysis: !!enhancedResult.aiAnalysis,
         hasAnomalies: !!enhancedResult.anomalies,
         hasRecommendations: !!enhancedResult.recommendations,
@@ -882,7 +1211,33 @@ export class CostAnalysisTool extends Tool {
   }
 
   /**
-   * Gets detailed cost control statistics
+   * Checks Bedrock model access with a test invocation, charged to the spend ledger like any other model call.
+   * Returns false without invoking the model when Bedrock is disabled or the monthly budget is spent.
+   */
+  async validateAIModelAccess(): Promise<boolean> {
+    if (!this.bedrockConfig?.enabled || !this.bedrockTool) {
+      return false;
+    }
+
+    await this.refreshMonthlySpend();
+    if (!this.canAffordAIAnalysis()) {
+      this.logger.warn('Skipping Bedrock model access check, monthly cost threshold reached', {
+        monthlySpend: this.monthlyBedrockSpend,
+        threshold: this.bedrockConfig.costThreshold
+      });
+      return false;
+    }
+
+    const processingCostBefore = this.bedrockTool.getTotalProcessingCost();
+    try {
+      return await this.bedrockTool.validateModelAccess();
+    } finally {
+      this.trackBedrockCost(this.getProcessingCostSince(processingCostBefore));
+    }
+  }
+
+  /**
+   * Gets detailed cost control statistics, including the month-to-date ledger totals loaded for the last budget check
    */
   getCostControlStats(): {
     monthlySpend: number;
@@ -893,6 +1248,7 @@ export class CostAnalysisTool extends Tool {
     dynamicRateLimit: number;
     cacheSize: number;
     isEnabled: boolean;
+    ledger?: BedrockSpendSummary;
   } {
     const remainingBudget = (this.bedrockConfig?.costThreshold || 0) - this.monthlyBedrockSpend;
     const usagePercentage = this.bedrockConfig?.costThreshold 
@@ -916,16 +1272,19 @@ export class CostAnalysisTool extends Tool {
       usagePercentage: Math.round(usagePercentage * 100) / 100,
       requestsThisMinute: this.costThresholdTracker,
       dynamicRateLimit,
-      cacheSize: this.aiAnalysisCache.size,
-      isEnabled: this.bedrockConfig?.enabled || false
+      cacheSize: this.getAICacheSize(),
+      isEnabled: this.bedrockConfig?.enabled || false,
+      ledger: this.spendSummary
     };
   }
 
   /**
-   * Resets monthly cost tracking (for testing or manual reset)
+   * Resets monthly cost tracking (for testing or manual reset); spend in a persisted ledger is reloaded
+   * before the next budget check
    */
   resetMonthlyCostTracking(): void {
     this.monthlyBedrockSpend = 0;
+    this.spendSummary = undefined;
     this.lastSpendReset = Date.now();
     this.costThresholdTracker = 0;
     this.logger.info('Monthly Bedrock cost tracking manually reset');
@@ -1,13 +1,8 @@
 import { Tool } from '../mock-strands-agent';
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
-import { BedrockCostInsightsConfig, CostAnalysis, CostInsights } from '../types';
+import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
+import { BedrockCostInsightsConfig, BedrockInferenceConfig, CostAnalysis, CostInsights } from '../types';
 import { createLogger } from '../utils/logger';
-
-interface InvokeConfig {
-  maxOutputTokens: number;
-  temperature: number;
-  topP: number;
-}
+import { invokeBedrockModel } from '../utils/bedrock-models';
 
 /**
  * Tool that enriches cost analysis with Bedrock generated insights
@@ -15,7 +10,7 @@ interface InvokeConfig {
 export class CostInsightsTool extends Tool {
   private client: BedrockRuntimeClient;
   private modelId: string;
-  private invokeConfig: InvokeConfig;
+  private invokeConfig: BedrockInferenceConfig;
   private toolLogger = createLogger('CostInsightsTool');
 
   constructor(config: BedrockCostInsightsConfig, defaultRegion: string) {
@@ -25,7 +20,7 @@ export class CostInsightsTool extends Tool {
     this.client = new BedrockRuntimeClient({ region });
     this.modelId = config.modelId;
     this.invokeConfig = {
-      maxOutputTokens: config.maxOutputTokens ?? 256,
+      maxTokens: config.maxOutputTokens ?? 256,
       temperature: config.temperature ?? 0.2,
       topP: config.topP ?? 0.9
     };
@@ -38,21 +33,8 @@ export class CostInsightsTool extends Tool {
     const prompt = this.buildPrompt(costAnalysis, threshold);
 
     try {
-      const response = await this.client.send(new InvokeModelCommand({
-        modelId: this.modelId,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          inputText: prompt,
-          textGenerationConfig: {
-            maxTokenCount: this.invokeConfig.maxOutputTokens,
-            temperature: this.invokeConfig.temperature,
-            topP: this.invokeConfig.topP
-          }
-        })
-      }));
-
-      return this.parseResponse(response.body);
+      const response = await invokeBedrockModel(this.client, this.modelId, prompt, this.invokeConfig);
+      return this.parseResponse(response.text);
     } catch (error) {
       this.toolLogger.error('Failed to generate Bedrock cost insights', error as Error, {
         modelId: this.modelId
@@ -96,30 +78,18 @@ export class CostInsightsTool extends Tool {
   }
 
   /**
-   * Parses the Titan model response body into CostInsights
+   * Parses the model's generated text into CostInsights
    */
-  private parseResponse(body: Uint8Array | undefined): CostInsights | undefined {
-    if (!body) {
-      return undefined;
-    }
-
-    const textDecoder = new TextDecoder('utf-8');
-    let parsedText: string | undefined;
-
-    try {
-      const raw = JSON.parse(textDecoder.decode(body));
-      parsedText = raw?.results?.[0]?.outputText?.trim();
-    } catch (error) {
-      this.toolLogger.error('Unable to decode Bedrock response', error as Error);
-      return undefined;
-    }
-
+  private parseResponse(text: string): CostInsights | undefined {
+    const parsedText = text.trim();
     if (!parsedText) {
       return undefined;
     }
 
     try {
-      const payload = JSON.parse(parsedText);
+      // Chat models may wrap the JSON in a sentence or code fence
+      const jsonMatch = parsedText.match(/\{[\s\S]*\}/);
+      const payload = JSON.parse(jsonMatch ? jsonMatch[0] : parsedText);
 
       const insights: CostInsights = {
         summary: String(payload.summary || '').trim(),
@@ -8,6 +8,8 @@ export interface CostAnalysis {
   totalCost: number;
   /** Cost breakdown by AWS service */
   serviceBreakdown: { [service: string]: number };
+  /** Additional cost breakdowns keyed by grouping (e.g. 'TAG:team', 'LINKED_ACCOUNT') */
+  breakdowns?: { [groupingKey: string]: CostBreakdown };
   /** Time period for the cost data */
   period: {
     /** Period start date (ISO string) */
@@ -17,12 +19,128 @@ export interface CostAnalysis {
   };
   /** Projected full month cost based on current usage */
   projectedMonthly: number;
+  /** Forecast method and confidence interval behind projectedMonthly */
+  forecast?: CostForecast;
+  /** Cost Explorer metric behind totalCost and the breakdowns (BlendedCost when omitted) */
+  metric?: CostMetric;
+  /** Month-to-date totals for the primary and comparison metrics */
+  metricTotals?: { [metric: string]: number };
+  /** Cost per Cost Explorer time bucket, oldest first (one per month for ranges spanning months) */
+  buckets?: CostBucket[];
+  /** Day-over-day service cost spikes found by statistical spike detection */
+  spikes?: CostSpike[];
+  /** Month-over-month and same-day-last-month deltas computed from stored cost snapshots */
+  comparisons?: CostComparisons;
+  /** Total spend per day for the trailing days, oldest first (used for the email report sparkline) */
+  dailyCosts?: DailyCost[];
   /** Currency code (e.g., 'USD') */
   currency: string;
   /** Timestamp when data was retrieved */
   lastUpdated: string;
 }
 
+/**
+ * Cost for a single Cost Explorer time bucket
+ */
+export interface CostBucket {
+  /** Bucket start date (YYYY-MM-DD) */
+  start: string;
+  /** Bucket end date, exclusive (YYYY-MM-DD) */
+  end: string;
+  /** Total cost for the primary metric */
+  totalCost: number;
+  /** Cost breakdown by AWS service */
+  serviceBreakdown: { [service: string]: number };
+  /** Whether Cost Explorer marked the bucket as an estimate */
+  estimated: boolean;
+}
+
+/**
+ * Cost Explorer cost metrics
+ */
+export type CostMetric = 'BlendedCost' | 'UnblendedCost' | 'AmortizedCost' | 'NetAmortizedCost' | 'NetUnblendedCost';
+
+/**
+ * Cost metric selection
+ */
+export interface CostMetricConfig {
+  /** Metric used for thresholds, breakdowns and forecasts */
+  metric: CostMetric;
+  /** Additional metrics whose totals are shown alongside the primary metric in alert emails */
+  comparisonMetrics?: CostMetric[];
+}
+
+/**
+ * Cost Explorer groupings available for additional cost breakdowns
+ */
+export type CostGroupingType = 'TAG' | 'LINKED_ACCOUNT' | 'REGION' | 'USAGE_TYPE';
+
+/**
+ * A Cost Explorer grouping used to break down month-to-date cost
+ */
+export interface CostGrouping {
+  /** Grouping type */
+  type: CostGroupingType;
+  /** Cost allocation tag key (required for TAG groupings) */
+  tagKey?: string;
+}
+
+/**
+ * Month-to-date cost broken down by a single grouping
+ */
+export interface CostBreakdown {
+  /** Grouping the costs were broken down by */
+  grouping: CostGrouping;
+  /** Cost per group value (tag value, account ID, region or usage type) */
+  costs: { [value: string]: number };
+}
+
+/**
+ * Budget for a single value of a cost grouping (e.g. team tag 'platform' or a linked account)
+ */
+export interface ScopedBudget {
+  /** Grouping the budget applies to */
+  grouping: CostGrouping;
+  /** Group value the budget applies to */
+  value: string;
+  /** Monthly budget in USD */
+  budget: number;
+}
+
+/**
+ * Methods available for projecting full month cost
+ */
+export type ForecastMethod = 'linear' | 'trailing-7-day' | 'weekday-seasonal' | 'cost-explorer';
+
+/**
+ * Projected monthly cost produced by a forecaster
+ */
+export interface CostForecast {
+  /** Forecast method used */
+  method: ForecastMethod;
+  /** Projected full month cost */
+  projectedMonthly: number;
+  /** Confidence interval for the projection (omitted when the method cannot estimate one) */
+  confidenceInterval?: {
+    /** Lower bound of projected full month cost */
+    lower: number;
+    /** Upper bound of projected full month cost */
+    upper: number;
+    /** Confidence level in percent (e.g. 80) */
+    level: number;
+  };
+}
+
+/**
+ * Daily cost data point
+ */
+export interface DailyCost {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  /** Cost for the day */
+  cost: number;
+}
+
 /**
  * AI analysis result from Bedrock
  */
@@ -96,6 +214,11 @@ export interface EnhancedCostAnalysis extends CostAnalysis {
   fallbackUsed?: boolean;
 }
 
+/**
+ * Alert severity levels, ordered from least to most severe
+ */
+export type AlertLevel = 'PROJECTED' | 'WARNING' | 'CRITICAL';
+
 /**
  * Context information for alert generation
  */
@@ -108,8 +231,28 @@ export interface AlertContext {
   percentageOver: number;
   /** Top cost-driving services */
   topServices: ServiceCost[];
-  /** Alert severity level */
-  alertLevel: 'WARNING' | 'CRITICAL';
+  /** Alert severity level (PROJECTED when only the month-end forecast exceeds the threshold) */
+  alertLevel: AlertLevel;
+  /** Highest threshold tier crossed by current spend */
+  tier?: ThresholdTier;
+  /** Budget scope the alert applies to (account-level when omitted) */
+  scope?: AlertScope;
+  /** Routing rule that chose the alert channels, overriding the tier channels */
+  routingRule?: AlertRoutingRule;
+  /** Identifier sent as customData.alertId, used to acknowledge or snooze the alert */
+  alertId?: string;
+}
+
+/**
+ * Budget scope an alert is evaluated for
+ */
+export interface AlertScope {
+  /** Scope type */
+  type: 'account' | 'service' | 'group';
+  /** Scope value (e.g. the service name or tag value); omitted for the account scope */
+  value?: string;
+  /** Cost grouping for 'group' scopes */
+  grouping?: CostGrouping;
 }
 
 /**
@@ -154,6 +297,8 @@ export interface BedrockConfig {
   maxTokens: number;
   /** Temperature for AI model (0.0 to 1.0) */
   temperature: number;
+  /** Nucleus sampling for AI model (0.0 to 1.0, defaults to 0.9) */
+  topP?: number;
   /** Maximum monthly Bedrock spend threshold */
   costThreshold: number;
   /** Rate limit per minute for Bedrock calls */
@@ -164,16 +309,698 @@ export interface BedrockConfig {
   cacheTTLMinutes: number;
   /** Fallback to basic analysis on AI errors */
   fallbackOnError: boolean;
+  /** Call the model through the Bedrock Converse API instead of its native InvokeModel body */
+  useConverseApi?: boolean;
+  /** Re-prompts with the validation errors when model output fails its schema (default 1, 0 disables) */
+  maxRepairAttempts?: number;
+  /** Maximum USD spent on repair re-prompts per analysis (no limit beyond maxRepairAttempts when omitted) */
+  repairBudget?: number;
+  /** DynamoDB table persisting cached AI results across invocations (in-memory when omitted) */
+  cacheTableName?: string;
+  /** DynamoDB table holding the monthly ledger of model invocations used for costThreshold (in-memory when omitted) */
+  spendLedgerTableName?: string;
+  /** On-demand pricing overrides by model ID prefix (e.g. negotiated rates); the longest matching prefix wins */
+  modelPricing?: Record<string, BedrockModelPricing>;
+}
+
+/**
+ * A single Bedrock model invocation recorded in the spend ledger
+ */
+export interface BedrockInvocationRecord {
+  /** Billing month (YYYY-MM, UTC) the invocation is charged to */
+  month: string;
+  /** ISO timestamp of the invocation */
+  timestamp: string;
+  /** Bedrock model ID */
+  modelId: string;
+  /** What the invocation was for (e.g. 'spending_analysis', 'health_check') */
+  purpose: string;
+  /** Input tokens (reported by the model, or estimated) */
+  inputTokens: number;
+  /** Output tokens (reported by the model, or estimated) */
+  outputTokens: number;
+  /** Cost in USD */
+  cost: number;
+}
+
+/**
+ * Month-to-date Bedrock spend from the ledger
+ */
+export interface BedrockSpendSummary {
+  /** Billing month (YYYY-MM, UTC) */
+  month: string;
+  /** Total cost in USD */
+  totalCost: number;
+  /** Total input tokens */
+  inputTokens: number;
+  /** Total output tokens */
+  outputTokens: number;
+  /** Number of recorded invocations */
+  invocationCount: number;
+}
+
+/**
+ * Cached AI-enhanced analysis, keyed by a hash of the cost data, model and prompt version
+ */
+export interface AIAnalysisCacheEntry {
+  /** Hash identifying the cost data, model and prompt version */
+  cacheKey: string;
+  /** Cached AI-enhanced analysis */
+  result: EnhancedCostAnalysis;
+  /** ISO timestamp the result was cached */
+  createdAt: string;
+  /** Epoch seconds after which the entry is stale (DynamoDB TTL attribute) */
+  expiresAt: number;
+}
+
+/**
+ * JSON Schema subset used to validate structured model output
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  /** Object properties */
+  properties?: Record<string, JsonSchema>;
+  /** Object properties that must be present */
+  required?: string[];
+  /** Array item schema */
+  items?: JsonSchema;
+  /** Allowed string values */
+  enum?: string[];
+  /** Inclusive numeric bounds */
+  minimum?: number;
+  maximum?: number;
+  /** Minimum string length */
+  minLength?: number;
+}
+
+/**
+ * Outcome of validating model output against its schema
+ */
+export type StructuredOutputResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: string[] };
+
+/**
+ * How a Bedrock analysis call ended, recorded as the Outcome metric dimension
+ */
+export type BedrockResponseOutcome = 'VALID' | 'REPAIRED' | 'PARSE_FAILURE' | 'API_FAILURE';
+
+/**
+ * Request/response shape used to call a Bedrock model, chosen by model ID prefix
+ */
+export type BedrockModelFamily = 'titan' | 'anthropic' | 'llama' | 'mistral' | 'converse';
+
+/**
+ * Inference parameters shared by all model families
+ */
+export interface BedrockInferenceConfig {
+  /** Maximum tokens to generate */
+  maxTokens: number;
+  /** Sampling temperature (0.0 to 1.0) */
+  temperature: number;
+  /** Nucleus sampling probability (0.0 to 1.0) */
+  topP: number;
+}
+
+/**
+ * Generated text and the token usage reported by the model, when available
+ */
+export interface BedrockModelResponse {
+  /** Generated text */
+  text: string;
+  /** Input tokens billed for the request */
+  inputTokens?: number;
+  /** Output tokens billed for the request */
+  outputTokens?: number;
+}
+
+/**
+ * On-demand Bedrock pricing in USD per 1K tokens
+ */
+export interface BedrockModelPricing {
+  /** Price per 1K input tokens */
+  inputPer1K: number;
+  /** Price per 1K output tokens */
+  outputPer1K: number;
+}
+
+/**
+ * Notification channels that a threshold tier or routing rule can target
+ */
+export type AlertChannel = 'email' | 'sms' | 'ios' | 'slack' | 'teams' | 'webhook' | 'ses' | 'incident';
+
+/**
+ * SNS topics for individual channels. A channel with its own topic only receives the alerts routed
+ * to it; channels without one share the alert topic and receive whatever is published there.
+ */
+export interface ChannelTopicConfig {
+  /** Topic for email subscriptions */
+  email?: string;
+  /** Topic for SMS subscriptions */
+  sms?: string;
+  /** Topic for iOS platform endpoint subscriptions */
+  ios?: string;
+}
+
+/**
+ * Maps alerts to a channel set; every criterion that is set must match
+ */
+export interface AlertRoutingRule {
+  /** Rule name, reported in logs and the SNS routing_rule attribute */
+  name: string;
+  /** Alert levels the rule applies to (any level when omitted) */
+  alertLevels?: AlertLevel[];
+  /** Services the rule applies to: the budgeted service for service alerts, otherwise the top cost driver */
+  services?: string[];
+  /** Alert scope keys (e.g. 'account', 'service:Amazon EC2', 'TAG:team:*'); a trailing '*' matches by prefix */
+  scopes?: string[];
+  /** Time of day the rule applies (any time when omitted) */
+  timeOfDay?: TimeOfDayWindow;
+  /** Channels notified when the rule matches */
+  channels: AlertChannel[];
+}
+
+/**
+ * Daily time window in HH:MM, wrapping past midnight when end is before start
+ */
+export interface TimeOfDayWindow {
+  /** Window start, inclusive */
+  start: string;
+  /** Window end, exclusive */
+  end: string;
+  /** IANA time zone (defaults to UTC) */
+  timeZone?: string;
+}
+
+/**
+ * Per-channel quiet hours; CRITICAL alerts are always delivered immediately
+ */
+export interface QuietHoursConfig {
+  /** Quiet hours for SMS */
+  sms?: TimeOfDayWindow;
+  /** Quiet hours for iOS push notifications */
+  ios?: TimeOfDayWindow;
+  /** SQS queue URL holding deferred notifications (required by config validation; in-memory when the alert tool is built without one) */
+  queueUrl?: string;
+}
+
+/**
+ * Language of alert messages
+ */
+export type AlertLocale = 'en' | 'de' | 'ja';
+
+/**
+ * Alert message languages per channel and SES recipient; amounts use CostAnalysis.currency
+ */
+export interface LocalizationConfig {
+  /** Locale used when no channel or recipient locale applies (defaults to en) */
+  defaultLocale?: AlertLocale;
+  /** Locale per localized channel (email, sms, ios, ses, slack, teams) */
+  channelLocales?: Partial<Record<AlertChannel, AlertLocale>>;
+  /** Locale per SES report recipient email address */
+  recipientLocales?: { [email: string]: AlertLocale };
+}
+
+/**
+ * Alert messages that can be replaced by a template
+ */
+export type AlertTemplateName = 'email' | 'sms' | 'pushTitle' | 'pushBody' | 'chat';
+
+/**
+ * Mustache-style alert templates by message; messages without a template keep the built-in wording
+ */
+export type AlertTemplates = Partial<Record<AlertTemplateName, string>>;
+
+/**
+ * User-editable alert templates
+ */
+export interface AlertTemplateConfig {
+  /** Inline templates, overriding templates of the same name loaded from the source */
+  templates?: AlertTemplates;
+  /** JSON template document location: an s3://bucket/key URI or a local file path */
+  source?: string;
+}
+
+/**
+ * Variables available to alert templates; amounts and percentages are formatted for the channel locale
+ */
+export interface AlertTemplateData {
+  alert: {
+    /** Alert level (PROJECTED, WARNING or CRITICAL) */
+    level: AlertLevel;
+    /** Alert level in the channel locale */
+    levelLabel: string;
+    /** Subject line of the built-in alert */
+    subject: string;
+    /** Headline of the built-in alert */
+    headline: string;
+    isProjected: boolean;
+    isCritical: boolean;
+    /** Whether spend is over the threshold (otherwise a lower tier was crossed) */
+    overThreshold: boolean;
+    threshold: string;
+    exceedAmount: string;
+    /** Spend as a percentage of the threshold */
+    budgetUsed: string;
+    tier?: { name: string; percentOfBudget: string };
+    /** Budget scope; omitted for account-level alerts */
+    scope?: { type: AlertScope['type']; name: string; spend: string };
+  };
+  cost: {
+    total: string;
+    projectedMonthly: string;
+    currency: string;
+    /** Billing period in the channel locale */
+    period: string;
+    periodStart: string;
+    periodEnd: string;
+    lastUpdated: string;
+    topService?: AlertTemplateService;
+    topServices: AlertTemplateService[];
+  };
+  /** Bedrock analysis; omitted when AI analysis did not run */
+  ai?: {
+    summary: string;
+    keyInsights: string[];
+    confidence: string;
+    anomalies: Array<{ service: string; severity: string; description: string; confidence: string; suggestedAction?: string }>;
+    fallbackUsed: boolean;
+  };
+  /** AI optimization recommendations */
+  recommendations: Array<{ service: string; category: string; priority: string; description: string; estimatedSavings?: string }>;
+  /** General cost-control tips in the channel locale */
+  tips: string[];
+  generatedAt: string;
+}
+
+/**
+ * Service row in the alert template variables
+ */
+export interface AlertTemplateService {
+  /** 1-based position among the top services */
+  rank: number;
+  name: string;
+  cost: string;
+  percentage: string;
+}
+
+/**
+ * Notification held back during quiet hours and delivered in the next digest
+ */
+export interface DeferredNotification {
+  /** Unique notification ID */
+  id: string;
+  /** Channel the notification was held for */
+  channel: 'sms' | 'ios';
+  /** Alert severity */
+  alertLevel: AlertLevel;
+  /** Alert scope key (e.g. 'account' or 'service:Amazon EC2') */
+  scope: string;
+  /** Notification title */
+  title: string;
+  /** SMS text or push body as it would have been sent */
+  message: string;
+  /** Spend reported by the alert */
+  spend: number;
+  /** Budget the spend was compared against */
+  threshold: number;
+  /** ISO 4217 billing currency of spend and threshold (USD when omitted) */
+  currency?: string;
+  /** Timestamp the notification was deferred */
+  deferredAt: string;
+}
+
+/**
+ * Slack, Microsoft Teams and generic outbound webhook settings
+ */
+export interface WebhookConfig {
+  /** Slack incoming webhook URL */
+  slackWebhookUrl?: string;
+  /** Microsoft Teams incoming webhook (or Workflows) URL */
+  teamsWebhookUrl?: string;
+  /** Endpoints that receive the signed alert document (the 'webhook' channel) */
+  urls?: string[];
+  /** Shared secret for the HMAC-SHA256 signature of the alert document */
+  signingSecret?: string;
+  /** Request timeout in milliseconds (defaults to 5000) */
+  timeoutMs?: number;
+}
+
+/**
+ * HTML email reports sent through SES
+ */
+export interface EmailReportConfig {
+  /** Verified SES sender address */
+  fromAddress: string;
+  /** Recipients of every alert; each recipient gets their own message */
+  recipients: string[];
+  /** Extra recipients for specific alert levels (e.g. on-call for CRITICAL) */
+  recipientsByLevel?: Partial<Record<AlertLevel, string[]>>;
+  /** Path to an HTML template overriding the built-in one */
+  templatePath?: string;
+  /** SES configuration set for delivery tracking */
+  configurationSetName?: string;
+  /** Days of daily spend in the sparkline (defaults to 30) */
+  sparklineDays?: number;
+}
+
+/**
+ * Versioned alert document posted to generic outbound webhooks
+ */
+export interface AlertWebhookDocument {
+  /** Document schema version, bumped on breaking changes */
+  schemaVersion: string;
+  /** Document type */
+  type: 'spend_alert';
+  /** Unique delivery ID, for idempotent consumers */
+  id: string;
+  /** ISO timestamp the document was sent */
+  sentAt: string;
+  /** Cost analysis that triggered the alert, including AI analysis when available */
+  costAnalysis: CostAnalysis | EnhancedCostAnalysis;
+  /** Alert context */
+  alertContext: AlertContext;
+}
+
+/**
+ * Incident management service that receives CRITICAL alerts
+ */
+export type IncidentProvider = 'pagerduty' | 'opsgenie';
+
+/**
+ * Incident integration settings for CRITICAL alerts
+ */
+export interface IncidentConfig {
+  /** Incident management service */
+  provider: IncidentProvider;
+  /** PagerDuty Events API v2 integration (routing) key */
+  routingKey?: string;
+  /** Opsgenie API integration key */
+  apiKey?: string;
+  /** Override for the provider API endpoint (e.g. https://api.eu.opsgenie.com) */
+  apiUrl?: string;
+  /** Request timeout in milliseconds (defaults to 5000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Spend threshold tier expressed as a percentage of the monthly budget
+ */
+export interface ThresholdTier {
+  /** Tier name (e.g. 'budget-80') */
+  name: string;
+  /** Percentage of spendThreshold that must be exceeded to trigger this tier */
+  percentOfBudget: number;
+  /** Alert severity for this tier */
+  severity: 'WARNING' | 'CRITICAL';
+  /** Channels notified when this tier is crossed */
+  channels: AlertChannel[];
+  /** Optional headline template with {{placeholders}} (e.g. '{{percentOfBudget}}% of budget used') */
+  messageTemplate?: string;
+}
+
+/**
+ * Forecasting settings for projected monthly cost
+ */
+export interface ForecastConfig {
+  /** Forecast method (defaults to linear) */
+  method: ForecastMethod;
+  /** Days of daily cost history used by history-based methods */
+  lookbackDays?: number;
+  /** Confidence level in percent for forecast intervals (defaults to 80) */
+  confidenceLevel?: number;
+}
+
+/**
+ * Statistics used to score a day's cost against its baseline
+ */
+export type SpikeDetectionMethod = 'z-score' | 'mad';
+
+/**
+ * Daily spike detection settings
+ */
+export interface SpikeDetectionConfig {
+  /** Fetch daily history and run spike detection on each execution */
+  enabled: boolean;
+  /** Days of daily history to fetch, including the day being scored */
+  lookbackDays: number;
+  /** Scoring method (defaults to mad) */
+  method?: SpikeDetectionMethod;
+  /** Score above which a day counts as a spike (defaults to 3) */
+  threshold?: number;
+  /** Daily cost below which services are ignored (defaults to 1) */
+  minDailyCost?: number;
+}
+
+/**
+ * A service whose latest daily cost is statistically out of line with its history
+ */
+export interface CostSpike {
+  /** AWS service name */
+  service: string;
+  /** Day the spike occurred (YYYY-MM-DD) */
+  date: string;
+  /** Cost on the spike day */
+  cost: number;
+  /** Baseline daily cost (mean or median of the preceding days) */
+  baseline: number;
+  /** Cost on the previous day */
+  previousDayCost: number;
+  /** Spike score (standard deviations or scaled MADs above the baseline) */
+  score: number;
+  /** Scoring method used */
+  method: SpikeDetectionMethod;
+}
+
+/**
+ * Cost snapshot storage settings
+ */
+export interface CostHistoryConfig {
+  /** DynamoDB table for cost snapshots */
+  tableName?: string;
+  /** JSON file for cost snapshots on local runs (used when no table is configured) */
+  filePath?: string;
+}
+
+/**
+ * Cost analysis stored for a single day of a billing period
+ */
+export interface CostSnapshot {
+  /** Billing period in YYYY-MM format */
+  billingPeriod: string;
+  /** Day the snapshot was taken, matching the end of the cost analysis period (YYYY-MM-DD) */
+  snapshotDate: string;
+  /** Cost analysis captured for the day */
+  costAnalysis: CostAnalysis;
+}
+
+/**
+ * Change in a service's cost against an earlier snapshot or period
+ */
+export interface ServiceCostDelta {
+  /** AWS service name */
+  service: string;
+  /** Current cost */
+  currentCost: number;
+  /** Cost in the earlier snapshot or period */
+  previousCost: number;
+  /** currentCost - previousCost */
+  delta: number;
+  /** Delta as a percentage of previousCost (omitted when previousCost is zero) */
+  deltaPercent?: number;
+}
+
+/**
+ * Current month-to-date cost compared against a stored snapshot
+ */
+export interface CostComparison {
+  /** Day covered by the earlier snapshot (YYYY-MM-DD) */
+  snapshotDate: string;
+  /** Total cost in the earlier snapshot */
+  previousTotal: number;
+  /** Change in total cost */
+  totalDelta: number;
+  /** Change in total cost as a percentage (omitted when previousTotal is zero) */
+  totalDeltaPercent?: number;
+  /** Per-service changes, largest absolute change first */
+  services: ServiceCostDelta[];
+}
+
+/**
+ * Comparisons against last month's stored snapshots
+ */
+export interface CostComparisons {
+  /** Against the final snapshot of the previous billing period */
+  monthOverMonth?: CostComparison;
+  /** Against the snapshot from the same day of the previous billing period */
+  sameDayLastMonth?: CostComparison;
+}
+
+/**
+ * How often the spend digest is sent
+ */
+export type SpendDigestFrequency = 'daily' | 'weekly';
+
+/**
+ * Scheduled spend summary sent regardless of thresholds
+ */
+export interface SpendDigestConfig {
+  /** Digest frequency; top movers compare the last day or week with the one before */
+  frequency: SpendDigestFrequency;
+  /** Channels receiving the digest (defaults to email plus configured Slack/Teams webhooks) */
+  channels?: AlertChannel[];
+  /** Number of top movers listed (defaults to 5) */
+  topMoverCount?: number;
+}
+
+/**
+ * Spend summary delivered by the scheduled digest
+ */
+export interface SpendDigest {
+  /** Digest frequency */
+  frequency: SpendDigestFrequency;
+  /** Month-to-date spend */
+  spendToDate: number;
+  /** Projected spend for the month */
+  projectedMonthly: number;
+  /** Monthly budget */
+  threshold: number;
+  /** Month-to-date period */
+  monthToDate: { start: string; end: string };
+  /** First and last day the movers cover (YYYY-MM-DD), e.g. yesterday for daily digests */
+  period: { start: string; end: string };
+  /** Spend during the period */
+  periodTotal: number;
+  /** Spend during the period before it */
+  previousPeriodTotal: number;
+  /** Services whose cost changed most against the previous period, largest absolute change first */
+  topMovers: ServiceCostDelta[];
+  /** Top month-to-date services */
+  topServices: ServiceCost[];
+  /** AI summary of spending patterns, when Bedrock is enabled */
+  aiSummary?: string;
+  /** ISO 4217 billing currency of the amounts (defaults to USD) */
+  currency?: string;
+}
+
+/**
+ * Forecast-based (projected breach) alerting settings
+ */
+export interface ForecastAlertConfig {
+  /** Alert when projected monthly cost exceeds the threshold before actual spend does */
+  enabled: boolean;
+  /** Minimum days into the billing period before projections are trusted */
+  minDaysElapsed: number;
+}
+
+/**
+ * Alert deduplication and resolution settings
+ */
+export interface AlertStateConfig {
+  /** DynamoDB table for alert state (in-memory store is used when omitted) */
+  tableName?: string;
+  /** Hours after which an unchanged alert is re-sent (omit to only re-alert on escalation) */
+  cooldownHours?: number;
+  /** DynamoDB table for alert acknowledgements and snoozes (in-memory store is used when omitted) */
+  acknowledgementTableName?: string;
+  /** Send a resolved notification when spend drops back under the threshold */
+  notifyOnResolve: boolean;
+}
+
+/**
+ * Last alert sent for a scope within a billing period
+ */
+export interface AlertStateRecord {
+  /** Alert scope key (e.g. 'account' or 'service:Amazon Bedrock') */
+  scope: string;
+  /** Billing period in YYYY-MM format */
+  billingPeriod: string;
+  /** Severity of the last alert sent */
+  lastAlertLevel: AlertLevel;
+  /** Timestamp of the last alert sent */
+  lastAlertedAt: string;
+  /** Spend reported in the last alert */
+  lastAlertedCost: number;
+  /** Budget percentage of the highest tier alerted */
+  lastTierPercent?: number;
+  /** Whether spend has dropped back under the threshold since the last alert */
+  resolved: boolean;
+  /** Timestamp when the alert was resolved */
+  resolvedAt?: string;
+  /** Identifier of the last alert sent, looked up for acknowledgements */
+  lastAlertId?: string;
+}
+
+/**
+ * Whether an alert is still open, acknowledged, or snoozed
+ */
+export type AlertAcknowledgementStatus = 'OPEN' | 'ACKNOWLEDGED' | 'SNOOZED';
+
+/**
+ * Alert sent to users, acknowledged or snoozed through the device API
+ */
+export interface AlertAcknowledgementRecord {
+  /** Alert identifier (customData.alertId in push payloads) */
+  alertId: string;
+  /** Alert scope key the alert was sent for */
+  scope: string;
+  /** Billing period in YYYY-MM format */
+  billingPeriod: string;
+  /** Severity of the alert */
+  alertLevel: AlertLevel;
+  /** Timestamp the alert was sent */
+  sentAt: string;
+  status: AlertAcknowledgementStatus;
+  /** Timestamp of the acknowledgement or snooze */
+  acknowledgedAt?: string;
+  /** User who acknowledged or snoozed the alert */
+  acknowledgedBy?: string;
+  /** End of the snooze */
+  snoozedUntil?: string;
+  /** Expiry in epoch seconds (DynamoDB TTL) */
+  expiresAt?: number;
+}
+
+/**
+ * Acknowledge or snooze request body for POST /alerts/{alertId}/ack and /snooze
+ */
+export interface AlertAcknowledgementRequest {
+  /** User acknowledging the alert */
+  userId?: string;
+  /** Snooze length in hours (snooze only) */
+  durationHours?: number;
+}
+
+/**
+ * Acknowledge or snooze response
+ */
+export interface AlertAcknowledgementResponse {
+  success: boolean;
+  alertId?: string;
+  status?: AlertAcknowledgementStatus;
+  acknowledgedAt?: string;
+  snoozedUntil?: string;
+  error?: string;
 }
 
 /**
  * Configuration for the spend monitor agent
  */
 export interface SpendMonitorConfig extends AgentConfig {
-  /** Alert threshold in USD */
+  /** Alert threshold (monthly budget) in USD */
   spendThreshold: number;
+  /** Ordered threshold tiers evaluated against spendThreshold (defaults to 100% WARNING / 150% CRITICAL) */
+  thresholdTiers?: ThresholdTier[];
+  /** Monthly budgets in USD per AWS service name, evaluated independently of spendThreshold */
+  serviceBudgets?: { [service: string]: number };
+  /** Budgets for cost allocation tag values, linked accounts, regions or usage types */
+  scopedBudgets?: ScopedBudget[];
+  /** Additional groupings to break down month-to-date cost by (groupings used by scopedBudgets are always included) */
+  costGroupings?: CostGrouping[];
   /** SNS topic ARN for notifications */
   snsTopicArn: string;
+  /** Separate SNS topics per channel, so channel routing is enforced (optional, snsTopicArn when omitted) */
+  channelTopicArns?: ChannelTopicConfig;
   /** Check frequency in days */
   checkPeriodDays: number;
   /** AWS region */
@@ -184,8 +1011,36 @@ export interface SpendMonitorConfig extends AgentConfig {
   minServiceCostThreshold: number;
   /** iOS push notification configuration (optional) */
   iosConfig?: iOSPushConfig;
+  /** Slack and Teams webhook channels (optional) */
+  webhookConfig?: WebhookConfig;
+  /** PagerDuty or Opsgenie incidents for CRITICAL alerts (optional) */
+  incidentConfig?: IncidentConfig;
+  /** SES HTML email reports, replacing SNS email (optional) */
+  emailReportConfig?: EmailReportConfig;
+  /** Quiet hours for SMS and iOS push, deferring non-CRITICAL alerts into a digest (optional) */
+  quietHoursConfig?: QuietHoursConfig;
+  /** Scheduled daily or weekly spend digest (optional) */
+  spendDigestConfig?: SpendDigestConfig;
+  /** Alert message languages per channel and recipient (optional, English when omitted) */
+  localizationConfig?: LocalizationConfig;
+  /** User-editable alert message templates (optional, built-in wording when omitted) */
+  alertTemplateConfig?: AlertTemplateConfig;
+  /** Ordered channel routing rules; the first match replaces the tier channels (optional) */
+  alertRoutingRules?: AlertRoutingRule[];
   /** Bedrock AI analysis configuration (optional) */
   bedrockConfig?: BedrockConfig;
+  /** Alert deduplication settings (optional) */
+  alertStateConfig?: AlertStateConfig;
+  /** Projected breach alerting settings (optional) */
+  forecastAlertConfig?: ForecastAlertConfig;
+  /** Projected monthly cost forecasting settings (optional, linear when omitted) */
+  forecastConfig?: ForecastConfig;
+  /** Cost metric selection (optional, BlendedCost when omitted) */
+  costMetricConfig?: CostMetricConfig;
+  /** Daily history and spike detection settings (optional) */
+  spikeDetectionConfig?: SpikeDetectionConfig;
+  /** Cost snapshot storage for month-over-month comparisons (optional) */
+  costHistoryConfig?: CostHistoryConfig;
 }
 
 /**
@@ -227,6 +1082,8 @@ export interface APNSPayload {
     sound: string;
     /** Background update flag */
     'content-available': number;
+    /** Notification category registered by the app for actionable notifications */
+    category?: string;
   };
   /** Custom data for the app */
   customData: {
@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import { DynamoDBClient, GetItemCommand, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { AIAnalysisCacheEntry, BedrockConfig, CostAnalysis, EnhancedCostAnalysis } from '../types';
+import { createLogger } from './logger';
+
+/**
+ * Version of the Bedrock prompts and output schemas; bump it when either changes so older cached results are not reused
+ */
+export const AI_CACHE_PROMPT_VERSION = '1';
+
+/**
+ * Stable cache key for AI analysis of the given cost data: a SHA-256 hash of the cost data (rounded to cents,
+ * services in name order), model ID and prompt version, plus the analyses run when only some were requested
+ */
+export function createAICacheKey(
+  costAnalysis: CostAnalysis,
+  modelId: string,
+  promptVersion: string = AI_CACHE_PROMPT_VERSION,
+  analyses?: string[]
+): string {
+  const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+  const hashData = {
+    promptVersion,
+    modelId,
+    ...(analyses ? { analyses } : {}),
+    currency: costAnalysis.currency,
+    period: { start: costAnalysis.period.start, end: costAnalysis.period.end },
+    totalCost: roundCents(costAnalysis.totalCost),
+    projectedMonthly: roundCents(costAnalysis.projectedMonthly),
+    services: Object.keys(costAnalysis.serviceBreakdown)
+      .sort()
+      .map(service => [service, roundCents(costAnalysis.serviceBreakdown[service])])
+  };
+
+  return createHash('sha256').update(JSON.stringify(hashData)).digest('hex');
+}
+
+/**
+ * Cache entry for a result, expiring after the TTL
+ */
+export function createAICacheEntry(
+  cacheKey: string,
+  result: EnhancedCostAnalysis,
+  ttlMinutes: number,
+  now: Date = new Date()
+): AIAnalysisCacheEntry {
+  return {
+    cacheKey,
+    result,
+    createdAt: now.toISOString(),
+    expiresAt: Math.floor(now.getTime() / 1000) + ttlMinutes * 60
+  };
+}
+
+/**
+ * Whether a cache entry can still be used (DynamoDB TTL deletion can lag expiry by hours)
+ */
+export function isAICacheEntryFresh(entry: AIAnalysisCacheEntry | null | undefined, now: Date = new Date()): entry is AIAnalysisCacheEntry {
+  return !!entry && entry.expiresAt * 1000 > now.getTime();
+}
+
+/**
+ * Persistence for cached AI analysis results
+ */
+export interface AIAnalysisCacheStore {
+  get(cacheKey: string): Promise<AIAnalysisCacheEntry | null>;
+  put(entry: AIAnalysisCacheEntry): Promise<void>;
+}
+
+/**
+ * DynamoDB-backed AI result cache (partition key: cacheKey, TTL attribute: expiresAt)
+ */
+export class DynamoDBAIAnalysisCacheStore implements AIAnalysisCacheStore {
+  private dynamodb: DynamoDBClient;
+  private tableName: string;
+
+  constructor(tableName: string, region: string = 'us-east-1') {
+    this.tableName = tableName;
+    this.dynamodb = new DynamoDBClient({ region });
+  }
+
+  async get(cacheKey: string): Promise<AIAnalysisCacheEntry | null> {
+    const response = await this.dynamodb.send(new GetItemCommand({
+      TableName: this.tableName,
+      Key: marshall({ cacheKey })
+    }));
+
+    if (!response?.Item) {
+      return null;
+    }
+
+    return unmarshall(response.Item) as AIAnalysisCacheEntry;
+  }
+
+  async put(entry: AIAnalysisCacheEntry): Promise<void> {
+    await this.dynamodb.send(new PutItemCommand({
+      TableName: this.tableName,
+      Item: marshall(entry, { removeUndefinedValues: true })
+    }));
+  }
+}
+
+/**
+ * In-memory AI result cache, lost on cold starts; used for tests and when no table is configured
+ */
+export class InMemoryAIAnalysisCacheStore implements AIAnalysisCacheStore {
+  private entries: Map<string, AIAnalysisCacheEntry> = new Map();
+
+  async get(cacheKey: string): Promise<AIAnalysisCacheEntry | null> {
+    return this.entries.get(cacheKey) ?? null;
+  }
+
+  async put(entry: AIAnalysisCacheEntry): Promise<void> {
+    this.entries.set(entry.cacheKey, entry);
+    this.removeExpired();
+  }
+
+  /**
+   * Number of cached entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Removes all cached entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private removeExpired(now: Date = new Date()): void {
+    for (const [cacheKey, entry] of this.entries.entries()) {
+      if (!isAICacheEntryFresh(entry, now)) {
+        this.entries.delete(cacheKey);
+      }
+    }
+  }
+}
+
+/**
+ * Creates the AI result cache for the given Bedrock configuration
+ */
+export function createAIAnalysisCacheStore(region: string, config?: BedrockConfig): AIAnalysisCacheStore {
+  if (config?.cacheTableName) {
+    return new DynamoDBAIAnalysisCacheStore(config.cacheTableName, region);
+  }
+
+  createLogger('AIAnalysisCacheStore').info('No AI cache table configured, using in-memory AI result cache');
+  return new InMemoryAIAnalysisCacheStore();
+}
@@ -0,0 +1,165 @@
+import { randomUUID } from 'crypto';
+import { DynamoDBClient, GetItemCommand, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { AlertAcknowledgementRecord, AlertStateConfig } from '../types';
+import { createLogger } from './logger';
+
+/**
+ * iOS notification category the app registers with Acknowledge and Snooze actions
+ */
+export const ALERT_NOTIFICATION_CATEGORY = 'SPEND_ALERT';
+
+export const DEFAULT_SNOOZE_HOURS = 24;
+
+export const MAX_SNOOZE_HOURS = 168;
+
+/** Days alert records are kept before DynamoDB expires them (longer than a billing period) */
+const ALERT_RECORD_RETENTION_DAYS = 45;
+
+/**
+ * Creates a unique alert identifier for customData.alertId
+ */
+export function createAlertId(now: Date = new Date()): string {
+  return `spend-alert-${now.getTime()}-${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Persistence for sent alerts and their acknowledgement state
+ */
+export interface AlertAcknowledgementStore {
+  getAlert(alertId: string): Promise<AlertAcknowledgementRecord | null>;
+  saveAlert(record: AlertAcknowledgementRecord): Promise<void>;
+}
+
+/**
+ * DynamoDB-backed acknowledgement store (partition key: alertId, TTL attribute: expiresAt)
+ */
+export class DynamoDBAlertAcknowledgementStore implements AlertAcknowledgementStore {
+  private dynamodb: DynamoDBClient;
+  private tableName: string;
+
+  constructor(tableName: string, region: string = 'us-east-1') {
+    this.tableName = tableName;
+    this.dynamodb = new DynamoDBClient({ region });
+  }
+
+  async getAlert(alertId: string): Promise<AlertAcknowledgementRecord | null> {
+    const response = await this.dynamodb.send(new GetItemCommand({
+      TableName: this.tableName,
+      Key: marshall({ alertId })
+    }));
+
+    if (!response?.Item) {
+      return null;
+    }
+
+    return unmarshall(response.Item) as AlertAcknowledgementRecord;
+  }
+
+  async saveAlert(record: AlertAcknowledgementRecord): Promise<void> {
+    await this.dynamodb.send(new PutItemCommand({
+      TableName: this.tableName,
+      Item: marshall(record, { removeUndefinedValues: true })
+    }));
+  }
+}
+
+/**
+ * In-memory acknowledgement store for tests and local runs
+ */
+export class InMemoryAlertAcknowledgementStore implements AlertAcknowledgementStore {
+  private records: Map<string, AlertAcknowledgementRecord> = new Map();
+
+  async getAlert(alertId: string): Promise<AlertAcknowledgementRecord | null> {
+    const record = this.records.get(alertId);
+    return record ? { ...record } : null;
+  }
+
+  async saveAlert(record: AlertAcknowledgementRecord): Promise<void> {
+    this.records.set(record.alertId, { ...record });
+  }
+
+  /**
+   * Removes all stored records
+   */
+  clear(): void {
+    this.records.clear();
+  }
+}
+
+/**
+ * Creates the acknowledgement store for the given alert state configuration
+ */
+export function createAlertAcknowledgementStore(region: string, config?: AlertStateConfig): AlertAcknowledgementStore {
+  if (config?.acknowledgementTableName) {
+    return new DynamoDBAlertAcknowledgementStore(config.acknowledgementTableName, region);
+  }
+
+  createLogger('AlertAcknowledgementStore').info('No alert acknowledgement table configured, using in-memory acknowledgements');
+  return new InMemoryAlertAcknowledgementStore();
+}
+
+/**
+ * Record for a newly sent alert, open until acknowledged or snoozed
+ */
+export function createOpenAlertRecord(
+  alertId: string,
+  scope: string,
+  billingPeriod: string,
+  alertLevel: AlertAcknowledgementRecord['alertLevel'],
+  now: Date = new Date()
+): AlertAcknowledgementRecord {
+  return {
+    alertId,
+    scope,
+    billingPeriod,
+    alertLevel,
+    sentAt: now.toISOString(),
+    status: 'OPEN',
+    expiresAt: Math.floor(now.getTime() / 1000) + ALERT_RECORD_RETENTION_DAYS * 24 * 60 * 60
+  };
+}
+
+/**
+ * Marks an alert acknowledged; repeat alerts stay suppressed until it escalates
+ */
+export function acknowledgeAlert(record: AlertAcknowledgementRecord, userId?: string, now: Date = new Date()): AlertAcknowledgementRecord {
+  return {
+    ...record,
+    status: 'ACKNOWLEDGED',
+    acknowledgedAt: now.toISOString(),
+    acknowledgedBy: userId ?? record.acknowledgedBy,
+    snoozedUntil: undefined
+  };
+}
+
+/**
+ * Snoozes an alert; repeat alerts stay suppressed until the snooze ends or it escalates
+ */
+export function snoozeAlert(
+  record: AlertAcknowledgementRecord,
+  durationHours: number = DEFAULT_SNOOZE_HOURS,
+  userId?: string,
+  now: Date = new Date()
+): AlertAcknowledgementRecord {
+  return {
+    ...record,
+    status: 'SNOOZED',
+    acknowledgedAt: now.toISOString(),
+    acknowledgedBy: userId ?? record.acknowledgedBy,
+    snoozedUntil: new Date(now.getTime() + durationHours * 60 * 60 * 1000).toISOString()
+  };
+}
+
+/**
+ * Whether repeat alerts are silenced by an acknowledgement or an unexpired snooze
+ */
+export function isAlertSilenced(record: AlertAcknowledgementRecord | null | undefined, now: Date = new Date()): boolean {
+  if (!record) {
+    return false;
+  }
+  if (record.status === 'ACKNOWLEDGED') {
+    return true;
+  }
+  return record.status === 'SNOOZED' && !!record.snoozedUntil && new Date(record.snoozedUntil).getTime() > now.getTime();
+}
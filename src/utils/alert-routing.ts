@@ -0,0 +1,101 @@
+import { AlertContext, AlertRoutingRule, TimeOfDayWindow } from '../types';
+import { getAlertScopeKey } from './alert-state';
+
+/**
+ * Returns the first rule matching the alert, or null when the tier/default channels apply
+ */
+export function resolveAlertRoute(
+  rules: AlertRoutingRule[] | undefined,
+  alertContext: AlertContext,
+  now: Date = new Date()
+): AlertRoutingRule | null {
+  return (rules ?? []).find(rule => matchesAlertRoute(rule, alertContext, now)) ?? null;
+}
+
+/**
+ * Whether every criterion set on the rule matches the alert; omitted criteria match anything
+ */
+export function matchesAlertRoute(rule: AlertRoutingRule, alertContext: AlertContext, now: Date = new Date()): boolean {
+  if (rule.alertLevels && !rule.alertLevels.includes(alertContext.alertLevel)) {
+    return false;
+  }
+
+  if (rule.services) {
+    const service = getAlertService(alertContext);
+    if (!service || !rule.services.includes(service)) {
+      return false;
+    }
+  }
+
+  if (rule.scopes) {
+    const scopeKey = getAlertScopeKey(alertContext.scope);
+    if (!rule.scopes.some(pattern => matchesScopePattern(pattern, scopeKey))) {
+      return false;
+    }
+  }
+
+  return !rule.timeOfDay || isWithinTimeWindow(rule.timeOfDay, now);
+}
+
+/**
+ * Whether the time falls inside the window; windows whose end is before the start wrap past midnight
+ */
+export function isWithinTimeWindow(window: TimeOfDayWindow, now: Date = new Date()): boolean {
+  const minutes = getMinuteOfDay(now, window.timeZone ?? 'UTC');
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Minutes after midnight for an HH:MM time, or NaN when malformed
+ */
+export function parseTimeOfDay(time: string): number {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+}
+
+/**
+ * Parses routing rules from a JSON array string
+ */
+export function parseAlertRoutingRules(json: string): AlertRoutingRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid alert routing rules JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Invalid alert routing rules JSON: expected an array of rules');
+  }
+
+  return parsed as AlertRoutingRule[];
+}
+
+/**
+ * Service an alert is about: the budgeted service for service alerts, otherwise the top cost driver
+ */
+function getAlertService(alertContext: AlertContext): string | undefined {
+  if (alertContext.scope?.type === 'service') {
+    return alertContext.scope.value;
+  }
+  return alertContext.topServices[0]?.serviceName;
+}
+
+/**
+ * Matches a scope key exactly, or by prefix when the pattern ends with '*' (e.g. 'TAG:team:*')
+ */
+function matchesScopePattern(pattern: string, scopeKey: string): boolean {
+  return pattern.endsWith('*') ? scopeKey.startsWith(pattern.slice(0, -1)) : scopeKey === pattern;
+}
+
+function getMinuteOfDay(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  return value('hour') * 60 + value('minute');
+}
@@ -0,0 +1,195 @@
+import { DynamoDBClient, GetItemCommand, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { AlertAcknowledgementRecord, AlertContext, AlertLevel, AlertScope, AlertStateConfig, AlertStateRecord } from '../types';
+import { createLogger } from './logger';
+import { describeCostGrouping, getCostGroupingKey } from './cost-groupings';
+import { isAlertSilenced } from './alert-acknowledgements';
+
+/**
+ * Scope used for account-level spend alerts
+ */
+export const ACCOUNT_ALERT_SCOPE = 'account';
+
+/**
+ * Builds the alert state key for a budget scope
+ */
+export function getAlertScopeKey(scope?: AlertScope): string {
+  if (!scope || scope.type === 'account') {
+    return ACCOUNT_ALERT_SCOPE;
+  }
+  if (scope.type === 'group' && scope.grouping) {
+    return `${getCostGroupingKey(scope.grouping)}:${scope.value}`;
+  }
+  return `${scope.type}:${scope.value}`;
+}
+
+/**
+ * Human-readable scope description for logs and messages
+ */
+export function describeAlertScope(scope?: AlertScope): string {
+  if (!scope || scope.type === 'account') {
+    return 'account';
+  }
+  if (scope.type === 'group' && scope.grouping) {
+    return `${describeCostGrouping(scope.grouping)} '${scope.value}'`;
+  }
+  return `${scope.type} '${scope.value}'`;
+}
+
+/**
+ * Persistence for the last alert sent per scope and billing period
+ */
+export interface AlertStateStore {
+  getState(scope: string, billingPeriod: string): Promise<AlertStateRecord | null>;
+  saveState(record: AlertStateRecord): Promise<void>;
+}
+
+/**
+ * Outcome of comparing a new alert against the stored alert state
+ */
+export interface AlertDecision {
+  action: 'alert' | 'suppress' | 'resolve' | 'none';
+  reason: string;
+}
+
+/**
+ * DynamoDB-backed alert state store (partition key: scope, sort key: billingPeriod)
+ */
+export class DynamoDBAlertStateStore implements AlertStateStore {
+  private dynamodb: DynamoDBClient;
+  private tableName: string;
+
+  constructor(tableName: string, region: string = 'us-east-1') {
+    this.tableName = tableName;
+    this.dynamodb = new DynamoDBClient({ region });
+  }
+
+  async getState(scope: string, billingPeriod: string): Promise<AlertStateRecord | null> {
+    const response = await this.dynamodb.send(new GetItemCommand({
+      TableName: this.tableName,
+      Key: marshall({ scope, billingPeriod })
+    }));
+
+    if (!response?.Item) {
+      return null;
+    }
+
+    return unmarshall(response.Item) as AlertStateRecord;
+  }
+
+  async saveState(record: AlertStateRecord): Promise<void> {
+    await this.dynamodb.send(new PutItemCommand({
+      TableName: this.tableName,
+      Item: marshall(record, { removeUndefinedValues: true })
+    }));
+  }
+}
+
+/**
+ * In-memory alert state store for tests and local runs
+ */
+export class InMemoryAlertStateStore implements AlertStateStore {
+  private records: Map<string, AlertStateRecord> = new Map();
+
+  async getState(scope: string, billingPeriod: string): Promise<AlertStateRecord | null> {
+    const record = this.records.get(this.key(scope, billingPeriod));
+    return record ? { ...record } : null;
+  }
+
+  async saveState(record: AlertStateRecord): Promise<void> {
+    this.records.set(this.key(record.scope, record.billingPeriod), { ...record });
+  }
+
+  /**
+   * Removes all stored records
+   */
+  clear(): void {
+    this.records.clear();
+  }
+
+  private key(scope: string, billingPeriod: string): string {
+    return `${scope}#${billingPeriod}`;
+  }
+}
+
+/**
+ * Creates the alert state store for the given configuration
+ */
+export function createAlertStateStore(region: string, config?: AlertStateConfig): AlertStateStore {
+  if (config?.tableName) {
+    return new DynamoDBAlertStateStore(config.tableName, region);
+  }
+
+  createLogger('AlertStateStore').info('No alert state table configured, using in-memory alert state');
+  return new InMemoryAlertStateStore();
+}
+
+const ALERT_LEVEL_RANK: Record<AlertLevel, number> = {
+  PROJECTED: 0,
+  WARNING: 1,
+  CRITICAL: 2
+};
+
+/**
+ * Returns the more severe of two alert levels
+ */
+export function maxAlertLevel(a: AlertLevel, b: AlertLevel): AlertLevel {
+  return ALERT_LEVEL_RANK[a] >= ALERT_LEVEL_RANK[b] ? a : b;
+}
+
+/**
+ * Derives the billing period (YYYY-MM) from a cost analysis period start date
+ */
+export function getBillingPeriod(periodStart: string): string {
+  return periodStart.substring(0, 7);
+}
+
+/**
+ * Decides whether a threshold evaluation should alert, stay quiet, or resolve a previous alert.
+ * An acknowledged or snoozed previous alert holds back cooldown re-alerts but not escalations.
+ */
+export function decideAlertAction(
+  previous: AlertStateRecord | null,
+  current: Pick<AlertContext, 'alertLevel' | 'tier'> | null,
+  cooldownHours?: number,
+  now: Date = new Date(),
+  acknowledgement?: AlertAcknowledgementRecord | null
+): AlertDecision {
+  if (!current) {
+    if (previous && !previous.resolved) {
+      return { action: 'resolve', reason: 'Spend dropped back under threshold' };
+    }
+    return { action: 'none', reason: 'Spend within threshold' };
+  }
+
+  if (!previous) {
+    return { action: 'alert', reason: 'First alert for billing period' };
+  }
+
+  if (previous.resolved) {
+    return { action: 'alert', reason: 'Threshold exceeded again after resolution' };
+  }
+
+  if (ALERT_LEVEL_RANK[current.alertLevel] > ALERT_LEVEL_RANK[previous.lastAlertLevel]) {
+    return { action: 'alert', reason: `Alert escalated from ${previous.lastAlertLevel} to ${current.alertLevel}` };
+  }
+
+  if (current.tier && previous.lastTierPercent !== undefined && current.tier.percentOfBudget > previous.lastTierPercent) {
+    return { action: 'alert', reason: `Alert escalated to tier ${current.tier.name}` };
+  }
+
+  if (isAlertSilenced(acknowledgement, now)) {
+    return acknowledgement?.status === 'SNOOZED'
+      ? { action: 'suppress', reason: `${previous.lastAlertLevel} alert snoozed until ${acknowledgement.snoozedUntil}` }
+      : { action: 'suppress', reason: `${previous.lastAlertLevel} alert acknowledged` };
+  }
+
+  if (cooldownHours !== undefined) {
+    const hoursSinceLastAlert = (now.getTime() - new Date(previous.lastAlertedAt).getTime()) / (60 * 60 * 1000);
+    if (hoursSinceLastAlert >= cooldownHours) {
+      return { action: 'alert', reason: `Cooldown of ${cooldownHours}h elapsed since last alert` };
+    }
+  }
+
+  return { action: 'suppress', reason: `${previous.lastAlertLevel} alert already sent for billing period` };
+}
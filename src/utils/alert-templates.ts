@@ -0,0 +1,256 @@
+import { promises as fs } from 'fs';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import {
+  AlertContext,
+  AlertTemplateConfig,
+  AlertTemplateData,
+  AlertTemplateName,
+  AlertTemplates,
+  EnhancedCostAnalysis
+} from '../types';
+
+/**
+ * Alert messages that can be replaced by a template
+ */
+export const ALERT_TEMPLATE_NAMES: AlertTemplateName[] = ['email', 'sms', 'pushTitle', 'pushBody', 'chat'];
+
+/** Mustache tags: {{name}}, {{#section}}, {{^inverted}}, {{/section}} and {{! comment}} */
+const TAG_PATTERN = /\{\{\s*([#^/!]?)\s*([^}]*?)\s*\}\}/g;
+
+/** Section and comment tags alone on a line, which are removed together with the line break */
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{\{\s*[#^/!][^}]*\}\})[ \t]*(?:\r?\n|$)/gm;
+
+const S3_URI_PATTERN = /^s3:\/\/([^/]+)\/(.+)$/;
+
+type TemplateNode =
+  | string
+  | { type: 'variable'; path: string }
+  | { type: 'section'; path: string; inverted: boolean; children: TemplateNode[] };
+
+/**
+ * Compiles a Mustache-style template into a render function, throwing on unbalanced sections.
+ *
+ * Supports {{path.to.value}}, {{#list}}...{{/list}} (repeated per item, or rendered once for a
+ * truthy value), {{^value}}...{{/value}} (rendered when missing, false or empty), {{.}} for the
+ * current list item and {{! comments}}. Missing variables render empty and lists render comma-separated.
+ */
+export function compileAlertTemplate(template: string): (data: AlertTemplateData) => string {
+  const nodes = parseTemplate(template);
+  return data => renderNodes(nodes, [data]);
+}
+
+/**
+ * Renders a Mustache-style alert template against the template variables
+ */
+export function renderAlertTemplate(template: string, data: AlertTemplateData): string {
+  return compileAlertTemplate(template)(data);
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const source = template.replace(STANDALONE_TAG_PATTERN, '$1');
+  const root: TemplateNode[] = [];
+  const sections: Array<{ path: string; nodes: TemplateNode[] }> = [{ path: '', nodes: root }];
+  let position = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, kind, path] = match;
+    const index = match.index ?? 0;
+    const current = sections[sections.length - 1];
+    if (index > position) {
+      current.nodes.push(source.slice(position, index));
+    }
+    position = index + tag.length;
+
+    if (kind === '!') {
+      continue;
+    }
+    if (kind === '#' || kind === '^') {
+      const section = { type: 'section' as const, path, inverted: kind === '^', children: [] as TemplateNode[] };
+      current.nodes.push(section);
+      sections.push({ path, nodes: section.children });
+    } else if (kind === '/') {
+      if (sections.length === 1 || current.path !== path) {
+        throw new Error(`Invalid alert template: unexpected {{/${path}}}`);
+      }
+      sections.pop();
+    } else {
+      current.nodes.push({ type: 'variable', path });
+    }
+  }
+
+  if (sections.length > 1) {
+    throw new Error(`Invalid alert template: unclosed section {{#${sections[sections.length - 1].path}}}`);
+  }
+  if (position < source.length) {
+    root.push(source.slice(position));
+  }
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], contexts: unknown[]): string {
+  return nodes.map(node => {
+    if (typeof node === 'string') {
+      return node;
+    }
+
+    const value = lookup(contexts, node.path);
+    if (node.type === 'variable') {
+      if (value === undefined || value === null) {
+        return '';
+      }
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    }
+
+    const items = Array.isArray(value) ? value : value ? [value] : [];
+    if (node.inverted) {
+      return items.length === 0 ? renderNodes(node.children, contexts) : '';
+    }
+    return items.map(item => renderNodes(node.children, [...contexts, item])).join('');
+  }).join('');
+}
+
+/**
+ * Resolves a dotted path against the innermost context that defines its first segment
+ */
+function lookup(contexts: unknown[], path: string): unknown {
+  if (path === '.') {
+    return contexts[contexts.length - 1];
+  }
+
+  const [head, ...rest] = path.split('.');
+  const context = [...contexts].reverse().find(candidate => isObject(candidate) && head in candidate) as Record<string, unknown> | undefined;
+  return rest.reduce<unknown>((value, key) => isObject(value) ? value[key] : undefined, context?.[head]);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Parses a JSON document of alert templates by name
+ */
+export function parseAlertTemplates(json: string): AlertTemplates {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid alert templates JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!isObject(parsed) || Array.isArray(parsed)) {
+    throw new Error('Invalid alert templates JSON: expected an object of templates by name');
+  }
+
+  for (const [name, template] of Object.entries(parsed)) {
+    if (!ALERT_TEMPLATE_NAMES.includes(name as AlertTemplateName)) {
+      throw new Error(`Invalid alert templates JSON: unknown template "${name}" (expected ${ALERT_TEMPLATE_NAMES.join(', ')})`);
+    }
+    if (typeof template !== 'string') {
+      throw new Error(`Invalid alert templates JSON: template "${name}" must be a string`);
+    }
+  }
+  return parsed as AlertTemplates;
+}
+
+/**
+ * Bucket and key of an s3://bucket/key URI, or undefined for other locations
+ */
+export function parseS3Uri(uri: string): { bucket: string; key: string } | undefined {
+  const match = S3_URI_PATTERN.exec(uri);
+  return match ? { bucket: match[1], key: match[2] } : undefined;
+}
+
+/**
+ * Loads the template document from S3 or a local file, with inline templates taking precedence
+ */
+export async function loadAlertTemplates(config: AlertTemplateConfig, region: string = 'us-east-1'): Promise<AlertTemplates> {
+  if (!config.source) {
+    return { ...config.templates };
+  }
+
+  try {
+    const document = await readTemplateSource(config.source, region);
+    return { ...parseAlertTemplates(document), ...config.templates };
+  } catch (error) {
+    throw new Error(`Alert template load failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+async function readTemplateSource(source: string, region: string): Promise<string> {
+  const location = parseS3Uri(source);
+  if (!location) {
+    return fs.readFile(source, 'utf8');
+  }
+
+  const response = await new S3Client({ region }).send(new GetObjectCommand({ Bucket: location.bucket, Key: location.key }));
+  if (!response.Body) {
+    throw new Error(`${source} has no content`);
+  }
+  return response.Body.transformToString();
+}
+
+/**
+ * Sample alert for previewing templates: spend 55% over the configured threshold, with AI analysis
+ * when Bedrock is enabled
+ */
+export function createSampleAlert(
+  config: { spendThreshold: number; bedrockConfig?: { enabled: boolean } },
+  now: Date = new Date()
+): { costAnalysis: EnhancedCostAnalysis; alertContext: AlertContext } {
+  const threshold = config.spendThreshold;
+  const totalCost = Math.round(threshold * 155) / 100;
+  const topServices = [
+    { serviceName: 'Amazon Elastic Compute Cloud - Compute', cost: Math.round(totalCost * 60) / 100, percentage: 60 },
+    { serviceName: 'Amazon Simple Storage Service', cost: Math.round(totalCost * 25) / 100, percentage: 25 },
+    { serviceName: 'AWS Lambda', cost: Math.round(totalCost * 15) / 100, percentage: 15 }
+  ];
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const costAnalysis: EnhancedCostAnalysis = {
+    totalCost,
+    serviceBreakdown: Object.fromEntries(topServices.map(service => [service.serviceName, service.cost])),
+    period: { start: monthStart.toISOString().split('T')[0], end: now.toISOString().split('T')[0] },
+    projectedMonthly: Math.round(totalCost * 200) / 100,
+    currency: 'USD',
+    lastUpdated: now.toISOString()
+  };
+
+  if (config.bedrockConfig?.enabled) {
+    costAnalysis.aiAnalysis = {
+      summary: 'EC2 usage doubled after new instances were launched mid-month.',
+      keyInsights: ['EC2 accounts for most of the increase', 'S3 storage is growing steadily'],
+      confidenceScore: 0.85,
+      analysisTimestamp: now.toISOString(),
+      modelUsed: 'amazon.titan-text-express-v1'
+    };
+    costAnalysis.anomalies = {
+      anomaliesDetected: true,
+      anomalies: [{
+        service: topServices[0].serviceName,
+        severity: 'MEDIUM',
+        description: 'Compute spend is well above the trailing average',
+        confidenceScore: 0.8,
+        suggestedAction: 'Check for instances left running after testing'
+      }]
+    };
+    costAnalysis.recommendations = [{
+      category: 'RIGHTSIZING',
+      service: topServices[0].serviceName,
+      description: 'Downsize underutilized instances',
+      estimatedSavings: Math.round(totalCost * 20) / 100,
+      priority: 'HIGH',
+      implementationComplexity: 'EASY'
+    }];
+  }
+
+  return {
+    costAnalysis,
+    alertContext: {
+      threshold,
+      exceedAmount: Math.round((totalCost - threshold) * 100) / 100,
+      percentageOver: 55,
+      topServices,
+      alertLevel: 'WARNING'
+    }
+  };
+}
@@ -0,0 +1,301 @@
+import { BedrockRuntimeClient, ConverseCommand, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { BedrockInferenceConfig, BedrockModelFamily, BedrockModelPricing, BedrockModelResponse } from '../types';
+
+/** Cross-region inference profile prefixes (e.g. 'us.anthropic.claude-3-5-haiku-20241022-v1:0') */
+const INFERENCE_PROFILE_PREFIX = /^(?:us|eu|apac|us-gov|global)\./;
+
+/** ARN region pattern of the regions each inference profile prefix routes requests to */
+const INFERENCE_PROFILE_REGIONS: Record<string, string> = {
+  us: 'us-*',
+  eu: 'eu-*',
+  apac: 'ap-*',
+  'us-gov': 'us-gov-*',
+  global: '*'
+};
+
+/** Native InvokeModel body format by base model ID prefix; other models are called through Converse */
+const MODEL_FAMILY_PREFIXES: Array<[string, BedrockModelFamily]> = [
+  ['amazon.titan-text', 'titan'],
+  ['anthropic.claude', 'anthropic'],
+  ['meta.llama', 'llama'],
+  ['mistral.', 'mistral']
+];
+
+/**
+ * On-demand pricing (USD per 1K tokens) by base model ID prefix; the longest matching prefix wins
+ */
+const BEDROCK_MODEL_PRICING: Record<string, BedrockModelPricing> = {
+  'amazon.titan-text-express': { inputPer1K: 0.0002, outputPer1K: 0.0006 },
+  'amazon.titan-text-lite': { inputPer1K: 0.00015, outputPer1K: 0.0002 },
+  'amazon.titan-text-premier': { inputPer1K: 0.0005, outputPer1K: 0.0015 },
+  'amazon.nova-micro': { inputPer1K: 0.000035, outputPer1K: 0.00014 },
+  'amazon.nova-lite': { inputPer1K: 0.00006, outputPer1K: 0.00024 },
+  'amazon.nova-pro': { inputPer1K: 0.0008, outputPer1K: 0.0032 },
+  'anthropic.claude-instant': { inputPer1K: 0.0008, outputPer1K: 0.0024 },
+  'anthropic.claude-v2': { inputPer1K: 0.008, outputPer1K: 0.024 },
+  'anthropic.claude-3-haiku': { inputPer1K: 0.00025, outputPer1K: 0.00125 },
+  'anthropic.claude-3-5-haiku': { inputPer1K: 0.0008, outputPer1K: 0.004 },
+  'anthropic.claude-3-sonnet': { inputPer1K: 0.003, outputPer1K: 0.015 },
+  'anthropic.claude-3-5-sonnet': { inputPer1K: 0.003, outputPer1K: 0.015 },
+  'anthropic.claude-3-7-sonnet': { inputPer1K: 0.003, outputPer1K: 0.015 },
+  'anthropic.claude-sonnet-4': { inputPer1K: 0.003, outputPer1K: 0.015 },
+  'anthropic.claude-sonnet-4-5': { inputPer1K: 0.003, outputPer1K: 0.015 },
+  'anthropic.claude-haiku-4-5': { inputPer1K: 0.001, outputPer1K: 0.005 },
+  'anthropic.claude-3-opus': { inputPer1K: 0.015, outputPer1K: 0.075 },
+  'anthropic.claude-opus-4': { inputPer1K: 0.015, outputPer1K: 0.075 },
+  'anthropic.claude-opus-4-1': { inputPer1K: 0.015, outputPer1K: 0.075 },
+  'anthropic.claude-opus-4-5': { inputPer1K: 0.005, outputPer1K: 0.025 },
+  'meta.llama2-13b-chat': { inputPer1K: 0.00075, outputPer1K: 0.001 },
+  'meta.llama2-70b-chat': { inputPer1K: 0.00195, outputPer1K: 0.00256 },
+  'meta.llama3-8b-instruct': { inputPer1K: 0.0003, outputPer1K: 0.0006 },
+  'meta.llama3-70b-instruct': { inputPer1K: 0.00265, outputPer1K: 0.0035 },
+  'meta.llama3-1-8b-instruct': { inputPer1K: 0.00022, outputPer1K: 0.00022 },
+  'meta.llama3-1-70b-instruct': { inputPer1K: 0.00072, outputPer1K: 0.00072 },
+  'meta.llama3-1-405b-instruct': { inputPer1K: 0.0024, outputPer1K: 0.0024 },
+  'mistral.mistral-7b-instruct': { inputPer1K: 0.00015, outputPer1K: 0.0002 },
+  'mistral.mixtral-8x7b-instruct': { inputPer1K: 0.00045, outputPer1K: 0.0007 },
+  'mistral.mistral-small': { inputPer1K: 0.001, outputPer1K: 0.003 },
+  'mistral.mistral-large-2402': { inputPer1K: 0.004, outputPer1K: 0.012 },
+  'mistral.mistral-large-2407': { inputPer1K: 0.002, outputPer1K: 0.006 }
+};
+
+/** Conservative estimate used for models without a pricing entry */
+export const DEFAULT_BEDROCK_PRICING: BedrockModelPricing = { inputPer1K: 0.0008, outputPer1K: 0.0016 };
+
+/**
+ * Builds the InvokeModel request body for a model family and extracts text and token usage from its response
+ */
+interface BedrockModelAdapter {
+  buildRequestBody(prompt: string, config: BedrockInferenceConfig, modelId: string): Record<string, unknown>;
+  parseResponseBody(body: any): BedrockModelResponse | undefined;
+}
+
+const BEDROCK_MODEL_ADAPTERS: Record<Exclude<BedrockModelFamily, 'converse'>, BedrockModelAdapter> = {
+  titan: {
+    buildRequestBody: (prompt, config) => ({
+      inputText: prompt,
+      textGenerationConfig: {
+        maxTokenCount: config.maxTokens,
+        temperature: config.temperature,
+        topP: config.topP
+      }
+    }),
+    parseResponseBody: body => {
+      const result = body?.results?.[0];
+      return result?.outputText
+        ? { text: result.outputText, inputTokens: body.inputTextTokenCount, outputTokens: result.tokenCount }
+        : undefined;
+    }
+  },
+  anthropic: {
+    // Newer Claude models reject requests that set both temperature and top_p
+    buildRequestBody: (prompt, config) => ({
+      anthropic_version: 'bedrock-2023-05-31',
+      max_tokens: config.maxTokens,
+      temperature: config.temperature,
+      messages: [{ role: 'user', content: [{ type: 'text', text: prompt }] }]
+    }),
+    parseResponseBody: body => {
+      const text = Array.isArray(body?.content)
+        ? body.content.filter((block: any) => block?.type === 'text').map((block: any) => block.text).join('')
+        : '';
+      return text ? { text, inputTokens: body.usage?.input_tokens, outputTokens: body.usage?.output_tokens } : undefined;
+    }
+  },
+  llama: {
+    buildRequestBody: (prompt, config, modelId) => ({
+      prompt: getBaseModelId(modelId).startsWith('meta.llama3')
+        ? `<|begin_of_text|><|start_header_id|>user<|end_header_id|>\n\n${prompt}<|eot_id|><|start_header_id|>assistant<|end_header_id|>\n\n`
+        : `<s>[INST] ${prompt} [/INST]`,
+      max_gen_len: config.maxTokens,
+      temperature: config.temperature,
+      top_p: config.topP
+    }),
+    parseResponseBody: body => body?.generation
+      ? { text: body.generation, inputTokens: body.prompt_token_count, outputTokens: body.generation_token_count }
+      : undefined
+  },
+  mistral: {
+    buildRequestBody: (prompt, config, modelId) => ({
+      ...(isMistralChatModel(modelId)
+        ? { messages: [{ role: 'user', content: prompt }] }
+        : { prompt: `<s>[INST] ${prompt} [/INST]` }),
+      max_tokens: config.maxTokens,
+      temperature: config.temperature,
+      top_p: config.topP
+    }),
+    parseResponseBody: body => {
+      const text = body?.outputs?.[0]?.text ?? body?.choices?.[0]?.message?.content;
+      return text ? { text, inputTokens: body.usage?.prompt_tokens, outputTokens: body.usage?.completion_tokens } : undefined;
+    }
+  }
+};
+
+/**
+ * Whether a Mistral model takes the chat messages body and answers with choices
+ * (Mistral Large 2407 and later, Pixtral) rather than the [INST] prompt body
+ */
+function isMistralChatModel(modelId: string): boolean {
+  const baseModelId = getBaseModelId(modelId);
+  const largeVersion = /^mistral\.mistral-large-(\d{4})/.exec(baseModelId)?.[1];
+  return baseModelId.startsWith('mistral.pixtral') || (!!largeVersion && Number(largeVersion) >= 2407);
+}
+
+/**
+ * Foundation model ID without a cross-region inference profile prefix or ARN path
+ */
+export function getBaseModelId(modelId: string): string {
+  return modelId.slice(modelId.lastIndexOf('/') + 1).replace(INFERENCE_PROFILE_PREFIX, '');
+}
+
+/**
+ * IAM resource ARNs needed to invoke a model: the foundation model, or for a cross-region inference profile ID the
+ * profile plus its base foundation model in every region the profile routes to
+ */
+export function getBedrockModelResourceArns(modelId: string, region: string, account: string): string[] {
+  if (modelId.startsWith('arn:')) {
+    return [modelId];
+  }
+
+  const profilePrefix = INFERENCE_PROFILE_PREFIX.exec(modelId)?.[0].slice(0, -1);
+  if (!profilePrefix) {
+    return [`arn:aws:bedrock:${region}::foundation-model/${modelId}`];
+  }
+  return [
+    `arn:aws:bedrock:${region}:${account}:inference-profile/${modelId}`,
+    `arn:aws:bedrock:${INFERENCE_PROFILE_REGIONS[profilePrefix]}::foundation-model/${getBaseModelId(modelId)}`
+  ];
+}
+
+/**
+ * Model family whose request/response shape the model uses, or 'converse' for models without a native adapter
+ */
+export function getBedrockModelFamily(modelId: string): BedrockModelFamily {
+  const baseModelId = getBaseModelId(modelId);
+  return MODEL_FAMILY_PREFIXES.find(([prefix]) => baseModelId.startsWith(prefix))?.[1] ?? 'converse';
+}
+
+/**
+ * Sends a single-turn prompt to a Bedrock model using its native body format, or the Converse API
+ * when requested or when the model family has no adapter
+ */
+export async function invokeBedrockModel(
+  client: BedrockRuntimeClient,
+  modelId: string,
+  prompt: string,
+  config: BedrockInferenceConfig,
+  useConverseApi: boolean = false
+): Promise<BedrockModelResponse> {
+  const family = getBedrockModelFamily(modelId);
+  if (useConverseApi || family === 'converse') {
+    return converse(client, modelId, prompt, config);
+  }
+
+  const adapter = BEDROCK_MODEL_ADAPTERS[family];
+  const response = await client.send(new InvokeModelCommand({
+    modelId,
+    contentType: 'application/json',
+    accept: 'application/json',
+    body: JSON.stringify(adapter.buildRequestBody(prompt, config, modelId))
+  }));
+
+  if (!response?.body) {
+    throw new Error('Empty response from Bedrock model');
+  }
+
+  const result = adapter.parseResponseBody(JSON.parse(new TextDecoder().decode(response.body)));
+  if (!result) {
+    throw new Error('Invalid response format from Bedrock model');
+  }
+  return result;
+}
+
+async function converse(
+  client: BedrockRuntimeClient,
+  modelId: string,
+  prompt: string,
+  config: BedrockInferenceConfig
+): Promise<BedrockModelResponse> {
+  const response = await client.send(new ConverseCommand({
+    modelId,
+    messages: [{ role: 'user', content: [{ text: prompt }] }],
+    inferenceConfig: {
+      maxTokens: config.maxTokens,
+      temperature: config.temperature,
+      ...(getBedrockModelFamily(modelId) === 'anthropic' ? {} : { topP: config.topP })
+    }
+  }));
+
+  const text = response?.output?.message?.content?.map(block => block.text ?? '').join('');
+  if (!text) {
+    throw new Error('Invalid response format from Bedrock model');
+  }
+  return { text, inputTokens: response.usage?.inputTokens, outputTokens: response.usage?.outputTokens };
+}
+
+/**
+ * On-demand pricing for a model, falling back to DEFAULT_BEDROCK_PRICING for unknown models. Overrides are matched
+ * by prefix alongside the built-in table (against the full or base model ID) and win over an identical key.
+ */
+export function getBedrockModelPricing(modelId: string, overrides: Record<string, BedrockModelPricing> = {}): BedrockModelPricing {
+  const pricing = { ...BEDROCK_MODEL_PRICING, ...overrides };
+  const baseModelId = getBaseModelId(modelId);
+  const prefix = Object.keys(pricing)
+    .filter(candidate => baseModelId.startsWith(candidate) || modelId.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : DEFAULT_BEDROCK_PRICING;
+}
+
+/**
+ * Parses per-1K token price overrides keyed by model ID prefix, e.g. {"anthropic.claude-3-haiku": {"inputPer1K": 0.00025,
+ * "outputPer1K": 0.00125}}
+ */
+export function parseBedrockModelPricing(json: string): Record<string, BedrockModelPricing> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid Bedrock model pricing JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid Bedrock model pricing JSON: expected an object keyed by model ID prefix');
+  }
+
+  const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  const pricing: Record<string, BedrockModelPricing> = {};
+  for (const [prefix, price] of Object.entries(parsed)) {
+    const fields = price !== null && typeof price === 'object' ? price as Partial<BedrockModelPricing> : {};
+    if (!prefix || !isPrice(fields.inputPer1K) || !isPrice(fields.outputPer1K)) {
+      throw new Error(`Bedrock modelPricing for ${prefix} must have non-negative inputPer1K and outputPer1K`);
+    }
+    pricing[prefix] = { inputPer1K: fields.inputPer1K, outputPer1K: fields.outputPer1K };
+  }
+  return pricing;
+}
+
+/**
+ * Token usage of a model call as reported by the model, or roughly 4 characters per token when it is not reported
+ */
+export function estimateBedrockTokens(prompt: string, response: BedrockModelResponse): { inputTokens: number; outputTokens: number } {
+  return {
+    inputTokens: response.inputTokens ?? Math.ceil(prompt.length / 4),
+    outputTokens: response.outputTokens ?? Math.ceil(response.text.length / 4)
+  };
+}
+
+/**
+ * Cost of a model call in USD (rounded to 5 decimal places), priced from estimateBedrockTokens
+ */
+export function estimateBedrockCost(
+  modelId: string,
+  prompt: string,
+  response: BedrockModelResponse,
+  pricingOverrides?: Record<string, BedrockModelPricing>
+): number {
+  const pricing = getBedrockModelPricing(modelId, pricingOverrides);
+  const { inputTokens, outputTokens } = estimateBedrockTokens(prompt, response);
+
+  const cost = (inputTokens / 1000) * pricing.inputPer1K + (outputTokens / 1000) * pricing.outputPer1K;
+  return Math.round(cost * 100000) / 100000;
+}
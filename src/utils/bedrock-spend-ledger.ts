@@ -0,0 +1,161 @@
+import { randomUUID } from 'crypto';
+import { DynamoDBClient, GetItemCommand, PutItemCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { BedrockConfig, BedrockInvocationRecord, BedrockSpendSummary } from '../types';
+import { getBillingPeriod } from './alert-state';
+import { createLogger } from './logger';
+
+/** Sort key of the per-month totals item; invocation items use '<timestamp>#<id>' */
+const MONTHLY_TOTAL_ENTRY_ID = 'TOTAL';
+
+/** Days invocation items are kept before DynamoDB expires them; monthly totals are kept */
+const INVOCATION_RETENTION_DAYS = 400;
+
+/**
+ * Ledger record for a model invocation, charged to the billing month it was made in
+ */
+export function createBedrockInvocationRecord(
+  modelId: string,
+  purpose: string,
+  inputTokens: number,
+  outputTokens: number,
+  cost: number,
+  now: Date = new Date()
+): BedrockInvocationRecord {
+  return {
+    month: getBillingPeriod(now.toISOString()),
+    timestamp: now.toISOString(),
+    modelId,
+    purpose,
+    inputTokens,
+    outputTokens,
+    cost
+  };
+}
+
+/**
+ * Empty month-to-date summary for a month without recorded invocations
+ */
+export function createEmptySpendSummary(month: string): BedrockSpendSummary {
+  return { month, totalCost: 0, inputTokens: 0, outputTokens: 0, invocationCount: 0 };
+}
+
+/**
+ * Persisted per-month ledger of Bedrock model invocations
+ */
+export interface BedrockSpendLedger {
+  /** Records an invocation and atomically adds it to the month's totals, returning the updated totals */
+  recordInvocation(record: BedrockInvocationRecord): Promise<BedrockSpendSummary>;
+  getMonthlySpend(month: string): Promise<BedrockSpendSummary>;
+}
+
+/**
+ * DynamoDB-backed spend ledger (partition key: month, sort key: entryId, TTL attribute: expiresAt).
+ * Each invocation is stored as its own item and added to the month's 'TOTAL' item with an atomic ADD,
+ * so concurrent Lambda invocations never overwrite each other's spend.
+ */
+export class DynamoDBBedrockSpendLedger implements BedrockSpendLedger {
+  private dynamodb: DynamoDBClient;
+  private tableName: string;
+
+  constructor(tableName: string, region: string = 'us-east-1') {
+    this.tableName = tableName;
+    this.dynamodb = new DynamoDBClient({ region });
+  }
+
+  async recordInvocation(record: BedrockInvocationRecord): Promise<BedrockSpendSummary> {
+    await this.dynamodb.send(new PutItemCommand({
+      TableName: this.tableName,
+      Item: marshall({
+        ...record,
+        entryId: `${record.timestamp}#${randomUUID().slice(0, 8)}`,
+        expiresAt: Math.floor(new Date(record.timestamp).getTime() / 1000) + INVOCATION_RETENTION_DAYS * 24 * 60 * 60
+      })
+    }));
+
+    const response = await this.dynamodb.send(new UpdateItemCommand({
+      TableName: this.tableName,
+      Key: marshall({ month: record.month, entryId: MONTHLY_TOTAL_ENTRY_ID }),
+      UpdateExpression: 'ADD totalCost :cost, inputTokens :inputTokens, outputTokens :outputTokens, invocationCount :one',
+      ExpressionAttributeValues: marshall({
+        ':cost': record.cost,
+        ':inputTokens': record.inputTokens,
+        ':outputTokens': record.outputTokens,
+        ':one': 1
+      }),
+      ReturnValues: 'ALL_NEW'
+    }));
+
+    return this.toSummary(record.month, response?.Attributes ? unmarshall(response.Attributes) : undefined);
+  }
+
+  async getMonthlySpend(month: string): Promise<BedrockSpendSummary> {
+    const response = await this.dynamodb.send(new GetItemCommand({
+      TableName: this.tableName,
+      Key: marshall({ month, entryId: MONTHLY_TOTAL_ENTRY_ID }),
+      ConsistentRead: true
+    }));
+
+    return this.toSummary(month, response?.Item ? unmarshall(response.Item) : undefined);
+  }
+
+  private toSummary(month: string, item?: Record<string, any>): BedrockSpendSummary {
+    return {
+      month,
+      totalCost: item?.totalCost ?? 0,
+      inputTokens: item?.inputTokens ?? 0,
+      outputTokens: item?.outputTokens ?? 0,
+      invocationCount: item?.invocationCount ?? 0
+    };
+  }
+}
+
+/**
+ * In-memory spend ledger, lost on cold starts; used for tests and when no table is configured
+ */
+export class InMemoryBedrockSpendLedger implements BedrockSpendLedger {
+  private invocations: BedrockInvocationRecord[] = [];
+
+  async recordInvocation(record: BedrockInvocationRecord): Promise<BedrockSpendSummary> {
+    this.invocations.push({ ...record });
+    return this.getMonthlySpend(record.month);
+  }
+
+  async getMonthlySpend(month: string): Promise<BedrockSpendSummary> {
+    return this.invocations
+      .filter(invocation => invocation.month === month)
+      .reduce((summary, invocation) => ({
+        month,
+        totalCost: summary.totalCost + invocation.cost,
+        inputTokens: summary.inputTokens + invocation.inputTokens,
+        outputTokens: summary.outputTokens + invocation.outputTokens,
+        invocationCount: summary.invocationCount + 1
+      }), createEmptySpendSummary(month));
+  }
+
+  /**
+   * Recorded invocations, oldest first
+   */
+  getInvocations(): BedrockInvocationRecord[] {
+    return this.invocations.map(invocation => ({ ...invocation }));
+  }
+
+  /**
+   * Removes all recorded invocations
+   */
+  clear(): void {
+    this.invocations = [];
+  }
+}
+
+/**
+ * Creates the spend ledger for the given Bedrock configuration
+ */
+export function createBedrockSpendLedger(region: string, config?: BedrockConfig): BedrockSpendLedger {
+  if (config?.spendLedgerTableName) {
+    return new DynamoDBBedrockSpendLedger(config.spendLedgerTableName, region);
+  }
+
+  createLogger('BedrockSpendLedger').info('No Bedrock spend ledger table configured, using in-memory ledger');
+  return new InMemoryBedrockSpendLedger();
+}
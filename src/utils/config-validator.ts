@@ -10,6 +10,8 @@ import { SNSClient, GetTopicAttributesCommand, GetPlatformApplicationAttributesC
 import { CostExplorerClient, GetCostAndUsageCommand } from '@aws-sdk/client-cost-explorer';
 import { LambdaClient, GetFunctionConfigurationCommand } from '@aws-sdk/client-lambda';
 import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { AlertRoutingRule, BedrockModelPricing } from '../types';
+import { validateAlertRoutingRules } from '../validation';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -33,6 +35,7 @@ export interface SpendMonitorConfigValidation {
   minServiceCostThreshold?: number;
   iosConfig?: iOSConfigValidation;
   bedrockConfig?: BedrockConfigValidation;
+  alertRoutingRules?: AlertRoutingRule[];
 }
 
 export interface iOSConfigValidation {
@@ -54,6 +57,9 @@ export interface BedrockConfigValidation {
   cacheResults: boolean;
   cacheTTLMinutes: number;
   fallbackOnError: boolean;
+  maxRepairAttempts?: number;
+  repairBudget?: number;
+  modelPricing?: Record<string, BedrockModelPricing>;
 }
 
 export class ConfigValidator {
@@ -98,6 +104,11 @@ export class ConfigValidator {
       this.validateBedrockConfig(config.bedrockConfig, result);
     }
 
+    // Validate alert routing rules if present
+    if (config.alertRoutingRules !== undefined) {
+      this.validateAlertRoutingRules(config.alertRoutingRules, result);
+    }
+
     // Validate AWS services if not skipped
     if (!options.skipAwsValidation) {
       await this.validateAwsServices(config, result);
@@ -236,6 +247,24 @@ export class ConfigValidator {
       result.info.push(`Bedrock rate limit: ${bedrockConfig.rateLimitPerMinute} calls/minute`);
     }
 
+    // Validate structured output repair settings
+    if (bedrockConfig.maxRepairAttempts !== undefined &&
+        (!Number.isInteger(bedrockConfig.maxRepairAttempts) || bedrockConfig.maxRepairAttempts < 0)) {
+      result.errors.push('Bedrock maxRepairAttempts must be a non-negative integer');
+    }
+    if (bedrockConfig.repairBudget !== undefined &&
+        (typeof bedrockConfig.repairBudget !== 'number' || bedrockConfig.repairBudget < 0)) {
+      result.errors.push('Bedrock repairBudget must be a non-negative number');
+    }
+
+    // Validate model pricing overrides
+    for (const [modelPrefix, pricing] of Object.entries(bedrockConfig.modelPricing || {})) {
+      if (typeof pricing?.inputPer1K !== 'number' || pricing.inputPer1K < 0 ||
+          typeof pricing?.outputPer1K !== 'number' || pricing.outputPer1K < 0) {
+        result.errors.push(`Bedrock modelPricing for ${modelPrefix} must have non-negative inputPer1K and outputPer1K`);
+      }
+    }
+
     // Validate cache settings
     if (typeof bedrockConfig.cacheResults !== 'boolean') {
       result.errors.push('Bedrock cacheResults must be a boolean');
@@ -266,6 +295,31 @@ export class ConfigValidator {
     }
   }
 
+  /**
+   * Validates alert routing rules and flags rules that can never match
+   */
+  private validateAlertRoutingRules(rules: AlertRoutingRule[], result: ValidationResult): void {
+    const errors: string[] = [];
+    validateAlertRoutingRules(rules, errors);
+    result.errors.push(...errors.map(error => `Alert routing: ${error}`));
+    if (errors.length > 0) {
+      return;
+    }
+
+    // The first matching rule wins, so anything after a rule without criteria is dead config
+    const catchAllIndex = rules.findIndex(rule => !rule.alertLevels && !rule.services && !rule.scopes && !rule.timeOfDay);
+    if (catchAllIndex !== -1 && catchAllIndex < rules.length - 1) {
+      const unreachable = rules.slice(catchAllIndex + 1).map(rule => rule.name).join(', ');
+      result.warnings.push(`Alert routing rule '${rules[catchAllIndex].name}' matches every alert, so later rules never apply: ${unreachable}`);
+    }
+
+    if (catchAllIndex === -1 && rules.length > 0) {
+      result.info.push('Alerts not matched by a routing rule use their threshold tier channels');
+    }
+
+    result.info.push(`Alert routing rules: ${rules.map(rule => `${rule.name} → ${rule.channels.join('+')}`).join(', ') || 'none'}`);
+  }
+
   /**
    * Validates iOS configuration parameters
    */
@@ -635,7 +689,12 @@ export class ConfigValidator {
       /^cohere\.command-text-v14$/,
       /^cohere\.command-light-text-v14$/,
       /^meta\.llama2-13b-chat-v1$/,
-      /^meta\.llama2-70b-chat-v1$/
+      /^meta\.llama2-70b-chat-v1$/,
+      // Model families with request adapters, optionally through a cross-region inference profile
+      /^(?:(?:us|eu|apac|us-gov|global)\.)?amazon\.(?:titan-text|nova)-[\w.-]+(?::\d+)?$/,
+      /^(?:(?:us|eu|apac|us-gov|global)\.)?anthropic\.claude-[\w.-]+(?::\d+)?$/,
+      /^(?:(?:us|eu|apac|us-gov|global)\.)?meta\.llama[\w.-]+(?::\d+)?$/,
+      /^(?:(?:us|eu|apac|us-gov|global)\.)?mistral\.[\w.-]+(?::\d+)?$/
     ];
 
     return validPatterns.some(pattern => pattern.test(modelId));
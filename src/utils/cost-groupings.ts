@@ -0,0 +1,115 @@
+import { GroupDefinition } from '@aws-sdk/client-cost-explorer';
+import { AlertScope, CostAnalysis, CostGrouping, CostGroupingType, ScopedBudget } from '../types';
+
+/**
+ * Groupings available for additional cost breakdowns
+ */
+export const COST_GROUPING_TYPES: CostGroupingType[] = ['TAG', 'LINKED_ACCOUNT', 'REGION', 'USAGE_TYPE'];
+
+/**
+ * Group value used for resources without the cost allocation tag
+ */
+export const UNTAGGED_VALUE = '(untagged)';
+
+/**
+ * Key identifying a grouping in CostAnalysis.breakdowns (e.g. 'TAG:team' or 'LINKED_ACCOUNT')
+ */
+export function getCostGroupingKey(grouping: CostGrouping): string {
+  return grouping.type === 'TAG' ? `TAG:${grouping.tagKey}` : grouping.type;
+}
+
+/**
+ * Human-readable grouping description for logs and messages
+ */
+export function describeCostGrouping(grouping: CostGrouping): string {
+  switch (grouping.type) {
+    case 'TAG':
+      return `${grouping.tagKey} tag`;
+    case 'LINKED_ACCOUNT':
+      return 'linked account';
+    case 'REGION':
+      return 'region';
+    case 'USAGE_TYPE':
+      return 'usage type';
+  }
+}
+
+/**
+ * Cost Explorer GroupBy definition for a grouping
+ */
+export function toGroupDefinition(grouping: CostGrouping): GroupDefinition {
+  return grouping.type === 'TAG'
+    ? { Type: 'TAG', Key: grouping.tagKey }
+    : { Type: 'DIMENSION', Key: grouping.type };
+}
+
+/**
+ * Extracts the group value from a Cost Explorer group key (tag keys come back as 'team$platform')
+ */
+export function parseGroupValue(grouping: CostGrouping, groupKey: string): string {
+  if (grouping.type !== 'TAG') {
+    return groupKey;
+  }
+
+  const prefix = `${grouping.tagKey}$`;
+  const value = groupKey.startsWith(prefix) ? groupKey.substring(prefix.length) : groupKey;
+  return value || UNTAGGED_VALUE;
+}
+
+/**
+ * Combines grouping lists, dropping duplicates
+ */
+export function mergeCostGroupings(...lists: Array<CostGrouping[] | undefined>): CostGrouping[] {
+  const merged = new Map<string, CostGrouping>();
+  for (const grouping of lists.flatMap(list => list || [])) {
+    if (!merged.has(getCostGroupingKey(grouping))) {
+      merged.set(getCostGroupingKey(grouping), grouping);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Spend attributed to an alert scope, or undefined when the breakdown for the scope is unavailable
+ */
+export function getScopedSpend(costAnalysis: CostAnalysis, scope?: AlertScope): number | undefined {
+  if (!scope || scope.type === 'account') {
+    return costAnalysis.totalCost;
+  }
+
+  if (scope.type === 'service') {
+    return costAnalysis.serviceBreakdown[scope.value || ''] || 0;
+  }
+
+  const breakdown = scope.grouping ? costAnalysis.breakdowns?.[getCostGroupingKey(scope.grouping)] : undefined;
+  return breakdown ? breakdown.costs[scope.value || ''] || 0 : undefined;
+}
+
+/**
+ * Parses cost groupings from a JSON array string
+ */
+export function parseCostGroupings(json: string): CostGrouping[] {
+  return parseJsonArray(json, 'cost groupings') as CostGrouping[];
+}
+
+/**
+ * Parses scoped budgets from a JSON array string
+ */
+export function parseScopedBudgets(json: string): ScopedBudget[] {
+  return parseJsonArray(json, 'scoped budgets') as ScopedBudget[];
+}
+
+function parseJsonArray(json: string, label: string): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid ${label} JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Invalid ${label} JSON: expected an array`);
+  }
+
+  return parsed;
+}
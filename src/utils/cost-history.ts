@@ -0,0 +1,240 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DynamoDBClient, PutItemCommand, QueryCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { CostAnalysis, CostComparison, CostComparisons, CostHistoryConfig, CostSnapshot, ServiceCostDelta } from '../types';
+import { createLogger } from './logger';
+import { getBillingPeriod } from './alert-state';
+
+/**
+ * Persistence for daily cost snapshots
+ */
+export interface CostSnapshotRepository {
+  saveSnapshot(snapshot: CostSnapshot): Promise<void>;
+  /** Latest snapshot in a billing period, optionally taken on or before a given day (YYYY-MM-DD) */
+  getLatestSnapshot(billingPeriod: string, onOrBefore?: string): Promise<CostSnapshot | null>;
+}
+
+/**
+ * DynamoDB-backed snapshot repository (partition key: billingPeriod, sort key: snapshotDate)
+ */
+export class DynamoDBCostSnapshotRepository implements CostSnapshotRepository {
+  private dynamodb: DynamoDBClient;
+  private tableName: string;
+
+  constructor(tableName: string, region: string = 'us-east-1') {
+    this.tableName = tableName;
+    this.dynamodb = new DynamoDBClient({ region });
+  }
+
+  async saveSnapshot(snapshot: CostSnapshot): Promise<void> {
+    await this.dynamodb.send(new PutItemCommand({
+      TableName: this.tableName,
+      Item: marshall(snapshot, { removeUndefinedValues: true })
+    }));
+  }
+
+  async getLatestSnapshot(billingPeriod: string, onOrBefore?: string): Promise<CostSnapshot | null> {
+    const response = await this.dynamodb.send(new QueryCommand({
+      TableName: this.tableName,
+      KeyConditionExpression: onOrBefore
+        ? 'billingPeriod = :billingPeriod AND snapshotDate <= :snapshotDate'
+        : 'billingPeriod = :billingPeriod',
+      ExpressionAttributeValues: marshall(onOrBefore
+        ? { ':billingPeriod': billingPeriod, ':snapshotDate': onOrBefore }
+        : { ':billingPeriod': billingPeriod }),
+      ScanIndexForward: false,
+      Limit: 1
+    }));
+
+    const item = response?.Items?.[0];
+    return item ? unmarshall(item) as CostSnapshot : null;
+  }
+}
+
+/**
+ * Snapshot repository backed by a JSON file, for local runs
+ */
+export class FileCostSnapshotRepository implements CostSnapshotRepository {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async saveSnapshot(snapshot: CostSnapshot): Promise<void> {
+    const snapshots = (await this.readSnapshots()).filter(existing =>
+      existing.billingPeriod !== snapshot.billingPeriod || existing.snapshotDate !== snapshot.snapshotDate
+    );
+    snapshots.push(snapshot);
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(snapshots, null, 2), 'utf8');
+  }
+
+  async getLatestSnapshot(billingPeriod: string, onOrBefore?: string): Promise<CostSnapshot | null> {
+    return findLatestSnapshot(await this.readSnapshots(), billingPeriod, onOrBefore);
+  }
+
+  private async readSnapshots(): Promise<CostSnapshot[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(contents);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Invalid cost snapshot file ${this.filePath}: expected an array`);
+    }
+    return parsed as CostSnapshot[];
+  }
+}
+
+/**
+ * In-memory snapshot repository for tests
+ */
+export class InMemoryCostSnapshotRepository implements CostSnapshotRepository {
+  private snapshots: Map<string, CostSnapshot> = new Map();
+
+  async saveSnapshot(snapshot: CostSnapshot): Promise<void> {
+    this.snapshots.set(`${snapshot.billingPeriod}#${snapshot.snapshotDate}`, snapshot);
+  }
+
+  async getLatestSnapshot(billingPeriod: string, onOrBefore?: string): Promise<CostSnapshot | null> {
+    return findLatestSnapshot(Array.from(this.snapshots.values()), billingPeriod, onOrBefore);
+  }
+
+  /**
+   * Removes all stored snapshots
+   */
+  clear(): void {
+    this.snapshots.clear();
+  }
+}
+
+/**
+ * Creates the snapshot repository for the given configuration
+ */
+export function createCostSnapshotRepository(region: string, config: CostHistoryConfig): CostSnapshotRepository {
+  if (config.tableName) {
+    return new DynamoDBCostSnapshotRepository(config.tableName, region);
+  }
+  if (config.filePath) {
+    return new FileCostSnapshotRepository(config.filePath);
+  }
+
+  createLogger('CostSnapshotRepository').info('No cost snapshot table or file configured, snapshots will not persist between runs');
+  return new InMemoryCostSnapshotRepository();
+}
+
+/**
+ * Builds the snapshot stored for a month-to-date cost analysis
+ */
+export function createCostSnapshot(costAnalysis: CostAnalysis): CostSnapshot {
+  // Comparisons are derived from other snapshots, so they are not stored
+  const stored = { ...costAnalysis };
+  delete stored.comparisons;
+  return {
+    billingPeriod: getBillingPeriod(costAnalysis.period.start),
+    snapshotDate: costAnalysis.period.end.split('T')[0],
+    costAnalysis: stored
+  };
+}
+
+/**
+ * Billing period (YYYY-MM) before the given one
+ */
+export function getPreviousBillingPeriod(billingPeriod: string): string {
+  const [year, month] = billingPeriod.split('-').map(Number);
+  return month === 1 ? `${year - 1}-12` : `${year}-${String(month - 1).padStart(2, '0')}`;
+}
+
+/**
+ * Same day of the previous billing period, clamped to that month's length (e.g. 2024-03-31 -> 2024-02-29)
+ */
+export function getSameDayLastMonth(snapshotDate: string): string {
+  const [year, month, day] = snapshotDate.split('-').map(Number);
+  const previousPeriod = getPreviousBillingPeriod(`${year}-${String(month).padStart(2, '0')}`);
+  const daysInPreviousMonth = new Date(Date.UTC(year, month - 1, 0)).getUTCDate();
+  return `${previousPeriod}-${String(Math.min(day, daysInPreviousMonth)).padStart(2, '0')}`;
+}
+
+/**
+ * Compares month-to-date cost against a stored snapshot, per service
+ */
+export function compareWithSnapshot(costAnalysis: CostAnalysis, snapshot: CostSnapshot): CostComparison {
+  const previous = snapshot.costAnalysis;
+
+  return {
+    snapshotDate: snapshot.snapshotDate,
+    previousTotal: previous.totalCost,
+    totalDelta: roundCurrency(costAnalysis.totalCost - previous.totalCost),
+    totalDeltaPercent: getDeltaPercent(costAnalysis.totalCost, previous.totalCost),
+    services: compareServiceCosts(costAnalysis.serviceBreakdown, previous.serviceBreakdown)
+  };
+}
+
+/**
+ * Per-service cost changes between two breakdowns, largest absolute change first
+ */
+export function compareServiceCosts(
+  current: { [service: string]: number },
+  previous: { [service: string]: number }
+): ServiceCostDelta[] {
+  const services = new Set([...Object.keys(current), ...Object.keys(previous)]);
+
+  return Array.from(services)
+    .map(service => {
+      const currentCost = current[service] || 0;
+      const previousCost = previous[service] || 0;
+      return {
+        service,
+        currentCost,
+        previousCost,
+        delta: roundCurrency(currentCost - previousCost),
+        deltaPercent: getDeltaPercent(currentCost, previousCost)
+      };
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+/**
+ * Compares month-to-date cost against last month's final snapshot and the snapshot from the same day last month
+ */
+export async function buildCostComparisons(
+  repository: CostSnapshotRepository,
+  costAnalysis: CostAnalysis
+): Promise<CostComparisons> {
+  const { billingPeriod, snapshotDate } = createCostSnapshot(costAnalysis);
+  const previousPeriod = getPreviousBillingPeriod(billingPeriod);
+
+  const [lastMonth, sameDayLastMonth] = await Promise.all([
+    repository.getLatestSnapshot(previousPeriod),
+    repository.getLatestSnapshot(previousPeriod, getSameDayLastMonth(snapshotDate))
+  ]);
+
+  return {
+    monthOverMonth: lastMonth ? compareWithSnapshot(costAnalysis, lastMonth) : undefined,
+    sameDayLastMonth: sameDayLastMonth ? compareWithSnapshot(costAnalysis, sameDayLastMonth) : undefined
+  };
+}
+
+function findLatestSnapshot(snapshots: CostSnapshot[], billingPeriod: string, onOrBefore?: string): CostSnapshot | null {
+  const candidates = snapshots
+    .filter(snapshot => snapshot.billingPeriod === billingPeriod && (!onOrBefore || snapshot.snapshotDate <= onOrBefore))
+    .sort((a, b) => b.snapshotDate.localeCompare(a.snapshotDate));
+  return candidates[0] ?? null;
+}
+
+function getDeltaPercent(current: number, previous: number): number | undefined {
+  return previous > 0 ? Math.round(((current - previous) / previous) * 1000) / 10 : undefined;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,53 @@
+import { Metric } from '@aws-sdk/client-cost-explorer';
+import { CostMetric } from '../types';
+
+/**
+ * Cost Explorer metrics available for cost analysis
+ */
+export const COST_METRICS: CostMetric[] = ['BlendedCost', 'UnblendedCost', 'AmortizedCost', 'NetAmortizedCost', 'NetUnblendedCost'];
+
+export const DEFAULT_COST_METRIC: CostMetric = 'BlendedCost';
+
+const FORECAST_METRICS: Record<CostMetric, Metric> = {
+  BlendedCost: 'BLENDED_COST',
+  UnblendedCost: 'UNBLENDED_COST',
+  AmortizedCost: 'AMORTIZED_COST',
+  NetAmortizedCost: 'NET_AMORTIZED_COST',
+  NetUnblendedCost: 'NET_UNBLENDED_COST'
+};
+
+const METRIC_LABELS: Record<CostMetric, string> = {
+  BlendedCost: 'Blended',
+  UnblendedCost: 'Unblended',
+  AmortizedCost: 'Amortized',
+  NetAmortizedCost: 'Net Amortized',
+  NetUnblendedCost: 'Net Unblended'
+};
+
+/**
+ * GetCostForecast metric equivalent to a GetCostAndUsage metric
+ */
+export function toForecastMetric(metric: CostMetric = DEFAULT_COST_METRIC): Metric {
+  return FORECAST_METRICS[metric];
+}
+
+/**
+ * Display label for a metric (e.g. 'Net Amortized')
+ */
+export function formatCostMetric(metric: CostMetric): string {
+  return METRIC_LABELS[metric] ?? metric;
+}
+
+/**
+ * Primary metric followed by the comparison metrics, without duplicates
+ */
+export function getRequestedMetrics(metric: CostMetric = DEFAULT_COST_METRIC, comparisonMetrics: CostMetric[] = []): CostMetric[] {
+  return Array.from(new Set([metric, ...comparisonMetrics]));
+}
+
+/**
+ * Parses a comma-separated metric list
+ */
+export function parseCostMetrics(value: string): CostMetric[] {
+  return value.split(',').map(metric => metric.trim()).filter(metric => metric !== '') as CostMetric[];
+}
@@ -0,0 +1,217 @@
+import { promises as fs } from 'fs';
+import { AlertLocale, DailyCost, ServiceCost } from '../types';
+import { AlertMessageFormatter, formatMoney } from './localization';
+
+export const DEFAULT_SPARKLINE_DAYS = 30;
+
+/** Height in pixels of the tallest sparkline bar */
+const SPARKLINE_HEIGHT = 40;
+
+/** Characters for the plain-text sparkline, lowest to highest */
+const TEXT_SPARKLINE_LEVELS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+/**
+ * Content rendered into the HTML email template
+ */
+export interface EmailReportContent {
+  /** Email title, also used as the subject */
+  title: string;
+  /** One-line summary under the title */
+  headline: string;
+  /** Accent color for the header and threshold bar */
+  accentColor: string;
+  /** Label/value pairs shown under the headline */
+  facts: Array<[string, string]>;
+  /** Spend compared against the threshold */
+  spend: number;
+  /** Budget threshold */
+  threshold: number;
+  /** Top cost-driving services */
+  services: ServiceCost[];
+  /** Daily spend for the sparkline, oldest first */
+  dailyCosts?: DailyCost[];
+  /** AI insights as plain text lines */
+  aiInsights: string[];
+  /** General recommendations */
+  recommendations: string[];
+  /** Human-readable billing period */
+  period: string;
+  /** Human-readable generation time */
+  generatedAt: string;
+  /** ISO 4217 currency code for amounts (defaults to USD) */
+  currency?: string;
+  /** Locale for section headings and number formatting (defaults to en) */
+  locale?: AlertLocale;
+}
+
+/**
+ * Built-in template. Overrides can use the same {{placeholders}}; fragment placeholders
+ * (thresholdBar, serviceTable, sparkline, aiInsights, recommendations, facts) are inserted as HTML,
+ * all others are escaped text. footer is the localized period and generation time.
+ */
+export const DEFAULT_EMAIL_TEMPLATE = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>{{title}}</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f5f7;font-family:Arial,Helvetica,sans-serif;color:#24292f;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f5f7;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:6px;overflow:hidden;">
+<tr><td style="background:{{accentColor}};color:#ffffff;padding:20px 24px;font-size:20px;font-weight:bold;">{{title}}</td></tr>
+<tr><td style="padding:20px 24px 8px;font-size:15px;">{{headline}}</td></tr>
+<tr><td style="padding:8px 24px;">{{thresholdBar}}</td></tr>
+<tr><td style="padding:8px 24px;">{{facts}}</td></tr>
+<tr><td style="padding:8px 24px;">{{sparkline}}</td></tr>
+<tr><td style="padding:8px 24px;">{{serviceTable}}</td></tr>
+<tr><td style="padding:8px 24px;">{{aiInsights}}</td></tr>
+<tr><td style="padding:8px 24px;">{{recommendations}}</td></tr>
+<tr><td style="padding:16px 24px;font-size:12px;color:#6a737d;border-top:1px solid #e1e4e8;">{{footer}}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>
+`;
+
+/**
+ * Loads an HTML template override from disk
+ */
+export async function loadEmailTemplate(templatePath: string): Promise<string> {
+  try {
+    return await fs.readFile(templatePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Email template load failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Renders the HTML email body, leaving unknown placeholders empty
+ */
+export function renderEmailHtml(content: EmailReportContent, template: string = DEFAULT_EMAIL_TEMPLATE): string {
+  const format = new AlertMessageFormatter(content.locale, content.currency);
+  const fragments: { [name: string]: string } = {
+    thresholdBar: renderThresholdBar(content.spend, content.threshold, content.accentColor, format),
+    facts: renderFacts(content.facts),
+    sparkline: content.dailyCosts && content.dailyCosts.length > 1 ? renderSparkline(content.dailyCosts, content.accentColor, format) : '',
+    serviceTable: content.services.length > 0 ? renderServiceTable(content.services, format) : '',
+    aiInsights: content.aiInsights.length > 0 ? renderSection(format.t('report.aiInsights'), content.aiInsights.map(escapeHtml).join('<br>')) : '',
+    recommendations: content.recommendations.length > 0
+      ? renderSection(format.t('report.recommendations'), `<ul style="margin:0;padding-left:20px;">${content.recommendations.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`)
+      : ''
+  };
+  const text: { [name: string]: string } = {
+    title: content.title,
+    headline: content.headline,
+    accentColor: content.accentColor,
+    spend: format.money(content.spend),
+    threshold: format.money(content.threshold),
+    period: content.period,
+    generatedAt: content.generatedAt,
+    footer: format.t('report.footer', { period: content.period, generatedAt: content.generatedAt })
+  };
+
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    if (name in fragments) {
+      return fragments[name];
+    }
+    return name in text ? escapeHtml(text[name]) : '';
+  });
+}
+
+/**
+ * Plain-text sparkline of daily spend (e.g. ▁▂▄█ $1.20 – $9.80)
+ */
+export function renderTextSparkline(dailyCosts: DailyCost[], currency?: string, locale?: AlertLocale): string {
+  const costs = dailyCosts.map(day => day.cost);
+  const min = Math.min(...costs);
+  const max = Math.max(...costs);
+  const range = max - min;
+  const bars = costs
+    .map(cost => TEXT_SPARKLINE_LEVELS[range > 0 ? Math.round(((cost - min) / range) * (TEXT_SPARKLINE_LEVELS.length - 1)) : 0])
+    .join('');
+  return `${bars} ${formatMoney(min, currency, locale)} – ${formatMoney(max, currency, locale)}`;
+}
+
+/**
+ * Escapes text for HTML element content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderSection(heading: string, body: string): string {
+  return `<div style="font-size:15px;font-weight:bold;margin:8px 0;">${escapeHtml(heading)}</div><div style="font-size:14px;line-height:1.5;">${body}</div>`;
+}
+
+function renderThresholdBar(spend: number, threshold: number, color: string, format: AlertMessageFormatter): string {
+  const percentOfBudget = threshold > 0 ? (spend / threshold) * 100 : 0;
+  // The bar tops out at twice the budget so the threshold marker stays visible
+  const filled = Math.min(percentOfBudget / 2, 100);
+  return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;">`
+    + `<tr><td style="font-size:13px;padding-bottom:4px;">${escapeHtml(format.t('report.budgetUsed', {
+      percent: format.percent(percentOfBudget, 1),
+      spend: format.money(spend),
+      threshold: format.money(threshold)
+    }))}</td></tr>`
+    + `<tr><td style="padding:0;"><table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;background:#e1e4e8;height:12px;"><tr>`
+    + (filled > 0 ? `<td width="${filled.toFixed(1)}%" style="background:${escapeHtml(color)};height:12px;padding:0;"></td>` : '')
+    + (filled < 100 ? `<td style="height:12px;padding:0;"></td>` : '')
+    + `</tr></table></td></tr>`
+    + `<tr><td style="font-size:11px;color:#6a737d;text-align:center;">${escapeHtml(format.t('report.budgetMarker'))}</td></tr>`
+    + `</table>`;
+}
+
+function renderFacts(facts: Array<[string, string]>): string {
+  const rows = facts
+    .map(([label, value]) => `<tr><td style="padding:4px 12px 4px 0;color:#6a737d;">${escapeHtml(label)}</td><td style="padding:4px 0;font-weight:bold;">${escapeHtml(value)}</td></tr>`)
+    .join('');
+  return `<table role="presentation" cellpadding="0" cellspacing="0" style="font-size:14px;">${rows}</table>`;
+}
+
+function renderServiceTable(services: ServiceCost[], format: AlertMessageFormatter): string {
+  const cell = 'padding:6px 8px;border-bottom:1px solid #e1e4e8;';
+  const rows = services
+    .map(service => `<tr><td style="${cell}">${escapeHtml(service.serviceName)}</td>`
+      + `<td style="${cell}text-align:right;">${escapeHtml(format.money(service.cost))}</td>`
+      + `<td style="${cell}text-align:right;">${escapeHtml(format.percent(service.percentage, 1))}</td></tr>`)
+    .join('');
+  return renderSection(format.t('report.topServices'),
+    `<table width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;font-size:14px;">`
+    + `<tr><th style="${cell}text-align:left;">${escapeHtml(format.t('chat.service'))}</th>`
+    + `<th style="${cell}text-align:right;">${escapeHtml(format.t('chat.cost'))}</th>`
+    + `<th style="${cell}text-align:right;">${escapeHtml(format.t('chat.share'))}</th></tr>`
+    + `${rows}</table>`);
+}
+
+/**
+ * Bar-chart sparkline built from table cells, since email clients strip SVG and scripts
+ */
+function renderSparkline(dailyCosts: DailyCost[], color: string, format: AlertMessageFormatter): string {
+  const peak = Math.max(...dailyCosts.map(day => day.cost));
+  const scale = Math.max(peak, 0.01);
+  const bars = dailyCosts
+    .map(day => {
+      const height = Math.max(Math.round((day.cost / scale) * SPARKLINE_HEIGHT), 1);
+      return `<td valign="bottom" style="padding:0 1px;" title="${escapeHtml(`${day.date}: ${format.money(day.cost)}`)}">`
+        + `<div style="width:8px;height:${height}px;background:${escapeHtml(color)};"></div></td>`;
+    })
+    .join('');
+  const first = dailyCosts[0];
+  const last = dailyCosts[dailyCosts.length - 1];
+  return renderSection(format.t('report.dailySpend', { days: dailyCosts.length }),
+    `<table role="presentation" cellpadding="0" cellspacing="0" style="height:${SPARKLINE_HEIGHT}px;"><tr>${bars}</tr></table>`
+    + `<div style="font-size:12px;color:#6a737d;">${escapeHtml(format.t('report.dailySpendRange', {
+      start: first.date,
+      end: last.date,
+      last: format.money(last.cost),
+      peak: format.money(peak)
+    }))}</div>`);
+}
@@ -0,0 +1,247 @@
+import { CostExplorerClient, GetCostForecastCommand, GetCostForecastCommandInput, GetCostForecastCommandOutput } from '@aws-sdk/client-cost-explorer';
+import { CostForecast, CostMetric, DailyCost, ForecastConfig, ForecastMethod } from '../types';
+import { toForecastMetric } from './cost-metrics';
+
+/**
+ * Supported forecast confidence levels and their two-sided z-scores
+ */
+export const FORECAST_CONFIDENCE_Z_SCORES: { [level: number]: number } = {
+  80: 1.2816,
+  90: 1.6449,
+  95: 1.96,
+  99: 2.5758
+};
+
+export const DEFAULT_FORECAST_CONFIDENCE_LEVEL = 80;
+export const DEFAULT_FORECAST_LOOKBACK_DAYS = 28;
+
+/**
+ * Inputs shared by all forecasters
+ */
+export interface ForecastInput {
+  /** Month-to-date cost (through the end of yesterday) */
+  monthToDateCost: number;
+  /** Current time */
+  now: Date;
+  /** First day of the current month */
+  startOfMonth: Date;
+  /** Last day of the current month */
+  endOfMonth: Date;
+  /** Completed daily costs, oldest first (only populated for forecasters that require them) */
+  dailyCosts: DailyCost[];
+  /** Confidence level in percent for the forecast interval */
+  confidenceLevel: number;
+  /** Cost metric being forecast (defaults to BlendedCost) */
+  metric?: CostMetric;
+}
+
+/**
+ * Projects full month cost from month-to-date data
+ */
+export interface CostForecaster {
+  readonly method: ForecastMethod;
+  /** Whether the forecaster needs daily cost history */
+  readonly requiresDailyCosts: boolean;
+  forecast(input: ForecastInput): Promise<CostForecast>;
+}
+
+/**
+ * Simple linear projection based on elapsed days
+ */
+export function linearProjection(currentCost: number, dayOfMonth: number, daysInMonth: number): number {
+  if (dayOfMonth === 0) {
+    return currentCost;
+  }
+  return roundCurrency((currentCost / dayOfMonth) * daysInMonth);
+}
+
+/**
+ * Linear run rate: (cost / elapsed days) * days in month
+ */
+export class LinearForecaster implements CostForecaster {
+  readonly method: ForecastMethod = 'linear';
+  readonly requiresDailyCosts = false;
+
+  async forecast(input: ForecastInput): Promise<CostForecast> {
+    return {
+      method: this.method,
+      projectedMonthly: linearProjection(input.monthToDateCost, input.now.getDate(), input.endOfMonth.getDate())
+    };
+  }
+}
+
+/**
+ * Run rate from the average of the last seven completed days, ignoring one-off charges earlier in the month
+ */
+export class TrailingSevenDayForecaster implements CostForecaster {
+  readonly method: ForecastMethod = 'trailing-7-day';
+  readonly requiresDailyCosts = true;
+
+  async forecast(input: ForecastInput): Promise<CostForecast> {
+    const window = input.dailyCosts.slice(-7).map(day => day.cost);
+    if (window.length === 0) {
+      return new LinearForecaster().forecast(input);
+    }
+
+    const remainingDays = getRemainingDays(input.now, input.endOfMonth);
+    const dailyMean = mean(window);
+    const margin = getZScore(input.confidenceLevel) * standardDeviation(window) * Math.sqrt(remainingDays);
+
+    const remaining = dailyMean * remainingDays;
+    return {
+      method: this.method,
+      projectedMonthly: roundCurrency(input.monthToDateCost + remaining),
+      confidenceInterval: {
+        lower: roundCurrency(input.monthToDateCost + Math.max(0, remaining - margin)),
+        upper: roundCurrency(input.monthToDateCost + remaining + margin),
+        level: input.confidenceLevel
+      }
+    };
+  }
+}
+
+/**
+ * Projects remaining days from the average cost of each weekday in the lookback window
+ */
+export class WeekdaySeasonalForecaster implements CostForecaster {
+  readonly method: ForecastMethod = 'weekday-seasonal';
+  readonly requiresDailyCosts = true;
+
+  async forecast(input: ForecastInput): Promise<CostForecast> {
+    if (input.dailyCosts.length === 0) {
+      return new LinearForecaster().forecast(input);
+    }
+
+    const costsByWeekday: number[][] = [[], [], [], [], [], [], []];
+    for (const day of input.dailyCosts) {
+      costsByWeekday[new Date(`${day.date}T00:00:00Z`).getUTCDay()].push(day.cost);
+    }
+
+    const overallMean = mean(input.dailyCosts.map(day => day.cost));
+    const weekdayMeans = costsByWeekday.map(costs => (costs.length > 0 ? mean(costs) : overallMean));
+
+    // Residual spread around each weekday mean drives the interval
+    const residuals = input.dailyCosts.map(day => day.cost - weekdayMeans[new Date(`${day.date}T00:00:00Z`).getUTCDay()]);
+    const residualStdDev = standardDeviation(residuals);
+
+    let remaining = 0;
+    const remainingDays = getRemainingDays(input.now, input.endOfMonth);
+    const cursor = new Date(Date.UTC(input.now.getFullYear(), input.now.getMonth(), input.now.getDate()));
+    for (let i = 0; i < remainingDays; i++) {
+      remaining += weekdayMeans[cursor.getUTCDay()];
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+
+    const margin = getZScore(input.confidenceLevel) * residualStdDev * Math.sqrt(remainingDays);
+    return {
+      method: this.method,
+      projectedMonthly: roundCurrency(input.monthToDateCost + remaining),
+      confidenceInterval: {
+        lower: roundCurrency(input.monthToDateCost + Math.max(0, remaining - margin)),
+        upper: roundCurrency(input.monthToDateCost + remaining + margin),
+        level: input.confidenceLevel
+      }
+    };
+  }
+}
+
+/**
+ * Uses the Cost Explorer GetCostForecast API for the remainder of the month
+ */
+export class CostExplorerForecaster implements CostForecaster {
+  readonly method: ForecastMethod = 'cost-explorer';
+  readonly requiresDailyCosts = false;
+
+  private costExplorerClient: CostExplorerClient;
+  private execute: <T>(fn: () => Promise<T>) => Promise<T>;
+
+  constructor(costExplorerClient: CostExplorerClient, execute?: <T>(fn: () => Promise<T>) => Promise<T>) {
+    this.costExplorerClient = costExplorerClient;
+    this.execute = execute ?? (fn => fn());
+  }
+
+  async forecast(input: ForecastInput): Promise<CostForecast> {
+    const start = toDateString(input.now);
+    const firstOfNextMonth = new Date(input.endOfMonth.getFullYear(), input.endOfMonth.getMonth(), input.endOfMonth.getDate() + 1);
+
+    const request: GetCostForecastCommandInput = {
+      TimePeriod: {
+        Start: start,
+        End: toDateString(firstOfNextMonth)
+      },
+      Metric: toForecastMetric(input.metric),
+      Granularity: 'MONTHLY',
+      PredictionIntervalLevel: input.confidenceLevel
+    };
+
+    const response: GetCostForecastCommandOutput = await this.execute(() =>
+      this.costExplorerClient.send(new GetCostForecastCommand(request))
+    );
+
+    const remaining = parseFloat(response.Total?.Amount || '0');
+    const results = response.ForecastResultsByTime || [];
+    const lower = results.reduce((sum, result) => sum + parseFloat(result.PredictionIntervalLowerBound || '0'), 0);
+    const upper = results.reduce((sum, result) => sum + parseFloat(result.PredictionIntervalUpperBound || '0'), 0);
+
+    return {
+      method: this.method,
+      projectedMonthly: roundCurrency(input.monthToDateCost + remaining),
+      confidenceInterval: results.length > 0 ? {
+        lower: roundCurrency(input.monthToDateCost + lower),
+        upper: roundCurrency(input.monthToDateCost + upper),
+        level: input.confidenceLevel
+      } : undefined
+    };
+  }
+}
+
+/**
+ * Creates the forecaster for the configured method
+ */
+export function createForecaster(
+  config: ForecastConfig | undefined,
+  costExplorerClient: CostExplorerClient,
+  execute?: <T>(fn: () => Promise<T>) => Promise<T>
+): CostForecaster {
+  switch (config?.method) {
+    case 'trailing-7-day':
+      return new TrailingSevenDayForecaster();
+    case 'weekday-seasonal':
+      return new WeekdaySeasonalForecaster();
+    case 'cost-explorer':
+      return new CostExplorerForecaster(costExplorerClient, execute);
+    default:
+      return new LinearForecaster();
+  }
+}
+
+/**
+ * Days left in the month including today (month-to-date data ends yesterday)
+ */
+function getRemainingDays(now: Date, endOfMonth: Date): number {
+  return Math.max(0, endOfMonth.getDate() - now.getDate() + 1);
+}
+
+function getZScore(confidenceLevel: number): number {
+  return FORECAST_CONFIDENCE_Z_SCORES[confidenceLevel] ?? FORECAST_CONFIDENCE_Z_SCORES[DEFAULT_FORECAST_CONFIDENCE_LEVEL];
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - avg, 2), 0) / (values.length - 1));
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
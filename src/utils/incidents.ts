@@ -0,0 +1,132 @@
+import { AlertScope, IncidentConfig, IncidentProvider } from '../types';
+import { ACCOUNT_ALERT_SCOPE, getAlertScopeKey } from './alert-state';
+import { DEFAULT_WEBHOOK_TIMEOUT_MS, postWebhook } from './webhooks';
+
+export const PAGERDUTY_EVENTS_URL = 'https://events.pagerduty.com/v2/enqueue';
+export const OPSGENIE_API_URL = 'https://api.opsgenie.com';
+export const INCIDENT_PROVIDERS: IncidentProvider[] = ['pagerduty', 'opsgenie'];
+
+/** Source reported to the incident service */
+const INCIDENT_SOURCE = 'aws-spend-monitor';
+
+/**
+ * Incident opened for a CRITICAL spend alert
+ */
+export interface IncidentEvent {
+  /** Stable key so repeated triggers update the same incident */
+  dedupKey: string;
+  /** One-line incident title */
+  summary: string;
+  /** Extra context shown on the incident */
+  details: { [key: string]: unknown };
+}
+
+/**
+ * Opens and resolves incidents in an incident management service
+ */
+export interface IncidentNotifier {
+  trigger(event: IncidentEvent): Promise<void>;
+  resolve(dedupKey: string): Promise<void>;
+}
+
+/**
+ * Incidents via the PagerDuty Events API v2
+ */
+export class PagerDutyNotifier implements IncidentNotifier {
+  private routingKey: string;
+  private apiUrl: string;
+  private timeoutMs: number;
+
+  constructor(routingKey: string, apiUrl: string = PAGERDUTY_EVENTS_URL, timeoutMs: number = DEFAULT_WEBHOOK_TIMEOUT_MS) {
+    this.routingKey = routingKey;
+    this.apiUrl = apiUrl;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async trigger(event: IncidentEvent): Promise<void> {
+    await postWebhook(this.apiUrl, {
+      routing_key: this.routingKey,
+      event_action: 'trigger',
+      dedup_key: event.dedupKey,
+      payload: {
+        summary: event.summary.substring(0, 1024),
+        source: INCIDENT_SOURCE,
+        severity: 'critical',
+        class: 'aws-spend',
+        custom_details: event.details
+      }
+    }, this.timeoutMs);
+  }
+
+  async resolve(dedupKey: string): Promise<void> {
+    await postWebhook(this.apiUrl, {
+      routing_key: this.routingKey,
+      event_action: 'resolve',
+      dedup_key: dedupKey
+    }, this.timeoutMs);
+  }
+}
+
+/**
+ * Incidents via the Opsgenie Alert API, using the dedup key as the alert alias
+ */
+export class OpsgenieNotifier implements IncidentNotifier {
+  private apiKey: string;
+  private apiUrl: string;
+  private timeoutMs: number;
+
+  constructor(apiKey: string, apiUrl: string = OPSGENIE_API_URL, timeoutMs: number = DEFAULT_WEBHOOK_TIMEOUT_MS) {
+    this.apiKey = apiKey;
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+    this.timeoutMs = timeoutMs;
+  }
+
+  async trigger(event: IncidentEvent): Promise<void> {
+    // Opsgenie de-duplicates open alerts with the same alias
+    await postWebhook(`${this.apiUrl}/v2/alerts`, {
+      message: event.summary.substring(0, 130),
+      alias: event.dedupKey,
+      source: INCIDENT_SOURCE,
+      priority: 'P1',
+      tags: ['aws-spend'],
+      details: Object.fromEntries(Object.entries(event.details)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, String(value)]))
+    }, this.timeoutMs, this.getHeaders());
+  }
+
+  async resolve(dedupKey: string): Promise<void> {
+    await postWebhook(
+      `${this.apiUrl}/v2/alerts/${encodeURIComponent(dedupKey)}/close?identifierType=alias`,
+      { source: INCIDENT_SOURCE },
+      this.timeoutMs,
+      this.getHeaders()
+    );
+  }
+
+  private getHeaders(): { [name: string]: string } {
+    return { Authorization: `GenieKey ${this.apiKey}` };
+  }
+}
+
+/**
+ * Creates the incident notifier for the configured provider
+ */
+export function createIncidentNotifier(config: IncidentConfig): IncidentNotifier {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS;
+  if (config.provider === 'opsgenie') {
+    return new OpsgenieNotifier(config.apiKey || '', config.apiUrl || OPSGENIE_API_URL, timeoutMs);
+  }
+  return new PagerDutyNotifier(config.routingKey || '', config.apiUrl || PAGERDUTY_EVENTS_URL, timeoutMs);
+}
+
+/**
+ * Incident dedup key for an account, billing period and budget scope (e.g. aws-spend-monitor/123456789012/2024-03)
+ */
+export function getIncidentDedupKey(topicArn: string, billingPeriod: string, scope?: AlertScope): string {
+  // The SNS topic lives in the monitored account, so its ARN identifies the account
+  const accountId = topicArn.split(':')[4] || 'unknown-account';
+  const scopeKey = getAlertScopeKey(scope);
+  const key = `${INCIDENT_SOURCE}/${accountId}/${billingPeriod}`;
+  return scopeKey === ACCOUNT_ALERT_SCOPE ? key : `${key}/${scopeKey}`;
+}
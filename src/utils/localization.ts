@@ -0,0 +1,629 @@
+import { AlertChannel, AlertLocale, LocalizationConfig } from '../types';
+
+export const SUPPORTED_LOCALES: AlertLocale[] = ['en', 'de', 'ja'];
+
+export const DEFAULT_LOCALE: AlertLocale = 'en';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Channels whose messages are localized; webhook documents stay in English
+ */
+export const LOCALIZED_CHANNELS: AlertChannel[] = ['email', 'sms', 'ios', 'ses', 'slack', 'teams'];
+
+/** BCP 47 tags used for number, currency and date formatting */
+const INTL_LOCALES: Record<AlertLocale, string> = {
+  en: 'en-US',
+  de: 'de-DE',
+  ja: 'ja-JP'
+};
+
+const EN_MESSAGES = {
+  'format.percent': '{value}%',
+  'level.PROJECTED': 'PROJECTED',
+  'level.WARNING': 'WARNING',
+  'level.CRITICAL': 'CRITICAL',
+  'budget.service': 'Service Budget',
+  'budget.tag': 'Tag Budget',
+  'budget.account': 'Account Budget',
+  'budget.region': 'Region Budget',
+  'budget.usageType': 'Usage Type Budget',
+  'budgetInline.service': 'service budget',
+  'budgetInline.tag': 'tag budget',
+  'budgetInline.account': 'account budget',
+  'budgetInline.region': 'region budget',
+  'budgetInline.usageType': 'usage type budget',
+  'scope.linkedAccount': 'Account {account}',
+  'alert.title': '🚨 AWS Spend Alert - {level}',
+  'alert.forecastTitle': '📈 AWS Spend Forecast Alert - {level}',
+  'alert.scopedTitle': '🚨 AWS {budget} Alert - {level}',
+  'alert.currentSpending': '💰 Current Spending: {amount}',
+  'alert.threshold': '🎯 Threshold: {amount}',
+  'alert.projectedOverage': '🔮 Projected Overage: {amount} ({percent}) by month end',
+  'alert.overBudget': '📈 Over Budget: {amount} ({percent})',
+  'alert.budgetUsed': '📈 Budget Used: {percent} ({amount} remaining)',
+  'alert.thresholdTier': '🪜 Threshold Tier: {tier} ({percent} of budget)',
+  'alert.projectedMonthly': '📊 Projected Monthly: {amount}{details}',
+  'alert.period': '📅 Period: {period}',
+  'alert.topServices': '🔝 Top Cost-Driving Services:',
+  'alert.recommendations': '💡 General Recommendations:',
+  'alert.generatedAt': '⏰ Alert generated at: {time} UTC',
+  'alert.scopeSpending': '💰 {scope} Spending: {amount}',
+  'alert.budget': '🎯 {budget}: {amount}',
+  'alert.accountTotal': '🧾 Account Total: {amount}',
+  'recommendation.review': 'Review your AWS resources and usage patterns',
+  'recommendation.scaleDown': 'Consider scaling down or terminating unused resources',
+  'recommendation.charges': 'Check for any unexpected charges or services',
+  'recommendation.alarms': 'Set up additional CloudWatch alarms for specific services',
+  'headline.scopedPassed': 'Your {scope} spending has passed {percent} of its {budget}.',
+  'headline.scopedExceeded': 'Your {scope} spending has exceeded its {budget}.',
+  'headline.projected': 'Your AWS spending is projected to exceed the configured threshold by the end of the month.',
+  'headline.passed': 'Your AWS spending has passed {percent} of the configured budget.',
+  'headline.exceeded': 'Your AWS spending has exceeded the configured threshold.',
+  'forecast.range': '{method}, {level} range {lower}-{upper}',
+  'spikes.title': '📉 Daily Cost Spikes:',
+  'spikes.line': '• {service} on {date}: {cost} vs {baseline} baseline ({change}, score {score})',
+  'spikes.change': '{percent} day over day',
+  'spikes.newSpend': 'new spend',
+  'comparisons.title': '📆 Compared to Last Month:',
+  'comparisons.sameDay': 'Same day last month',
+  'comparisons.lastMonth': 'Last month total',
+  'comparisons.sameDayInline': 'same day last month',
+  'comparisons.lastMonthInline': 'last month total',
+  'comparisons.line': '{label} ({date}): {amount} ({delta})',
+  'comparisons.service': '• {service}: {current} vs {previous} ({delta})',
+  'comparisons.scoped': '📆 vs {label}: {amount} ({delta})',
+  'delta.new': 'new',
+  'metric.name': '🧮 Cost Metric: {metric}',
+  'metric.other': '⚖️ Other Views: {views}',
+  'ai.title': '🤖 AI Analysis:',
+  'ai.keyInsights': '🔍 Key Insights:',
+  'ai.confidence': '{emoji} AI Confidence: {percent}',
+  'ai.anomalies': '⚠️ Detected Anomalies:',
+  'ai.anomaly': '{index}. {emoji} {service}: {description} ({confidence} confidence)',
+  'ai.action': '   💡 Action: {action}',
+  'ai.recommendations': '💰 AI Optimization Recommendations:',
+  'ai.savings': ' (Save ~{amount}/month)',
+  'ai.totalSavings': '💵 Total Potential Monthly Savings: {amount}',
+  'ai.fallback': 'ℹ️ Note: AI analysis unavailable, using basic cost analysis',
+  'subject.scopedOver': 'AWS {budget} Alert: {scope} {amount} over budget',
+  'subject.scopedTier': 'AWS {budget} Alert: {scope} {amount} spent ({percent} of budget)',
+  'subject.forecast': 'AWS Spend Forecast: projected {projected} exceeds {threshold} budget',
+  'subject.tier': 'AWS Spend Alert: {amount} spent ({percent} of budget)',
+  'subject.over': 'AWS Spend Alert: {amount} over budget',
+  'sms.topService': ' Top service: {service} ({amount})',
+  'sms.scoped': 'AWS {budget} Alert: {scope} {amount} spent ({budgetText}). Account total: {total}',
+  'sms.scopedOver': 'over {threshold} budget by {amount}',
+  'sms.budgetUsed': '{percent} of {threshold} budget',
+  'sms.forecast': 'AWS Spend Forecast: {amount} spent, projected {projected} vs {threshold} budget.{topService}',
+  'sms.over': 'over {threshold} threshold by {amount}',
+  'sms.alert': 'AWS Spend Alert: {amount} spent ({thresholdText}).{topService} Projected monthly: {projected}',
+  'sms.aiTip': ' AI Tip: {tip}... (Save ~{amount}/mo)',
+  'ios.scopedOver': '{scope}: {amount} spent - {exceed} over {budget}',
+  'ios.scopedUsed': '{scope}: {amount} spent - {percent} of {budget} used',
+  'ios.projected': '{amount} spent - projected {projected} by month end',
+  'ios.over': '{amount} spent - {exceed} over budget',
+  'ios.used': '{amount} spent - {percent} of budget used',
+  'ios.aiSuggests': '. AI suggests: {tip} (Save ~{amount}/mo)',
+  'ios.title.scoped': 'AWS {budget} Alert',
+  'ios.title.forecast': 'AWS Spend Forecast',
+  'ios.title.alert': 'AWS Spend Alert',
+  'ios.subtitle.critical': 'Critical Budget Exceeded',
+  'ios.subtitle.projected': 'Projected Budget Breach',
+  'ios.subtitle.tier': '{percent} of Budget Reached',
+  'ios.subtitle.exceeded': 'Budget Threshold Exceeded',
+  'facts.scopeSpending': '{scope} Spending',
+  'facts.accountTotal': 'Account Total',
+  'facts.currentSpending': 'Current Spending',
+  'facts.threshold': 'Spending Threshold',
+  'facts.projectedMonthly': 'Projected Monthly',
+  'facts.overBudget': 'Over Budget',
+  'facts.overBudgetValue': '{amount} ({percent})',
+  'facts.budgetUsed': 'Budget Used',
+  'facts.budgetUsedValue': '{percent} ({amount} remaining)',
+  'facts.thresholdTier': 'Threshold Tier',
+  'facts.tierValue': '{tier} ({percent} of budget)',
+  'facts.alertLevel': 'Alert Level',
+  'resolved.title': '✅ AWS Spend Alert Resolved',
+  'resolved.scopedTitle': '✅ AWS {budget} Alert Resolved',
+  'resolved.headline': 'Your AWS spending is back under the configured threshold.',
+  'resolved.projectedHeadline': 'Your projected AWS spending is back under the configured threshold.',
+  'resolved.scopedHeadline': 'Your {scope} spending is back under its {budget}.',
+  'resolved.previouslyAlerted': '📉 Previously Alerted: {amount} ({level})',
+  'resolved.resolvedAt': '⏰ Resolved at: {time} UTC',
+  'subject.resolved': 'AWS Spend Alert Resolved: {amount} within budget',
+  'subject.scopedResolved': 'AWS {budget} Resolved: {scope} {amount} within budget',
+  'digest.subject.daily': 'AWS Daily Spend Digest: {amount} month-to-date',
+  'digest.subject.weekly': 'AWS Weekly Spend Digest: {amount} month-to-date',
+  'digest.title.daily': '📊 AWS Daily Spend Digest',
+  'digest.title.weekly': '📊 AWS Weekly Spend Digest',
+  'digest.monthToDate': '💰 Month-to-Date: {amount} of {threshold} budget ({percent} used)',
+  'digest.projectedMonthly': '🔮 Projected Monthly: {amount}',
+  'digest.periodLine': '🗓️ {period}: {spend}',
+  'digest.yesterday': 'Yesterday ({date})',
+  'digest.last7Days': 'Last 7 Days ({period})',
+  'digest.periodSpend.daily': '{amount} ({delta} vs day before)',
+  'digest.periodSpend.weekly': '{amount} ({delta} vs previous 7 days)',
+  'digest.topMovers': '📈 Top Movers:',
+  'digest.topServices': '🔝 Top Services (month-to-date):',
+  'digest.aiSummary': '🤖 AI Summary:',
+  'digest.generatedAt': '⏰ Digest generated at: {time} UTC',
+  'digest.headline': 'Projected {projected} for the month against a {threshold} budget',
+  'digest.facts.monthToDate': 'Month-to-Date',
+  'digest.facts.monthToDateValue': '{amount} ({percent} of budget)',
+  'digest.facts.mover': 'Mover: {service}',
+  'chat.topServices': 'Top Cost-Driving Services',
+  'chat.recommendations': '💡 Recommendations',
+  'chat.service': 'Service',
+  'chat.cost': 'Cost',
+  'chat.share': 'Share',
+  'quietDigest.title': 'AWS Spend Digest: {count} {level} alerts during quiet hours',
+  'quietDigest.line': '{level} {scope}: {spend} of {threshold}',
+  'report.budgetUsed': '{percent} of budget ({spend} of {threshold})',
+  'report.budgetMarker': 'budget',
+  'report.topServices': '🔝 Top Cost-Driving Services',
+  'report.dailySpend': '📉 Daily Spend (last {days} days)',
+  'report.dailySpendRange': '{start} – {end}: {last} on the last day, peak {peak}',
+  'report.aiInsights': '🤖 AI Insights',
+  'report.recommendations': '💡 Recommendations',
+  'report.footer': 'Period: {period} · Generated {generatedAt}'
+};
+
+/**
+ * Key of a message in the catalog
+ */
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+/**
+ * Messages for one locale; placeholders are written as {name}
+ */
+export type MessageCatalog = Record<MessageKey, string>;
+
+const DE_MESSAGES: MessageCatalog = {
+  'format.percent': '{value}\u00a0%',
+  'level.PROJECTED': 'PROGNOSE',
+  'level.WARNING': 'WARNUNG',
+  'level.CRITICAL': 'KRITISCH',
+  'budget.service': 'Service-Budget',
+  'budget.tag': 'Tag-Budget',
+  'budget.account': 'Konto-Budget',
+  'budget.region': 'Regions-Budget',
+  'budget.usageType': 'Nutzungstyp-Budget',
+  'budgetInline.service': 'Service-Budget',
+  'budgetInline.tag': 'Tag-Budget',
+  'budgetInline.account': 'Konto-Budget',
+  'budgetInline.region': 'Regions-Budget',
+  'budgetInline.usageType': 'Nutzungstyp-Budget',
+  'scope.linkedAccount': 'Konto {account}',
+  'alert.title': '🚨 AWS-Kostenalarm - {level}',
+  'alert.forecastTitle': '📈 AWS-Kostenprognose-Alarm - {level}',
+  'alert.scopedTitle': '🚨 AWS-{budget}-Alarm - {level}',
+  'alert.currentSpending': '💰 Aktuelle Ausgaben: {amount}',
+  'alert.threshold': '🎯 Schwellenwert: {amount}',
+  'alert.projectedOverage': '🔮 Prognostizierte Überschreitung: {amount} ({percent}) bis Monatsende',
+  'alert.overBudget': '📈 Über Budget: {amount} ({percent})',
+  'alert.budgetUsed': '📈 Budget genutzt: {percent} ({amount} verbleibend)',
+  'alert.thresholdTier': '🪜 Schwellenstufe: {tier} ({percent} des Budgets)',
+  'alert.projectedMonthly': '📊 Monatsprognose: {amount}{details}',
+  'alert.period': '📅 Zeitraum: {period}',
+  'alert.topServices': '🔝 Services mit den höchsten Kosten:',
+  'alert.recommendations': '💡 Allgemeine Empfehlungen:',
+  'alert.generatedAt': '⏰ Alarm erstellt am: {time} UTC',
+  'alert.scopeSpending': '💰 Ausgaben für {scope}: {amount}',
+  'alert.budget': '🎯 {budget}: {amount}',
+  'alert.accountTotal': '🧾 Kontosumme: {amount}',
+  'recommendation.review': 'Überprüfen Sie Ihre AWS-Ressourcen und Nutzungsmuster',
+  'recommendation.scaleDown': 'Skalieren Sie ungenutzte Ressourcen herunter oder beenden Sie sie',
+  'recommendation.charges': 'Prüfen Sie, ob unerwartete Gebühren oder Services anfallen',
+  'recommendation.alarms': 'Richten Sie zusätzliche CloudWatch-Alarme für einzelne Services ein',
+  'headline.scopedPassed': 'Die Ausgaben für {scope} haben {percent} ihres {budget}s erreicht.',
+  'headline.scopedExceeded': 'Die Ausgaben für {scope} haben ihr {budget} überschritten.',
+  'headline.projected': 'Ihre AWS-Ausgaben werden den konfigurierten Schwellenwert voraussichtlich bis Monatsende überschreiten.',
+  'headline.passed': 'Ihre AWS-Ausgaben haben {percent} des konfigurierten Budgets erreicht.',
+  'headline.exceeded': 'Ihre AWS-Ausgaben haben den konfigurierten Schwellenwert überschritten.',
+  'forecast.range': '{method}, {level}-Intervall {lower}-{upper}',
+  'spikes.title': '📉 Tägliche Kostenspitzen:',
+  'spikes.line': '• {service} am {date}: {cost} ggü. Basiswert {baseline} ({change}, Score {score})',
+  'spikes.change': '{percent} ggü. Vortag',
+  'spikes.newSpend': 'neue Ausgaben',
+  'comparisons.title': '📆 Vergleich zum Vormonat:',
+  'comparisons.sameDay': 'Gleicher Tag im Vormonat',
+  'comparisons.lastMonth': 'Vormonat gesamt',
+  'comparisons.sameDayInline': 'gleicher Tag im Vormonat',
+  'comparisons.lastMonthInline': 'Vormonat gesamt',
+  'comparisons.line': '{label} ({date}): {amount} ({delta})',
+  'comparisons.service': '• {service}: {current} ggü. {previous} ({delta})',
+  'comparisons.scoped': '📆 ggü. {label}: {amount} ({delta})',
+  'delta.new': 'neu',
+  'metric.name': '🧮 Kostenmetrik: {metric}',
+  'metric.other': '⚖️ Weitere Ansichten: {views}',
+  'ai.title': '🤖 KI-Analyse:',
+  'ai.keyInsights': '🔍 Wichtige Erkenntnisse:',
+  'ai.confidence': '{emoji} KI-Konfidenz: {percent}',
+  'ai.anomalies': '⚠️ Erkannte Anomalien:',
+  'ai.anomaly': '{index}. {emoji} {service}: {description} ({confidence} Konfidenz)',
+  'ai.action': '   💡 Maßnahme: {action}',
+  'ai.recommendations': '💰 KI-Optimierungsempfehlungen:',
+  'ai.savings': ' (ca. {amount}/Monat sparen)',
+  'ai.totalSavings': '💵 Mögliche monatliche Einsparungen gesamt: {amount}',
+  'ai.fallback': 'ℹ️ Hinweis: KI-Analyse nicht verfügbar, einfache Kostenanalyse verwendet',
+  'subject.scopedOver': 'AWS-{budget}-Alarm: {scope} {amount} über Budget',
+  'subject.scopedTier': 'AWS-{budget}-Alarm: {scope} {amount} ausgegeben ({percent} des Budgets)',
+  'subject.forecast': 'AWS-Kostenprognose: Prognose {projected} überschreitet Budget von {threshold}',
+  'subject.tier': 'AWS-Kostenalarm: {amount} ausgegeben ({percent} des Budgets)',
+  'subject.over': 'AWS-Kostenalarm: {amount} über Budget',
+  'sms.topService': ' Top-Service: {service} ({amount})',
+  'sms.scoped': 'AWS-{budget}-Alarm: {scope} {amount} ausgegeben ({budgetText}). Kontosumme: {total}',
+  'sms.scopedOver': '{amount} über Budget von {threshold}',
+  'sms.budgetUsed': '{percent} des Budgets von {threshold}',
+  'sms.forecast': 'AWS-Kostenprognose: {amount} ausgegeben, Prognose {projected} bei Budget {threshold}.{topService}',
+  'sms.over': '{amount} über Schwellenwert von {threshold}',
+  'sms.alert': 'AWS-Kostenalarm: {amount} ausgegeben ({thresholdText}).{topService} Monatsprognose: {projected}',
+  'sms.aiTip': ' KI-Tipp: {tip}... (ca. {amount}/Monat sparen)',
+  'ios.scopedOver': '{scope}: {amount} ausgegeben - {exceed} über {budget}',
+  'ios.scopedUsed': '{scope}: {amount} ausgegeben - {percent} des {budget}s genutzt',
+  'ios.projected': '{amount} ausgegeben - Prognose {projected} bis Monatsende',
+  'ios.over': '{amount} ausgegeben - {exceed} über Budget',
+  'ios.used': '{amount} ausgegeben - {percent} des Budgets genutzt',
+  'ios.aiSuggests': '. KI-Vorschlag: {tip} (ca. {amount}/Monat sparen)',
+  'ios.title.scoped': 'AWS-{budget}-Alarm',
+  'ios.title.forecast': 'AWS-Kostenprognose',
+  'ios.title.alert': 'AWS-Kostenalarm',
+  'ios.subtitle.critical': 'Budget kritisch überschritten',
+  'ios.subtitle.projected': 'Budgetüberschreitung prognostiziert',
+  'ios.subtitle.tier': '{percent} des Budgets erreicht',
+  'ios.subtitle.exceeded': 'Budgetschwelle überschritten',
+  'facts.scopeSpending': 'Ausgaben {scope}',
+  'facts.accountTotal': 'Kontosumme',
+  'facts.currentSpending': 'Aktuelle Ausgaben',
+  'facts.threshold': 'Ausgabenschwelle',
+  'facts.projectedMonthly': 'Monatsprognose',
+  'facts.overBudget': 'Über Budget',
+  'facts.overBudgetValue': '{amount} ({percent})',
+  'facts.budgetUsed': 'Budget genutzt',
+  'facts.budgetUsedValue': '{percent} ({amount} verbleibend)',
+  'facts.thresholdTier': 'Schwellenstufe',
+  'facts.tierValue': '{tier} ({percent} des Budgets)',
+  'facts.alertLevel': 'Alarmstufe',
+  'resolved.title': '✅ AWS-Kostenalarm aufgehoben',
+  'resolved.scopedTitle': '✅ AWS-{budget}-Alarm aufgehoben',
+  'resolved.headline': 'Ihre AWS-Ausgaben liegen wieder unter dem konfigurierten Schwellenwert.',
+  'resolved.projectedHeadline': 'Ihre prognostizierten AWS-Ausgaben liegen wieder unter dem konfigurierten Schwellenwert.',
+  'resolved.scopedHeadline': 'Die Ausgaben für {scope} liegen wieder unter ihrem {budget}.',
+  'resolved.previouslyAlerted': '📉 Zuvor gemeldet: {amount} ({level})',
+  'resolved.resolvedAt': '⏰ Aufgehoben am: {time} UTC',
+  'subject.resolved': 'AWS-Kostenalarm aufgehoben: {amount} im Budget',
+  'subject.scopedResolved': 'AWS-{budget} aufgehoben: {scope} {amount} im Budget',
+  'digest.subject.daily': 'Tägliche AWS-Kostenübersicht: {amount} im laufenden Monat',
+  'digest.subject.weekly': 'Wöchentliche AWS-Kostenübersicht: {amount} im laufenden Monat',
+  'digest.title.daily': '📊 Tägliche AWS-Kostenübersicht',
+  'digest.title.weekly': '📊 Wöchentliche AWS-Kostenübersicht',
+  'digest.monthToDate': '💰 Laufender Monat: {amount} von {threshold} Budget ({percent} genutzt)',
+  'digest.projectedMonthly': '🔮 Monatsprognose: {amount}',
+  'digest.periodLine': '🗓️ {period}: {spend}',
+  'digest.yesterday': 'Gestern ({date})',
+  'digest.last7Days': 'Letzte 7 Tage ({period})',
+  'digest.periodSpend.daily': '{amount} ({delta} ggü. Vortag)',
+  'digest.periodSpend.weekly': '{amount} ({delta} ggü. vorherigen 7 Tagen)',
+  'digest.topMovers': '📈 Größte Veränderungen:',
+  'digest.topServices': '🔝 Top-Services (laufender Monat):',
+  'digest.aiSummary': '🤖 KI-Zusammenfassung:',
+  'digest.generatedAt': '⏰ Übersicht erstellt am: {time} UTC',
+  'digest.headline': 'Prognose {projected} für den Monat bei einem Budget von {threshold}',
+  'digest.facts.monthToDate': 'Laufender Monat',
+  'digest.facts.monthToDateValue': '{amount} ({percent} des Budgets)',
+  'digest.facts.mover': 'Veränderung: {service}',
+  'chat.topServices': 'Services mit den höchsten Kosten',
+  'chat.recommendations': '💡 Empfehlungen',
+  'chat.service': 'Service',
+  'chat.cost': 'Kosten',
+  'chat.share': 'Anteil',
+  'quietDigest.title': 'AWS-Kostenübersicht: {count} {level}-Alarme während der Ruhezeit',
+  'quietDigest.line': '{level} {scope}: {spend} von {threshold}',
+  'report.budgetUsed': '{percent} des Budgets ({spend} von {threshold})',
+  'report.budgetMarker': 'Budget',
+  'report.topServices': '🔝 Services mit den höchsten Kosten',
+  'report.dailySpend': '📉 Tägliche Ausgaben (letzte {days} Tage)',
+  'report.dailySpendRange': '{start} – {end}: {last} am letzten Tag, Höchstwert {peak}',
+  'report.aiInsights': '🤖 KI-Erkenntnisse',
+  'report.recommendations': '💡 Empfehlungen',
+  'report.footer': 'Zeitraum: {period} · Erstellt {generatedAt}'
+};
+
+const JA_MESSAGES: MessageCatalog = {
+  'format.percent': '{value}%',
+  'level.PROJECTED': '予測',
+  'level.WARNING': '警告',
+  'level.CRITICAL': '重大',
+  'budget.service': 'サービス予算',
+  'budget.tag': 'タグ予算',
+  'budget.account': 'アカウント予算',
+  'budget.region': 'リージョン予算',
+  'budget.usageType': '使用タイプ予算',
+  'budgetInline.service': 'サービス予算',
+  'budgetInline.tag': 'タグ予算',
+  'budgetInline.account': 'アカウント予算',
+  'budgetInline.region': 'リージョン予算',
+  'budgetInline.usageType': '使用タイプ予算',
+  'scope.linkedAccount': 'アカウント {account}',
+  'alert.title': '🚨 AWS コストアラート - {level}',
+  'alert.forecastTitle': '📈 AWS コスト予測アラート - {level}',
+  'alert.scopedTitle': '🚨 AWS {budget}アラート - {level}',
+  'alert.currentSpending': '💰 現在の利用額: {amount}',
+  'alert.threshold': '🎯 しきい値: {amount}',
+  'alert.projectedOverage': '🔮 月末までの予測超過額: {amount} ({percent})',
+  'alert.overBudget': '📈 予算超過額: {amount} ({percent})',
+  'alert.budgetUsed': '📈 予算消化率: {percent} (残り {amount})',
+  'alert.thresholdTier': '🪜 しきい値ティア: {tier} (予算の {percent})',
+  'alert.projectedMonthly': '📊 月間予測: {amount}{details}',
+  'alert.period': '📅 期間: {period}',
+  'alert.topServices': '🔝 コスト上位のサービス:',
+  'alert.recommendations': '💡 一般的な推奨事項:',
+  'alert.generatedAt': '⏰ アラート生成日時: {time} UTC',
+  'alert.scopeSpending': '💰 {scope} の利用額: {amount}',
+  'alert.budget': '🎯 {budget}: {amount}',
+  'alert.accountTotal': '🧾 アカウント合計: {amount}',
+  'recommendation.review': 'AWS リソースと利用状況を確認してください',
+  'recommendation.scaleDown': '未使用のリソースの縮小または終了を検討してください',
+  'recommendation.charges': '予期しない料金やサービスがないか確認してください',
+  'recommendation.alarms': '特定のサービスに CloudWatch アラームを追加で設定してください',
+  'headline.scopedPassed': '{scope} の利用額が{budget}の {percent} に達しました。',
+  'headline.scopedExceeded': '{scope} の利用額が{budget}を超過しました。',
+  'headline.projected': 'AWS の利用額は月末までに設定されたしきい値を超える見込みです。',
+  'headline.passed': 'AWS の利用額が設定予算の {percent} に達しました。',
+  'headline.exceeded': 'AWS の利用額が設定されたしきい値を超過しました。',
+  'forecast.range': '{method}、{level} 区間 {lower}-{upper}',
+  'spikes.title': '📉 日次コストの急増:',
+  'spikes.line': '• {service} ({date}): {cost}、ベースライン {baseline} ({change}、スコア {score})',
+  'spikes.change': '前日比 {percent}',
+  'spikes.newSpend': '新規の利用',
+  'comparisons.title': '📆 前月との比較:',
+  'comparisons.sameDay': '前月の同日',
+  'comparisons.lastMonth': '前月合計',
+  'comparisons.sameDayInline': '前月の同日',
+  'comparisons.lastMonthInline': '前月合計',
+  'comparisons.line': '{label} ({date}): {amount} ({delta})',
+  'comparisons.service': '• {service}: {current}、前回 {previous} ({delta})',
+  'comparisons.scoped': '📆 {label}との比較: {amount} ({delta})',
+  'delta.new': '新規',
+  'metric.name': '🧮 コスト指標: {metric}',
+  'metric.other': '⚖️ その他の指標: {views}',
+  'ai.title': '🤖 AI 分析:',
+  'ai.keyInsights': '🔍 主な洞察:',
+  'ai.confidence': '{emoji} AI 信頼度: {percent}',
+  'ai.anomalies': '⚠️ 検出された異常:',
+  'ai.anomaly': '{index}. {emoji} {service}: {description} (信頼度 {confidence})',
+  'ai.action': '   💡 対応: {action}',
+  'ai.recommendations': '💰 AI による最適化の推奨事項:',
+  'ai.savings': ' (月 約{amount} 削減)',
+  'ai.totalSavings': '💵 月間の削減可能額合計: {amount}',
+  'ai.fallback': 'ℹ️ 注: AI 分析を利用できないため、基本的なコスト分析を使用しています',
+  'subject.scopedOver': 'AWS {budget}アラート: {scope} 予算超過 {amount}',
+  'subject.scopedTier': 'AWS {budget}アラート: {scope} {amount} 利用 (予算の {percent})',
+  'subject.forecast': 'AWS コスト予測: 予測額 {projected} が予算 {threshold} を超過',
+  'subject.tier': 'AWS コストアラート: {amount} 利用 (予算の {percent})',
+  'subject.over': 'AWS コストアラート: 予算超過 {amount}',
+  'sms.topService': '最大のサービス: {service} ({amount})。',
+  'sms.scoped': 'AWS {budget}アラート: {scope} {amount} 利用 ({budgetText})。アカウント合計: {total}',
+  'sms.scopedOver': '予算 {threshold} を {amount} 超過',
+  'sms.budgetUsed': '予算 {threshold} の {percent}',
+  'sms.forecast': 'AWS コスト予測: {amount} 利用、予測 {projected} (予算 {threshold})。{topService}',
+  'sms.over': 'しきい値 {threshold} を {amount} 超過',
+  'sms.alert': 'AWS コストアラート: {amount} 利用 ({thresholdText})。{topService}月間予測: {projected}',
+  'sms.aiTip': ' AI のヒント: {tip}... (月 約{amount} 削減)',
+  'ios.scopedOver': '{scope}: {amount} 利用 - {budget}を {exceed} 超過',
+  'ios.scopedUsed': '{scope}: {amount} 利用 - {budget}の {percent} を消化',
+  'ios.projected': '{amount} 利用 - 月末予測 {projected}',
+  'ios.over': '{amount} 利用 - 予算を {exceed} 超過',
+  'ios.used': '{amount} 利用 - 予算の {percent} を消化',
+  'ios.aiSuggests': '。AI の提案: {tip} (月 約{amount} 削減)',
+  'ios.title.scoped': 'AWS {budget}アラート',
+  'ios.title.forecast': 'AWS コスト予測',
+  'ios.title.alert': 'AWS コストアラート',
+  'ios.subtitle.critical': '予算を大幅に超過',
+  'ios.subtitle.projected': '予算超過の見込み',
+  'ios.subtitle.tier': '予算の {percent} に到達',
+  'ios.subtitle.exceeded': '予算しきい値を超過',
+  'facts.scopeSpending': '{scope} の利用額',
+  'facts.accountTotal': 'アカウント合計',
+  'facts.currentSpending': '現在の利用額',
+  'facts.threshold': '利用額しきい値',
+  'facts.projectedMonthly': '月間予測',
+  'facts.overBudget': '予算超過額',
+  'facts.overBudgetValue': '{amount} ({percent})',
+  'facts.budgetUsed': '予算消化率',
+  'facts.budgetUsedValue': '{percent} (残り {amount})',
+  'facts.thresholdTier': 'しきい値ティア',
+  'facts.tierValue': '{tier} (予算の {percent})',
+  'facts.alertLevel': 'アラートレベル',
+  'resolved.title': '✅ AWS コストアラート解除',
+  'resolved.scopedTitle': '✅ AWS {budget}アラート解除',
+  'resolved.headline': 'AWS の利用額が設定されたしきい値を下回りました。',
+  'resolved.projectedHeadline': 'AWS の予測利用額が設定されたしきい値を下回りました。',
+  'resolved.scopedHeadline': '{scope} の利用額が{budget}を下回りました。',
+  'resolved.previouslyAlerted': '📉 前回のアラート: {amount} ({level})',
+  'resolved.resolvedAt': '⏰ 解除日時: {time} UTC',
+  'subject.resolved': 'AWS コストアラート解除: {amount} (予算内)',
+  'subject.scopedResolved': 'AWS {budget}アラート解除: {scope} {amount} (予算内)',
+  'digest.subject.daily': 'AWS 日次コストダイジェスト: 今月 {amount}',
+  'digest.subject.weekly': 'AWS 週次コストダイジェスト: 今月 {amount}',
+  'digest.title.daily': '📊 AWS 日次コストダイジェスト',
+  'digest.title.weekly': '📊 AWS 週次コストダイジェスト',
+  'digest.monthToDate': '💰 今月の利用額: {amount} / 予算 {threshold} ({percent} 消化)',
+  'digest.projectedMonthly': '🔮 月間予測: {amount}',
+  'digest.periodLine': '🗓️ {period}: {spend}',
+  'digest.yesterday': '昨日 ({date})',
+  'digest.last7Days': '過去 7 日間 ({period})',
+  'digest.periodSpend.daily': '{amount} (前日比 {delta})',
+  'digest.periodSpend.weekly': '{amount} (前の 7 日間比 {delta})',
+  'digest.topMovers': '📈 変動の大きいサービス:',
+  'digest.topServices': '🔝 今月の上位サービス:',
+  'digest.aiSummary': '🤖 AI による要約:',
+  'digest.generatedAt': '⏰ ダイジェスト生成日時: {time} UTC',
+  'digest.headline': '月間予測 {projected} (予算 {threshold})',
+  'digest.facts.monthToDate': '今月の利用額',
+  'digest.facts.monthToDateValue': '{amount} (予算の {percent})',
+  'digest.facts.mover': '変動: {service}',
+  'chat.topServices': 'コスト上位のサービス',
+  'chat.recommendations': '💡 推奨事項',
+  'chat.service': 'サービス',
+  'chat.cost': 'コスト',
+  'chat.share': '割合',
+  'quietDigest.title': 'AWS コストダイジェスト: サイレント時間中の {level} アラート {count} 件',
+  'quietDigest.line': '{level} {scope}: {threshold} 中 {spend}',
+  'report.budgetUsed': '予算の {percent} ({threshold} 中 {spend})',
+  'report.budgetMarker': '予算',
+  'report.topServices': '🔝 コスト上位のサービス',
+  'report.dailySpend': '📉 日別利用額 (過去 {days} 日間)',
+  'report.dailySpendRange': '{start} – {end}: 最終日 {last}、最大 {peak}',
+  'report.aiInsights': '🤖 AI による分析',
+  'report.recommendations': '💡 推奨事項',
+  'report.footer': '期間: {period} · 生成日時 {generatedAt}'
+};
+
+/**
+ * Alert message catalogs by locale
+ */
+export const MESSAGE_CATALOGS: Record<AlertLocale, MessageCatalog> = {
+  en: EN_MESSAGES,
+  de: DE_MESSAGES,
+  ja: JA_MESSAGES
+};
+
+/**
+ * Options for money amounts
+ */
+export interface MoneyFormatOptions {
+  /** Drop the minor units of whole amounts (e.g. $10 rather than $10.00, but $10.50) */
+  trimZeros?: boolean;
+  /** Round to whole currency units */
+  wholeUnits?: boolean;
+}
+
+/**
+ * Formats alert text, money, numbers and dates for one locale and billing currency
+ */
+export class AlertMessageFormatter {
+  readonly locale: AlertLocale;
+  readonly currency: string;
+  private intlLocale: string;
+
+  constructor(locale: AlertLocale = DEFAULT_LOCALE, currency: string = DEFAULT_CURRENCY) {
+    this.locale = MESSAGE_CATALOGS[locale] ? locale : DEFAULT_LOCALE;
+    this.currency = currency || DEFAULT_CURRENCY;
+    this.intlLocale = INTL_LOCALES[this.locale];
+  }
+
+  /**
+   * Catalog message with {placeholders} filled in; unknown placeholders are left as written
+   */
+  t(key: MessageKey, params: { [name: string]: string | number } = {}): string {
+    return MESSAGE_CATALOGS[this.locale][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  }
+
+  /**
+   * Amount in the billing currency (e.g. $1,234.50, 1.234,50 €, ￥1,235)
+   */
+  money(amount: number, options: MoneyFormatOptions = {}): string {
+    return formatMoney(amount, this.currency, this.locale, options);
+  }
+
+  /**
+   * Number with a fixed number of decimals, or up to two when omitted; scores and percentages are not grouped
+   */
+  number(value: number, fractionDigits?: number, signed: boolean = false): string {
+    return new Intl.NumberFormat(this.intlLocale, {
+      minimumFractionDigits: fractionDigits ?? 0,
+      maximumFractionDigits: fractionDigits ?? 2,
+      signDisplay: signed ? 'always' : 'auto',
+      useGrouping: false
+    }).format(value);
+  }
+
+  /**
+   * Percentage given in percent units (55 -> 55%)
+   */
+  percent(value: number, fractionDigits?: number, signed: boolean = false): string {
+    return this.t('format.percent', { value: this.number(value, fractionDigits, signed) });
+  }
+
+  /**
+   * Alert level label (e.g. WARNUNG)
+   */
+  level(alertLevel: string): string {
+    const key = `level.${alertLevel}` as MessageKey;
+    return key in MESSAGE_CATALOGS[this.locale] ? this.t(key) : alertLevel;
+  }
+
+  /**
+   * Calendar date in UTC (e.g. Jan 15, 2024)
+   */
+  date(value: string | Date): string {
+    return new Date(value).toLocaleDateString(this.intlLocale, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+  }
+
+  /**
+   * Date range in UTC (e.g. Jan 1, 2024 - Jan 15, 2024)
+   */
+  dateRange(period: { start: string; end: string }): string {
+    return `${this.date(period.start)} - ${this.date(period.end)}`;
+  }
+
+  /**
+   * Date and time in UTC
+   */
+  dateTime(value: Date): string {
+    return value.toLocaleString(this.intlLocale, { timeZone: 'UTC' });
+  }
+}
+
+/**
+ * Formats an amount with Intl.NumberFormat, falling back to the plain amount and code for unknown currencies
+ */
+export function formatMoney(
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+  locale: AlertLocale = DEFAULT_LOCALE,
+  options: MoneyFormatOptions = {}
+): string {
+  const whole = options.wholeUnits || (options.trimZeros && Number.isInteger(amount));
+  const fractionDigits = whole ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {};
+
+  try {
+    return new Intl.NumberFormat(INTL_LOCALES[locale] ?? INTL_LOCALES[DEFAULT_LOCALE], { style: 'currency', currency, ...fractionDigits }).format(amount);
+  } catch {
+    return `${amount.toFixed(whole ? 0 : 2)} ${currency}`;
+  }
+}
+
+/**
+ * Locale for a channel or SES recipient: the recipient's locale, then the channel's, then the default
+ */
+export function resolveLocale(config: LocalizationConfig | undefined, channel: AlertChannel, recipient?: string): AlertLocale {
+  // Email addresses are matched case-insensitively
+  const recipientLocale = recipient
+    ? Object.entries(config?.recipientLocales ?? {}).find(([email]) => email.toLowerCase() === recipient.toLowerCase())?.[1]
+    : undefined;
+
+  return recipientLocale
+    ?? config?.channelLocales?.[channel]
+    ?? config?.defaultLocale
+    ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Parses comma-separated key=locale pairs (e.g. "sms=ja,email=de" or "ops@example.com=de")
+ */
+export function parseLocaleAssignments(value: string): { [key: string]: AlertLocale } {
+  const assignments: { [key: string]: AlertLocale } = {};
+  for (const pair of value.split(',').map(item => item.trim()).filter(item => item.length > 0)) {
+    const separator = pair.lastIndexOf('=');
+    if (separator <= 0 || separator === pair.length - 1) {
+      throw new Error(`Invalid locale assignment "${pair}": expected key=locale`);
+    }
+    assignments[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim() as AlertLocale;
+  }
+  return assignments;
+}
@@ -1,5 +1,6 @@
 import { CloudWatchClient, PutMetricDataCommand, MetricDatum } from '@aws-sdk/client-cloudwatch';
 import { createLogger } from './logger';
+import { BedrockResponseOutcome } from '../types';
 
 /**
  * CloudWatch metrics utility for monitoring agent performance
@@ -464,13 +465,55 @@ export class MetricsCollector {
   }
 
   /**
-   * Records Bedrock cost tracking metrics
+   * Records how a Bedrock analysis call ended, separating invalid model output from API failures
+   */
+  async recordBedrockResponseOutcome(
+    modelId: string,
+    analysisType: string,
+    outcome: BedrockResponseOutcome,
+    repairAttempts: number = 0
+  ): Promise<void> {
+    const metrics: MetricDatum[] = [
+      {
+        MetricName: 'BedrockResponseOutcome',
+        Value: 1,
+        Unit: 'Count',
+        Dimensions: [
+          { Name: 'ModelId', Value: modelId },
+          { Name: 'AnalysisType', Value: analysisType },
+          { Name: 'Outcome', Value: outcome }
+        ],
+        Timestamp: new Date()
+      }
+    ];
+
+    if (repairAttempts > 0) {
+      metrics.push({
+        MetricName: 'BedrockRepairAttempts',
+        Value: repairAttempts,
+        Unit: 'Count',
+        Dimensions: [
+          { Name: 'ModelId', Value: modelId },
+          { Name: 'AnalysisType', Value: analysisType }
+        ],
+        Timestamp: new Date()
+      });
+    }
+
+    await this.putMetrics(metrics);
+  }
+
+  /**
+   * Records Bedrock cost tracking metrics, reconciling a request's pre-flight cost estimate with the cost
+   * priced from reported token counts when both are given
    */
   async recordBedrockCostTracking(
     monthlySpend: number,
     costThreshold: number,
     callCount: number,
-    rateLimitHits: number = 0
+    rateLimitHits: number = 0,
+    estimatedCost?: number,
+    actualCost?: number
   ): Promise<void> {
     const metrics: MetricDatum[] = [
       {
@@ -508,6 +551,30 @@ export class MetricsCollector {
       });
     }
 
+    if (estimatedCost !== undefined && actualCost !== undefined) {
+      metrics.push(
+        {
+          MetricName: 'BedrockEstimatedRequestCost',
+          Value: estimatedCost,
+          Unit: 'None',
+          Timestamp: new Date()
+        },
+        {
+          MetricName: 'BedrockActualRequestCost',
+          Value: actualCost,
+          Unit: 'None',
+          Timestamp: new Date()
+        },
+        {
+          // Positive when requests cost more than estimated
+          MetricName: 'BedrockCostEstimateError',
+          Value: estimatedCost > 0 ? ((actualCost - estimatedCost) / estimatedCost) * 100 : 0,
+          Unit: 'Percent',
+          Timestamp: new Date()
+        }
+      );
+    }
+
     await this.putMetrics(metrics);
   }
 
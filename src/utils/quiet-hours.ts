@@ -0,0 +1,246 @@
+import {
+  SQSClient,
+  SendMessageCommand,
+  ReceiveMessageCommand,
+  ChangeMessageVisibilityCommand,
+  DeleteMessageBatchCommand
+} from '@aws-sdk/client-sqs';
+import { AlertChannel, DeferredNotification, QuietHoursConfig, TimeOfDayWindow } from '../types';
+import { createLogger } from './logger';
+import { isWithinTimeWindow } from './alert-routing';
+
+/**
+ * Channels that can be held back during quiet hours
+ */
+export const QUIET_HOURS_CHANNELS: Array<DeferredNotification['channel']> = ['sms', 'ios'];
+
+/**
+ * Event input that asks the Lambda to deliver digests without running a spend check
+ */
+export const NOTIFICATION_DIGEST_ACTION = 'deliver-notification-digest';
+
+/** SQS returns at most 10 messages per receive */
+const SQS_BATCH_SIZE = 10;
+
+/** Upper bound on receive calls per digest run, so a large backlog cannot exhaust the Lambda timeout */
+const MAX_RECEIVE_BATCHES = 20;
+
+/** Seconds received messages stay hidden while a digest is published */
+const RECEIVE_VISIBILITY_TIMEOUT_SECONDS = 120;
+
+/**
+ * Notification received from the queue, removed once its digest is delivered
+ */
+export interface QueuedNotification {
+  notification: DeferredNotification;
+  receiptHandle: string;
+}
+
+/**
+ * Pending notifications held until quiet hours end
+ */
+export interface DeferredNotificationQueue {
+  enqueue(notification: DeferredNotification): Promise<void>;
+  receive(channels: AlertChannel[]): Promise<QueuedNotification[]>;
+  remove(entries: QueuedNotification[]): Promise<void>;
+}
+
+/**
+ * SQS-backed notification queue; messages for channels that are still quiet are released untouched
+ */
+export class SQSDeferredNotificationQueue implements DeferredNotificationQueue {
+  private sqs: SQSClient;
+  private queueUrl: string;
+  private logger = createLogger('DeferredNotificationQueue');
+
+  constructor(queueUrl: string, region: string = 'us-east-1') {
+    this.queueUrl = queueUrl;
+    this.sqs = new SQSClient({ region });
+  }
+
+  async enqueue(notification: DeferredNotification): Promise<void> {
+    await this.sqs.send(new SendMessageCommand({
+      QueueUrl: this.queueUrl,
+      MessageBody: JSON.stringify(notification),
+      MessageAttributes: {
+        channel: { DataType: 'String', StringValue: notification.channel }
+      }
+    }));
+  }
+
+  async receive(channels: AlertChannel[]): Promise<QueuedNotification[]> {
+    const entries: QueuedNotification[] = [];
+    const skipped: string[] = [];
+    const unreadable: string[] = [];
+
+    for (let batch = 0; batch < MAX_RECEIVE_BATCHES; batch++) {
+      const response = await this.sqs.send(new ReceiveMessageCommand({
+        QueueUrl: this.queueUrl,
+        MaxNumberOfMessages: SQS_BATCH_SIZE,
+        VisibilityTimeout: RECEIVE_VISIBILITY_TIMEOUT_SECONDS,
+        WaitTimeSeconds: 1
+      }));
+
+      const messages = response?.Messages ?? [];
+      if (messages.length === 0) {
+        break;
+      }
+
+      for (const message of messages) {
+        if (!message.ReceiptHandle) {
+          continue;
+        }
+
+        const notification = this.parseNotification(message.Body);
+        if (!notification) {
+          unreadable.push(message.ReceiptHandle);
+        } else if (channels.includes(notification.channel)) {
+          entries.push({ notification, receiptHandle: message.ReceiptHandle });
+        } else {
+          skipped.push(message.ReceiptHandle);
+        }
+      }
+    }
+
+    // Unreadable messages would otherwise be received on every run
+    await this.deleteMessages(unreadable);
+
+    // Released only after the loop so the same messages are not received again within this run
+    await Promise.all(skipped.map(receiptHandle => this.sqs.send(new ChangeMessageVisibilityCommand({
+      QueueUrl: this.queueUrl,
+      ReceiptHandle: receiptHandle,
+      VisibilityTimeout: 0
+    }))));
+
+    return entries;
+  }
+
+  async remove(entries: QueuedNotification[]): Promise<void> {
+    await this.deleteMessages(entries.map(entry => entry.receiptHandle));
+  }
+
+  private async deleteMessages(receiptHandles: string[]): Promise<void> {
+    for (let start = 0; start < receiptHandles.length; start += SQS_BATCH_SIZE) {
+      await this.sqs.send(new DeleteMessageBatchCommand({
+        QueueUrl: this.queueUrl,
+        Entries: receiptHandles.slice(start, start + SQS_BATCH_SIZE).map((receiptHandle, index) => ({
+          Id: String(start + index),
+          ReceiptHandle: receiptHandle
+        }))
+      }));
+    }
+  }
+
+  private parseNotification(body?: string): DeferredNotification | null {
+    try {
+      const notification = JSON.parse(body || '');
+      return notification && typeof notification.channel === 'string' ? notification as DeferredNotification : null;
+    } catch (error) {
+      this.logger.warn('Discarding unreadable deferred notification', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+}
+
+/**
+ * In-memory notification queue for tests and local runs
+ */
+export class InMemoryDeferredNotificationQueue implements DeferredNotificationQueue {
+  private notifications: DeferredNotification[] = [];
+
+  async enqueue(notification: DeferredNotification): Promise<void> {
+    this.notifications.push({ ...notification });
+  }
+
+  async receive(channels: AlertChannel[]): Promise<QueuedNotification[]> {
+    return this.notifications
+      .filter(notification => channels.includes(notification.channel))
+      .map(notification => ({ notification: { ...notification }, receiptHandle: notification.id }));
+  }
+
+  async remove(entries: QueuedNotification[]): Promise<void> {
+    const removed = new Set(entries.map(entry => entry.receiptHandle));
+    this.notifications = this.notifications.filter(notification => !removed.has(notification.id));
+  }
+
+  /**
+   * Number of notifications waiting for a digest
+   */
+  size(): number {
+    return this.notifications.length;
+  }
+}
+
+/**
+ * Creates the deferred notification queue for the given configuration; config validation requires a queue URL,
+ * so the in-memory queue is only used when the alert tool is built directly (tests and local runs)
+ */
+export function createDeferredNotificationQueue(region: string, config: QuietHoursConfig): DeferredNotificationQueue {
+  if (config.queueUrl) {
+    return new SQSDeferredNotificationQueue(config.queueUrl, region);
+  }
+
+  createLogger('DeferredNotificationQueue').warn('No deferred notification queue configured, holding quiet-hours notifications in memory');
+  return new InMemoryDeferredNotificationQueue();
+}
+
+/**
+ * Parses per-channel quiet hours from a JSON object string (e.g. {"sms":{"start":"22:00","end":"07:00"}})
+ */
+export function parseQuietHoursConfig(json: string, queueUrl?: string): QuietHoursConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid quiet hours JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid quiet hours JSON: expected an object of channel time windows');
+  }
+
+  const config: QuietHoursConfig = {};
+  Object.entries(parsed).forEach(([channel, window]) => {
+    if (!QUIET_HOURS_CHANNELS.includes(channel as DeferredNotification['channel'])) {
+      throw new Error(`Invalid quiet hours JSON: unsupported channel ${channel} (expected ${QUIET_HOURS_CHANNELS.join(' or ')})`);
+    }
+    config[channel as DeferredNotification['channel']] = parseQuietHoursWindow(channel, window);
+  });
+
+  return { ...config, queueUrl: queueUrl || undefined };
+}
+
+/**
+ * Checks a channel's window has string start and end times and an optional time zone; their values are checked by validateQuietHoursConfig
+ */
+function parseQuietHoursWindow(channel: string, window: unknown): TimeOfDayWindow {
+  if (!window || typeof window !== 'object' || Array.isArray(window)) {
+    throw new Error(`Invalid quiet hours JSON: ${channel} must be an object with start and end times`);
+  }
+
+  const { start, end, timeZone } = window as { [key: string]: unknown };
+  if (typeof start !== 'string' || typeof end !== 'string') {
+    throw new Error(`Invalid quiet hours JSON: ${channel} start and end must be strings`);
+  }
+  if (timeZone !== undefined && typeof timeZone !== 'string') {
+    throw new Error(`Invalid quiet hours JSON: ${channel} timeZone must be a string`);
+  }
+
+  return timeZone === undefined ? { start, end } : { start, end, timeZone };
+}
+
+/**
+ * Channels from the list that are inside their quiet hours at the given time
+ */
+export function getQuietChannels(config: QuietHoursConfig | undefined, channels: AlertChannel[], now: Date = new Date()): Array<DeferredNotification['channel']> {
+  if (!config) {
+    return [];
+  }
+
+  return QUIET_HOURS_CHANNELS.filter(channel => {
+    const window = config[channel];
+    return channels.includes(channel) && !!window && isWithinTimeWindow(window, now);
+  });
+}
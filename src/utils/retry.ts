@@ -1,4 +1,5 @@
 import { createLogger } from './logger';
+import { SpendMonitorError } from './errors';
 
 /**
  * Configuration for retry behavior
@@ -44,6 +45,11 @@ export const RETRYABLE_ERROR_CODES = [
 export function isRetryableError(error: any): boolean {
   if (!error) return false;
 
+  // Spend monitor errors already know whether they are transient
+  if (error instanceof SpendMonitorError) {
+    return error.retryable;
+  }
+
   // Check error code
   if (error.code && RETRYABLE_ERROR_CODES.includes(error.code)) {
     return true;
@@ -0,0 +1,89 @@
+import { AlertChannel, CostAnalysis, ServiceCost, SpendDigest, SpendDigestConfig, SpendDigestFrequency } from '../types';
+import { compareServiceCosts } from './cost-history';
+
+/**
+ * Event input that asks the Lambda to send the spend digest instead of running a spend check
+ */
+export const SPEND_DIGEST_ACTION = 'send-spend-digest';
+
+export const SPEND_DIGEST_FREQUENCIES: SpendDigestFrequency[] = ['daily', 'weekly'];
+
+/**
+ * Channels that can receive the digest; generic webhooks and incidents only receive alerts
+ */
+export const SPEND_DIGEST_CHANNELS: AlertChannel[] = ['email', 'sms', 'ios', 'slack', 'teams', 'ses'];
+
+export const DEFAULT_TOP_MOVER_COUNT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Date range queried for a digest; the end is exclusive, matching Cost Explorer
+ */
+export interface DigestPeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Costs a digest is built from
+ */
+export interface SpendDigestInput {
+  /** Month-to-date cost analysis */
+  monthToDate: CostAnalysis;
+  /** Period the digest reports on */
+  period: DigestPeriod;
+  /** Cost during the period */
+  currentPeriod: CostAnalysis;
+  /** Cost during the period before it */
+  previousPeriod: CostAnalysis;
+  /** Top month-to-date services */
+  topServices: ServiceCost[];
+  /** AI summary of spending patterns */
+  aiSummary?: string;
+}
+
+/**
+ * Whole UTC days the digest reports on (yesterday, or the last seven days) and the same length of time before them
+ */
+export function getDigestPeriods(frequency: SpendDigestFrequency, now: Date = new Date()): { current: DigestPeriod; previous: DigestPeriod } {
+  const days = frequency === 'weekly' ? 7 : 1;
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const start = today - days * DAY_MS;
+
+  return {
+    current: { start: new Date(start), end: new Date(today) },
+    previous: { start: new Date(start - days * DAY_MS), end: new Date(start) }
+  };
+}
+
+/**
+ * Builds the digest, listing the services whose cost changed most against the previous period
+ */
+export function buildSpendDigest(config: SpendDigestConfig, threshold: number, input: SpendDigestInput): SpendDigest {
+  const topMovers = compareServiceCosts(input.currentPeriod.serviceBreakdown, input.previousPeriod.serviceBreakdown)
+    .filter(mover => mover.delta !== 0)
+    .slice(0, config.topMoverCount ?? DEFAULT_TOP_MOVER_COUNT);
+
+  return {
+    frequency: config.frequency,
+    spendToDate: input.monthToDate.totalCost,
+    projectedMonthly: input.monthToDate.projectedMonthly,
+    threshold,
+    monthToDate: input.monthToDate.period,
+    period: {
+      start: formatDay(input.period.start),
+      end: formatDay(new Date(input.period.end.getTime() - DAY_MS))
+    },
+    periodTotal: input.currentPeriod.totalCost,
+    previousPeriodTotal: input.previousPeriod.totalCost,
+    topMovers,
+    topServices: input.topServices,
+    aiSummary: input.aiSummary,
+    currency: input.monthToDate.currency
+  };
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,80 @@
+import { CostAnalysis, CostSpike, SpikeDetectionConfig, SpikeDetectionMethod } from '../types';
+
+export const DEFAULT_SPIKE_LOOKBACK_DAYS = 14;
+export const DEFAULT_SPIKE_METHOD: SpikeDetectionMethod = 'mad';
+export const DEFAULT_SPIKE_THRESHOLD = 3;
+export const DEFAULT_SPIKE_MIN_DAILY_COST = 1;
+export const SPIKE_DETECTION_METHODS: SpikeDetectionMethod[] = ['z-score', 'mad'];
+
+/**
+ * Fewest preceding days needed before a day can be scored
+ */
+export const MIN_BASELINE_DAYS = 3;
+
+/** Scales the median absolute deviation to be comparable with a standard deviation */
+const MAD_SCALE = 1.4826;
+
+/** Floor for the dispersion as a fraction of the baseline, so flat histories still give finite scores */
+const MIN_RELATIVE_DISPERSION = 0.1;
+
+/**
+ * Scores each service's latest daily cost against the preceding days and returns the spikes, highest score first
+ */
+export function detectCostSpikes(dailyHistory: CostAnalysis[], config?: Partial<SpikeDetectionConfig>): CostSpike[] {
+  const method = config?.method ?? DEFAULT_SPIKE_METHOD;
+  const threshold = config?.threshold ?? DEFAULT_SPIKE_THRESHOLD;
+  const minDailyCost = config?.minDailyCost ?? DEFAULT_SPIKE_MIN_DAILY_COST;
+
+  const days = [...dailyHistory].sort((a, b) => a.period.start.localeCompare(b.period.start));
+  if (days.length < MIN_BASELINE_DAYS + 1) {
+    return [];
+  }
+
+  const latest = days[days.length - 1];
+  const baselineDays = days.slice(0, -1);
+  const services = new Set(days.flatMap(day => Object.keys(day.serviceBreakdown)));
+
+  const spikes: CostSpike[] = [];
+  for (const service of services) {
+    const cost = latest.serviceBreakdown[service] || 0;
+    if (cost < minDailyCost) {
+      continue;
+    }
+
+    const history = baselineDays.map(day => day.serviceBreakdown[service] || 0);
+    const { baseline, dispersion } = method === 'z-score' ? meanAndStandardDeviation(history) : medianAndScaledMad(history);
+    const score = (cost - baseline) / Math.max(dispersion, baseline * MIN_RELATIVE_DISPERSION, 0.01);
+
+    if (score > threshold) {
+      spikes.push({
+        service,
+        date: latest.period.start.split('T')[0],
+        cost,
+        baseline,
+        previousDayCost: history[history.length - 1],
+        score: Math.round(score * 100) / 100,
+        method
+      });
+    }
+  }
+
+  return spikes.sort((a, b) => b.score - a.score);
+}
+
+function meanAndStandardDeviation(values: number[]): { baseline: number; dispersion: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / Math.max(values.length - 1, 1);
+  return { baseline: mean, dispersion: Math.sqrt(variance) };
+}
+
+function medianAndScaledMad(values: number[]): { baseline: number; dispersion: number } {
+  const median = getMedian(values);
+  const mad = getMedian(values.map(value => Math.abs(value - median)));
+  return { baseline: median, dispersion: mad * MAD_SCALE };
+}
+
+function getMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -0,0 +1,156 @@
+import { JsonSchema, StructuredOutputResult } from '../types';
+
+/** Longest previous response echoed back in a repair prompt */
+const MAX_REPAIR_RESPONSE_LENGTH = 2000;
+
+/**
+ * Schema for spending analysis output; confidenceScore is clamped to 0-1 after validation
+ */
+export const AI_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', minLength: 1 },
+    keyInsights: { type: 'array', items: { type: 'string' } },
+    confidenceScore: { type: 'number' }
+  },
+  required: ['summary', 'keyInsights', 'confidenceScore']
+};
+
+export const ANOMALY_DETECTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    anomaliesDetected: { type: 'boolean' },
+    anomalies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          service: { type: 'string', minLength: 1 },
+          severity: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH'] },
+          description: { type: 'string' },
+          confidenceScore: { type: 'number', minimum: 0, maximum: 1 },
+          suggestedAction: { type: 'string' }
+        },
+        required: ['service', 'severity', 'description', 'confidenceScore']
+      }
+    }
+  },
+  required: ['anomaliesDetected', 'anomalies']
+};
+
+export const OPTIMIZATION_RECOMMENDATIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: ['RIGHTSIZING', 'RESERVED_INSTANCES', 'SPOT_INSTANCES', 'STORAGE_OPTIMIZATION', 'OTHER'] },
+          service: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+          estimatedSavings: { type: 'number', minimum: 0 },
+          priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH'] },
+          implementationComplexity: { type: 'string', enum: ['EASY', 'MEDIUM', 'COMPLEX'] }
+        },
+        required: ['category', 'service', 'description', 'priority']
+      }
+    }
+  },
+  required: ['recommendations']
+};
+
+/**
+ * Validates a value against a schema, returning one message per violation with its JSON path
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (!matchesType(value, schema.type)) {
+    return [`${path} must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`];
+  }
+
+  const errors: string[] = [];
+  if (schema.type === 'string') {
+    const text = value as string;
+    if (schema.enum && !schema.enum.includes(text)) {
+      errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+    }
+    if (schema.minLength !== undefined && text.length < schema.minLength) {
+      errors.push(`${path} must not be empty`);
+    }
+  } else if (schema.type === 'number') {
+    const number = value as number;
+    if ((schema.minimum !== undefined && number < schema.minimum) || (schema.maximum !== undefined && number > schema.maximum)) {
+      errors.push(`${path} must be between ${schema.minimum ?? '-Infinity'} and ${schema.maximum ?? 'Infinity'}`);
+    }
+  } else if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${index}]`)));
+  } else if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined || object[key] === null) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (object[key] !== undefined && object[key] !== null) {
+        errors.push(...validateJsonSchema(object[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+  return errors;
+}
+
+function matchesType(value: unknown, type: JsonSchema['type']): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Extracts the JSON object from model output, ignoring surrounding prose and Markdown code fences
+ */
+export function extractJson(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Response does not contain a JSON object');
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+/**
+ * Parses model output and validates it against the schema
+ */
+export function parseStructuredOutput<T>(text: string, schema: JsonSchema): StructuredOutputResult<T> {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return { valid: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+  }
+
+  const errors = validateJsonSchema(value, schema);
+  return errors.length === 0 ? { valid: true, value: value as T } : { valid: false, errors };
+}
+
+/**
+ * Re-prompt asking the model to correct output that failed validation
+ */
+export function formatRepairPrompt(prompt: string, response: string, errors: string[]): string {
+  return `${prompt}
+
+Your previous response did not match the required JSON format:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${response.slice(0, MAX_REPAIR_RESPONSE_LENGTH)}
+
+Respond again with only the corrected JSON object and no other text.`;
+}
@@ -0,0 +1,96 @@
+import { AlertChannel, ThresholdTier } from '../types';
+
+/**
+ * SNS channels notified by default for each threshold tier
+ */
+export const ALERT_CHANNELS: AlertChannel[] = ['email', 'sms', 'ios'];
+
+/**
+ * Webhook channels, notified for every tier unless a tier lists webhook channels explicitly
+ */
+export const WEBHOOK_CHANNELS: AlertChannel[] = ['slack', 'teams', 'webhook'];
+
+/**
+ * SES HTML email report channel, notified whenever a tier targets 'email' or 'ses'
+ */
+export const EMAIL_REPORT_CHANNEL: AlertChannel = 'ses';
+
+/**
+ * PagerDuty / Opsgenie incident channel, added to CRITICAL alerts unless a routing rule chooses the channels
+ */
+export const INCIDENT_CHANNEL: AlertChannel = 'incident';
+
+/**
+ * Tiers used when none are configured: WARNING over budget, CRITICAL more than 50% over
+ */
+export const DEFAULT_THRESHOLD_TIERS: ThresholdTier[] = [
+  { name: 'over-budget', percentOfBudget: 100, severity: 'WARNING', channels: [...ALERT_CHANNELS] },
+  { name: 'critical-overage', percentOfBudget: 150, severity: 'CRITICAL', channels: [...ALERT_CHANNELS] }
+];
+
+/**
+ * Returns the tiers sorted by ascending budget percentage
+ */
+export function sortThresholdTiers(tiers: ThresholdTier[]): ThresholdTier[] {
+  return [...tiers].sort((a, b) => a.percentOfBudget - b.percentOfBudget);
+}
+
+/**
+ * Returns the configured tiers or the defaults when none are configured
+ */
+export function getThresholdTiers(tiers?: ThresholdTier[]): ThresholdTier[] {
+  return sortThresholdTiers(tiers && tiers.length > 0 ? tiers : DEFAULT_THRESHOLD_TIERS);
+}
+
+/**
+ * Spend amount at which a tier triggers
+ */
+export function getTierAmount(tier: ThresholdTier, budget: number): number {
+  return (budget * tier.percentOfBudget) / 100;
+}
+
+/**
+ * Finds the highest tier whose threshold is exceeded by the current spend
+ */
+export function resolveThresholdTier(currentSpend: number, budget: number, tiers?: ThresholdTier[]): ThresholdTier | null {
+  const crossed = getThresholdTiers(tiers).filter(tier => currentSpend > getTierAmount(tier, budget));
+  return crossed.length > 0 ? crossed[crossed.length - 1] : null;
+}
+
+/**
+ * Renders a tier message template, leaving unknown placeholders untouched
+ */
+export function renderTierMessage(template: string, values: { [key: string]: string | number }): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    values[key] !== undefined ? String(values[key]) : match
+  );
+}
+
+/**
+ * Parses threshold tiers from a JSON array string
+ */
+export function parseThresholdTiers(json: string): ThresholdTier[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid threshold tiers JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Invalid threshold tiers JSON: expected an array of tiers');
+  }
+
+  return parsed.map((tier: unknown): ThresholdTier => {
+    if (tier === null || typeof tier !== 'object' || Array.isArray(tier)) {
+      throw new Error('Invalid threshold tiers JSON: each tier must be an object');
+    }
+
+    // Field values are checked by validateThresholdTiers
+    const fields = tier as Partial<ThresholdTier>;
+    return {
+      ...fields,
+      channels: fields.channels ?? [...ALERT_CHANNELS]
+    } as ThresholdTier;
+  });
+}
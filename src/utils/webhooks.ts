@@ -0,0 +1,84 @@
+import { createHmac } from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { NotificationError } from './errors';
+
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 5000;
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Spend-Monitor-Signature';
+
+/**
+ * Posts a JSON payload to a webhook URL, rejecting on non-2xx responses and timeouts
+ */
+export function postWebhook(
+  url: string,
+  payload: unknown,
+  timeoutMs: number = DEFAULT_WEBHOOK_TIMEOUT_MS,
+  headers: { [name: string]: string } = {}
+): Promise<void> {
+  return sendWebhookBody(url, JSON.stringify(payload), timeoutMs, headers);
+}
+
+/**
+ * Posts a JSON payload with an HMAC-SHA256 signature of the exact request body
+ */
+export function postSignedWebhook(
+  url: string,
+  payload: unknown,
+  signingSecret: string,
+  timeoutMs: number = DEFAULT_WEBHOOK_TIMEOUT_MS
+): Promise<void> {
+  const body = JSON.stringify(payload);
+  return sendWebhookBody(url, body, timeoutMs, { [WEBHOOK_SIGNATURE_HEADER]: signWebhookBody(body, signingSecret) });
+}
+
+/**
+ * Signature header value for a request body (sha256=<hex digest>)
+ */
+export function signWebhookBody(body: string, signingSecret: string): string {
+  return `sha256=${createHmac('sha256', signingSecret).update(body).digest('hex')}`;
+}
+
+function sendWebhookBody(url: string, body: string, timeoutMs: number, headers: { [name: string]: string }): Promise<void> {
+  const target = new URL(url);
+  const transport = target.protocol === 'http:' ? http : https;
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(target, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body)
+      }
+    }, response => {
+      let responseBody = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => { responseBody += chunk; });
+      response.on('end', () => {
+        const statusCode = response.statusCode ?? 0;
+        if (statusCode >= 200 && statusCode < 300) {
+          resolve();
+          return;
+        }
+
+        // Rate limits and server errors are worth retrying, rejected payloads are not
+        reject(new NotificationError(
+          `Webhook ${target.host} responded with status ${statusCode}: ${responseBody.substring(0, 200)}`,
+          statusCode === 429 || statusCode >= 500,
+          { host: target.host, statusCode }
+        ));
+      });
+    });
+
+    request.setTimeout(timeoutMs, () => {
+      request.destroy(new NotificationError(`Webhook ${target.host} timed out after ${timeoutMs}ms`, true, { host: target.host }));
+    });
+    request.on('error', error => {
+      reject(error instanceof NotificationError
+        ? error
+        : new NotificationError(`Webhook ${target.host} request failed: ${error.message}`, true, { host: target.host }));
+    });
+
+    request.end(body);
+  });
+}
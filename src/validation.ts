@@ -1,4 +1,15 @@
-import { SpendMonitorConfig, iOSPushConfig, iOSDeviceRegistration, BedrockCostInsightsConfig } from './types';
+import { SpendMonitorConfig, iOSPushConfig, iOSDeviceRegistration, BedrockCostInsightsConfig, AlertStateConfig, ThresholdTier, ForecastAlertConfig, ForecastConfig, CostGrouping, ScopedBudget, CostMetricConfig, SpikeDetectionConfig, CostHistoryConfig, WebhookConfig, IncidentConfig, EmailReportConfig, AlertRoutingRule, AlertChannel, QuietHoursConfig, TimeOfDayWindow, SpendDigestConfig, ChannelTopicConfig, LocalizationConfig, AlertTemplateConfig, AlertTemplateName } from './types';
+import { ALERT_CHANNELS, EMAIL_REPORT_CHANNEL, INCIDENT_CHANNEL, WEBHOOK_CHANNELS } from './utils/threshold-tiers';
+import { parseTimeOfDay } from './utils/alert-routing';
+import { INCIDENT_PROVIDERS } from './utils/incidents';
+import { FORECAST_CONFIDENCE_Z_SCORES } from './utils/forecasting';
+import { COST_GROUPING_TYPES, getCostGroupingKey } from './utils/cost-groupings';
+import { COST_METRICS } from './utils/cost-metrics';
+import { SPIKE_DETECTION_METHODS } from './utils/spike-detection';
+import { SPEND_DIGEST_CHANNELS, SPEND_DIGEST_FREQUENCIES } from './utils/spend-digest';
+import { QUIET_HOURS_CHANNELS } from './utils/quiet-hours';
+import { LOCALIZED_CHANNELS, SUPPORTED_LOCALES } from './utils/localization';
+import { ALERT_TEMPLATE_NAMES, compileAlertTemplate, parseS3Uri } from './utils/alert-templates';
 
 /**
  * Validation error class for configuration issues
@@ -28,6 +39,14 @@ export function validateSpendMonitorConfig(config: Partial<SpendMonitorConfig>):
     errors.push('snsTopicArn must be a valid SNS topic ARN format');
   }
 
+  if (config.channelTopicArns) {
+    Object.entries(config.channelTopicArns).forEach(([channel, topicArn]) => {
+      if (topicArn !== undefined && (typeof topicArn !== 'string' || !isValidSNSTopicArn(topicArn))) {
+        errors.push(`channelTopicArns.${channel} must be a valid SNS topic ARN format`);
+      }
+    });
+  }
+
   // Validate check period
   if (typeof config.checkPeriodDays !== 'number' || config.checkPeriodDays <= 0) {
     errors.push('checkPeriodDays must be a positive number');
@@ -53,15 +72,179 @@ export function validateSpendMonitorConfig(config: Partial<SpendMonitorConfig>):
     validateiOSPushConfig(config.iosConfig, errors);
   }
 
+  if (config.webhookConfig) {
+    validateWebhookConfig(config.webhookConfig, errors);
+  }
+
+  if (config.incidentConfig) {
+    validateIncidentConfig(config.incidentConfig, errors);
+  }
+
+  if (config.emailReportConfig) {
+    validateEmailReportConfig(config.emailReportConfig, errors);
+  }
+
+  if (config.quietHoursConfig) {
+    validateQuietHoursConfig(config.quietHoursConfig, errors, config.channelTopicArns);
+  }
+
+  if (config.spendDigestConfig) {
+    validateSpendDigestConfig(config.spendDigestConfig, errors);
+  }
+
+  if (config.localizationConfig) {
+    validateLocalizationConfig(config.localizationConfig, errors);
+  }
+
+  if (config.alertTemplateConfig) {
+    validateAlertTemplateConfig(config.alertTemplateConfig, errors);
+  }
+
   if (config.bedrockConfig) {
     validateBedrockConfig(config.bedrockConfig, errors);
   }
 
+  if (config.alertStateConfig) {
+    validateAlertStateConfig(config.alertStateConfig, errors);
+  }
+
+  if (config.thresholdTiers !== undefined) {
+    validateThresholdTiers(config.thresholdTiers, errors);
+  }
+
+  if (config.alertRoutingRules !== undefined) {
+    validateAlertRoutingRules(config.alertRoutingRules, errors);
+  }
+
+  if (config.serviceBudgets !== undefined) {
+    validateServiceBudgets(config.serviceBudgets, errors);
+  }
+
+  if (config.costGroupings !== undefined) {
+    validateCostGroupings(config.costGroupings, errors);
+  }
+
+  if (config.scopedBudgets !== undefined) {
+    validateScopedBudgets(config.scopedBudgets, errors);
+  }
+
+  if (config.forecastAlertConfig) {
+    validateForecastAlertConfig(config.forecastAlertConfig, errors);
+  }
+
+  if (config.forecastConfig) {
+    validateForecastConfig(config.forecastConfig, errors);
+  }
+
+  if (config.costMetricConfig) {
+    validateCostMetricConfig(config.costMetricConfig, errors);
+  }
+
+  if (config.spikeDetectionConfig) {
+    validateSpikeDetectionConfig(config.spikeDetectionConfig, errors);
+  }
+
+  if (config.costHistoryConfig) {
+    validateCostHistoryConfig(config.costHistoryConfig, errors);
+  }
+
   if (errors.length > 0) {
     throw new ValidationError(`Configuration validation failed: ${errors.join(', ')}`);
   }
 }
 
+/**
+ * Validates Slack and Teams webhook configuration
+ */
+export function validateWebhookConfig(config: WebhookConfig, errors: string[] = []): void {
+  if (config.slackWebhookUrl !== undefined && !isValidWebhookUrl(config.slackWebhookUrl)) {
+    errors.push('webhookConfig.slackWebhookUrl must be a valid https URL');
+  }
+
+  if (config.teamsWebhookUrl !== undefined && !isValidWebhookUrl(config.teamsWebhookUrl)) {
+    errors.push('webhookConfig.teamsWebhookUrl must be a valid https URL');
+  }
+
+  if (config.urls !== undefined) {
+    if (!Array.isArray(config.urls)) {
+      errors.push('webhookConfig.urls must be an array of https URLs');
+    } else {
+      config.urls
+        .filter(url => !isValidWebhookUrl(url))
+        .forEach(url => errors.push(`webhookConfig.urls contains an invalid https URL: ${url}`));
+
+      if (config.urls.length > 0 && (!config.signingSecret || typeof config.signingSecret !== 'string')) {
+        errors.push('webhookConfig.signingSecret is required when webhookConfig.urls is set');
+      }
+    }
+  }
+
+  if (config.timeoutMs !== undefined && (!Number.isInteger(config.timeoutMs) || config.timeoutMs <= 0)) {
+    errors.push('webhookConfig.timeoutMs must be a positive integer if provided');
+  }
+}
+
+/**
+ * Validates PagerDuty / Opsgenie incident configuration
+ */
+export function validateIncidentConfig(config: IncidentConfig, errors: string[] = []): void {
+  if (!INCIDENT_PROVIDERS.includes(config.provider)) {
+    errors.push(`incidentConfig.provider must be one of: ${INCIDENT_PROVIDERS.join(', ')}`);
+  }
+
+  if (config.provider === 'pagerduty' && (!config.routingKey || typeof config.routingKey !== 'string')) {
+    errors.push('incidentConfig.routingKey is required for PagerDuty');
+  }
+
+  if (config.provider === 'opsgenie' && (!config.apiKey || typeof config.apiKey !== 'string')) {
+    errors.push('incidentConfig.apiKey is required for Opsgenie');
+  }
+
+  if (config.apiUrl !== undefined && !isValidWebhookUrl(config.apiUrl)) {
+    errors.push('incidentConfig.apiUrl must be a valid https URL');
+  }
+
+  if (config.timeoutMs !== undefined && (!Number.isInteger(config.timeoutMs) || config.timeoutMs <= 0)) {
+    errors.push('incidentConfig.timeoutMs must be a positive integer if provided');
+  }
+}
+
+/**
+ * Validates SES email report configuration
+ */
+export function validateEmailReportConfig(config: EmailReportConfig, errors: string[] = []): void {
+  if (!config.fromAddress || !isValidEmailAddress(config.fromAddress)) {
+    errors.push('emailReportConfig.fromAddress must be a valid email address');
+  }
+
+  if (!Array.isArray(config.recipients)) {
+    errors.push('emailReportConfig.recipients must be an array of email addresses');
+  } else {
+    config.recipients
+      .filter(recipient => !isValidEmailAddress(recipient))
+      .forEach(recipient => errors.push(`emailReportConfig.recipients contains an invalid email address: ${recipient}`));
+  }
+
+  if (config.recipientsByLevel) {
+    Object.entries(config.recipientsByLevel).forEach(([level, recipients]) => {
+      if (!['PROJECTED', 'WARNING', 'CRITICAL'].includes(level)) {
+        errors.push(`emailReportConfig.recipientsByLevel has an unknown alert level: ${level}`);
+      }
+      (recipients ?? [])
+        .filter(recipient => !isValidEmailAddress(recipient))
+        .forEach(recipient => errors.push(`emailReportConfig.recipientsByLevel.${level} contains an invalid email address: ${recipient}`));
+    });
+  }
+
+  if (config.templatePath !== undefined && (typeof config.templatePath !== 'string' || config.templatePath.trim() === '')) {
+    errors.push('emailReportConfig.templatePath must be a non-empty string if provided');
+  }
+
+  if (config.sparklineDays !== undefined && (!Number.isInteger(config.sparklineDays) || config.sparklineDays < 2 || config.sparklineDays > 90)) {
+    errors.push('emailReportConfig.sparklineDays must be an integer between 2 and 90 if provided');
+  }
+}
+
 /**
  * Validates iOS push notification configuration
  */
@@ -122,6 +305,453 @@ export function validateBedrockConfig(config: BedrockCostInsightsConfig, errors:
   }
 }
 
+/**
+ * Validates alert deduplication configuration
+ */
+export function validateAlertStateConfig(config: AlertStateConfig, errors: string[] = []): void {
+  if (config.tableName !== undefined && (typeof config.tableName !== 'string' || config.tableName.length === 0)) {
+    errors.push('alertStateConfig.tableName must be a non-empty string if provided');
+  }
+
+  if (config.acknowledgementTableName !== undefined && (typeof config.acknowledgementTableName !== 'string' || config.acknowledgementTableName.length === 0)) {
+    errors.push('alertStateConfig.acknowledgementTableName must be a non-empty string if provided');
+  }
+
+  if (config.cooldownHours !== undefined) {
+    if (typeof config.cooldownHours !== 'number' || config.cooldownHours < 0) {
+      errors.push('alertStateConfig.cooldownHours must be a non-negative number if provided');
+    }
+  }
+
+  if (typeof config.notifyOnResolve !== 'boolean') {
+    errors.push('alertStateConfig.notifyOnResolve must be a boolean value');
+  }
+}
+
+/**
+ * Validates forecast alert configuration
+ */
+export function validateForecastAlertConfig(config: ForecastAlertConfig, errors: string[] = []): void {
+  if (typeof config.enabled !== 'boolean') {
+    errors.push('forecastAlertConfig.enabled must be a boolean value');
+  }
+
+  if (typeof config.minDaysElapsed !== 'number' || config.minDaysElapsed < 0 || config.minDaysElapsed > 31) {
+    errors.push('forecastAlertConfig.minDaysElapsed must be a number between 0 and 31');
+  }
+}
+
+/**
+ * Validates forecasting configuration
+ */
+export function validateForecastConfig(config: ForecastConfig, errors: string[] = []): void {
+  const validMethods = ['linear', 'trailing-7-day', 'weekday-seasonal', 'cost-explorer'];
+  if (!validMethods.includes(config.method)) {
+    errors.push(`forecastConfig.method must be one of: ${validMethods.join(', ')}`);
+  }
+
+  if (config.lookbackDays !== undefined) {
+    if (!Number.isInteger(config.lookbackDays) || config.lookbackDays < 7 || config.lookbackDays > 90) {
+      errors.push('forecastConfig.lookbackDays must be an integer between 7 and 90 if provided');
+    }
+  }
+
+  if (config.confidenceLevel !== undefined && FORECAST_CONFIDENCE_Z_SCORES[config.confidenceLevel] === undefined) {
+    errors.push(`forecastConfig.confidenceLevel must be one of: ${Object.keys(FORECAST_CONFIDENCE_Z_SCORES).join(', ')}`);
+  }
+}
+
+/**
+ * Validates cost metric selection
+ */
+export function validateCostMetricConfig(config: CostMetricConfig, errors: string[] = []): void {
+  if (!COST_METRICS.includes(config.metric)) {
+    errors.push(`costMetricConfig.metric must be one of: ${COST_METRICS.join(', ')}`);
+  }
+
+  if (config.comparisonMetrics !== undefined) {
+    if (!Array.isArray(config.comparisonMetrics)) {
+      errors.push('costMetricConfig.comparisonMetrics must be an array if provided');
+    } else {
+      const invalidMetrics = config.comparisonMetrics.filter(metric => !COST_METRICS.includes(metric));
+      if (invalidMetrics.length > 0) {
+        errors.push(`costMetricConfig.comparisonMetrics contains unsupported metrics: ${invalidMetrics.join(', ')}`);
+      }
+    }
+  }
+}
+
+/**
+ * Validates daily spike detection configuration
+ */
+export function validateSpikeDetectionConfig(config: SpikeDetectionConfig, errors: string[] = []): void {
+  if (!Number.isInteger(config.lookbackDays) || config.lookbackDays < 7 || config.lookbackDays > 90) {
+    errors.push('spikeDetectionConfig.lookbackDays must be an integer between 7 and 90');
+  }
+
+  if (config.method !== undefined && !SPIKE_DETECTION_METHODS.includes(config.method)) {
+    errors.push(`spikeDetectionConfig.method must be one of: ${SPIKE_DETECTION_METHODS.join(', ')}`);
+  }
+
+  if (config.threshold !== undefined && (typeof config.threshold !== 'number' || config.threshold <= 0)) {
+    errors.push('spikeDetectionConfig.threshold must be a positive number if provided');
+  }
+
+  if (config.minDailyCost !== undefined && (typeof config.minDailyCost !== 'number' || config.minDailyCost < 0)) {
+    errors.push('spikeDetectionConfig.minDailyCost must be a non-negative number if provided');
+  }
+}
+
+/**
+ * Validates cost snapshot storage configuration
+ */
+export function validateCostHistoryConfig(config: CostHistoryConfig, errors: string[] = []): void {
+  if (config.tableName !== undefined && (typeof config.tableName !== 'string' || config.tableName.length === 0)) {
+    errors.push('costHistoryConfig.tableName must be a non-empty string if provided');
+  }
+
+  if (config.filePath !== undefined && (typeof config.filePath !== 'string' || config.filePath.length === 0)) {
+    errors.push('costHistoryConfig.filePath must be a non-empty string if provided');
+  }
+
+  if (!config.tableName && !config.filePath) {
+    errors.push('costHistoryConfig requires a tableName or filePath');
+  }
+}
+
+/**
+ * Validates threshold tier configuration
+ */
+export function validateThresholdTiers(tiers: ThresholdTier[], errors: string[] = []): void {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    errors.push('thresholdTiers must be a non-empty array if provided');
+    return;
+  }
+
+  const names = new Set<string>();
+  const percentages = new Set<number>();
+
+  tiers.forEach((tier, index) => {
+    const label = `thresholdTiers[${index}]`;
+
+    if (!tier.name || typeof tier.name !== 'string') {
+      errors.push(`${label}.name is required and must be a string`);
+    } else if (names.has(tier.name)) {
+      errors.push(`${label}.name must be unique (duplicate '${tier.name}')`);
+    } else {
+      names.add(tier.name);
+    }
+
+    if (typeof tier.percentOfBudget !== 'number' || !isFinite(tier.percentOfBudget) || tier.percentOfBudget <= 0) {
+      errors.push(`${label}.percentOfBudget must be a positive number`);
+    } else if (percentages.has(tier.percentOfBudget)) {
+      errors.push(`${label}.percentOfBudget must be unique across tiers`);
+    } else {
+      percentages.add(tier.percentOfBudget);
+    }
+
+    if (tier.severity !== 'WARNING' && tier.severity !== 'CRITICAL') {
+      errors.push(`${label}.severity must be WARNING or CRITICAL`);
+    }
+
+    if (!Array.isArray(tier.channels) || tier.channels.length === 0) {
+      errors.push(`${label}.channels must be a non-empty array`);
+    } else {
+      const invalidChannels = tier.channels.filter(channel => !isSupportedAlertChannel(channel));
+      if (invalidChannels.length > 0) {
+        errors.push(`${label}.channels contains unsupported channels: ${invalidChannels.join(', ')}`);
+      }
+    }
+
+    if (tier.messageTemplate !== undefined && typeof tier.messageTemplate !== 'string') {
+      errors.push(`${label}.messageTemplate must be a string if provided`);
+    }
+  });
+
+  // A higher tier must not downgrade severity
+  const ordered = [...tiers]
+    .filter(tier => typeof tier.percentOfBudget === 'number')
+    .sort((a, b) => a.percentOfBudget - b.percentOfBudget);
+  const firstCritical = ordered.findIndex(tier => tier.severity === 'CRITICAL');
+  if (firstCritical !== -1 && ordered.slice(firstCritical).some(tier => tier.severity === 'WARNING')) {
+    errors.push('thresholdTiers severity must not decrease as percentOfBudget increases');
+  }
+}
+
+/**
+ * Validates alert channel routing rules
+ */
+export function validateAlertRoutingRules(rules: AlertRoutingRule[], errors: string[] = []): void {
+  if (!Array.isArray(rules)) {
+    errors.push('alertRoutingRules must be an array if provided');
+    return;
+  }
+
+  const names = new Set<string>();
+
+  rules.forEach((rule, index) => {
+    const label = `alertRoutingRules[${index}]`;
+
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    if (!rule.name || typeof rule.name !== 'string') {
+      errors.push(`${label}.name is required and must be a string`);
+    } else if (names.has(rule.name)) {
+      errors.push(`${label}.name must be unique (duplicate '${rule.name}')`);
+    } else {
+      names.add(rule.name);
+    }
+
+    if (rule.alertLevels !== undefined) {
+      if (!Array.isArray(rule.alertLevels) || rule.alertLevels.length === 0) {
+        errors.push(`${label}.alertLevels must be a non-empty array if provided`);
+      } else if (rule.alertLevels.some(level => !['PROJECTED', 'WARNING', 'CRITICAL'].includes(level))) {
+        errors.push(`${label}.alertLevels must only contain PROJECTED, WARNING or CRITICAL`);
+      }
+    }
+
+    if (rule.services !== undefined && !isNonEmptyStringArray(rule.services)) {
+      errors.push(`${label}.services must be a non-empty array of service names if provided`);
+    }
+
+    if (rule.scopes !== undefined && !isNonEmptyStringArray(rule.scopes)) {
+      errors.push(`${label}.scopes must be a non-empty array of scope keys if provided`);
+    }
+
+    if (rule.timeOfDay !== undefined) {
+      validateTimeOfDayWindow(rule.timeOfDay, `${label}.timeOfDay`, errors);
+    }
+
+    if (!Array.isArray(rule.channels) || rule.channels.length === 0) {
+      errors.push(`${label}.channels must be a non-empty array`);
+    } else {
+      const invalidChannels = rule.channels.filter(channel => !isSupportedAlertChannel(channel));
+      if (invalidChannels.length > 0) {
+        errors.push(`${label}.channels contains unsupported channels: ${invalidChannels.join(', ')}`);
+      }
+    }
+  });
+}
+
+/**
+ * Validates per-channel quiet hours; a quiet channel needs its own topic, since the shared alert topic would still reach its subscribers
+ */
+export function validateQuietHoursConfig(config: QuietHoursConfig, errors: string[] = [], channelTopicArns?: ChannelTopicConfig): void {
+  const unsupported = Object.keys(config).filter(key => key !== 'queueUrl' && !['sms', 'ios'].includes(key));
+  if (unsupported.length > 0) {
+    errors.push(`quietHoursConfig only supports sms and ios quiet hours (got ${unsupported.join(', ')})`);
+  }
+
+  if (!config.sms && !config.ios) {
+    errors.push('quietHoursConfig requires quiet hours for sms or ios');
+  }
+
+  if (config.sms) {
+    validateTimeOfDayWindow(config.sms, 'quietHoursConfig.sms', errors);
+  }
+
+  if (config.ios) {
+    validateTimeOfDayWindow(config.ios, 'quietHoursConfig.ios', errors);
+  }
+
+  const sharedTopicChannels = QUIET_HOURS_CHANNELS.filter(channel => config[channel] && !channelTopicArns?.[channel]);
+  if (sharedTopicChannels.length > 0) {
+    errors.push(`quietHoursConfig requires a channel topic (channelTopicArns) for ${sharedTopicChannels.join(', ')}`);
+  }
+
+  // Notifications held in memory would be lost when the Lambda invocation ends
+  if (!config.queueUrl) {
+    errors.push('quietHoursConfig.queueUrl is required to hold deferred notifications between runs');
+  } else if (!isValidWebhookUrl(config.queueUrl)) {
+    errors.push('quietHoursConfig.queueUrl must be a valid https URL');
+  }
+}
+
+/**
+ * Validates the scheduled spend digest settings
+ */
+export function validateSpendDigestConfig(config: SpendDigestConfig, errors: string[] = []): void {
+  if (!SPEND_DIGEST_FREQUENCIES.includes(config.frequency)) {
+    errors.push(`spendDigestConfig.frequency must be one of: ${SPEND_DIGEST_FREQUENCIES.join(', ')}`);
+  }
+
+  if (config.channels !== undefined) {
+    if (!Array.isArray(config.channels) || config.channels.length === 0) {
+      errors.push('spendDigestConfig.channels must be a non-empty array if provided');
+    } else {
+      const invalidChannels = config.channels.filter(channel => !SPEND_DIGEST_CHANNELS.includes(channel));
+      if (invalidChannels.length > 0) {
+        errors.push(`spendDigestConfig.channels contains unsupported channels: ${invalidChannels.join(', ')}`);
+      }
+    }
+  }
+
+  if (config.topMoverCount !== undefined && (!Number.isInteger(config.topMoverCount) || config.topMoverCount < 1 || config.topMoverCount > 20)) {
+    errors.push('spendDigestConfig.topMoverCount must be an integer between 1 and 20');
+  }
+}
+
+/**
+ * Validates alert message locales for the default, channels and SES recipients
+ */
+export function validateLocalizationConfig(config: LocalizationConfig, errors: string[] = []): void {
+  const supported = SUPPORTED_LOCALES.join(', ');
+
+  if (config.defaultLocale !== undefined && !SUPPORTED_LOCALES.includes(config.defaultLocale)) {
+    errors.push(`localizationConfig.defaultLocale must be one of: ${supported}`);
+  }
+
+  Object.entries(config.channelLocales ?? {}).forEach(([channel, locale]) => {
+    if (!LOCALIZED_CHANNELS.includes(channel as AlertChannel)) {
+      errors.push(`localizationConfig.channelLocales.${channel} is not a localized channel (${LOCALIZED_CHANNELS.join(', ')})`);
+    } else if (!SUPPORTED_LOCALES.includes(locale)) {
+      errors.push(`localizationConfig.channelLocales.${channel} must be one of: ${supported}`);
+    }
+  });
+
+  Object.entries(config.recipientLocales ?? {}).forEach(([recipient, locale]) => {
+    if (!isValidEmailAddress(recipient)) {
+      errors.push(`localizationConfig.recipientLocales contains an invalid email address: ${recipient}`);
+    } else if (!SUPPORTED_LOCALES.includes(locale)) {
+      errors.push(`localizationConfig.recipientLocales.${recipient} must be one of: ${supported}`);
+    }
+  });
+}
+
+/**
+ * Validates inline alert templates and the template document location
+ */
+export function validateAlertTemplateConfig(config: AlertTemplateConfig, errors: string[] = []): void {
+  if (!config.templates && !config.source) {
+    errors.push('alertTemplateConfig must define templates or a source');
+  }
+
+  Object.entries(config.templates ?? {}).forEach(([name, template]) => {
+    if (!ALERT_TEMPLATE_NAMES.includes(name as AlertTemplateName)) {
+      errors.push(`alertTemplateConfig.templates.${name} is not an alert template (${ALERT_TEMPLATE_NAMES.join(', ')})`);
+    } else if (typeof template !== 'string' || template.trim() === '') {
+      errors.push(`alertTemplateConfig.templates.${name} must be a non-empty string`);
+    } else {
+      try {
+        compileAlertTemplate(template);
+      } catch (error) {
+        errors.push(`alertTemplateConfig.templates.${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  });
+
+  if (config.source !== undefined) {
+    if (typeof config.source !== 'string' || config.source.trim() === '') {
+      errors.push('alertTemplateConfig.source must be a non-empty string');
+    } else if (config.source.startsWith('s3://') && !parseS3Uri(config.source)) {
+      errors.push('alertTemplateConfig.source must be an s3://bucket/key URI or a file path');
+    }
+  }
+}
+
+/**
+ * Validates an HH:MM time window shared by routing rules and quiet hours
+ */
+function validateTimeOfDayWindow(window: TimeOfDayWindow, label: string, errors: string[]): void {
+  if (!window || typeof window !== 'object') {
+    errors.push(`${label} must be an object with start and end times`);
+    return;
+  }
+
+  if (isNaN(parseTimeOfDay(window.start)) || isNaN(parseTimeOfDay(window.end))) {
+    errors.push(`${label} start and end must be HH:MM times`);
+  } else if (window.start === window.end) {
+    errors.push(`${label} start and end must differ`);
+  }
+
+  if (window.timeZone !== undefined && !isValidTimeZone(window.timeZone)) {
+    errors.push(`${label}.timeZone must be a valid IANA time zone`);
+  }
+}
+
+/**
+ * Validates per-service budget configuration
+ */
+export function validateServiceBudgets(serviceBudgets: { [service: string]: number }, errors: string[] = []): void {
+  if (!serviceBudgets || typeof serviceBudgets !== 'object' || Array.isArray(serviceBudgets)) {
+    errors.push('serviceBudgets must be an object mapping service names to budgets');
+    return;
+  }
+
+  Object.entries(serviceBudgets).forEach(([service, budget]) => {
+    if (!service.trim()) {
+      errors.push('serviceBudgets service names must be non-empty');
+    }
+
+    if (typeof budget !== 'number' || !isFinite(budget) || budget <= 0) {
+      errors.push(`serviceBudgets['${service}'] must be a positive number`);
+    }
+  });
+}
+
+/**
+ * Validates cost grouping configuration
+ */
+export function validateCostGroupings(groupings: CostGrouping[], errors: string[] = []): void {
+  if (!Array.isArray(groupings)) {
+    errors.push('costGroupings must be an array if provided');
+    return;
+  }
+
+  groupings.forEach((grouping, index) => validateCostGrouping(grouping, `costGroupings[${index}]`, errors));
+}
+
+/**
+ * Validates budgets scoped to a tag value, linked account, region or usage type
+ */
+export function validateScopedBudgets(scopedBudgets: ScopedBudget[], errors: string[] = []): void {
+  if (!Array.isArray(scopedBudgets)) {
+    errors.push('scopedBudgets must be an array if provided');
+    return;
+  }
+
+  const scopes = new Set<string>();
+
+  scopedBudgets.forEach((scopedBudget, index) => {
+    const label = `scopedBudgets[${index}]`;
+
+    if (!scopedBudget || typeof scopedBudget !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    validateCostGrouping(scopedBudget.grouping, `${label}.grouping`, errors);
+
+    if (!scopedBudget.value || typeof scopedBudget.value !== 'string') {
+      errors.push(`${label}.value is required and must be a string`);
+    } else if (scopedBudget.grouping?.type) {
+      const scopeKey = `${getCostGroupingKey(scopedBudget.grouping)}:${scopedBudget.value}`;
+      if (scopes.has(scopeKey)) {
+        errors.push(`${label} duplicates the budget for ${scopeKey}`);
+      }
+      scopes.add(scopeKey);
+    }
+
+    if (typeof scopedBudget.budget !== 'number' || !isFinite(scopedBudget.budget) || scopedBudget.budget <= 0) {
+      errors.push(`${label}.budget must be a positive number`);
+    }
+  });
+}
+
+function validateCostGrouping(grouping: CostGrouping, label: string, errors: string[]): void {
+  if (!grouping || !COST_GROUPING_TYPES.includes(grouping.type)) {
+    errors.push(`${label}.type must be one of: ${COST_GROUPING_TYPES.join(', ')}`);
+    return;
+  }
+
+  if (grouping.type === 'TAG' && (!grouping.tagKey || typeof grouping.tagKey !== 'string')) {
+    errors.push(`${label}.tagKey is required for TAG groupings`);
+  }
+}
+
 /**
  * Validates iOS device registration data
  */
@@ -205,6 +835,53 @@ function isValidAPNSDeviceToken(token: string): boolean {
   return tokenPattern.test(token);
 }
 
+/**
+ * Validates email address format
+ */
+function isValidEmailAddress(address: string): boolean {
+  return typeof address === 'string' && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address);
+}
+
+/**
+ * Validates webhook URL format (https only)
+ */
+function isValidWebhookUrl(url: string): boolean {
+  try {
+    return new URL(url).protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Checks a channel against the SNS, webhook, SES and incident channels
+ */
+function isSupportedAlertChannel(channel: AlertChannel): boolean {
+  return ALERT_CHANNELS.includes(channel)
+    || WEBHOOK_CHANNELS.includes(channel)
+    || channel === EMAIL_REPORT_CHANNEL
+    || channel === INCIDENT_CHANNEL;
+}
+
+/**
+ * Validates a list of non-empty strings
+ */
+function isNonEmptyStringArray(values: unknown): boolean {
+  return Array.isArray(values) && values.length > 0 && values.every(value => typeof value === 'string' && value.trim() !== '');
+}
+
+/**
+ * Validates an IANA time zone name
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
 /**
  * Validates ISO date string format
  */
@@ -5,6 +5,7 @@ import { CostAnalysisTool } from '../src/tools/cost-analysis-tool';
 import { AlertTool } from '../src/tools/alert-tool';
 import { iOSManagementTool } from '../src/tools/ios-management-tool';
 import { SpendMonitorTask } from '../src/tasks/spend-monitor-task';
+import { InMemoryCostSnapshotRepository, createCostSnapshot } from '../src/utils/cost-history';
 
 // Mock all the dependencies
 jest.mock('../src/validation');
@@ -245,6 +246,387 @@ describe('SpendMonitorAgent', () => {
       expect(mockAlertTool.sendSpendAlert).not.toHaveBeenCalled();
     });
 
+    it('should suppress repeat alerts within the same billing period', async () => {
+      await agent.execute();
+      await agent.execute();
+
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-alert when the alert escalates to CRITICAL', async () => {
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 12.00 });
+      await agent.execute();
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 20.00 });
+      await agent.execute();
+
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledTimes(2);
+    });
+
+    it('should hold back cooldown re-alerts for acknowledged alerts until they escalate', async () => {
+      (agent as any).config.alertStateConfig = { cooldownHours: 0, notifyOnResolve: false };
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 12.00 });
+      await agent.execute();
+
+      const alertId = mockAlertTool.sendSpendAlert.mock.calls[0][1].alertId;
+      expect(alertId).toMatch(/^spend-alert-\d+-[0-9a-f]{8}$/);
+
+      const store = (agent as any).alertAcknowledgementStore;
+      const sentAlert = await store.getAlert(alertId);
+      expect(sentAlert).toEqual(expect.objectContaining({ status: 'OPEN', alertLevel: 'WARNING' }));
+      await store.saveAlert({ ...sentAlert, status: 'ACKNOWLEDGED', acknowledgedAt: new Date().toISOString() });
+
+      await agent.execute();
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledTimes(1);
+
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 20.00 });
+      await agent.execute();
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledTimes(2);
+    });
+
+    it('should alert on configured threshold tiers below the budget', async () => {
+      (agent as any).config.thresholdTiers = [
+        { name: 'budget-50', percentOfBudget: 50, severity: 'WARNING', channels: ['email'] },
+        { name: 'budget-80', percentOfBudget: 80, severity: 'WARNING', channels: ['email', 'ios'] },
+        { name: 'budget-100', percentOfBudget: 100, severity: 'CRITICAL', channels: ['email', 'sms', 'ios'] }
+      ];
+
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 6.00 });
+      await agent.execute();
+
+      expect(mockSpendMonitorTask.setAlertContext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          alertLevel: 'WARNING',
+          tier: expect.objectContaining({ name: 'budget-50' })
+        })
+      );
+
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 8.50 });
+      await agent.execute();
+
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledTimes(2);
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenLastCalledWith(
+        expect.objectContaining({ totalCost: 8.50 }),
+        expect.objectContaining({ tier: expect.objectContaining({ name: 'budget-80' }) }),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+    });
+
+    it('should send a PROJECTED alert when the forecast exceeds the threshold', async () => {
+      (agent as any).config.forecastAlertConfig = { enabled: true, minDaysElapsed: 3 };
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 5.00, projectedMonthly: 12.00 });
+
+      await agent.execute();
+
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ projectedMonthly: 12.00 }),
+        expect.objectContaining({ alertLevel: 'PROJECTED', tier: undefined }),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+    });
+
+    it('should not send a PROJECTED alert before the minimum days elapsed', async () => {
+      (agent as any).config.forecastAlertConfig = { enabled: true, minDaysElapsed: 3 };
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({
+        ...mockCostAnalysis,
+        totalCost: 2.00,
+        projectedMonthly: 31.00,
+        period: { start: '2023-01-01', end: '2023-01-02' }
+      });
+
+      await agent.execute();
+
+      expect(mockAlertTool.sendSpendAlert).not.toHaveBeenCalled();
+    });
+
+    it('should send a resolved notification when spend drops back under threshold', async () => {
+      (agent as any).config.alertStateConfig = { notifyOnResolve: true };
+      (mockAlertTool as any).sendResolvedAlert = jest.fn().mockResolvedValue(undefined);
+
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 12.00 });
+      await agent.execute();
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 5.00 });
+      await agent.execute();
+
+      expect((mockAlertTool as any).sendResolvedAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ totalCost: 5.00 }),
+        mockConfig.spendThreshold,
+        expect.objectContaining({ billingPeriod: '2023-01', lastAlertLevel: 'WARNING' }),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+    });
+
+    it('should resolve the CRITICAL incident when spend drops back under threshold', async () => {
+      (mockAlertTool as any).resolveIncident = jest.fn().mockResolvedValue(undefined);
+      (mockAlertTool as any).sendResolvedAlert = jest.fn().mockResolvedValue(undefined);
+
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 16.00 });
+      await agent.execute();
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 5.00 });
+      await agent.execute();
+
+      expect((mockAlertTool as any).resolveIncident).toHaveBeenCalledWith(
+        expect.objectContaining({ billingPeriod: '2023-01', lastAlertLevel: 'CRITICAL' }),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+      expect((mockAlertTool as any).sendResolvedAlert).not.toHaveBeenCalled();
+    });
+
+    it('should resolve incidents opened for WARNING alerts by a routing rule', async () => {
+      (agent as any).config.alertRoutingRules = [{ name: 'page-warnings', alertLevels: ['WARNING'], channels: ['incident'] }];
+      (mockAlertTool as any).resolveIncident = jest.fn().mockResolvedValue(undefined);
+
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 12.00 });
+      await agent.execute();
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 5.00 });
+      await agent.execute();
+
+      expect((mockAlertTool as any).resolveIncident).toHaveBeenCalledWith(
+        expect.objectContaining({ billingPeriod: '2023-01', lastAlertLevel: 'WARNING' }),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+    });
+
+    it('should still mark the alert resolved when the incident cannot be resolved', async () => {
+      (agent as any).config.alertStateConfig = { notifyOnResolve: true };
+      (mockAlertTool as any).resolveIncident = jest.fn().mockRejectedValue(new Error('PagerDuty unavailable'));
+      (mockAlertTool as any).sendResolvedAlert = jest.fn().mockResolvedValue(undefined);
+
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 16.00 });
+      await agent.execute();
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 5.00 });
+      await agent.execute();
+
+      expect((mockAlertTool as any).sendResolvedAlert).toHaveBeenCalled();
+    });
+
+    it('should attach the first matching routing rule to the alert', async () => {
+      (agent as any).config.alertRoutingRules = [
+        { name: 'critical-pager', alertLevels: ['CRITICAL'], channels: ['sms', 'incident'] },
+        { name: 'warnings-to-email', alertLevels: ['WARNING'], channels: ['email'] }
+      ];
+
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 12.00 });
+      await agent.execute();
+
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          alertLevel: 'WARNING',
+          routingRule: expect.objectContaining({ name: 'warnings-to-email', channels: ['email'] })
+        }),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+    });
+
+    it('should deliver quiet hours digests before checking spend', async () => {
+      (agent as any).config.quietHoursConfig = { sms: { start: '22:00', end: '07:00' } };
+      (mockAlertTool as any).deliverDeferredNotifications = jest.fn().mockResolvedValue(2);
+
+      await agent.execute();
+
+      expect((mockAlertTool as any).deliverDeferredNotifications).toHaveBeenCalledWith(mockConfig.snsTopicArn);
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalled();
+    });
+
+    it('should keep monitoring when deferred notifications cannot be delivered', async () => {
+      (agent as any).config.quietHoursConfig = { sms: { start: '22:00', end: '07:00' } };
+      (mockAlertTool as any).deliverDeferredNotifications = jest.fn().mockRejectedValue(new Error('Queue unavailable'));
+
+      await expect(agent.execute()).resolves.toBeUndefined();
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalled();
+    });
+
+    it('should send service-scoped alerts for services over their budget', async () => {
+      (agent as any).config.serviceBudgets = { 'S3': 3.00, 'Lambda': 5.00 };
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({ ...mockCostAnalysis, totalCost: 8.00 });
+
+      await agent.execute();
+
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledTimes(1);
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ totalCost: 8.00 }),
+        expect.objectContaining({
+          threshold: 3.00,
+          exceedAmount: 0.50,
+          alertLevel: 'WARNING',
+          scope: { type: 'service', value: 'S3' }
+        }),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+      expect(mockSpendMonitorTask.setAlertContext).not.toHaveBeenCalled();
+    });
+
+    it('should track alert state separately for each service budget', async () => {
+      (agent as any).config.serviceBudgets = { 'S3': 3.00 };
+
+      await agent.execute();
+      await agent.execute();
+
+      // One account alert and one S3 alert, each suppressed on the second run
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledTimes(2);
+
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({
+        ...mockCostAnalysis,
+        serviceBreakdown: { ...mockCostAnalysis.serviceBreakdown, 'S3': 7.00 }
+      });
+      await agent.execute();
+
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledTimes(3);
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({ alertLevel: 'CRITICAL', scope: { type: 'service', value: 'S3' } }),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+    });
+
+    it('should send alerts scoped to a cost allocation tag value', async () => {
+      (agent as any).config.scopedBudgets = [
+        { grouping: { type: 'TAG', tagKey: 'team' }, value: 'platform', budget: 5.00 },
+        { grouping: { type: 'LINKED_ACCOUNT' }, value: '123456789012', budget: 5.00 }
+      ];
+      mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue({
+        ...mockCostAnalysis,
+        totalCost: 8.00,
+        breakdowns: {
+          'TAG:team': { grouping: { type: 'TAG', tagKey: 'team' }, costs: { platform: 6.00, data: 2.00 } }
+        }
+      });
+
+      await agent.execute();
+
+      // The linked account breakdown is unavailable, so only the tag budget is evaluated
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledTimes(1);
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          threshold: 5.00,
+          exceedAmount: 1.00,
+          scope: { type: 'group', grouping: { type: 'TAG', tagKey: 'team' }, value: 'platform' }
+        }),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+    });
+
+    it('should add spike findings and AI anomalies from daily history', async () => {
+      const history = ['2023-01-10', '2023-01-11', '2023-01-12', '2023-01-13', '2023-01-14'].map((date, index) => ({
+        ...mockCostAnalysis,
+        totalCost: index === 4 ? 30.00 : 5.00,
+        serviceBreakdown: { 'EC2-Instance': index === 4 ? 30.00 : 5.00 },
+        period: { start: `${date}T00:00:00.000Z`, end: `${date}T23:59:59.999Z` }
+      }));
+      const anomalies = { anomaliesDetected: true, anomalies: [] };
+      (mockCostAnalysisTool as any).getDailyServiceCosts = jest.fn().mockResolvedValue(history);
+      (mockCostAnalysisTool as any).enhanceWithAIAnalysisAdvanced = jest.fn().mockResolvedValue({
+        ...mockCostAnalysis,
+        anomalies,
+        fallbackUsed: false
+      });
+      (agent as any).config.bedrockConfig = { enabled: true, modelId: 'amazon.titan-text-lite-v1' };
+      (agent as any).config.spikeDetectionConfig = { enabled: true, lookbackDays: 14 };
+
+      await agent.execute();
+
+      expect((mockCostAnalysisTool as any).getDailyServiceCosts).toHaveBeenCalledWith(expect.any(Date), 14);
+      expect((mockCostAnalysisTool as any).enhanceWithAIAnalysisAdvanced).toHaveBeenCalledWith(
+        expect.objectContaining({ spikes: [expect.objectContaining({ service: 'EC2-Instance', cost: 30.00 })] }),
+        history,
+        { includeRecommendations: false }
+      );
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ anomalies, spikes: [expect.objectContaining({ service: 'EC2-Instance' })] }),
+        expect.anything(),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+    });
+
+    it('should continue alerting when daily history is unavailable', async () => {
+      (mockCostAnalysisTool as any).getDailyServiceCosts = jest.fn().mockRejectedValue(new Error('Throttled'));
+      (agent as any).config.spikeDetectionConfig = { enabled: true, lookbackDays: 14 };
+
+      await agent.execute();
+
+      expect(mockSpendMonitorTask.setCostAnalysis).toHaveBeenCalledWith(mockCostAnalysis);
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalled();
+    });
+
+    it('should add trailing daily spend for email reports', async () => {
+      const dailyCosts = [{ date: '2023-01-13', cost: 1.00 }, { date: '2023-01-14', cost: 2.50 }];
+      (mockCostAnalysisTool as any).getDailyCosts = jest.fn().mockResolvedValue(dailyCosts);
+      (agent as any).config.emailReportConfig = { fromAddress: 'alerts@example.com', recipients: ['finance@example.com'], sparklineDays: 14 };
+
+      await agent.execute();
+
+      expect((mockCostAnalysisTool as any).getDailyCosts).toHaveBeenCalledWith(expect.any(Date), 14);
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ dailyCosts }),
+        expect.anything(),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+    });
+
+    it('should send email reports without a sparkline when daily spend is unavailable', async () => {
+      (mockCostAnalysisTool as any).getDailyCosts = jest.fn().mockRejectedValue(new Error('Throttled'));
+      (agent as any).config.emailReportConfig = { fromAddress: 'alerts@example.com', recipients: ['finance@example.com'] };
+
+      await agent.execute();
+
+      expect((mockCostAnalysisTool as any).getDailyCosts).toHaveBeenCalledWith(expect.any(Date), 30);
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledWith(
+        mockCostAnalysis,
+        expect.anything(),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+    });
+
+    it('should add month-over-month comparisons and store a cost snapshot', async () => {
+      const repository = new InMemoryCostSnapshotRepository();
+      await repository.saveSnapshot(createCostSnapshot({
+        ...mockCostAnalysis,
+        totalCost: 12.00,
+        serviceBreakdown: { 'EC2-Instance': 8.00, 'S3': 4.00 },
+        period: { start: '2022-12-01T00:00:00.000Z', end: '2022-12-31T23:59:59.999Z' }
+      }));
+      (agent as any).costSnapshotRepository = repository;
+
+      await agent.execute();
+
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          comparisons: expect.objectContaining({
+            sameDayLastMonth: expect.objectContaining({ snapshotDate: '2022-12-31', totalDelta: 3.50 })
+          })
+        }),
+        expect.anything(),
+        mockConfig.snsTopicArn,
+        undefined
+      );
+      expect((await repository.getLatestSnapshot('2023-01'))?.costAnalysis.totalCost).toBe(15.50);
+    });
+
+    it('should continue alerting when cost history is unavailable', async () => {
+      (agent as any).costSnapshotRepository = {
+        getLatestSnapshot: jest.fn().mockRejectedValue(new Error('Table not found')),
+        saveSnapshot: jest.fn().mockRejectedValue(new Error('Table not found'))
+      };
+
+      await agent.execute();
+
+      expect(mockSpendMonitorTask.setCostAnalysis).toHaveBeenCalledWith(mockCostAnalysis);
+      expect(mockAlertTool.sendSpendAlert).toHaveBeenCalled();
+    });
+
     it('should determine CRITICAL alert level for high overage', async () => {
       const highCostAnalysis = { ...mockCostAnalysis, totalCost: 20.00 }; // 100% over threshold
       mockCostAnalysisTool.getCurrentMonthCosts.mockResolvedValue(highCostAnalysis);
@@ -316,6 +698,77 @@ describe('SpendMonitorAgent', () => {
     });
   });
 
+  describe('sendSpendDigest', () => {
+    let mockCostAnalysisTool: jest.Mocked<CostAnalysisTool>;
+    let mockAlertTool: jest.Mocked<AlertTool>;
+
+    beforeEach(async () => {
+      mockCostAnalysisTool = {
+        getCurrentMonthCosts: jest.fn().mockResolvedValue(mockCostAnalysis),
+        getCostDataForRange: jest.fn()
+          .mockResolvedValueOnce({ ...mockCostAnalysis, totalCost: 3, serviceBreakdown: { 'EC2-Instance': 2, 'S3': 1 } })
+          .mockResolvedValueOnce({ ...mockCostAnalysis, totalCost: 2, serviceBreakdown: { 'EC2-Instance': 1, 'S3': 1 } })
+      } as any;
+      mockAlertTool = { sendSpendDigest: jest.fn().mockResolvedValue(undefined) } as any;
+
+      (CostAnalysisTool as jest.Mock).mockImplementation(() => mockCostAnalysisTool);
+      (AlertTool as jest.Mock).mockImplementation(() => mockAlertTool);
+      agent.registerTool = jest.fn();
+      agent.registerTask = jest.fn();
+
+      await agent.initialize();
+    });
+
+    it('should send the digest regardless of the threshold', async () => {
+      (agent as any).config.spendThreshold = 100;
+      (agent as any).config.spendDigestConfig = { frequency: 'daily', channels: ['email', 'slack'] };
+
+      const digest = await agent.sendSpendDigest();
+
+      expect(mockCostAnalysisTool.getCostDataForRange).toHaveBeenCalledTimes(2);
+      expect(digest).toEqual(expect.objectContaining({
+        frequency: 'daily',
+        spendToDate: 15.50,
+        projectedMonthly: 31.00,
+        threshold: 100,
+        periodTotal: 3,
+        previousPeriodTotal: 2,
+        topMovers: [{ service: 'EC2-Instance', currentCost: 2, previousCost: 1, delta: 1, deltaPercent: 100 }]
+      }));
+      expect(digest.topServices[0].serviceName).toBe('EC2-Instance');
+      expect(mockAlertTool.sendSpendDigest).toHaveBeenCalledWith(digest, mockConfig.snsTopicArn, ['email', 'slack']);
+    });
+
+    it('should add the AI summary when Bedrock is enabled and skip it when analysis fails', async () => {
+      (agent as any).config.spendDigestConfig = { frequency: 'weekly' };
+      (agent as any).config.bedrockConfig = { enabled: true, modelId: 'amazon.titan-text-lite-v1' };
+      (mockCostAnalysisTool as any).enhanceWithAIAnalysisAdvanced = jest.fn().mockResolvedValue({
+        ...mockCostAnalysis,
+        aiAnalysis: { summary: 'Spend is steady' },
+        fallbackUsed: false
+      });
+
+      expect((await agent.sendSpendDigest()).aiSummary).toBe('Spend is steady');
+      expect((mockCostAnalysisTool as any).enhanceWithAIAnalysisAdvanced).toHaveBeenCalledWith(
+        expect.anything(),
+        undefined,
+        { includeAnomalies: false, includeRecommendations: false }
+      );
+
+      mockCostAnalysisTool.getCostDataForRange.mockResolvedValue(mockCostAnalysis);
+      (mockCostAnalysisTool as any).enhanceWithAIAnalysisAdvanced.mockResolvedValue({ ...mockCostAnalysis, fallbackUsed: true });
+      expect((await agent.sendSpendDigest()).aiSummary).toBeUndefined();
+
+      (mockCostAnalysisTool as any).enhanceWithAIAnalysisAdvanced.mockRejectedValue(new Error('Throttled'));
+      expect((await agent.sendSpendDigest()).aiSummary).toBeUndefined();
+    });
+
+    it('should fail when no digest is configured', async () => {
+      await expect(agent.sendSpendDigest()).rejects.toThrow('Spend digest not configured');
+      expect(mockAlertTool.sendSpendDigest).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getTopServices', () => {
     beforeEach(async () => {
       agent.registerTool = jest.fn();
@@ -372,28 +825,6 @@ describe('SpendMonitorAgent', () => {
     });
   });
 
-  describe('determineAlertLevel', () => {
-    it('should return WARNING for moderate overage', () => {
-      const level = (agent as any).determineAlertLevel(12, 10); // 20% over
-      expect(level).toBe('WARNING');
-    });
-
-    it('should return CRITICAL for high overage', () => {
-      const level = (agent as any).determineAlertLevel(20, 10); // 100% over
-      expect(level).toBe('CRITICAL');
-    });
-
-    it('should return WARNING for exactly 50% overage', () => {
-      const level = (agent as any).determineAlertLevel(15, 10); // 50% over
-      expect(level).toBe('WARNING');
-    });
-
-    it('should return CRITICAL for just over 50% overage', () => {
-      const level = (agent as any).determineAlertLevel(15.1, 10); // 51% over
-      expect(level).toBe('CRITICAL');
-    });
-  });
-
   describe('getStatus', () => {
     it('should return correct status when not initialized', () => {
       const status = agent.getStatus();
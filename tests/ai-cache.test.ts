@@ -0,0 +1,152 @@
+import { DynamoDBClient, GetItemCommand, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import {
+  AI_CACHE_PROMPT_VERSION,
+  DynamoDBAIAnalysisCacheStore,
+  InMemoryAIAnalysisCacheStore,
+  createAICacheEntry,
+  createAICacheKey,
+  createAIAnalysisCacheStore,
+  isAICacheEntryFresh
+} from '../src/utils/ai-cache';
+import { BedrockConfig, CostAnalysis } from '../src/types';
+
+jest.mock('@aws-sdk/client-dynamodb', () => ({
+  DynamoDBClient: jest.fn().mockImplementation(() => ({
+    send: jest.fn()
+  })),
+  PutItemCommand: jest.fn(),
+  GetItemCommand: jest.fn()
+}));
+
+jest.mock('@aws-sdk/util-dynamodb', () => ({
+  marshall: jest.fn((obj) => obj),
+  unmarshall: jest.fn((obj) => obj)
+}));
+
+describe('AI analysis cache', () => {
+  const modelId = 'amazon.titan-text-express-v1';
+  const now = new Date('2024-01-15T12:00:00.000Z');
+  const costAnalysis: CostAnalysis = {
+    totalCost: 150.75,
+    serviceBreakdown: { 'Amazon EC2': 100.5, 'Amazon S3': 50.25 },
+    period: { start: '2024-01-01', end: '2024-01-15' },
+    projectedMonthly: 311.55,
+    currency: 'USD',
+    lastUpdated: '2024-01-15T12:00:00.000Z'
+  };
+  const entry = createAICacheEntry('key-1', { ...costAnalysis, fallbackUsed: false }, 60, now);
+
+  describe('createAICacheKey', () => {
+    it('should be stable across service order, sub-cent noise and refresh time', () => {
+      const reordered: CostAnalysis = {
+        ...costAnalysis,
+        totalCost: 150.750000001,
+        serviceBreakdown: { 'Amazon S3': 50.25, 'Amazon EC2': 100.5 },
+        lastUpdated: '2024-01-15T13:00:00.000Z'
+      };
+
+      expect(createAICacheKey(costAnalysis, modelId)).toMatch(/^[0-9a-f]{64}$/);
+      expect(createAICacheKey(reordered, modelId)).toBe(createAICacheKey(costAnalysis, modelId));
+    });
+
+    it('should change with the cost data, model and prompt version', () => {
+      const key = createAICacheKey(costAnalysis, modelId);
+
+      expect(createAICacheKey({ ...costAnalysis, serviceBreakdown: { 'Amazon EC2': 100.5, 'Amazon S3': 50.26 } }, modelId)).not.toBe(key);
+      expect(createAICacheKey(costAnalysis, 'anthropic.claude-3-haiku-20240307-v1:0')).not.toBe(key);
+      expect(createAICacheKey(costAnalysis, modelId, `${AI_CACHE_PROMPT_VERSION}-next`)).not.toBe(key);
+    });
+
+    it('should keep partial analyses apart from the full analysis', () => {
+      const key = createAICacheKey(costAnalysis, modelId);
+      const summaryKey = createAICacheKey(costAnalysis, modelId, AI_CACHE_PROMPT_VERSION, ['spending']);
+
+      expect(summaryKey).not.toBe(key);
+      expect(createAICacheKey(costAnalysis, modelId, AI_CACHE_PROMPT_VERSION, ['spending', 'anomalies'])).not.toBe(summaryKey);
+    });
+  });
+
+  describe('createAICacheEntry', () => {
+    it('should expire after the TTL', () => {
+      expect(entry.createdAt).toBe('2024-01-15T12:00:00.000Z');
+      expect(entry.expiresAt).toBe(Math.floor(now.getTime() / 1000) + 3600);
+      expect(isAICacheEntryFresh(entry, new Date('2024-01-15T12:59:59.000Z'))).toBe(true);
+      expect(isAICacheEntryFresh(entry, new Date('2024-01-15T13:00:00.000Z'))).toBe(false);
+      expect(isAICacheEntryFresh(null, now)).toBe(false);
+    });
+  });
+
+  describe('InMemoryAIAnalysisCacheStore', () => {
+    it('should store entries by cache key and drop expired ones on write', async () => {
+      const store = new InMemoryAIAnalysisCacheStore();
+
+      await store.put(createAICacheEntry('expired', entry.result, 60, new Date('2020-01-01T00:00:00.000Z')));
+      await store.put(createAICacheEntry('key-2', entry.result, 60));
+
+      expect(await store.get('key-2')).toEqual(expect.objectContaining({ cacheKey: 'key-2' }));
+      expect(await store.get('expired')).toBeNull();
+      expect(store.size).toBe(1);
+
+      store.clear();
+      expect(store.size).toBe(0);
+    });
+  });
+
+  describe('DynamoDBAIAnalysisCacheStore', () => {
+    let mockSend: jest.Mock;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockSend = jest.fn();
+      (DynamoDBClient as jest.Mock).mockImplementation(() => ({ send: mockSend }));
+    });
+
+    it('should read entries by cache key', async () => {
+      mockSend.mockResolvedValue({ Item: entry });
+      const store = new DynamoDBAIAnalysisCacheStore('ai-cache', 'us-east-1');
+
+      expect(await store.get('key-1')).toEqual(entry);
+      expect(GetItemCommand).toHaveBeenCalledWith({ TableName: 'ai-cache', Key: { cacheKey: 'key-1' } });
+    });
+
+    it('should return null when no item exists', async () => {
+      mockSend.mockResolvedValue({});
+      const store = new DynamoDBAIAnalysisCacheStore('ai-cache', 'us-east-1');
+
+      expect(await store.get('key-1')).toBeNull();
+    });
+
+    it('should write entries with the TTL attribute', async () => {
+      mockSend.mockResolvedValue({});
+      const store = new DynamoDBAIAnalysisCacheStore('ai-cache', 'us-east-1');
+
+      await store.put(entry);
+
+      expect(PutItemCommand).toHaveBeenCalledWith({ TableName: 'ai-cache', Item: entry });
+    });
+  });
+
+  describe('createAIAnalysisCacheStore', () => {
+    const bedrockConfig: BedrockConfig = {
+      enabled: true,
+      modelId,
+      region: 'us-east-1',
+      maxTokens: 1000,
+      temperature: 0.7,
+      costThreshold: 10,
+      rateLimitPerMinute: 10,
+      cacheResults: true,
+      cacheTTLMinutes: 60,
+      fallbackOnError: true
+    };
+
+    it('should use DynamoDB when a cache table is configured', () => {
+      expect(createAIAnalysisCacheStore('us-east-1', { ...bedrockConfig, cacheTableName: 'ai-cache' }))
+        .toBeInstanceOf(DynamoDBAIAnalysisCacheStore);
+    });
+
+    it('should fall back to the in-memory store', () => {
+      expect(createAIAnalysisCacheStore('us-east-1', bedrockConfig)).toBeInstanceOf(InMemoryAIAnalysisCacheStore);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { DynamoDBClient, GetItemCommand, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBAlertAcknowledgementStore,
+  InMemoryAlertAcknowledgementStore,
+  acknowledgeAlert,
+  createAlertAcknowledgementStore,
+  createAlertId,
+  createOpenAlertRecord,
+  isAlertSilenced,
+  snoozeAlert
+} from '../src/utils/alert-acknowledgements';
+import { ACCOUNT_ALERT_SCOPE } from '../src/utils/alert-state';
+
+jest.mock('@aws-sdk/client-dynamodb', () => ({
+  DynamoDBClient: jest.fn().mockImplementation(() => ({
+    send: jest.fn()
+  })),
+  PutItemCommand: jest.fn(),
+  GetItemCommand: jest.fn()
+}));
+
+jest.mock('@aws-sdk/util-dynamodb', () => ({
+  marshall: jest.fn((obj) => obj),
+  unmarshall: jest.fn((obj) => obj)
+}));
+
+describe('alert acknowledgements', () => {
+  const sentAt = new Date('2024-01-10T00:00:00.000Z');
+  const openRecord = createOpenAlertRecord('spend-alert-1', ACCOUNT_ALERT_SCOPE, '2024-01', 'WARNING', sentAt);
+
+  describe('createAlertId', () => {
+    it('should create unique IDs prefixed with the send time', () => {
+      const id = createAlertId(sentAt);
+
+      expect(id).toMatch(/^spend-alert-1704844800000-[0-9a-f]{8}$/);
+      expect(createAlertId(sentAt)).not.toBe(id);
+    });
+  });
+
+  describe('createOpenAlertRecord', () => {
+    it('should record an open alert that expires after the billing period', () => {
+      expect(openRecord).toEqual({
+        alertId: 'spend-alert-1',
+        scope: ACCOUNT_ALERT_SCOPE,
+        billingPeriod: '2024-01',
+        alertLevel: 'WARNING',
+        sentAt: '2024-01-10T00:00:00.000Z',
+        status: 'OPEN',
+        expiresAt: 1704844800 + 45 * 24 * 60 * 60
+      });
+      expect(isAlertSilenced(openRecord, sentAt)).toBe(false);
+    });
+  });
+
+  describe('acknowledgeAlert', () => {
+    it('should silence the alert with who acknowledged it', () => {
+      const now = new Date('2024-01-10T02:00:00.000Z');
+      const acknowledged = acknowledgeAlert(snoozeAlert(openRecord, 1, undefined, sentAt), 'user-1', now);
+
+      expect(acknowledged).toEqual(expect.objectContaining({
+        status: 'ACKNOWLEDGED',
+        acknowledgedAt: '2024-01-10T02:00:00.000Z',
+        acknowledgedBy: 'user-1',
+        snoozedUntil: undefined
+      }));
+      expect(isAlertSilenced(acknowledged, new Date('2024-02-01T00:00:00.000Z'))).toBe(true);
+    });
+  });
+
+  describe('snoozeAlert', () => {
+    it('should silence the alert until the snooze ends', () => {
+      const snoozed = snoozeAlert(openRecord, 2, 'user-1', sentAt);
+
+      expect(snoozed.status).toBe('SNOOZED');
+      expect(snoozed.snoozedUntil).toBe('2024-01-10T02:00:00.000Z');
+      expect(isAlertSilenced(snoozed, new Date('2024-01-10T01:59:00.000Z'))).toBe(true);
+      expect(isAlertSilenced(snoozed, new Date('2024-01-10T02:00:00.000Z'))).toBe(false);
+    });
+
+    it('should snooze for 24 hours by default', () => {
+      expect(snoozeAlert(openRecord, undefined, undefined, sentAt).snoozedUntil).toBe('2024-01-11T00:00:00.000Z');
+    });
+  });
+
+  describe('InMemoryAlertAcknowledgementStore', () => {
+    it('should save and load records by alert ID', async () => {
+      const store = new InMemoryAlertAcknowledgementStore();
+
+      await store.saveAlert(openRecord);
+      expect(await store.getAlert('spend-alert-1')).toEqual(openRecord);
+      expect(await store.getAlert('spend-alert-2')).toBeNull();
+
+      store.clear();
+      expect(await store.getAlert('spend-alert-1')).toBeNull();
+    });
+  });
+
+  describe('DynamoDBAlertAcknowledgementStore', () => {
+    let mockSend: jest.Mock;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockSend = jest.fn();
+      (DynamoDBClient as jest.Mock).mockImplementation(() => ({ send: mockSend }));
+    });
+
+    it('should read records by alert ID', async () => {
+      mockSend.mockResolvedValue({ Item: openRecord });
+      const store = new DynamoDBAlertAcknowledgementStore('alert-acknowledgements', 'us-east-1');
+
+      expect(await store.getAlert('spend-alert-1')).toEqual(openRecord);
+      expect(GetItemCommand).toHaveBeenCalledWith({
+        TableName: 'alert-acknowledgements',
+        Key: { alertId: 'spend-alert-1' }
+      });
+    });
+
+    it('should return null when no item exists', async () => {
+      mockSend.mockResolvedValue({});
+      const store = new DynamoDBAlertAcknowledgementStore('alert-acknowledgements', 'us-east-1');
+
+      expect(await store.getAlert('spend-alert-1')).toBeNull();
+    });
+
+    it('should write records', async () => {
+      mockSend.mockResolvedValue({});
+      const store = new DynamoDBAlertAcknowledgementStore('alert-acknowledgements', 'us-east-1');
+
+      await store.saveAlert(openRecord);
+
+      expect(PutItemCommand).toHaveBeenCalledWith({
+        TableName: 'alert-acknowledgements',
+        Item: openRecord
+      });
+    });
+  });
+
+  describe('createAlertAcknowledgementStore', () => {
+    it('should use DynamoDB when an acknowledgement table is configured', () => {
+      const store = createAlertAcknowledgementStore('us-east-1', { acknowledgementTableName: 'alert-acknowledgements', notifyOnResolve: true });
+      expect(store).toBeInstanceOf(DynamoDBAlertAcknowledgementStore);
+    });
+
+    it('should fall back to the in-memory store', () => {
+      expect(createAlertAcknowledgementStore('us-east-1', { tableName: 'alert-state', notifyOnResolve: true }))
+        .toBeInstanceOf(InMemoryAlertAcknowledgementStore);
+    });
+  });
+});
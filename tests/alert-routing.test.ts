@@ -0,0 +1,119 @@
+import {
+  isWithinTimeWindow,
+  matchesAlertRoute,
+  parseAlertRoutingRules,
+  parseTimeOfDay,
+  resolveAlertRoute
+} from '../src/utils/alert-routing';
+import { AlertContext, AlertRoutingRule } from '../src/types';
+
+describe('alert routing', () => {
+  const alertContext: AlertContext = {
+    threshold: 10,
+    exceedAmount: 5.5,
+    percentageOver: 55,
+    topServices: [{ serviceName: 'Amazon EC2', cost: 10, percentage: 64.5 }],
+    alertLevel: 'CRITICAL'
+  };
+
+  const rules: AlertRoutingRule[] = [
+    { name: 'bedrock-budget', services: ['Amazon Bedrock'], channels: ['slack'] },
+    { name: 'critical-pager', alertLevels: ['CRITICAL'], channels: ['sms', 'ios', 'incident'] },
+    { name: 'warnings-to-email', alertLevels: ['WARNING'], channels: ['email'] }
+  ];
+
+  const noon = new Date('2024-03-15T12:00:00Z');
+
+  describe('resolveAlertRoute', () => {
+    it('should return the first matching rule', () => {
+      expect(resolveAlertRoute(rules, alertContext, noon)?.name).toBe('critical-pager');
+      expect(resolveAlertRoute(rules, { ...alertContext, alertLevel: 'WARNING' }, noon)?.name).toBe('warnings-to-email');
+    });
+
+    it('should return null when no rule matches or none are configured', () => {
+      expect(resolveAlertRoute(rules, { ...alertContext, alertLevel: 'PROJECTED' }, noon)).toBeNull();
+      expect(resolveAlertRoute(undefined, alertContext, noon)).toBeNull();
+    });
+  });
+
+  describe('matchesAlertRoute', () => {
+    it('should match services against the budgeted service or the top cost driver', () => {
+      const rule: AlertRoutingRule = { name: 'bedrock', services: ['Amazon Bedrock'], channels: ['slack'] };
+
+      expect(matchesAlertRoute(rule, { ...alertContext, scope: { type: 'service', value: 'Amazon Bedrock' } }, noon)).toBe(true);
+      expect(matchesAlertRoute(rule, alertContext, noon)).toBe(false);
+      expect(matchesAlertRoute(rule, {
+        ...alertContext,
+        topServices: [{ serviceName: 'Amazon Bedrock', cost: 12, percentage: 77 }]
+      }, noon)).toBe(true);
+    });
+
+    it('should match scope keys exactly or by trailing wildcard', () => {
+      const rule: AlertRoutingRule = { name: 'team-budgets', scopes: ['TAG:team:*', 'account'], channels: ['email'] };
+      const platform = { ...alertContext, scope: { type: 'group' as const, value: 'platform', grouping: { type: 'TAG' as const, tagKey: 'team' } } };
+      const linkedAccount = { ...alertContext, scope: { type: 'group' as const, value: '123456789012', grouping: { type: 'LINKED_ACCOUNT' as const } } };
+
+      expect(matchesAlertRoute(rule, platform, noon)).toBe(true);
+      expect(matchesAlertRoute(rule, alertContext, noon)).toBe(true);
+      expect(matchesAlertRoute(rule, linkedAccount, noon)).toBe(false);
+    });
+
+    it('should require every configured criterion to match', () => {
+      const rule: AlertRoutingRule = {
+        name: 'business-hours-critical',
+        alertLevels: ['CRITICAL'],
+        timeOfDay: { start: '09:00', end: '17:00' },
+        channels: ['slack']
+      };
+
+      expect(matchesAlertRoute(rule, alertContext, noon)).toBe(true);
+      expect(matchesAlertRoute(rule, alertContext, new Date('2024-03-15T20:00:00Z'))).toBe(false);
+      expect(matchesAlertRoute(rule, { ...alertContext, alertLevel: 'WARNING' }, noon)).toBe(false);
+    });
+  });
+
+  describe('isWithinTimeWindow', () => {
+    it('should treat the end as exclusive', () => {
+      const window = { start: '09:00', end: '12:00' };
+
+      expect(isWithinTimeWindow(window, new Date('2024-03-15T09:00:00Z'))).toBe(true);
+      expect(isWithinTimeWindow(window, noon)).toBe(false);
+    });
+
+    it('should wrap windows past midnight', () => {
+      const overnight = { start: '22:00', end: '06:00' };
+
+      expect(isWithinTimeWindow(overnight, new Date('2024-03-15T23:30:00Z'))).toBe(true);
+      expect(isWithinTimeWindow(overnight, new Date('2024-03-15T05:59:00Z'))).toBe(true);
+      expect(isWithinTimeWindow(overnight, noon)).toBe(false);
+    });
+
+    it('should evaluate the window in the configured time zone', () => {
+      const sydneyMorning = { start: '08:00', end: '10:00', timeZone: 'Australia/Sydney' };
+
+      // 22:00 UTC is 09:00 the next day in Sydney (UTC+11 in March)
+      expect(isWithinTimeWindow(sydneyMorning, new Date('2024-03-14T22:00:00Z'))).toBe(true);
+      expect(isWithinTimeWindow(sydneyMorning, noon)).toBe(false);
+    });
+  });
+
+  describe('parseTimeOfDay', () => {
+    it('should convert HH:MM to minutes after midnight', () => {
+      expect(parseTimeOfDay('00:00')).toBe(0);
+      expect(parseTimeOfDay('17:30')).toBe(1050);
+      expect(parseTimeOfDay('24:00')).toBeNaN();
+      expect(parseTimeOfDay('9:00')).toBeNaN();
+    });
+  });
+
+  describe('parseAlertRoutingRules', () => {
+    it('should parse a JSON array of rules', () => {
+      expect(parseAlertRoutingRules('[{"name":"all","channels":["email"]}]')).toEqual([{ name: 'all', channels: ['email'] }]);
+    });
+
+    it('should reject malformed JSON and non-array values', () => {
+      expect(() => parseAlertRoutingRules('[{')).toThrow('Invalid alert routing rules JSON');
+      expect(() => parseAlertRoutingRules('{"name":"all"}')).toThrow('expected an array of rules');
+    });
+  });
+});
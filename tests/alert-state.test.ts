@@ -0,0 +1,201 @@
+import { DynamoDBClient, GetItemCommand, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import {
+  ACCOUNT_ALERT_SCOPE,
+  DynamoDBAlertStateStore,
+  InMemoryAlertStateStore,
+  createAlertStateStore,
+  decideAlertAction,
+  describeAlertScope,
+  getAlertScopeKey,
+  getBillingPeriod
+} from '../src/utils/alert-state';
+import { AlertStateRecord } from '../src/types';
+
+jest.mock('@aws-sdk/client-dynamodb', () => ({
+  DynamoDBClient: jest.fn().mockImplementation(() => ({
+    send: jest.fn()
+  })),
+  PutItemCommand: jest.fn(),
+  GetItemCommand: jest.fn()
+}));
+
+jest.mock('@aws-sdk/util-dynamodb', () => ({
+  marshall: jest.fn((obj) => obj),
+  unmarshall: jest.fn((obj) => obj)
+}));
+
+describe('alert state', () => {
+  const baseRecord: AlertStateRecord = {
+    scope: ACCOUNT_ALERT_SCOPE,
+    billingPeriod: '2024-01',
+    lastAlertLevel: 'WARNING',
+    lastAlertedAt: '2024-01-10T00:00:00.000Z',
+    lastAlertedCost: 15,
+    resolved: false
+  };
+
+  describe('decideAlertAction', () => {
+    it('should alert when no previous state exists', () => {
+      expect(decideAlertAction(null, { alertLevel: 'WARNING' }).action).toBe('alert');
+    });
+
+    it('should suppress repeat alerts at the same level', () => {
+      expect(decideAlertAction(baseRecord, { alertLevel: 'WARNING' }).action).toBe('suppress');
+    });
+
+    it('should suppress CRITICAL after a previous CRITICAL alert', () => {
+      const previous = { ...baseRecord, lastAlertLevel: 'CRITICAL' as const };
+      expect(decideAlertAction(previous, { alertLevel: 'CRITICAL' }).action).toBe('suppress');
+    });
+
+    it('should alert on escalation from WARNING to CRITICAL', () => {
+      expect(decideAlertAction(baseRecord, { alertLevel: 'CRITICAL' }).action).toBe('alert');
+    });
+
+    it('should alert when a PROJECTED alert escalates to an actual breach', () => {
+      const previous = { ...baseRecord, lastAlertLevel: 'PROJECTED' as const };
+      expect(decideAlertAction(previous, { alertLevel: 'WARNING' }).action).toBe('alert');
+      expect(decideAlertAction(baseRecord, { alertLevel: 'PROJECTED' }).action).toBe('suppress');
+    });
+
+    it('should alert when a higher tier of the same severity is crossed', () => {
+      const previous = { ...baseRecord, lastTierPercent: 50 };
+      const tier = { name: 'budget-80', percentOfBudget: 80, severity: 'WARNING' as const, channels: ['email' as const] };
+
+      expect(decideAlertAction(previous, { alertLevel: 'WARNING', tier }).action).toBe('alert');
+      expect(decideAlertAction({ ...previous, lastTierPercent: 80 }, { alertLevel: 'WARNING', tier }).action).toBe('suppress');
+    });
+
+    it('should alert again once the cooldown has elapsed', () => {
+      const now = new Date('2024-01-11T01:00:00.000Z');
+      expect(decideAlertAction(baseRecord, { alertLevel: 'WARNING' }, 24, now).action).toBe('alert');
+      expect(decideAlertAction(baseRecord, { alertLevel: 'WARNING' }, 48, now).action).toBe('suppress');
+    });
+
+    it('should suppress cooldown re-alerts for an acknowledged alert but not escalations', () => {
+      const now = new Date('2024-01-11T01:00:00.000Z');
+      const acknowledgement = {
+        alertId: 'spend-alert-1', scope: ACCOUNT_ALERT_SCOPE, billingPeriod: '2024-01', alertLevel: 'WARNING' as const,
+        sentAt: baseRecord.lastAlertedAt, status: 'ACKNOWLEDGED' as const, acknowledgedAt: '2024-01-10T01:00:00.000Z'
+      };
+
+      expect(decideAlertAction(baseRecord, { alertLevel: 'WARNING' }, 24, now, acknowledgement))
+        .toEqual({ action: 'suppress', reason: 'WARNING alert acknowledged' });
+      expect(decideAlertAction(baseRecord, { alertLevel: 'CRITICAL' }, 24, now, acknowledgement).action).toBe('alert');
+    });
+
+    it('should suppress re-alerts only until a snooze ends', () => {
+      const acknowledgement = {
+        alertId: 'spend-alert-1', scope: ACCOUNT_ALERT_SCOPE, billingPeriod: '2024-01', alertLevel: 'WARNING' as const,
+        sentAt: baseRecord.lastAlertedAt, status: 'SNOOZED' as const, snoozedUntil: '2024-01-12T00:00:00.000Z'
+      };
+
+      expect(decideAlertAction(baseRecord, { alertLevel: 'WARNING' }, 24, new Date('2024-01-11T01:00:00.000Z'), acknowledgement))
+        .toEqual({ action: 'suppress', reason: 'WARNING alert snoozed until 2024-01-12T00:00:00.000Z' });
+      expect(decideAlertAction(baseRecord, { alertLevel: 'WARNING' }, 24, new Date('2024-01-12T01:00:00.000Z'), acknowledgement).action)
+        .toBe('alert');
+    });
+
+    it('should alert again after a previous alert was resolved', () => {
+      const previous = { ...baseRecord, resolved: true };
+      expect(decideAlertAction(previous, { alertLevel: 'WARNING' }).action).toBe('alert');
+    });
+
+    it('should resolve an open alert when spend is back within threshold', () => {
+      expect(decideAlertAction(baseRecord, null).action).toBe('resolve');
+    });
+
+    it('should do nothing when within threshold and no open alert exists', () => {
+      expect(decideAlertAction(null, null).action).toBe('none');
+      expect(decideAlertAction({ ...baseRecord, resolved: true }, null).action).toBe('none');
+    });
+  });
+
+  describe('getBillingPeriod', () => {
+    it('should derive YYYY-MM from the period start', () => {
+      expect(getBillingPeriod('2024-01-01')).toBe('2024-01');
+      expect(getBillingPeriod('2024-02-01T00:00:00.000Z')).toBe('2024-02');
+    });
+  });
+
+  describe('alert scopes', () => {
+    it('should key account and service scopes separately', () => {
+      expect(getAlertScopeKey()).toBe(ACCOUNT_ALERT_SCOPE);
+      expect(getAlertScopeKey({ type: 'account' })).toBe(ACCOUNT_ALERT_SCOPE);
+      expect(getAlertScopeKey({ type: 'service', value: 'Amazon Bedrock' })).toBe('service:Amazon Bedrock');
+      expect(getAlertScopeKey({ type: 'group', grouping: { type: 'TAG', tagKey: 'team' }, value: 'platform' })).toBe('TAG:team:platform');
+    });
+
+    it('should describe scopes for logging', () => {
+      expect(describeAlertScope()).toBe('account');
+      expect(describeAlertScope({ type: 'service', value: 'Amazon Bedrock' })).toBe("service 'Amazon Bedrock'");
+      expect(describeAlertScope({ type: 'group', grouping: { type: 'LINKED_ACCOUNT' }, value: '123456789012' })).toBe("linked account '123456789012'");
+    });
+  });
+
+  describe('InMemoryAlertStateStore', () => {
+    it('should save and load records per scope and billing period', async () => {
+      const store = new InMemoryAlertStateStore();
+      await store.saveState(baseRecord);
+
+      expect(await store.getState(ACCOUNT_ALERT_SCOPE, '2024-01')).toEqual(baseRecord);
+      expect(await store.getState(ACCOUNT_ALERT_SCOPE, '2024-02')).toBeNull();
+
+      store.clear();
+      expect(await store.getState(ACCOUNT_ALERT_SCOPE, '2024-01')).toBeNull();
+    });
+  });
+
+  describe('DynamoDBAlertStateStore', () => {
+    let mockSend: jest.Mock;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockSend = jest.fn();
+      (DynamoDBClient as jest.Mock).mockImplementation(() => ({ send: mockSend }));
+    });
+
+    it('should read state by scope and billing period', async () => {
+      mockSend.mockResolvedValue({ Item: baseRecord });
+      const store = new DynamoDBAlertStateStore('alert-state', 'us-east-1');
+
+      const record = await store.getState(ACCOUNT_ALERT_SCOPE, '2024-01');
+
+      expect(record).toEqual(baseRecord);
+      expect(GetItemCommand).toHaveBeenCalledWith({
+        TableName: 'alert-state',
+        Key: { scope: ACCOUNT_ALERT_SCOPE, billingPeriod: '2024-01' }
+      });
+    });
+
+    it('should return null when no item exists', async () => {
+      mockSend.mockResolvedValue({});
+      const store = new DynamoDBAlertStateStore('alert-state', 'us-east-1');
+
+      expect(await store.getState(ACCOUNT_ALERT_SCOPE, '2024-01')).toBeNull();
+    });
+
+    it('should write state records', async () => {
+      mockSend.mockResolvedValue({});
+      const store = new DynamoDBAlertStateStore('alert-state', 'us-east-1');
+
+      await store.saveState(baseRecord);
+
+      expect(PutItemCommand).toHaveBeenCalledWith({
+        TableName: 'alert-state',
+        Item: baseRecord
+      });
+    });
+  });
+
+  describe('createAlertStateStore', () => {
+    it('should use DynamoDB when a table name is configured', () => {
+      const store = createAlertStateStore('us-east-1', { tableName: 'alert-state', notifyOnResolve: true });
+      expect(store).toBeInstanceOf(DynamoDBAlertStateStore);
+    });
+
+    it('should fall back to the in-memory store', () => {
+      expect(createAlertStateStore('us-east-1')).toBeInstanceOf(InMemoryAlertStateStore);
+    });
+  });
+});
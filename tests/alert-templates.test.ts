@@ -0,0 +1,163 @@
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import {
+  compileAlertTemplate,
+  createSampleAlert,
+  loadAlertTemplates,
+  parseAlertTemplates,
+  parseS3Uri,
+  renderAlertTemplate
+} from '../src/utils/alert-templates';
+import { AlertTemplateData } from '../src/types';
+
+jest.mock('@aws-sdk/client-s3');
+
+const mockS3Client = {
+  send: jest.fn()
+};
+
+(S3Client as jest.Mock).mockImplementation(() => mockS3Client);
+
+describe('alert templates', () => {
+  const data = (): AlertTemplateData => ({
+    alert: {
+      level: 'WARNING',
+      levelLabel: 'WARNING',
+      subject: 'AWS Spend Alert: $5.50 over budget',
+      headline: 'Your AWS spending has exceeded the configured threshold.',
+      isProjected: false,
+      isCritical: false,
+      overThreshold: true,
+      threshold: '$10.00',
+      exceedAmount: '$5.50',
+      budgetUsed: '155%'
+    },
+    cost: {
+      total: '$15.50',
+      projectedMonthly: '$31.00',
+      currency: 'USD',
+      period: 'Mar 1, 2024 - Mar 15, 2024',
+      periodStart: '2024-03-01',
+      periodEnd: '2024-03-15',
+      lastUpdated: '2024-03-15T08:00:00.000Z',
+      topService: { rank: 1, name: 'EC2', cost: '$10.00', percentage: '64.5%' },
+      topServices: [
+        { rank: 1, name: 'EC2', cost: '$10.00', percentage: '64.5%' },
+        { rank: 2, name: 'S3', cost: '$5.50', percentage: '35.5%' }
+      ]
+    },
+    recommendations: [],
+    tips: ['Review resources', 'Set up alarms'],
+    generatedAt: '3/15/2024, 8:00:00 AM'
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('renderAlertTemplate', () => {
+    it('should fill dotted variables and render missing ones empty', () => {
+      expect(renderAlertTemplate('{{ alert.levelLabel }}: {{cost.total}} of {{alert.threshold}}{{alert.tier.name}}', data()))
+        .toBe('WARNING: $15.50 of $10.00');
+    });
+
+    it('should repeat sections for each list item and resolve outer variables inside them', () => {
+      const template = [
+        'Top services ({{cost.currency}}):',
+        '{{#cost.topServices}}',
+        '{{rank}}. {{name}}: {{cost}} of {{alert.threshold}}',
+        '{{/cost.topServices}}',
+        'Tips: {{tips}}'
+      ].join('\n');
+
+      expect(renderAlertTemplate(template, data())).toBe([
+        'Top services (USD):',
+        '1. EC2: $10.00 of $10.00',
+        '2. S3: $5.50 of $10.00',
+        'Tips: Review resources, Set up alarms'
+      ].join('\n'));
+    });
+
+    it('should render conditional and inverted sections', () => {
+      const template = '{{#alert.isCritical}}Act now{{/alert.isCritical}}{{^alert.isCritical}}Heads up{{/alert.isCritical}}'
+        + '{{#ai}} - {{summary}}{{/ai}}{{^recommendations}} - no recommendations{{/recommendations}}{{#tips}} [{{.}}]{{/tips}}{{! ignored }}';
+
+      expect(renderAlertTemplate(template, data())).toBe('Heads up - no recommendations [Review resources] [Set up alarms]');
+    });
+
+    it('should reject unbalanced sections', () => {
+      expect(() => compileAlertTemplate('{{#ai}}{{summary}}')).toThrow('Invalid alert template: unclosed section {{#ai}}');
+      expect(() => compileAlertTemplate('{{#ai}}{{/tips}}')).toThrow('Invalid alert template: unexpected {{/tips}}');
+      expect(() => compileAlertTemplate('{{/ai}}')).toThrow('Invalid alert template: unexpected {{/ai}}');
+    });
+  });
+
+  describe('parseAlertTemplates', () => {
+    it('should parse templates by name', () => {
+      expect(parseAlertTemplates('{"sms":"{{cost.total}}","pushTitle":"Alert"}')).toEqual({ sms: '{{cost.total}}', pushTitle: 'Alert' });
+    });
+
+    it('should reject invalid JSON, unknown names and non-string templates', () => {
+      expect(() => parseAlertTemplates('{')).toThrow('Invalid alert templates JSON');
+      expect(() => parseAlertTemplates('[]')).toThrow('expected an object of templates by name');
+      expect(() => parseAlertTemplates('{"digest":"x"}')).toThrow('unknown template "digest"');
+      expect(() => parseAlertTemplates('{"sms":1}')).toThrow('template "sms" must be a string');
+    });
+  });
+
+  describe('parseS3Uri', () => {
+    it('should split S3 URIs into bucket and key', () => {
+      expect(parseS3Uri('s3://alert-templates/prod/templates.json')).toEqual({ bucket: 'alert-templates', key: 'prod/templates.json' });
+      expect(parseS3Uri('s3://alert-templates')).toBeUndefined();
+      expect(parseS3Uri('./templates.json')).toBeUndefined();
+    });
+  });
+
+  describe('loadAlertTemplates', () => {
+    it('should load the template document from S3 with inline templates taking precedence', async () => {
+      mockS3Client.send.mockResolvedValue({
+        Body: { transformToString: jest.fn().mockResolvedValue('{"email":"From S3","sms":"S3 SMS"}') }
+      });
+
+      const templates = await loadAlertTemplates({ source: 's3://alert-templates/templates.json', templates: { sms: 'Inline SMS' } }, 'eu-west-1');
+
+      expect(templates).toEqual({ email: 'From S3', sms: 'Inline SMS' });
+      expect(S3Client).toHaveBeenCalledWith({ region: 'eu-west-1' });
+      expect(GetObjectCommand).toHaveBeenCalledWith({ Bucket: 'alert-templates', Key: 'templates.json' });
+    });
+
+    it('should return inline templates without a source', async () => {
+      await expect(loadAlertTemplates({ templates: { chat: 'Hi' } })).resolves.toEqual({ chat: 'Hi' });
+      expect(mockS3Client.send).not.toHaveBeenCalled();
+    });
+
+    it('should wrap load failures', async () => {
+      mockS3Client.send.mockRejectedValue(new Error('Access Denied'));
+
+      await expect(loadAlertTemplates({ source: 's3://alert-templates/templates.json' }))
+        .rejects.toThrow('Alert template load failed: Access Denied');
+    });
+  });
+
+  describe('createSampleAlert', () => {
+    it('should build a sample alert over the configured threshold', () => {
+      const { costAnalysis, alertContext } = createSampleAlert({ spendThreshold: 10 }, new Date('2024-03-15T08:00:00Z'));
+
+      expect(costAnalysis).toEqual(expect.objectContaining({
+        totalCost: 15.5,
+        projectedMonthly: 31,
+        period: { start: '2024-03-01', end: '2024-03-15' }
+      }));
+      expect(costAnalysis.aiAnalysis).toBeUndefined();
+      expect(alertContext).toEqual(expect.objectContaining({ threshold: 10, exceedAmount: 5.5, alertLevel: 'WARNING' }));
+      expect(alertContext.topServices.map(service => service.cost)).toEqual([9.3, 3.88, 2.33]);
+    });
+
+    it('should include AI analysis when Bedrock is enabled', () => {
+      const { costAnalysis } = createSampleAlert({ spendThreshold: 10, bedrockConfig: { enabled: true } });
+
+      expect(costAnalysis.aiAnalysis?.confidenceScore).toBe(0.85);
+      expect(costAnalysis.anomalies?.anomaliesDetected).toBe(true);
+      expect(costAnalysis.recommendations?.[0].estimatedSavings).toBe(3.1);
+    });
+  });
+});
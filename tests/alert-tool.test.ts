@@ -1,15 +1,28 @@
-import { AlertTool } from '../src/tools/alert-tool';
+import { ALERT_WEBHOOK_SCHEMA_VERSION, AlertTool } from '../src/tools/alert-tool';
 import { SNSClient, PublishCommand } from '@aws-sdk/client-sns';
-import { CostAnalysis, EnhancedCostAnalysis, AlertContext, ServiceCost } from '../src/types';
+import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
+import { CostAnalysis, EnhancedCostAnalysis, AlertContext, ServiceCost, RetryConfig, SpendDigest, LocalizationConfig, DeferredNotification, ChannelTopicConfig, AlertTemplateConfig } from '../src/types';
+import { signWebhookBody } from '../src/utils/webhooks';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock the AWS SDK
 jest.mock('@aws-sdk/client-sns');
+jest.mock('@aws-sdk/client-sesv2');
 
 const mockSNSClient = {
   send: jest.fn()
 };
 
+const mockSESClient = {
+  send: jest.fn()
+};
+
 (SNSClient as jest.Mock).mockImplementation(() => mockSNSClient);
+(SESv2Client as jest.Mock).mockImplementation(() => mockSESClient);
 
 describe('AlertTool', () => {
   let tool: AlertTool;
@@ -237,6 +250,13 @@ describe('AlertTool', () => {
       expect(iosPayload.customData.alertId).toMatch(/^spend-alert-\d+$/);
     });
 
+    it('should use the alert ID and actionable category for acknowledgement', () => {
+      const iosPayload = tool.formatIOSPayload(mockCostAnalysis, { ...mockAlertContext, alertId: 'spend-alert-1704844800000-1a2b3c4d' });
+
+      expect(iosPayload.aps.category).toBe('SPEND_ALERT');
+      expect(iosPayload.customData.alertId).toBe('spend-alert-1704844800000-1a2b3c4d');
+    });
+
     it('should use warning sound for WARNING level alerts', () => {
       const warningContext = {
         ...mockAlertContext,
@@ -335,6 +355,1273 @@ describe('AlertTool', () => {
     });
   });
 
+  describe('threshold tiers', () => {
+    const emailOnlyTier = {
+      name: 'budget-80',
+      percentOfBudget: 80,
+      severity: 'WARNING' as const,
+      channels: ['email' as const],
+      messageTemplate: '{{budgetUsed}}% of the ${{threshold}} budget used ({{tierName}})'
+    };
+
+    it('should create alert context from configured tiers', () => {
+      const context = tool.createAlertContext({ ...mockCostAnalysis, totalCost: 8.50 }, 10.00, mockTopServices, [emailOnlyTier]);
+
+      expect(context.alertLevel).toBe('WARNING');
+      expect(context.tier).toEqual(emailOnlyTier);
+    });
+
+    it('should restrict delivery to the tier channels', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+
+      await tool.sendSpendAlert(
+        { ...mockCostAnalysis, totalCost: 8.50 },
+        { ...mockAlertContext, exceedAmount: -1.50, percentageOver: -15, alertLevel: 'WARNING', tier: emailOnlyTier },
+        'arn:aws:sns:us-east-1:123456789012:spend-alerts',
+        { platformApplicationArn: 'arn:aws:sns:us-east-1:123456789012:app/APNS/MyApp', bundleId: 'com.example.spendmonitor' }
+      );
+
+      const publishInput = (PublishCommand as unknown as jest.Mock).mock.calls[0][0];
+      expect(publishInput.MessageStructure).toBeUndefined();
+      expect(publishInput.MessageAttributes.channels).toEqual({ DataType: 'String.Array', StringValue: '["email"]' });
+      expect(publishInput.MessageAttributes.threshold_tier).toEqual({ DataType: 'String', StringValue: 'budget-80' });
+      expect(publishInput.Subject).toBe('AWS Spend Alert: $8.50 spent (80% of budget)');
+    });
+
+    it('should not publish to the SMS or iOS topics for an email-only tier', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      const topicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts';
+      const topicTool = new AlertTool('us-east-1', { maxAttempts: 1 }, undefined, undefined, undefined, undefined, undefined, undefined, {
+        sms: 'arn:aws:sns:us-east-1:123456789012:spend-alerts-sms',
+        ios: 'arn:aws:sns:us-east-1:123456789012:spend-alerts-ios'
+      });
+
+      await topicTool.sendSpendAlert(
+        { ...mockCostAnalysis, totalCost: 8.50 },
+        { ...mockAlertContext, exceedAmount: -1.50, percentageOver: -15, alertLevel: 'WARNING', tier: emailOnlyTier },
+        topicArn,
+        { platformApplicationArn: 'arn:aws:sns:us-east-1:123456789012:app/APNS/MyApp', bundleId: 'com.example.spendmonitor' }
+      );
+
+      const publishInputs = (PublishCommand as unknown as jest.Mock).mock.calls.map(([input]) => input);
+      expect(publishInputs.map(input => input.TopicArn)).toEqual([topicArn]);
+    });
+
+    it('should use the tier message template and budget usage wording', () => {
+      const message = tool.formatAlertMessage(
+        { ...mockCostAnalysis, totalCost: 8.50 },
+        { ...mockAlertContext, exceedAmount: -1.50, percentageOver: -15, alertLevel: 'WARNING', tier: emailOnlyTier }
+      );
+
+      expect(message).toContain('85.0% of the $10.00 budget used (budget-80)');
+      expect(message).toContain('Budget Used: 85.0% ($1.50 remaining)');
+      expect(message).toContain('Threshold Tier: budget-80 (80% of budget)');
+    });
+  });
+
+  describe('projected breach alerts', () => {
+    let projectedContext: AlertContext;
+    let projectedAnalysis: CostAnalysis;
+
+    beforeEach(() => {
+      projectedAnalysis = { ...mockCostAnalysis, totalCost: 6.00, projectedMonthly: 18.00 };
+      projectedContext = { ...mockAlertContext, exceedAmount: -4.00, percentageOver: -40, alertLevel: 'PROJECTED' };
+    });
+
+    it('should format forecast wording in the alert message', () => {
+      const message = tool.formatAlertMessage(projectedAnalysis, projectedContext);
+
+      expect(message).toContain('AWS Spend Forecast Alert - PROJECTED');
+      expect(message).toContain('projected to exceed the configured threshold');
+      expect(message).toContain('Projected Overage: $8.00 (80.0%) by month end');
+      expect(message).toContain('Budget Used: 60.0% ($4.00 remaining)');
+    });
+
+    it('should format forecast wording in the iOS payload', () => {
+      const iosPayload = tool.formatIOSPayload(projectedAnalysis, projectedContext);
+
+      expect(iosPayload.aps.alert.title).toBe('AWS Spend Forecast');
+      expect(iosPayload.aps.alert.subtitle).toBe('Projected Budget Breach');
+      expect(iosPayload.aps.alert.body).toBe('$6.00 spent - projected $18.00 by month end');
+      expect(iosPayload.aps.sound).toBe('default');
+    });
+
+    it('should format forecast wording in SMS', () => {
+      expect(tool.formatSMSMessage(projectedAnalysis, projectedContext)).toBe(
+        'AWS Spend Forecast: $6.00 spent, projected $18.00 vs $10 budget. Top service: EC2 ($10.00)'
+      );
+    });
+  });
+
+  describe('cost spikes', () => {
+    it('should list daily cost spikes in the alert message', () => {
+      const message = tool.formatAlertMessage({
+        ...mockCostAnalysis,
+        spikes: [
+          { service: 'EC2', date: '2023-01-14', cost: 40, baseline: 10, previousDayCost: 10, score: 20.23, method: 'mad' },
+          { service: 'Bedrock', date: '2023-01-14', cost: 25, baseline: 0, previousDayCost: 0, score: 2500, method: 'mad' }
+        ]
+      }, mockAlertContext);
+
+      expect(message).toContain('Daily Cost Spikes:');
+      expect(message).toContain('• EC2 on 2023-01-14: $40.00 vs $10.00 baseline (+300% day over day, score 20.2)');
+      expect(message).toContain('• Bedrock on 2023-01-14: $25.00 vs $0.00 baseline (new spend, score 2500.0)');
+    });
+  });
+
+  describe('webhook channels', () => {
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts';
+    let server: http.Server;
+    let baseUrl: string;
+    let received: { [path: string]: any[] };
+    let statusCodes: { [path: string]: number };
+    let signatures: { [path: string]: Array<{ body: string; signature: unknown }> };
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          (received[req.url || ''] ||= []).push(JSON.parse(body));
+          (signatures[req.url || ''] ||= []).push({ body, signature: req.headers['x-spend-monitor-signature'] });
+          res.writeHead(statusCodes[req.url || ''] ?? 200).end('ok');
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+      received = {};
+      statusCodes = {};
+      signatures = {};
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+    });
+
+    const createWebhookTool = () => {
+      const webhookTool = new AlertTool('us-east-1', { maxAttempts: 1 }, {
+        slackWebhookUrl: `${baseUrl}/slack`,
+        teamsWebhookUrl: `${baseUrl}/teams`
+      });
+      (webhookTool as any).alertLogger = (tool as any).alertLogger;
+      return webhookTool;
+    };
+
+    const enhancedAnalysis = (): EnhancedCostAnalysis => ({
+      ...mockCostAnalysis,
+      aiAnalysis: {
+        summary: 'EC2 usage doubled after the <prod> deploy',
+        keyInsights: ['EC2 drives 65% of spend'],
+        confidenceScore: 0.9,
+        analysisTimestamp: '2023-01-15T12:00:00.000Z',
+        modelUsed: 'amazon.titan-text-lite-v1'
+      } as any
+    });
+
+    it('should post a Block Kit message to Slack with services, AI insights and recommendations', async () => {
+      await createWebhookTool().sendSpendAlert(enhancedAnalysis(), mockAlertContext, topicArn);
+
+      expect(received['/slack']).toHaveLength(1);
+      const payload = received['/slack'][0];
+      expect(payload.text).toBe('AWS Spend Alert: $5.50 over budget');
+      expect(payload.attachments[0].color).toBe('#D93F0B');
+
+      const blocks = payload.attachments[0].blocks;
+      expect(blocks[0]).toEqual({ type: 'header', text: { type: 'plain_text', text: 'AWS Spend Alert: $5.50 over budget', emoji: true } });
+      expect(blocks[2].fields).toContainEqual({ type: 'mrkdwn', text: '*Current Spending*\n$15.50' });
+      expect(blocks[2].fields).toContainEqual({ type: 'mrkdwn', text: '*Over Budget*\n$5.50 (55.0%)' });
+
+      const texts = blocks.filter((block: any) => block.type === 'section' && block.text).map((block: any) => block.text.text);
+      const servicesTable = texts.find((text: string) => text.startsWith('*Top Cost-Driving Services*'));
+      expect(servicesTable).toContain('Service        Cost   Share');
+      expect(servicesTable).toContain('EC2          $10.00   64.5%');
+      expect(texts.some((text: string) => text.includes('EC2 usage doubled after the &lt;prod&gt; deploy'))).toBe(true);
+      expect(texts.some((text: string) => text.includes('• Review your AWS resources and usage patterns'))).toBe(true);
+    });
+
+    it('should post an Adaptive Card to Teams with a top services table', async () => {
+      await createWebhookTool().sendSpendAlert(enhancedAnalysis(), mockAlertContext, topicArn);
+
+      expect(received['/teams']).toHaveLength(1);
+      const attachment = received['/teams'][0].attachments[0];
+      expect(attachment.contentType).toBe('application/vnd.microsoft.card.adaptive');
+
+      const body = attachment.content.body;
+      expect(body[0]).toMatchObject({ type: 'TextBlock', text: 'AWS Spend Alert: $5.50 over budget', color: 'Attention' });
+      expect(body[2].facts).toContainEqual({ title: 'Spending Threshold', value: '$10.00' });
+
+      const table = body.find((element: any) => element.type === 'Table');
+      expect(table.rows).toHaveLength(4);
+      expect(table.rows[1].cells.map((cell: any) => cell.items[0].text)).toEqual(['EC2', '$10.00', '64.5%']);
+      expect(body.some((element: any) => element.text === '🔍 Key Insights:')).toBe(true);
+      expect(body.some((element: any) => element.text?.includes('- Consider scaling down or terminating unused resources'))).toBe(true);
+    });
+
+    it('should only notify the webhook channels a tier routes to', async () => {
+      const slackTier = { name: 'budget-100', percentOfBudget: 100, severity: 'CRITICAL' as const, channels: ['email' as const, 'slack' as const] };
+
+      await createWebhookTool().sendSpendAlert(mockCostAnalysis, { ...mockAlertContext, tier: slackTier }, topicArn);
+
+      expect(received['/slack']).toHaveLength(1);
+      expect(received['/teams']).toBeUndefined();
+    });
+
+    it('should still deliver the SNS alert when a webhook fails', async () => {
+      statusCodes['/slack'] = 500;
+
+      await expect(createWebhookTool().sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn)).resolves.toBeUndefined();
+
+      expect(mockSNSClient.send).toHaveBeenCalledTimes(1);
+      expect(received['/teams']).toHaveLength(1);
+      expect((tool as any).alertLogger.error).toHaveBeenCalledWith(
+        'Failed to send webhook alert',
+        expect.any(Error),
+        { channel: 'slack' }
+      );
+    });
+
+    const createDocumentWebhookTool = (retryConfig: Partial<RetryConfig> = { maxAttempts: 1 }) => {
+      const documentTool = new AlertTool('us-east-1', retryConfig, {
+        urls: [`${baseUrl}/automation`],
+        signingSecret: 'shared-secret'
+      });
+      (documentTool as any).alertLogger = (tool as any).alertLogger;
+      (documentTool as any).metrics = { recordAlertDelivery: jest.fn().mockResolvedValue(undefined) };
+      return documentTool;
+    };
+
+    it('should post a signed, versioned alert document to generic webhooks', async () => {
+      const documentTool = createDocumentWebhookTool();
+
+      await documentTool.sendSpendAlert(enhancedAnalysis(), mockAlertContext, topicArn);
+
+      expect(received['/automation']).toHaveLength(1);
+      const document = received['/automation'][0];
+      expect(document).toMatchObject({
+        schemaVersion: ALERT_WEBHOOK_SCHEMA_VERSION,
+        type: 'spend_alert',
+        costAnalysis: { totalCost: 15.50, aiAnalysis: { summary: 'EC2 usage doubled after the <prod> deploy' } },
+        alertContext: { threshold: 10.00, alertLevel: 'CRITICAL' }
+      });
+      expect(document.id).toEqual(expect.any(String));
+
+      const { body, signature } = signatures['/automation'][0];
+      expect(signature).toBe(signWebhookBody(body, 'shared-secret'));
+      expect((documentTool as any).metrics.recordAlertDelivery).toHaveBeenCalledWith(['webhook'], true, 0);
+    });
+
+    it('should retry failed generic webhook deliveries and record the failure', async () => {
+      statusCodes['/automation'] = 503;
+      const documentTool = createDocumentWebhookTool({ maxAttempts: 2, baseDelay: 1 });
+
+      await expect(documentTool.sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn)).resolves.toBeUndefined();
+
+      expect(received['/automation']).toHaveLength(2);
+      expect((documentTool as any).metrics.recordAlertDelivery).toHaveBeenCalledWith(['webhook'], false, 1);
+      expect((tool as any).alertLogger.error).toHaveBeenCalledWith(
+        'Failed to send webhook alert',
+        expect.any(Error),
+        expect.objectContaining({ channel: 'webhook' })
+      );
+    });
+
+    it('should not retry generic webhooks that reject the document', async () => {
+      statusCodes['/automation'] = 400;
+      const documentTool = createDocumentWebhookTool({ maxAttempts: 3, baseDelay: 1 });
+
+      await documentTool.sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn);
+
+      expect(received['/automation']).toHaveLength(1);
+      expect((documentTool as any).metrics.recordAlertDelivery).toHaveBeenCalledWith(['webhook'], false, 0);
+    });
+
+    it('should send resolved notifications to the webhooks', async () => {
+      const previousState = {
+        scope: 'account',
+        billingPeriod: '2023-01',
+        lastAlertLevel: 'WARNING' as const,
+        lastAlertedAt: '2023-01-10T00:00:00.000Z',
+        lastAlertedCost: 12.00,
+        resolved: false
+      };
+
+      await createWebhookTool().sendResolvedAlert({ ...mockCostAnalysis, totalCost: 8.00 }, 10.00, previousState, topicArn);
+
+      expect(received['/slack'][0].text).toBe('AWS Spend Alert Resolved: $8.00 within budget');
+      expect(received['/teams'][0].attachments[0].content.body[0]).toMatchObject({ text: 'AWS Spend Alert Resolved: $8.00 within budget', color: 'Good' });
+    });
+  });
+
+  describe('email reports', () => {
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts';
+    const emailReportConfig = {
+      fromAddress: 'alerts@example.com',
+      recipients: ['finance@example.com', 'platform@example.com'],
+      recipientsByLevel: { CRITICAL: ['oncall@example.com', 'finance@example.com'] }
+    };
+
+    beforeEach(() => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      mockSESClient.send.mockResolvedValue({ MessageId: 'ses-message-id' });
+    });
+
+    const createEmailTool = (config: any = emailReportConfig) => {
+      const emailTool = new AlertTool('us-east-1', { maxAttempts: 1 }, undefined, undefined, config);
+      (emailTool as any).alertLogger = (tool as any).alertLogger;
+      (emailTool as any).metrics = { recordAlertDelivery: jest.fn().mockResolvedValue(undefined) };
+      return emailTool;
+    };
+
+    const sentEmails = () => (SendEmailCommand as unknown as jest.Mock).mock.calls.map(([input]) => input);
+
+    it('should send each recipient an HTML report with a plain-text alternative', async () => {
+      const analysis = {
+        ...mockCostAnalysis,
+        dailyCosts: [
+          { date: '2023-01-13', cost: 0.50 },
+          { date: '2023-01-14', cost: 1.00 },
+          { date: '2023-01-15', cost: 4.00 }
+        ]
+      };
+
+      await createEmailTool().sendSpendAlert(analysis, mockAlertContext, topicArn);
+
+      const emails = sentEmails();
+      expect(emails.map(email => email.Destination.ToAddresses)).toEqual([
+        ['finance@example.com'],
+        ['platform@example.com'],
+        ['oncall@example.com']
+      ]);
+      expect(emails[0].FromEmailAddress).toBe('alerts@example.com');
+
+      const content = emails[0].Content.Simple;
+      expect(content.Subject.Data).toBe('AWS Spend Alert: $5.50 over budget');
+      expect(content.Body.Html.Data).toContain('<td style="padding:6px 8px;border-bottom:1px solid #e1e4e8;">EC2</td>');
+      expect(content.Body.Html.Data).toContain('155.0% of budget ($15.50 of $10.00)');
+      expect(content.Body.Html.Data).toContain('Daily Spend (last 3 days)');
+      expect(content.Body.Text.Data).toContain('💰 Current Spending: $15.50');
+      expect(content.Body.Text.Data).toContain('📉 Daily Spend (last 3 days): ▁▂█ $0.50 – $4.00');
+    });
+
+    it('should replace the SNS email with the SES report', async () => {
+      const emailOnlyTier = { name: 'budget-100', percentOfBudget: 100, severity: 'CRITICAL' as const, channels: ['email' as const, 'sms' as const] };
+
+      await createEmailTool().sendSpendAlert(mockCostAnalysis, { ...mockAlertContext, tier: emailOnlyTier }, topicArn);
+      await createEmailTool().sendSpendAlert(mockCostAnalysis, { ...mockAlertContext, tier: { ...emailOnlyTier, channels: ['email' as const] } }, topicArn);
+
+      expect(mockSNSClient.send).toHaveBeenCalledTimes(1);
+      const publishInput = (PublishCommand as unknown as jest.Mock).mock.calls[0][0];
+      expect(publishInput.MessageAttributes.channels).toEqual({ DataType: 'String.Array', StringValue: '["sms"]' });
+      expect(mockSESClient.send).toHaveBeenCalledTimes(6);
+    });
+
+    it('should only add level-specific recipients for that alert level', async () => {
+      await createEmailTool().sendSpendAlert(mockCostAnalysis, { ...mockAlertContext, alertLevel: 'WARNING' }, topicArn);
+
+      expect(sentEmails().map(email => email.Destination.ToAddresses[0])).toEqual(['finance@example.com', 'platform@example.com']);
+    });
+
+    it('should skip email reports for tiers without email channels', async () => {
+      const smsTier = { name: 'budget-100', percentOfBudget: 100, severity: 'CRITICAL' as const, channels: ['sms' as const] };
+
+      await createEmailTool().sendSpendAlert(mockCostAnalysis, { ...mockAlertContext, tier: smsTier }, topicArn);
+
+      expect(mockSESClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should still deliver the SNS alert when SES rejects a recipient', async () => {
+      mockSESClient.send.mockRejectedValueOnce(Object.assign(new Error('Email address is not verified'), { name: 'MessageRejected' }));
+      const emailTool = createEmailTool();
+
+      await expect(emailTool.sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn)).resolves.toBeUndefined();
+
+      expect(mockSNSClient.send).toHaveBeenCalledTimes(1);
+      expect(mockSESClient.send).toHaveBeenCalledTimes(3);
+      expect((emailTool as any).metrics.recordAlertDelivery).toHaveBeenCalledWith(['ses'], false);
+      expect((tool as any).alertLogger.error).toHaveBeenCalledWith(
+        'Failed to send email report',
+        expect.any(Error),
+        { recipient: 'finance@example.com' }
+      );
+    });
+
+    it('should render template overrides and fall back to the built-in template when missing', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'alert-email-'));
+      const templatePath = path.join(directory, 'branded.html');
+      await fs.writeFile(templatePath, '<h1>Acme FinOps</h1>{{serviceTable}}', 'utf8');
+
+      try {
+        await createEmailTool({ ...emailReportConfig, templatePath }).sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn);
+        expect(sentEmails()[0].Content.Simple.Body.Html.Data).toMatch(/^<h1>Acme FinOps<\/h1>/);
+
+        (SendEmailCommand as unknown as jest.Mock).mockClear();
+        await createEmailTool({ ...emailReportConfig, templatePath: path.join(directory, 'missing.html') })
+          .sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn);
+        expect(sentEmails()[0].Content.Simple.Body.Html.Data).toMatch(/^<!DOCTYPE html>/);
+        expect((tool as any).alertLogger.warn).toHaveBeenCalledWith(
+          'Email template override unavailable, using built-in template',
+          expect.objectContaining({ templatePath: path.join(directory, 'missing.html') })
+        );
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('incident channel', () => {
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts';
+    const previousState = {
+      scope: 'account',
+      billingPeriod: '2023-01',
+      lastAlertLevel: 'CRITICAL' as const,
+      lastAlertedAt: '2023-01-10T00:00:00.000Z',
+      lastAlertedCost: 12.00,
+      resolved: false
+    };
+    let server: http.Server;
+    let baseUrl: string;
+    let received: any[];
+    let statusCode: number;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          received.push({ url: req.url, body: JSON.parse(body) });
+          res.writeHead(statusCode).end('{}');
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+      received = [];
+      statusCode = 202;
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+    });
+
+    const createIncidentTool = () => {
+      const incidentTool = new AlertTool('us-east-1', { maxAttempts: 1 }, undefined, {
+        provider: 'pagerduty',
+        routingKey: 'routing-key',
+        apiUrl: `${baseUrl}/v2/enqueue`
+      });
+      (incidentTool as any).alertLogger = (tool as any).alertLogger;
+      return incidentTool;
+    };
+
+    it('should trigger a PagerDuty incident keyed by account and month for CRITICAL alerts', async () => {
+      await createIncidentTool().sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn);
+
+      expect(received).toHaveLength(1);
+      expect(received[0].body).toMatchObject({
+        routing_key: 'routing-key',
+        event_action: 'trigger',
+        dedup_key: 'aws-spend-monitor/123456789012/2023-01',
+        payload: {
+          summary: 'AWS Spend Alert: $5.50 over budget',
+          severity: 'critical',
+          custom_details: { spend: '15.50', threshold: '10.00', topServices: 'EC2: $10.00, S3: $3.50, Lambda: $2.00' }
+        }
+      });
+    });
+
+    it('should not open incidents for WARNING alerts', async () => {
+      await createIncidentTool().sendSpendAlert(mockCostAnalysis, { ...mockAlertContext, alertLevel: 'WARNING' }, topicArn);
+
+      expect(received).toHaveLength(0);
+    });
+
+    it('should report incident amounts in the billing currency', async () => {
+      await createIncidentTool().sendSpendAlert({ ...mockCostAnalysis, currency: 'EUR' }, mockAlertContext, topicArn);
+
+      expect(received[0].body.payload.custom_details).toMatchObject({
+        currency: 'EUR',
+        topServices: 'EC2: €10.00, S3: €3.50, Lambda: €2.00'
+      });
+    });
+
+    it('should still deliver the SNS alert when the incident service fails', async () => {
+      statusCode = 500;
+
+      await expect(createIncidentTool().sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn)).resolves.toBeUndefined();
+
+      expect(mockSNSClient.send).toHaveBeenCalledTimes(1);
+      expect((tool as any).alertLogger.error).toHaveBeenCalledWith(
+        'Failed to trigger incident',
+        expect.any(Error),
+        { dedupKey: 'aws-spend-monitor/123456789012/2023-01' }
+      );
+    });
+
+    it('should resolve the incident for the alerted billing period and scope', async () => {
+      await createIncidentTool().resolveIncident(previousState, topicArn, { type: 'service', value: 'EC2' });
+
+      expect(received).toHaveLength(1);
+      expect(received[0].body).toEqual({
+        routing_key: 'routing-key',
+        event_action: 'resolve',
+        dedup_key: 'aws-spend-monitor/123456789012/2023-01/service:EC2'
+      });
+    });
+
+    it('should do nothing when no incident provider is configured', async () => {
+      await tool.resolveIncident(previousState, topicArn);
+
+      expect(received).toHaveLength(0);
+    });
+
+    it('should only notify the channels of a matching routing rule', async () => {
+      const routingRule = { name: 'critical-email', alertLevels: ['CRITICAL' as const], channels: ['email' as const] };
+
+      await createIncidentTool().sendSpendAlert(mockCostAnalysis, { ...mockAlertContext, routingRule }, topicArn);
+
+      expect(received).toHaveLength(0);
+      const publishInput = (PublishCommand as unknown as jest.Mock).mock.calls[0][0];
+      expect(publishInput.MessageAttributes.channels).toEqual({ DataType: 'String.Array', StringValue: '["email"]' });
+      expect(publishInput.MessageAttributes.routing_rule).toEqual({ DataType: 'String', StringValue: 'critical-email' });
+    });
+
+    it('should not publish to the SMS topic when a routing rule excludes SMS', async () => {
+      const smsTopicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts-sms';
+      const routedTool = new AlertTool('us-east-1', { maxAttempts: 1 }, undefined, undefined, undefined, undefined, undefined, undefined, { sms: smsTopicArn });
+      const routingRule = { name: 'business-hours', channels: ['email' as const, 'ios' as const] };
+
+      await routedTool.sendSpendAlert(mockCostAnalysis, { ...mockAlertContext, routingRule }, topicArn);
+
+      const publishInputs = (PublishCommand as unknown as jest.Mock).mock.calls.map(([input]) => input);
+      expect(publishInputs.map(input => input.TopicArn)).toEqual([topicArn]);
+      expect(publishInputs[0].MessageAttributes.channels).toEqual({ DataType: 'String.Array', StringValue: '["email","ios"]' });
+    });
+
+    it('should skip SNS when a routing rule targets no SNS channels', async () => {
+      const routingRule = { name: 'page-only', channels: ['incident' as const] };
+
+      await createIncidentTool().sendSpendAlert(mockCostAnalysis, { ...mockAlertContext, alertLevel: 'WARNING', routingRule }, topicArn);
+
+      expect(mockSNSClient.send).not.toHaveBeenCalled();
+      expect(received).toHaveLength(1);
+      expect(received[0].body.event_action).toBe('trigger');
+    });
+  });
+
+  describe('spend digest', () => {
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts';
+    const digest: SpendDigest = {
+      frequency: 'daily',
+      spendToDate: 15.5,
+      projectedMonthly: 31,
+      threshold: 50,
+      monthToDate: { start: '2023-01-01', end: '2023-01-15' },
+      period: { start: '2023-01-14', end: '2023-01-14' },
+      periodTotal: 2.5,
+      previousPeriodTotal: 2,
+      topMovers: [{ service: 'EC2-Instance', currentCost: 1.5, previousCost: 1, delta: 0.5, deltaPercent: 50 }],
+      topServices: [{ serviceName: 'EC2-Instance', cost: 10, percentage: 64.5 }],
+      aiSummary: 'Compute spend is steady'
+    };
+
+    it('should format spend to date, the period change, top movers and the AI summary', () => {
+      const message = tool.formatSpendDigestMessage(digest);
+
+      expect(tool.formatSpendDigestSubject(digest)).toBe('AWS Daily Spend Digest: $15.50 month-to-date');
+      expect(message).toContain('💰 Month-to-Date: $15.50 of $50.00 budget (31.0% used)');
+      expect(message).toContain('🔮 Projected Monthly: $31.00');
+      expect(message).toContain('🗓️ Yesterday (Jan 14, 2023): $2.50 (+$0.50, +25.0% vs day before)');
+      expect(message).toContain('• EC2-Instance: $1.50 vs $1.00 (+$0.50, +50.0%)');
+      expect(message).toContain('1. EC2-Instance: $10.00 (64.5%)');
+      expect(message).toContain('🤖 AI Summary:\nCompute spend is steady');
+    });
+
+    it('should label weekly digests with the covered days', () => {
+      const message = tool.formatSpendDigestMessage({ ...digest, frequency: 'weekly', period: { start: '2023-01-08', end: '2023-01-14' } });
+
+      expect(message).toContain('📊 AWS Weekly Spend Digest');
+      expect(message).toContain('🗓️ Last 7 Days (Jan 8, 2023 - Jan 14, 2023): $2.50 (+$0.50, +25.0% vs previous 7 days)');
+    });
+
+    it('should publish the digest to email by default, tagged as a digest', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+
+      await tool.sendSpendDigest(digest, topicArn);
+
+      const publishInput = (PublishCommand as unknown as jest.Mock).mock.calls[0][0];
+      expect(publishInput.Subject).toBe('AWS Daily Spend Digest: $15.50 month-to-date');
+      expect(publishInput.Message).toBe(tool.formatSpendDigestMessage(digest));
+      expect(publishInput.MessageAttributes).toEqual({
+        channels: { DataType: 'String.Array', StringValue: '["email"]' },
+        spend_digest: { DataType: 'String', StringValue: 'daily' }
+      });
+    });
+
+    it('should publish each channel with its own topic separately', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      const smsTopicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts-sms';
+      const topicTool = new AlertTool('us-east-1', { maxAttempts: 1 }, undefined, undefined, undefined, undefined, undefined, undefined, { sms: smsTopicArn });
+
+      await topicTool.sendSpendDigest(digest, topicArn, ['email', 'sms']);
+
+      const publishInputs = (PublishCommand as unknown as jest.Mock).mock.calls.map(([input]) => input);
+      expect(publishInputs.map(input => [input.TopicArn, input.MessageAttributes.channels.StringValue])).toEqual([
+        [topicArn, '["email"]'],
+        [smsTopicArn, '["sms"]']
+      ]);
+    });
+
+    it('should skip SNS when the digest only goes to chat channels', async () => {
+      await tool.sendSpendDigest(digest, topicArn, ['slack']);
+
+      expect(mockSNSClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should render the HTML digest without alert recommendations', () => {
+      const report = tool.formatSpendDigestEmail(digest);
+
+      expect(report.subject).toBe('AWS Daily Spend Digest: $15.50 month-to-date');
+      expect(report.html).toContain('Projected $31.00 for the month against a $50.00 budget');
+      expect(report.html).toContain('Mover: EC2-Instance');
+      expect(report.html).toContain('Compute spend is steady');
+      expect(report.html).not.toContain('Recommendations');
+      expect(report.text).toBe(tool.formatSpendDigestMessage(digest));
+    });
+
+    it('should report delivery failures', async () => {
+      mockSNSClient.send.mockRejectedValue(new Error('Topic not found'));
+
+      await expect(tool.sendSpendDigest(digest, topicArn)).rejects.toThrow('Spend digest delivery failed: Topic not found');
+    });
+  });
+
+  describe('quiet hours', () => {
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts';
+    const warningContext = () => ({ ...mockAlertContext, alertLevel: 'WARNING' as const });
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2023-01-15T23:00:00Z') });
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const smsTopicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts-sms';
+    const createQuietTool = (channelTopicArns: ChannelTopicConfig = { sms: smsTopicArn }) => {
+      const quietTool = new AlertTool('us-east-1', { maxAttempts: 1 }, undefined, undefined, undefined, {
+        sms: { start: '22:00', end: '07:00' }
+      }, undefined, undefined, channelTopicArns);
+      (quietTool as any).alertLogger = (tool as any).alertLogger;
+      return quietTool;
+    };
+    const queueSize = (quietTool: AlertTool) => (quietTool as any).deferredNotificationQueue.size();
+    const publishInputs = () => (PublishCommand as unknown as jest.Mock).mock.calls.map(([input]) => input);
+
+    it('should hold non-CRITICAL SMS alerts during quiet hours and deliver the other channels', async () => {
+      const quietTool = createQuietTool();
+
+      await quietTool.sendSpendAlert(mockCostAnalysis, warningContext(), topicArn);
+
+      expect(publishInputs()[0].MessageAttributes.channels).toEqual({ DataType: 'String.Array', StringValue: '["email","ios"]' });
+      expect(queueSize(quietTool)).toBe(1);
+      expect((tool as any).alertLogger.info).toHaveBeenCalledWith('Notification deferred for quiet hours', {
+        channel: 'sms',
+        alertLevel: 'WARNING',
+        scope: 'account'
+      });
+    });
+
+    it('should deliver CRITICAL alerts immediately', async () => {
+      const quietTool = createQuietTool();
+
+      await quietTool.sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn);
+
+      expect(publishInputs().map(input => input.TopicArn)).toEqual([topicArn, smsTopicArn]);
+      expect(publishInputs()[1].MessageAttributes.channels).toEqual({ DataType: 'String.Array', StringValue: '["sms"]' });
+      expect(queueSize(quietTool)).toBe(0);
+    });
+
+    it('should not defer channels delivered through the shared alert topic', async () => {
+      const quietTool = createQuietTool({});
+
+      await quietTool.sendSpendAlert(mockCostAnalysis, warningContext(), topicArn);
+
+      expect(publishInputs()[0].MessageAttributes.channels).toEqual({ DataType: 'String.Array', StringValue: '["email","sms","ios"]' });
+      expect(queueSize(quietTool)).toBe(0);
+    });
+
+    it('should batch held notifications into one digest once quiet hours end', async () => {
+      const quietTool = createQuietTool();
+      await quietTool.sendSpendAlert(mockCostAnalysis, warningContext(), topicArn);
+      await quietTool.sendSpendAlert(mockCostAnalysis, { ...warningContext(), scope: { type: 'service', value: 'EC2' } }, topicArn);
+      (PublishCommand as unknown as jest.Mock).mockClear();
+
+      expect(await quietTool.deliverDeferredNotifications(topicArn, new Date('2023-01-16T06:30:00Z'))).toBe(0);
+      expect(await quietTool.deliverDeferredNotifications(topicArn, new Date('2023-01-16T07:00:00Z'))).toBe(2);
+
+      const [digest] = publishInputs();
+      expect(publishInputs()).toHaveLength(1);
+      expect(digest.Message).toBe([
+        'AWS Spend Digest: 2 WARNING alerts during quiet hours',
+        'WARNING account: $15.50 of $10.00',
+        'WARNING service:EC2: $10.00 of $10.00'
+      ].join('\n'));
+      expect(digest.MessageAttributes.channels).toEqual({ DataType: 'String.Array', StringValue: '["sms"]' });
+      expect(digest.MessageAttributes.digest).toEqual({ DataType: 'String', StringValue: 'true' });
+      expect(queueSize(quietTool)).toBe(0);
+    });
+
+    it('should not publish to the SMS topic during quiet hours and send the digest only there', async () => {
+      const quietTool = createQuietTool();
+
+      await quietTool.sendSpendAlert(mockCostAnalysis, warningContext(), topicArn);
+
+      expect(publishInputs().map(input => input.TopicArn)).toEqual([topicArn]);
+      expect(publishInputs()[0].MessageAttributes.channels).toEqual({ DataType: 'String.Array', StringValue: '["email","ios"]' });
+      (PublishCommand as unknown as jest.Mock).mockClear();
+
+      expect(await quietTool.deliverDeferredNotifications(topicArn, new Date('2023-01-16T07:00:00Z'))).toBe(1);
+
+      expect(publishInputs().map(input => input.TopicArn)).toEqual([smsTopicArn]);
+    });
+
+    it('should keep notifications queued when the digest cannot be published', async () => {
+      const quietTool = createQuietTool();
+      await quietTool.sendSpendAlert(mockCostAnalysis, warningContext(), topicArn);
+      mockSNSClient.send.mockRejectedValueOnce(new Error('Throttled'));
+
+      expect(await quietTool.deliverDeferredNotifications(topicArn, new Date('2023-01-16T08:00:00Z'))).toBe(0);
+
+      expect(queueSize(quietTool)).toBe(1);
+      expect((tool as any).alertLogger.error).toHaveBeenCalledWith(
+        'Failed to deliver notification digest',
+        expect.any(Error),
+        { channel: 'sms', notifications: 1 }
+      );
+    });
+  });
+
+  describe('localization', () => {
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts';
+    const eurAnalysis = () => ({ ...mockCostAnalysis, currency: 'EUR' });
+    const jpyAnalysis = (): CostAnalysis => ({
+      ...mockCostAnalysis,
+      totalCost: 15500,
+      serviceBreakdown: { EC2: 10000, S3: 5500 },
+      projectedMonthly: 31000,
+      currency: 'JPY'
+    });
+    const jpyContext = (): AlertContext => ({
+      ...mockAlertContext,
+      threshold: 10000,
+      exceedAmount: 5500,
+      topServices: [{ serviceName: 'EC2', cost: 10000, percentage: 64.5 }]
+    });
+
+    const createLocalizedTool = (localizationConfig: LocalizationConfig, emailReportConfig?: any) => {
+      const localizedTool = new AlertTool('us-east-1', { maxAttempts: 1 }, undefined, undefined, emailReportConfig, undefined, localizationConfig);
+      (localizedTool as any).alertLogger = (tool as any).alertLogger;
+      (localizedTool as any).metrics = { recordAlertDelivery: jest.fn().mockResolvedValue(undefined) };
+      return localizedTool;
+    };
+
+    it('should format the alert message in German with euro amounts', () => {
+      const message = tool.formatAlertMessage(eurAnalysis(), mockAlertContext, 'de');
+
+      expect(message).toContain('🚨 AWS-Kostenalarm - KRITISCH');
+      expect(message).toContain('Ihre AWS-Ausgaben haben den konfigurierten Schwellenwert überschritten.');
+      expect(message).toContain('💰 Aktuelle Ausgaben: 15,50\u00a0€');
+      expect(message).toContain('📈 Über Budget: 5,50\u00a0€ (55,0\u00a0%)');
+      expect(message).toContain('1. EC2: 10,00\u00a0€ (64,5\u00a0%)');
+      expect(message).toContain('📅 Zeitraum: 1. Jan. 2023 - 15. Jan. 2023');
+    });
+
+    it('should format SMS messages in Japanese with whole yen amounts', () => {
+      const message = tool.formatSMSMessage(jpyAnalysis(), jpyContext(), 'ja');
+
+      expect(message).toContain('AWS コストアラート: ￥15,500 利用 (しきい値 ￥10,000 を ￥5,500 超過)');
+      expect(message).toContain('超過)。最大のサービス: EC2 (￥10,000)。月間予測: ￥31,000');
+    });
+
+    it('should localize iOS push notifications', () => {
+      const payload = tool.formatIOSPayload(eurAnalysis(), mockAlertContext, 'de');
+
+      expect(payload.aps.alert).toEqual({
+        title: 'AWS-Kostenalarm',
+        subtitle: 'Budget kritisch überschritten',
+        body: '15,50\u00a0€ ausgegeben - 5,50\u00a0€ über Budget'
+      });
+    });
+
+    it('should publish per-protocol email and SMS messages in their channel locales', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+
+      await createLocalizedTool({ channelLocales: { email: 'de', sms: 'ja' } }).sendSpendAlert(eurAnalysis(), mockAlertContext, topicArn);
+
+      const input = (PublishCommand as unknown as jest.Mock).mock.calls[0][0];
+      const message = JSON.parse(input.Message);
+      expect(input.MessageStructure).toBe('json');
+      expect(input.Subject).toBe('AWS-Kostenalarm: 5,50\u00a0€ über Budget');
+      expect(message.default).toBe(message.email);
+      expect(message.email).toContain('🚨 AWS-Kostenalarm - KRITISCH');
+      expect(message.sms).toContain('AWS コストアラート: €15.50 利用');
+    });
+
+    it('should send SES reports in each recipient locale', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      mockSESClient.send.mockResolvedValue({ MessageId: 'ses-message-id' });
+      const localizedTool = createLocalizedTool(
+        { recipientLocales: { 'finance@example.de': 'de' } },
+        { fromAddress: 'alerts@example.com', recipients: ['finance@example.de', 'platform@example.com'] }
+      );
+
+      await localizedTool.sendSpendAlert(eurAnalysis(), mockAlertContext, topicArn);
+
+      const emails = (SendEmailCommand as unknown as jest.Mock).mock.calls.map(([input]) => input);
+      expect(emails.map(email => [email.Destination.ToAddresses[0], email.Content.Simple.Subject.Data])).toEqual([
+        ['finance@example.de', 'AWS-Kostenalarm: 5,50\u00a0€ über Budget'],
+        ['platform@example.com', 'AWS Spend Alert: €5.50 over budget']
+      ]);
+      expect(emails[0].Content.Simple.Body.Html.Data).toContain('Aktuelle Ausgaben');
+      expect(emails[0].Content.Simple.Body.Html.Data).toContain('155,0\u00a0% des Budgets (15,50\u00a0€ von 10,00\u00a0€)');
+      expect(emails[0].Content.Simple.Body.Html.Data).toContain('Zeitraum:');
+      expect(emails[1].Content.Simple.Body.Html.Data).toContain('155.0% of budget (€15.50 of €10.00)');
+    });
+
+    it('should format Slack and Teams messages in the configured locale', () => {
+      const localizedTool = createLocalizedTool({ defaultLocale: 'de', channelLocales: { teams: 'ja' } });
+      const slack = localizedTool.formatSlackPayload(eurAnalysis(), mockAlertContext) as any;
+      const teams = localizedTool.formatTeamsPayload(eurAnalysis(), mockAlertContext) as any;
+
+      expect(slack.text).toBe('AWS-Kostenalarm: 5,50\u00a0€ über Budget');
+      expect(JSON.stringify(slack)).toContain('*Services mit den höchsten Kosten*');
+      expect(JSON.stringify(slack)).toContain('Service      Kosten  Anteil');
+      expect(JSON.stringify(slack)).toContain('📅 1. Jan. 2023 - 15. Jan. 2023 | KRITISCH');
+      const card = JSON.stringify(teams);
+      expect(card).toContain('AWS コストアラート: 予算超過 €5.50');
+      expect(card).toContain('"text":"コスト上位のサービス"');
+      expect(card).toContain('"text":"💡 推奨事項"');
+    });
+
+    it('should format resolved notifications in the locale and billing currency', () => {
+      const previousState = {
+        scope: 'account',
+        billingPeriod: '2023-01',
+        lastAlertLevel: 'WARNING' as const,
+        lastAlertedAt: '2023-01-10T00:00:00.000Z',
+        lastAlertedCost: 12,
+        resolved: false
+      };
+
+      const message = tool.formatResolvedMessage({ ...eurAnalysis(), totalCost: 8 }, 10, previousState, undefined, 'de');
+      const scoped = tool.formatResolvedMessage(jpyAnalysis(), 12000, previousState, { type: 'service', value: 'EC2' }, 'ja');
+
+      expect(message).toContain('✅ AWS-Kostenalarm aufgehoben');
+      expect(message).toContain('💰 Aktuelle Ausgaben: 8,00\u00a0€');
+      expect(message).toContain('🎯 Schwellenwert: 10,00\u00a0€');
+      expect(message).toContain('📉 Zuvor gemeldet: 12,00\u00a0€ (WARNUNG)');
+      expect(scoped).toContain('✅ AWS サービス予算アラート解除');
+      expect(scoped).toContain('🎯 サービス予算: ￥12,000');
+    });
+
+    it('should send resolved notifications in the email and chat locales', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      const previousState = {
+        scope: 'account',
+        billingPeriod: '2023-01',
+        lastAlertLevel: 'CRITICAL' as const,
+        lastAlertedAt: '2023-01-10T00:00:00.000Z',
+        lastAlertedCost: 12,
+        resolved: false
+      };
+
+      await createLocalizedTool({ channelLocales: { email: 'de' } }).sendResolvedAlert({ ...eurAnalysis(), totalCost: 8 }, 10, previousState, topicArn);
+
+      const input = (PublishCommand as unknown as jest.Mock).mock.calls[0][0];
+      expect(input.Subject).toBe('AWS-Kostenalarm aufgehoben: 8,00\u00a0€ im Budget');
+      expect(input.Message).toContain('Ihre AWS-Ausgaben liegen wieder unter dem konfigurierten Schwellenwert.');
+    });
+
+    it('should format quiet-hours digests in the channel locale and billing currency', () => {
+      const localizedTool = createLocalizedTool({ channelLocales: { sms: 'de' } });
+      const held = (alertLevel: 'WARNING' | 'CRITICAL', scope: string, spend: number): DeferredNotification => ({
+        id: scope,
+        channel: 'sms',
+        alertLevel,
+        scope,
+        title: 'title',
+        message: 'message',
+        spend,
+        threshold: 10,
+        currency: 'EUR',
+        deferredAt: '2023-01-15T23:00:00.000Z'
+      });
+
+      const digest = localizedTool.formatNotificationDigest([held('WARNING', 'account', 15.5), held('WARNING', 'service:EC2', 10)]);
+
+      expect(digest.title).toBe('AWS-Kostenübersicht: 2 WARNUNG-Alarme während der Ruhezeit');
+      expect(digest.body).toBe([
+        'WARNUNG account: 15,50\u00a0€ von 10,00\u00a0€',
+        'WARNUNG service:EC2: 10,00\u00a0€ von 10,00\u00a0€'
+      ].join('\n'));
+    });
+
+    it('should format spend digests in the locale and billing currency', () => {
+      const digest: SpendDigest = {
+        frequency: 'daily',
+        spendToDate: 15.5,
+        projectedMonthly: 31,
+        threshold: 50,
+        monthToDate: { start: '2023-01-01', end: '2023-01-15' },
+        period: { start: '2023-01-14', end: '2023-01-14' },
+        periodTotal: 2.5,
+        previousPeriodTotal: 2,
+        topMovers: [{ service: 'EC2-Instance', currentCost: 1.5, previousCost: 1, delta: 0.5, deltaPercent: 50 }],
+        topServices: [{ serviceName: 'EC2-Instance', cost: 10, percentage: 64.5 }],
+        currency: 'EUR'
+      };
+
+      const message = tool.formatSpendDigestMessage(digest, 'de');
+      const email = tool.formatSpendDigestEmail(digest, undefined, 'de');
+
+      expect(tool.formatSpendDigestSubject(digest, 'de')).toBe('Tägliche AWS-Kostenübersicht: 15,50\u00a0€ im laufenden Monat');
+      expect(message).toContain('💰 Laufender Monat: 15,50\u00a0€ von 50,00\u00a0€ Budget (31,0\u00a0% genutzt)');
+      expect(message).toContain('🗓️ Gestern (14. Jan. 2023): 2,50\u00a0€ (+0,50\u00a0€, +25,0\u00a0% ggü. Vortag)');
+      expect(message).toContain('• EC2-Instance: 1,50\u00a0€ ggü. 1,00\u00a0€ (+0,50\u00a0€, +50,0\u00a0%)');
+      expect(email.html).toContain('Prognose 31,00\u00a0€ für den Monat bei einem Budget von 50,00\u00a0€');
+      expect(tool.formatSpendDigestSubject(digest)).toBe('AWS Daily Spend Digest: €15.50 month-to-date');
+    });
+  });
+
+  describe('alert templates', () => {
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts';
+    const iosConfig = { platformApplicationArn: 'arn:aws:sns:us-east-1:123456789012:app/APNS/SpendMonitorApp', bundleId: 'com.example.spendmonitor' };
+
+    const createTemplatedTool = (alertTemplateConfig: AlertTemplateConfig) => {
+      const templatedTool = new AlertTool('us-east-1', { maxAttempts: 1 }, undefined, undefined, undefined, undefined, undefined, alertTemplateConfig);
+      (templatedTool as any).alertLogger = (tool as any).alertLogger;
+      (templatedTool as any).metrics = { recordAlertDelivery: jest.fn().mockResolvedValue(undefined) };
+      return templatedTool;
+    };
+
+    it('should expose formatted cost analysis and alert context variables', () => {
+      const data = tool.formatTemplateData(mockCostAnalysis, mockAlertContext);
+
+      expect(data.alert).toEqual(expect.objectContaining({
+        level: 'CRITICAL',
+        levelLabel: 'CRITICAL',
+        subject: 'AWS Spend Alert: $5.50 over budget',
+        isCritical: true,
+        overThreshold: true,
+        threshold: '$10.00',
+        exceedAmount: '$5.50',
+        budgetUsed: '155%'
+      }));
+      expect(data.cost).toEqual(expect.objectContaining({ total: '$15.50', projectedMonthly: '$31.00', currency: 'USD' }));
+      expect(data.cost.topServices[0]).toEqual({ rank: 1, name: 'EC2', cost: '$10.00', percentage: '64.5%' });
+      expect(data.ai).toBeUndefined();
+      expect(data.recommendations).toEqual([]);
+      expect(data.tips).toHaveLength(4);
+    });
+
+    it('should render AI analysis and recommendations in the channel locale', () => {
+      const enhancedAnalysis: EnhancedCostAnalysis = {
+        ...mockCostAnalysis,
+        currency: 'EUR',
+        aiAnalysis: { summary: 'EC2 grew', keyInsights: ['More instances'], confidenceScore: 0.85, analysisTimestamp: '2023-01-15T12:00:00.000Z', modelUsed: 'titan' },
+        recommendations: [{ category: 'RIGHTSIZING', service: 'EC2', description: 'Downsize', estimatedSavings: 4, priority: 'HIGH', implementationComplexity: 'EASY' }]
+      };
+      const template = '{{alert.levelLabel}}: {{cost.total}}{{#ai}} | {{summary}} ({{confidence}}){{/ai}}{{#recommendations}} | {{service}}: {{description}} {{estimatedSavings}}{{/recommendations}}';
+
+      expect(tool.formatTemplatedMessage(template, enhancedAnalysis, mockAlertContext, 'de'))
+        .toBe('KRITISCH: 15,50\u00a0€ | EC2 grew (85\u00a0%) | EC2: Downsize 4,00\u00a0€');
+    });
+
+    it('should publish templated email and SMS messages', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      const templatedTool = createTemplatedTool({
+        templates: { email: 'Spend {{cost.total}} of {{alert.threshold}}', sms: '{{alert.levelLabel}} {{cost.total}}' }
+      });
+
+      await templatedTool.sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn);
+
+      const input = (PublishCommand as unknown as jest.Mock).mock.calls[0][0];
+      expect(input.MessageStructure).toBe('json');
+      expect(JSON.parse(input.Message)).toEqual({
+        default: 'Spend $15.50 of $10.00',
+        email: 'Spend $15.50 of $10.00',
+        sms: 'CRITICAL $15.50'
+      });
+      expect(input.Subject).toBe('AWS Spend Alert: $5.50 over budget');
+    });
+
+    it('should apply push title and body templates to the iOS payload', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      const templatedTool = createTemplatedTool({ templates: { pushTitle: 'Budget {{alert.levelLabel}}', pushBody: '{{cost.topService.name}} leads at {{cost.topService.cost}}' } });
+
+      await templatedTool.sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn, iosConfig);
+
+      const message = JSON.parse((PublishCommand as unknown as jest.Mock).mock.calls[0][0].Message);
+      const payload = JSON.parse(message.APNS);
+      expect(payload.aps.alert.title).toBe('Budget CRITICAL');
+      expect(payload.aps.alert.body).toBe('EC2 leads at $10.00');
+      expect(payload.aps.alert.subtitle).toBe('Critical Budget Exceeded');
+      expect(message.email).toContain('🚨 AWS Spend Alert - CRITICAL');
+    });
+
+    it('should send the chat template as a plain Slack and Teams message', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      const templatedTool = createTemplatedTool({ templates: { chat: '{{#cost.topServices}}{{rank}}. {{name}}\n{{/cost.topServices}}' } });
+      const sendWebhookAlerts = jest.fn().mockResolvedValue(undefined);
+      (templatedTool as any).sendWebhookAlerts = sendWebhookAlerts;
+
+      await templatedTool.sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn);
+
+      const payloads = sendWebhookAlerts.mock.calls[0][1];
+      expect(payloads.slack()).toEqual(expect.objectContaining({ text: 'AWS Spend Alert: $5.50 over budget' }));
+      expect(payloads.slack().blocks[1].text.text).toBe('1. EC2\n2. S3\n3. Lambda\n');
+      expect(JSON.stringify(payloads.teams())).toContain('"text":"3. Lambda"');
+    });
+
+    it('should fall back to the built-in message when a template cannot be rendered', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      const templatedTool = createTemplatedTool({ templates: { email: '{{#ai}}unclosed' } });
+
+      await templatedTool.sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn);
+
+      const input = (PublishCommand as unknown as jest.Mock).mock.calls[0][0];
+      expect(input.Message).toContain('🚨 AWS Spend Alert - CRITICAL');
+      expect((tool as any).alertLogger.warn).toHaveBeenCalledWith(
+        'Alert template could not be rendered, using built-in message',
+        expect.objectContaining({ template: 'email', error: 'Invalid alert template: unclosed section {{#ai}}' })
+      );
+    });
+
+    it('should load templates from a file source with inline templates taking precedence', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'alert-templates-'));
+      const source = path.join(dir, 'templates.json');
+      await fs.writeFile(source, JSON.stringify({ email: 'From file {{cost.total}}', sms: 'File SMS' }));
+
+      try {
+        await createTemplatedTool({ source, templates: { sms: 'Inline SMS' } }).sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+
+      const message = JSON.parse((PublishCommand as unknown as jest.Mock).mock.calls[0][0].Message);
+      expect(message.email).toBe('From file $15.50');
+      expect(message.sms).toBe('Inline SMS');
+    });
+
+    it('should use inline templates when the template source cannot be loaded', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+      const templatedTool = createTemplatedTool({ source: '/nonexistent/alert-templates.json', templates: { sms: 'Inline SMS' } });
+
+      await templatedTool.sendSpendAlert(mockCostAnalysis, mockAlertContext, topicArn);
+
+      const message = JSON.parse((PublishCommand as unknown as jest.Mock).mock.calls[0][0].Message);
+      expect(message.email).toContain('🚨 AWS Spend Alert - CRITICAL');
+      expect(message.sms).toBe('Inline SMS');
+      expect((tool as any).alertLogger.warn).toHaveBeenCalledWith(
+        'Alert template source unavailable, using inline and built-in templates',
+        expect.objectContaining({ source: '/nonexistent/alert-templates.json' })
+      );
+    });
+  });
+
+  describe('cost comparisons', () => {
+    const comparisons = {
+      sameDayLastMonth: {
+        snapshotDate: '2022-12-31',
+        previousTotal: 12.00,
+        totalDelta: 3.50,
+        totalDeltaPercent: 29.2,
+        services: [
+          { service: 'EC2', currentCost: 10.00, previousCost: 6.00, delta: 4.00, deltaPercent: 66.7 },
+          { service: 'Lambda', currentCost: 2.00, previousCost: 0, delta: 2.00 },
+          { service: 'S3', currentCost: 3.50, previousCost: 6.00, delta: -2.50, deltaPercent: -41.7 }
+        ]
+      },
+      monthOverMonth: {
+        snapshotDate: '2022-12-31',
+        previousTotal: 40.00,
+        totalDelta: -24.50,
+        totalDeltaPercent: -61.3,
+        services: []
+      }
+    };
+
+    it('should show month-over-month and per-service deltas in the alert message', () => {
+      const message = tool.formatAlertMessage({ ...mockCostAnalysis, comparisons }, mockAlertContext);
+
+      expect(message).toContain('Compared to Last Month:');
+      expect(message).toContain('Same day last month (2022-12-31): $12.00 (+$3.50, +29.2%)');
+      expect(message).toContain('Last month total (2022-12-31): $40.00 (-$24.50, -61.3%)');
+      expect(message).toContain('• EC2: $10.00 vs $6.00 (+$4.00, +66.7%)');
+      expect(message).toContain('• Lambda: $2.00 vs $0.00 (+$2.00, new)');
+      expect(message).toContain('• S3: $3.50 vs $6.00 (-$2.50, -41.7%)');
+    });
+
+    it('should omit the section without stored snapshots', () => {
+      expect(tool.formatAlertMessage(mockCostAnalysis, mockAlertContext)).not.toContain('Compared to Last Month');
+    });
+  });
+
+  describe('cost metrics', () => {
+    it('should show the cost metric and comparison totals in the alert message', () => {
+      const message = tool.formatAlertMessage(
+        { ...mockCostAnalysis, metric: 'AmortizedCost', metricTotals: { AmortizedCost: 15.50, UnblendedCost: 22.75 } },
+        mockAlertContext
+      );
+
+      expect(message).toContain('Cost Metric: Amortized');
+      expect(message).toContain('Other Views: Unblended $22.75');
+    });
+
+    it('should omit metric details when the metric is unknown', () => {
+      expect(tool.formatAlertMessage(mockCostAnalysis, mockAlertContext)).not.toContain('Cost Metric');
+    });
+  });
+
+  describe('service budget alerts', () => {
+    let serviceContext: AlertContext;
+
+    beforeEach(() => {
+      serviceContext = {
+        ...mockAlertContext,
+        threshold: 8.00,
+        exceedAmount: 2.00,
+        percentageOver: 25,
+        alertLevel: 'WARNING',
+        scope: { type: 'service', value: 'EC2' }
+      };
+    });
+
+    it('should format service budget wording in the alert message', () => {
+      const message = tool.formatAlertMessage(mockCostAnalysis, serviceContext);
+
+      expect(message).toContain('AWS Service Budget Alert - WARNING');
+      expect(message).toContain('Your EC2 spending has exceeded its service budget.');
+      expect(message).toContain('EC2 Spending: $10.00');
+      expect(message).toContain('Service Budget: $8.00');
+      expect(message).toContain(`Account Total: $${mockCostAnalysis.totalCost.toFixed(2)}`);
+      expect(message).not.toContain('Top Cost-Driving Services');
+    });
+
+    it('should format service budget wording in SMS and iOS payload', () => {
+      expect(tool.formatSMSMessage(mockCostAnalysis, serviceContext)).toBe(
+        `AWS Service Budget Alert: EC2 $10.00 spent (over $8 budget by $2.00). Account total: $${mockCostAnalysis.totalCost.toFixed(2)}`
+      );
+
+      const iosPayload = tool.formatIOSPayload(mockCostAnalysis, serviceContext);
+      expect(iosPayload.aps.alert.title).toBe('AWS Service Budget Alert');
+      expect(iosPayload.aps.alert.body).toBe('EC2: $10.00 spent - $2.00 over service budget');
+    });
+
+    it('should format tag budget wording for grouping scopes', () => {
+      const tagAnalysis = {
+        ...mockCostAnalysis,
+        breakdowns: { 'TAG:team': { grouping: { type: 'TAG' as const, tagKey: 'team' }, costs: { platform: 10.00 } } }
+      };
+      const tagContext: AlertContext = {
+        ...serviceContext,
+        scope: { type: 'group', grouping: { type: 'TAG', tagKey: 'team' }, value: 'platform' }
+      };
+
+      const message = tool.formatAlertMessage(tagAnalysis, tagContext);
+
+      expect(message).toContain('AWS Tag Budget Alert - WARNING');
+      expect(message).toContain('Your team:platform spending has exceeded its tag budget.');
+      expect(message).toContain('team:platform Spending: $10.00');
+      expect(message).toContain('Tag Budget: $8.00');
+      expect(tool.formatIOSPayload(tagAnalysis, tagContext).aps.alert.title).toBe('AWS Tag Budget Alert');
+    });
+
+    it('should tag service alerts with the alert scope', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+
+      await tool.sendSpendAlert(mockCostAnalysis, serviceContext, 'arn:aws:sns:us-east-1:123456789012:spend-alerts');
+
+      expect(PublishCommand).toHaveBeenCalledWith(expect.objectContaining({
+        Subject: 'AWS Service Budget Alert: EC2 $2.00 over budget',
+        MessageAttributes: expect.objectContaining({
+          alert_scope: { DataType: 'String', StringValue: 'service:EC2' }
+        })
+      }));
+    });
+  });
+
+  describe('sendResolvedAlert', () => {
+    const previousState = {
+      scope: 'account',
+      billingPeriod: '2023-01',
+      lastAlertLevel: 'WARNING' as const,
+      lastAlertedAt: '2023-01-10T00:00:00.000Z',
+      lastAlertedCost: 12.00,
+      resolved: false
+    };
+
+    it('should send resolved notification', async () => {
+      mockSNSClient.send.mockResolvedValue({ MessageId: 'test-message-id' });
+
+      await tool.sendResolvedAlert(
+        { ...mockCostAnalysis, totalCost: 8.00 },
+        10.00,
+        previousState,
+        'arn:aws:sns:us-east-1:123456789012:spend-alerts'
+      );
+
+      expect(mockSNSClient.send).toHaveBeenCalledWith(expect.any(PublishCommand));
+      expect((tool as any).alertLogger.info).toHaveBeenCalledWith(
+        'Spend alert resolved notification sent',
+        expect.objectContaining({ totalCost: 8.00, previousAlertLevel: 'WARNING' })
+      );
+    });
+
+    it('should format resolved message with previous alert details', () => {
+      const message = tool.formatResolvedMessage({ ...mockCostAnalysis, totalCost: 8.00 }, 10.00, previousState);
+
+      expect(message).toContain('AWS Spend Alert Resolved');
+      expect(message).toContain('$8.00');
+      expect(message).toContain('$12.00 (WARNING)');
+    });
+
+    it('should format service resolved message', () => {
+      const message = tool.formatResolvedMessage(
+        mockCostAnalysis,
+        12.00,
+        { ...previousState, scope: 'service:EC2' },
+        { type: 'service', value: 'EC2' }
+      );
+
+      expect(message).toContain('AWS Service Budget Alert Resolved');
+      expect(message).toContain('Your EC2 spending is back under its service budget.');
+      expect(message).toContain('EC2 Spending: $10.00');
+      expect(message).toContain('Service Budget: $12.00');
+    });
+
+    it('should surface delivery failures', async () => {
+      mockSNSClient.send.mockRejectedValue(new Error('SNS unavailable'));
+
+      await expect(tool.sendResolvedAlert(
+        mockCostAnalysis,
+        10.00,
+        previousState,
+        'arn:aws:sns:us-east-1:123456789012:spend-alerts'
+      )).rejects.toThrow('Resolved notification delivery failed: SNS unavailable');
+    });
+  });
+
   describe('AI-Enhanced Alert Formatting', () => {
     let mockEnhancedCostAnalysis: any;
 
@@ -0,0 +1,183 @@
+import { BedrockRuntimeClient, ConverseCommand, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import {
+  DEFAULT_BEDROCK_PRICING,
+  estimateBedrockCost,
+  getBaseModelId,
+  getBedrockModelFamily,
+  getBedrockModelPricing,
+  getBedrockModelResourceArns,
+  invokeBedrockModel
+} from '../src/utils/bedrock-models';
+
+jest.mock('@aws-sdk/client-bedrock-runtime');
+
+describe('bedrock models', () => {
+  const config = { maxTokens: 512, temperature: 0.2, topP: 0.9 };
+  let client: { send: jest.Mock };
+
+  const encode = (body: unknown) => ({ body: new TextEncoder().encode(JSON.stringify(body)) });
+  const requestBody = () => JSON.parse((InvokeModelCommand as unknown as jest.Mock).mock.calls[0][0].body);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = { send: jest.fn() };
+  });
+
+  describe('getBedrockModelFamily', () => {
+    it('should choose the family by model ID prefix', () => {
+      expect(getBedrockModelFamily('amazon.titan-text-express-v1')).toBe('titan');
+      expect(getBedrockModelFamily('anthropic.claude-3-haiku-20240307-v1:0')).toBe('anthropic');
+      expect(getBedrockModelFamily('us.anthropic.claude-3-5-haiku-20241022-v1:0')).toBe('anthropic');
+      expect(getBedrockModelFamily('meta.llama3-8b-instruct-v1:0')).toBe('llama');
+      expect(getBedrockModelFamily('mistral.mistral-7b-instruct-v0:2')).toBe('mistral');
+      expect(getBedrockModelFamily('amazon.nova-lite-v1:0')).toBe('converse');
+    });
+
+    it('should strip inference profile prefixes and ARN paths', () => {
+      expect(getBaseModelId('eu.anthropic.claude-3-haiku-20240307-v1:0')).toBe('anthropic.claude-3-haiku-20240307-v1:0');
+      expect(getBaseModelId('arn:aws:bedrock:us-east-1::foundation-model/meta.llama3-8b-instruct-v1:0')).toBe('meta.llama3-8b-instruct-v1:0');
+    });
+
+    it('should grant inference profiles together with their base model in the profile regions', () => {
+      expect(getBedrockModelResourceArns('amazon.titan-text-lite-v1', 'us-east-1', '123456789012'))
+        .toEqual(['arn:aws:bedrock:us-east-1::foundation-model/amazon.titan-text-lite-v1']);
+      expect(getBedrockModelResourceArns('us.anthropic.claude-sonnet-4-20250514-v1:0', 'us-east-1', '123456789012')).toEqual([
+        'arn:aws:bedrock:us-east-1:123456789012:inference-profile/us.anthropic.claude-sonnet-4-20250514-v1:0',
+        'arn:aws:bedrock:us-*::foundation-model/anthropic.claude-sonnet-4-20250514-v1:0'
+      ]);
+      expect(getBedrockModelResourceArns('apac.anthropic.claude-3-haiku-20240307-v1:0', 'ap-southeast-1', '123456789012')[1])
+        .toBe('arn:aws:bedrock:ap-*::foundation-model/anthropic.claude-3-haiku-20240307-v1:0');
+    });
+  });
+
+  describe('invokeBedrockModel', () => {
+    it('should use the Titan body and report token counts', async () => {
+      client.send.mockResolvedValue(encode({ inputTextTokenCount: 40, results: [{ outputText: 'Titan says hi', tokenCount: 5 }] }));
+
+      const response = await invokeBedrockModel(client as unknown as BedrockRuntimeClient, 'amazon.titan-text-lite-v1', 'Hi', config);
+
+      expect(response).toEqual({ text: 'Titan says hi', inputTokens: 40, outputTokens: 5 });
+      expect(InvokeModelCommand).toHaveBeenCalledWith(expect.objectContaining({ modelId: 'amazon.titan-text-lite-v1', contentType: 'application/json' }));
+      expect(requestBody()).toEqual({ inputText: 'Hi', textGenerationConfig: { maxTokenCount: 512, temperature: 0.2, topP: 0.9 } });
+    });
+
+    it('should use the Anthropic Messages body', async () => {
+      client.send.mockResolvedValue(encode({
+        content: [{ type: 'text', text: '{"summary":' }, { type: 'text', text: '"ok"}' }],
+        usage: { input_tokens: 30, output_tokens: 8 }
+      }));
+
+      const response = await invokeBedrockModel(client as unknown as BedrockRuntimeClient, 'anthropic.claude-3-haiku-20240307-v1:0', 'Hi', config);
+
+      expect(response).toEqual({ text: '{"summary":"ok"}', inputTokens: 30, outputTokens: 8 });
+      expect(requestBody()).toEqual({
+        anthropic_version: 'bedrock-2023-05-31',
+        max_tokens: 512,
+        temperature: 0.2,
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }]
+      });
+    });
+
+    it('should use the Llama 3 prompt format', async () => {
+      client.send.mockResolvedValue(encode({ generation: 'Llama output', prompt_token_count: 20, generation_token_count: 3 }));
+
+      const response = await invokeBedrockModel(client as unknown as BedrockRuntimeClient, 'meta.llama3-8b-instruct-v1:0', 'Hi', config);
+
+      expect(response).toEqual({ text: 'Llama output', inputTokens: 20, outputTokens: 3 });
+      expect(requestBody()).toEqual({
+        prompt: '<|begin_of_text|><|start_header_id|>user<|end_header_id|>\n\nHi<|eot_id|><|start_header_id|>assistant<|end_header_id|>\n\n',
+        max_gen_len: 512,
+        temperature: 0.2,
+        top_p: 0.9
+      });
+    });
+
+    it('should use the Mistral instruction format', async () => {
+      client.send.mockResolvedValue(encode({ outputs: [{ text: 'Mistral output', stop_reason: 'stop' }] }));
+
+      const response = await invokeBedrockModel(client as unknown as BedrockRuntimeClient, 'mistral.mistral-7b-instruct-v0:2', 'Hi', config);
+
+      expect(response).toEqual({ text: 'Mistral output' });
+      expect(requestBody()).toEqual({ prompt: '<s>[INST] Hi [/INST]', max_tokens: 512, temperature: 0.2, top_p: 0.9 });
+    });
+
+    it('should use the Mistral chat format for Mistral Large 2407 and later', async () => {
+      client.send.mockResolvedValue(encode({
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Large output' }, stop_reason: 'stop' }],
+        usage: { prompt_tokens: 9, completion_tokens: 3 }
+      }));
+
+      const response = await invokeBedrockModel(client as unknown as BedrockRuntimeClient, 'us.mistral.mistral-large-2407-v1:0', 'Hi', config);
+
+      expect(response).toEqual({ text: 'Large output', inputTokens: 9, outputTokens: 3 });
+      expect(requestBody()).toEqual({ messages: [{ role: 'user', content: 'Hi' }], max_tokens: 512, temperature: 0.2, top_p: 0.9 });
+
+      await invokeBedrockModel(client as unknown as BedrockRuntimeClient, 'mistral.mistral-large-2402-v1:0', 'Hi', config);
+      expect(JSON.parse((InvokeModelCommand as unknown as jest.Mock).mock.calls[1][0].body)).toHaveProperty('prompt', '<s>[INST] Hi [/INST]');
+    });
+
+    it('should call the Converse API for models without an adapter or when requested', async () => {
+      client.send.mockResolvedValue({
+        output: { message: { role: 'assistant', content: [{ text: 'Nova output' }] } },
+        usage: { inputTokens: 12, outputTokens: 4, totalTokens: 16 }
+      });
+
+      const response = await invokeBedrockModel(client as unknown as BedrockRuntimeClient, 'amazon.nova-lite-v1:0', 'Hi', config);
+      await invokeBedrockModel(client as unknown as BedrockRuntimeClient, 'anthropic.claude-3-haiku-20240307-v1:0', 'Hi', config, true);
+
+      expect(response).toEqual({ text: 'Nova output', inputTokens: 12, outputTokens: 4 });
+      expect(ConverseCommand).toHaveBeenCalledTimes(2);
+      expect(ConverseCommand).toHaveBeenCalledWith({
+        modelId: 'amazon.nova-lite-v1:0',
+        messages: [{ role: 'user', content: [{ text: 'Hi' }] }],
+        inferenceConfig: { maxTokens: 512, temperature: 0.2, topP: 0.9 }
+      });
+      // Claude models reject temperature together with top_p
+      expect(ConverseCommand).toHaveBeenCalledWith(expect.objectContaining({
+        inferenceConfig: { maxTokens: 512, temperature: 0.2 }
+      }));
+      expect(InvokeModelCommand).not.toHaveBeenCalled();
+    });
+
+    it('should reject empty and unrecognised responses', async () => {
+      client.send.mockResolvedValueOnce({});
+      await expect(invokeBedrockModel(client as unknown as BedrockRuntimeClient, 'amazon.titan-text-lite-v1', 'Hi', config))
+        .rejects.toThrow('Empty response from Bedrock model');
+
+      client.send.mockResolvedValueOnce(encode({ results: [{ outputText: 'Titan body' }] }));
+      await expect(invokeBedrockModel(client as unknown as BedrockRuntimeClient, 'anthropic.claude-v2', 'Hi', config))
+        .rejects.toThrow('Invalid response format from Bedrock model');
+    });
+  });
+
+  describe('pricing', () => {
+    it('should use the most specific pricing entry for the model', () => {
+      expect(getBedrockModelPricing('anthropic.claude-3-5-haiku-20241022-v1:0')).toEqual({ inputPer1K: 0.0008, outputPer1K: 0.004 });
+      expect(getBedrockModelPricing('us.anthropic.claude-3-haiku-20240307-v1:0')).toEqual({ inputPer1K: 0.00025, outputPer1K: 0.00125 });
+      expect(getBedrockModelPricing('cohere.command-r-v1:0')).toEqual(DEFAULT_BEDROCK_PRICING);
+      expect(getBedrockModelPricing('global.anthropic.claude-opus-4-5-20251101-v1:0')).toEqual({ inputPer1K: 0.005, outputPer1K: 0.025 });
+      expect(getBedrockModelPricing('anthropic.claude-opus-4-20250514-v1:0')).toEqual({ inputPer1K: 0.015, outputPer1K: 0.075 });
+      expect(getBedrockModelPricing('us.anthropic.claude-haiku-4-5-20251001-v1:0')).toEqual({ inputPer1K: 0.001, outputPer1K: 0.005 });
+    });
+
+    it('should prefer configured pricing overrides', () => {
+      const overrides = {
+        'amazon.titan-text-express-v1': { inputPer1K: 0.0001, outputPer1K: 0.0003 },
+        'cohere.command-r': { inputPer1K: 0.0005, outputPer1K: 0.0015 }
+      };
+
+      expect(getBedrockModelPricing('amazon.titan-text-express-v1', overrides)).toEqual({ inputPer1K: 0.0001, outputPer1K: 0.0003 });
+      expect(getBedrockModelPricing('cohere.command-r-v1:0', overrides)).toEqual({ inputPer1K: 0.0005, outputPer1K: 0.0015 });
+      expect(getBedrockModelPricing('amazon.titan-text-lite-v1', overrides)).toEqual(getBedrockModelPricing('amazon.titan-text-lite-v1'));
+      expect(estimateBedrockCost('cohere.command-r-v1:0', 'ignored', { text: 'ignored', inputTokens: 2000, outputTokens: 1000 }, overrides))
+        .toBe(0.0025);
+    });
+
+    it('should price reported token usage, estimating tokens from length otherwise', () => {
+      expect(estimateBedrockCost('anthropic.claude-3-sonnet-20240229-v1:0', 'ignored', { text: 'ignored', inputTokens: 1000, outputTokens: 500 }))
+        .toBe(0.0105);
+      expect(estimateBedrockCost('amazon.titan-text-express-v1', 'x'.repeat(4000), { text: 'y'.repeat(2000) }))
+        .toBe(0.0005);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { DynamoDBClient, GetItemCommand, PutItemCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBBedrockSpendLedger,
+  InMemoryBedrockSpendLedger,
+  createBedrockInvocationRecord,
+  createBedrockSpendLedger,
+  createEmptySpendSummary
+} from '../src/utils/bedrock-spend-ledger';
+import { BedrockConfig } from '../src/types';
+
+jest.mock('@aws-sdk/client-dynamodb', () => ({
+  DynamoDBClient: jest.fn().mockImplementation(() => ({
+    send: jest.fn()
+  })),
+  PutItemCommand: jest.fn(),
+  GetItemCommand: jest.fn(),
+  UpdateItemCommand: jest.fn()
+}));
+
+jest.mock('@aws-sdk/util-dynamodb', () => ({
+  marshall: jest.fn((obj) => obj),
+  unmarshall: jest.fn((obj) => obj)
+}));
+
+describe('Bedrock spend ledger', () => {
+  const now = new Date('2024-01-31T23:30:00.000Z');
+  const record = createBedrockInvocationRecord('amazon.titan-text-express-v1', 'spending_analysis', 1200, 300, 0.00042, now);
+
+  describe('createBedrockInvocationRecord', () => {
+    it('should charge the invocation to its UTC billing month', () => {
+      expect(record).toEqual({
+        month: '2024-01',
+        timestamp: '2024-01-31T23:30:00.000Z',
+        modelId: 'amazon.titan-text-express-v1',
+        purpose: 'spending_analysis',
+        inputTokens: 1200,
+        outputTokens: 300,
+        cost: 0.00042
+      });
+    });
+  });
+
+  describe('InMemoryBedrockSpendLedger', () => {
+    it('should total invocations per month', async () => {
+      const ledger = new InMemoryBedrockSpendLedger();
+
+      await ledger.recordInvocation(record);
+      const summary = await ledger.recordInvocation({ ...record, purpose: 'anomaly_detection', cost: 0.001 });
+      await ledger.recordInvocation({ ...record, month: '2024-02', cost: 5 });
+
+      expect(summary).toEqual({ month: '2024-01', totalCost: 0.00142, inputTokens: 2400, outputTokens: 600, invocationCount: 2 });
+      expect(await ledger.getMonthlySpend('2023-12')).toEqual(createEmptySpendSummary('2023-12'));
+      expect(ledger.getInvocations().map(invocation => invocation.purpose))
+        .toEqual(['spending_analysis', 'anomaly_detection', 'spending_analysis']);
+
+      ledger.clear();
+      expect((await ledger.getMonthlySpend('2024-01')).invocationCount).toBe(0);
+    });
+  });
+
+  describe('DynamoDBBedrockSpendLedger', () => {
+    let mockSend: jest.Mock;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockSend = jest.fn();
+      (DynamoDBClient as jest.Mock).mockImplementation(() => ({ send: mockSend }));
+    });
+
+    it('should store the invocation and atomically add it to the monthly totals', async () => {
+      mockSend
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({
+          Attributes: { month: '2024-01', entryId: 'TOTAL', totalCost: 1.25, inputTokens: 50000, outputTokens: 9000, invocationCount: 40 }
+        });
+      const ledger = new DynamoDBBedrockSpendLedger('bedrock-spend', 'us-east-1');
+
+      const summary = await ledger.recordInvocation(record);
+
+      expect(summary).toEqual({ month: '2024-01', totalCost: 1.25, inputTokens: 50000, outputTokens: 9000, invocationCount: 40 });
+      expect(PutItemCommand).toHaveBeenCalledWith({
+        TableName: 'bedrock-spend',
+        Item: expect.objectContaining({
+          ...record,
+          entryId: expect.stringMatching(/^2024-01-31T23:30:00.000Z#[0-9a-f]{8}$/),
+          expiresAt: Math.floor(now.getTime() / 1000) + 400 * 24 * 60 * 60
+        })
+      });
+      expect(UpdateItemCommand).toHaveBeenCalledWith(expect.objectContaining({
+        TableName: 'bedrock-spend',
+        Key: { month: '2024-01', entryId: 'TOTAL' },
+        UpdateExpression: 'ADD totalCost :cost, inputTokens :inputTokens, outputTokens :outputTokens, invocationCount :one',
+        ExpressionAttributeValues: { ':cost': 0.00042, ':inputTokens': 1200, ':outputTokens': 300, ':one': 1 }
+      }));
+    });
+
+    it('should read the monthly totals with a consistent read', async () => {
+      mockSend.mockResolvedValue({ Item: { month: '2024-01', entryId: 'TOTAL', totalCost: 2.5, inputTokens: 10, outputTokens: 5, invocationCount: 3 } });
+      const ledger = new DynamoDBBedrockSpendLedger('bedrock-spend', 'us-east-1');
+
+      expect(await ledger.getMonthlySpend('2024-01')).toEqual({
+        month: '2024-01',
+        totalCost: 2.5,
+        inputTokens: 10,
+        outputTokens: 5,
+        invocationCount: 3
+      });
+      expect(GetItemCommand).toHaveBeenCalledWith({
+        TableName: 'bedrock-spend',
+        Key: { month: '2024-01', entryId: 'TOTAL' },
+        ConsistentRead: true
+      });
+    });
+
+    it('should report an empty month when no totals exist', async () => {
+      mockSend.mockResolvedValue({});
+      const ledger = new DynamoDBBedrockSpendLedger('bedrock-spend', 'us-east-1');
+
+      expect(await ledger.getMonthlySpend('2024-02')).toEqual(createEmptySpendSummary('2024-02'));
+    });
+  });
+
+  describe('createBedrockSpendLedger', () => {
+    const bedrockConfig: BedrockConfig = {
+      enabled: true,
+      modelId: 'amazon.titan-text-express-v1',
+      region: 'us-east-1',
+      maxTokens: 1000,
+      temperature: 0.7,
+      costThreshold: 10,
+      rateLimitPerMinute: 10,
+      cacheResults: true,
+      cacheTTLMinutes: 60,
+      fallbackOnError: true
+    };
+
+    it('should use DynamoDB when a ledger table is configured', () => {
+      expect(createBedrockSpendLedger('us-east-1', { ...bedrockConfig, spendLedgerTableName: 'bedrock-spend' }))
+        .toBeInstanceOf(DynamoDBBedrockSpendLedger);
+    });
+
+    it('should fall back to the in-memory ledger', () => {
+      expect(createBedrockSpendLedger('us-east-1', bedrockConfig)).toBeInstanceOf(InMemoryBedrockSpendLedger);
+    });
+  });
+});
@@ -415,7 +415,12 @@ describe('ConfigValidator', () => {
         'anthropic.claude-v2:1',
         'ai21.j2-ultra-v1',
         'cohere.command-text-v14',
-        'meta.llama2-13b-chat-v1'
+        'meta.llama2-13b-chat-v1',
+        'anthropic.claude-3-haiku-20240307-v1:0',
+        'us.anthropic.claude-3-5-haiku-20241022-v1:0',
+        'meta.llama3-8b-instruct-v1:0',
+        'mistral.mistral-7b-instruct-v0:2',
+        'amazon.nova-lite-v1:0'
       ];
 
       for (const modelId of validModelIds) {
@@ -470,6 +475,63 @@ describe('ConfigValidator', () => {
       }
     });
 
+    it('should detect invalid structured output repair settings', async () => {
+      const config: SpendMonitorConfigValidation = {
+        spendThreshold: 10,
+        snsTopicArn: 'arn:aws:sns:us-east-1:123456789012:spend-monitor-alerts',
+        region: 'us-east-1',
+        bedrockConfig: {
+          enabled: true,
+          modelId: 'amazon.titan-text-express-v1',
+          region: 'us-east-1',
+          maxTokens: 1000,
+          temperature: 0.7,
+          costThreshold: 50,
+          rateLimitPerMinute: 10,
+          cacheResults: true,
+          cacheTTLMinutes: 60,
+          fallbackOnError: true,
+          maxRepairAttempts: 1.5,
+          repairBudget: -1
+        }
+      };
+
+      const result = await validator.validateConfiguration(config, { skipAwsValidation: true });
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Bedrock maxRepairAttempts must be a non-negative integer');
+      expect(result.errors).toContain('Bedrock repairBudget must be a non-negative number');
+    });
+
+    it('should detect invalid model pricing overrides', async () => {
+      const config: SpendMonitorConfigValidation = {
+        spendThreshold: 10,
+        snsTopicArn: 'arn:aws:sns:us-east-1:123456789012:spend-monitor-alerts',
+        region: 'us-east-1',
+        bedrockConfig: {
+          enabled: true,
+          modelId: 'amazon.titan-text-express-v1',
+          region: 'us-east-1',
+          maxTokens: 1000,
+          temperature: 0.7,
+          costThreshold: 50,
+          rateLimitPerMinute: 10,
+          cacheResults: true,
+          cacheTTLMinutes: 60,
+          fallbackOnError: true,
+          modelPricing: {
+            'amazon.titan-text-express': { inputPer1K: 0.0002, outputPer1K: 0.0006 },
+            'anthropic.claude-3-haiku': { inputPer1K: -0.00025, outputPer1K: 0.00125 }
+          }
+        }
+      };
+
+      const result = await validator.validateConfiguration(config, { skipAwsValidation: true });
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        'Bedrock modelPricing for anthropic.claude-3-haiku must have non-negative inputPer1K and outputPer1K'
+      ]);
+    });
+
     it('should validate Bedrock model access when AWS validation is enabled', async () => {
       const config: SpendMonitorConfigValidation = {
         spendThreshold: 10,
@@ -547,6 +609,54 @@ describe('ConfigValidator', () => {
       expect(result.errors).toContain('Bedrock access denied - check IAM permissions for InvokeModel action');
     });
   });
+
+  describe('Alert Routing Rules Validation', () => {
+    const baseConfig: SpendMonitorConfigValidation = {
+      spendThreshold: 10,
+      snsTopicArn: 'arn:aws:sns:us-east-1:123456789012:spend-monitor-alerts',
+      region: 'us-east-1'
+    };
+
+    it('should summarise valid routing rules', async () => {
+      const result = await validator.validateConfiguration({
+        ...baseConfig,
+        alertRoutingRules: [
+          { name: 'critical-pager', alertLevels: ['CRITICAL'], channels: ['sms', 'ios', 'incident'] },
+          { name: 'warnings-to-email', alertLevels: ['WARNING'], channels: ['email'] }
+        ]
+      }, { skipAwsValidation: true });
+
+      expect(result.isValid).toBe(true);
+      expect(result.info).toContain('Alert routing rules: critical-pager → sms+ios+incident, warnings-to-email → email');
+      expect(result.info).toContain('Alerts not matched by a routing rule use their threshold tier channels');
+    });
+
+    it('should report invalid routing rules as errors', async () => {
+      const result = await validator.validateConfiguration({
+        ...baseConfig,
+        alertRoutingRules: [
+          { name: 'night', timeOfDay: { start: '25:00', end: '08:00' }, channels: ['pager' as any] }
+        ]
+      }, { skipAwsValidation: true });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Alert routing: alertRoutingRules[0].timeOfDay start and end must be HH:MM times');
+      expect(result.errors).toContain('Alert routing: alertRoutingRules[0].channels contains unsupported channels: pager');
+    });
+
+    it('should warn about rules shadowed by a catch-all rule', async () => {
+      const result = await validator.validateConfiguration({
+        ...baseConfig,
+        alertRoutingRules: [
+          { name: 'everything', channels: ['slack'] },
+          { name: 'critical-pager', alertLevels: ['CRITICAL'], channels: ['incident'] }
+        ]
+      }, { skipAwsValidation: true });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toContain("Alert routing rule 'everything' matches every alert, so later rules never apply: critical-pager");
+    });
+  });
 });
 
 describe('validateEnvironmentVariables', () => {
@@ -0,0 +1,82 @@
+import {
+  UNTAGGED_VALUE,
+  getCostGroupingKey,
+  getScopedSpend,
+  mergeCostGroupings,
+  parseGroupValue,
+  parseScopedBudgets,
+  toGroupDefinition
+} from '../src/utils/cost-groupings';
+import { CostAnalysis } from '../src/types';
+
+describe('cost groupings', () => {
+  const costAnalysis: CostAnalysis = {
+    totalCost: 100,
+    serviceBreakdown: { 'Amazon EC2': 60, 'Amazon S3': 40 },
+    breakdowns: {
+      'TAG:team': { grouping: { type: 'TAG', tagKey: 'team' }, costs: { platform: 70, data: 30 } }
+    },
+    period: { start: '2024-01-01T00:00:00.000Z', end: '2024-01-15T23:59:59.999Z' },
+    projectedMonthly: 200,
+    currency: 'USD',
+    lastUpdated: '2024-01-15T10:00:00.000Z'
+  };
+
+  describe('getCostGroupingKey', () => {
+    it('should include the tag key for TAG groupings', () => {
+      expect(getCostGroupingKey({ type: 'TAG', tagKey: 'team' })).toBe('TAG:team');
+      expect(getCostGroupingKey({ type: 'LINKED_ACCOUNT' })).toBe('LINKED_ACCOUNT');
+    });
+  });
+
+  describe('toGroupDefinition', () => {
+    it('should map groupings to Cost Explorer group definitions', () => {
+      expect(toGroupDefinition({ type: 'TAG', tagKey: 'env' })).toEqual({ Type: 'TAG', Key: 'env' });
+      expect(toGroupDefinition({ type: 'USAGE_TYPE' })).toEqual({ Type: 'DIMENSION', Key: 'USAGE_TYPE' });
+    });
+  });
+
+  describe('parseGroupValue', () => {
+    it('should strip the tag key prefix and label untagged costs', () => {
+      expect(parseGroupValue({ type: 'TAG', tagKey: 'team' }, 'team$platform')).toBe('platform');
+      expect(parseGroupValue({ type: 'TAG', tagKey: 'team' }, 'team$')).toBe(UNTAGGED_VALUE);
+      expect(parseGroupValue({ type: 'REGION' }, 'us-east-1')).toBe('us-east-1');
+    });
+  });
+
+  describe('mergeCostGroupings', () => {
+    it('should drop duplicate groupings', () => {
+      expect(mergeCostGroupings(
+        [{ type: 'TAG', tagKey: 'team' }, { type: 'REGION' }],
+        undefined,
+        [{ type: 'TAG', tagKey: 'team' }, { type: 'TAG', tagKey: 'env' }]
+      )).toEqual([{ type: 'TAG', tagKey: 'team' }, { type: 'REGION' }, { type: 'TAG', tagKey: 'env' }]);
+    });
+  });
+
+  describe('getScopedSpend', () => {
+    it('should resolve spend for account, service and group scopes', () => {
+      expect(getScopedSpend(costAnalysis)).toBe(100);
+      expect(getScopedSpend(costAnalysis, { type: 'service', value: 'Amazon S3' })).toBe(40);
+      expect(getScopedSpend(costAnalysis, { type: 'group', grouping: { type: 'TAG', tagKey: 'team' }, value: 'platform' })).toBe(70);
+      expect(getScopedSpend(costAnalysis, { type: 'group', grouping: { type: 'TAG', tagKey: 'team' }, value: 'ml' })).toBe(0);
+    });
+
+    it('should return undefined when the breakdown is unavailable', () => {
+      expect(getScopedSpend(costAnalysis, { type: 'group', grouping: { type: 'LINKED_ACCOUNT' }, value: '123456789012' })).toBeUndefined();
+    });
+  });
+
+  describe('parseScopedBudgets', () => {
+    it('should parse a JSON array', () => {
+      expect(parseScopedBudgets('[{"grouping":{"type":"LINKED_ACCOUNT"},"value":"123456789012","budget":250}]')).toEqual([
+        { grouping: { type: 'LINKED_ACCOUNT' }, value: '123456789012', budget: 250 }
+      ]);
+    });
+
+    it('should reject invalid JSON and non-arrays', () => {
+      expect(() => parseScopedBudgets('not json')).toThrow('Invalid scoped budgets JSON');
+      expect(() => parseScopedBudgets('{}')).toThrow('Invalid scoped budgets JSON: expected an array');
+    });
+  });
+});
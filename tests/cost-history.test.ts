@@ -0,0 +1,197 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DynamoDBClient, PutItemCommand, QueryCommand } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBCostSnapshotRepository,
+  FileCostSnapshotRepository,
+  InMemoryCostSnapshotRepository,
+  buildCostComparisons,
+  compareWithSnapshot,
+  createCostSnapshot,
+  createCostSnapshotRepository,
+  getPreviousBillingPeriod,
+  getSameDayLastMonth
+} from '../src/utils/cost-history';
+import { CostAnalysis, CostSnapshot } from '../src/types';
+
+jest.mock('@aws-sdk/client-dynamodb', () => ({
+  DynamoDBClient: jest.fn().mockImplementation(() => ({
+    send: jest.fn()
+  })),
+  PutItemCommand: jest.fn(),
+  QueryCommand: jest.fn()
+}));
+
+jest.mock('@aws-sdk/util-dynamodb', () => ({
+  marshall: jest.fn((obj) => obj),
+  unmarshall: jest.fn((obj) => obj)
+}));
+
+function buildCostAnalysis(end: string, serviceBreakdown: { [service: string]: number }): CostAnalysis {
+  return {
+    totalCost: Object.values(serviceBreakdown).reduce((sum, cost) => sum + cost, 0),
+    serviceBreakdown,
+    period: { start: `${end.substring(0, 7)}-01T00:00:00.000Z`, end: `${end}T23:59:59.999Z` },
+    projectedMonthly: 0,
+    currency: 'USD',
+    lastUpdated: `${end}T10:00:00.000Z`
+  };
+}
+
+describe('cost history', () => {
+  describe('createCostSnapshot', () => {
+    it('should key snapshots by billing period and period end date without comparisons', () => {
+      const costAnalysis = {
+        ...buildCostAnalysis('2024-03-15', { 'Amazon EC2': 40 }),
+        comparisons: {}
+      };
+
+      const snapshot = createCostSnapshot(costAnalysis);
+
+      expect(snapshot.billingPeriod).toBe('2024-03');
+      expect(snapshot.snapshotDate).toBe('2024-03-15');
+      expect(snapshot.costAnalysis).not.toHaveProperty('comparisons');
+    });
+  });
+
+  describe('billing period dates', () => {
+    it('should step back to the previous billing period across years', () => {
+      expect(getPreviousBillingPeriod('2024-03')).toBe('2024-02');
+      expect(getPreviousBillingPeriod('2024-01')).toBe('2023-12');
+    });
+
+    it('should clamp the same day last month to the length of that month', () => {
+      expect(getSameDayLastMonth('2024-03-15')).toBe('2024-02-15');
+      expect(getSameDayLastMonth('2024-03-31')).toBe('2024-02-29');
+      expect(getSameDayLastMonth('2024-01-10')).toBe('2023-12-10');
+    });
+  });
+
+  describe('compareWithSnapshot', () => {
+    it('should compute per-service deltas, largest change first', () => {
+      const current = buildCostAnalysis('2024-03-15', { 'Amazon EC2': 60, 'Amazon S3': 9, 'AWS Lambda': 5 });
+      const snapshot = createCostSnapshot(buildCostAnalysis('2024-02-15', { 'Amazon EC2': 40, 'Amazon S3': 10 }));
+
+      const comparison = compareWithSnapshot(current, snapshot);
+
+      expect(comparison.snapshotDate).toBe('2024-02-15');
+      expect(comparison.previousTotal).toBe(50);
+      expect(comparison.totalDelta).toBe(24);
+      expect(comparison.totalDeltaPercent).toBe(48);
+      expect(comparison.services).toEqual([
+        { service: 'Amazon EC2', currentCost: 60, previousCost: 40, delta: 20, deltaPercent: 50 },
+        { service: 'AWS Lambda', currentCost: 5, previousCost: 0, delta: 5, deltaPercent: undefined },
+        { service: 'Amazon S3', currentCost: 9, previousCost: 10, delta: -1, deltaPercent: -10 }
+      ]);
+    });
+  });
+
+  describe('buildCostComparisons', () => {
+    it('should compare against the final and same-day snapshots of the previous month', async () => {
+      const repository = new InMemoryCostSnapshotRepository();
+      await repository.saveSnapshot(createCostSnapshot(buildCostAnalysis('2024-02-14', { 'Amazon EC2': 28 })));
+      await repository.saveSnapshot(createCostSnapshot(buildCostAnalysis('2024-02-29', { 'Amazon EC2': 58 })));
+      await repository.saveSnapshot(createCostSnapshot(buildCostAnalysis('2024-03-10', { 'Amazon EC2': 20 })));
+
+      const comparisons = await buildCostComparisons(repository, buildCostAnalysis('2024-03-15', { 'Amazon EC2': 30 }));
+
+      // No snapshot on 2024-02-15, so the latest one before it is used
+      expect(comparisons.sameDayLastMonth?.snapshotDate).toBe('2024-02-14');
+      expect(comparisons.sameDayLastMonth?.totalDelta).toBe(2);
+      expect(comparisons.monthOverMonth?.snapshotDate).toBe('2024-02-29');
+      expect(comparisons.monthOverMonth?.totalDelta).toBe(-28);
+    });
+
+    it('should return no comparisons without previous month snapshots', async () => {
+      const comparisons = await buildCostComparisons(
+        new InMemoryCostSnapshotRepository(),
+        buildCostAnalysis('2024-03-15', { 'Amazon EC2': 30 })
+      );
+
+      expect(comparisons).toEqual({ monthOverMonth: undefined, sameDayLastMonth: undefined });
+    });
+  });
+
+  describe('FileCostSnapshotRepository', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cost-history-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should persist snapshots to disk and replace snapshots for the same day', async () => {
+      const filePath = path.join(directory, 'nested', 'cost-history.json');
+      const repository = new FileCostSnapshotRepository(filePath);
+
+      await repository.saveSnapshot(createCostSnapshot(buildCostAnalysis('2024-02-14', { 'Amazon EC2': 20 })));
+      await repository.saveSnapshot(createCostSnapshot(buildCostAnalysis('2024-02-14', { 'Amazon EC2': 28 })));
+
+      const reloaded = new FileCostSnapshotRepository(filePath);
+      const snapshot = await reloaded.getLatestSnapshot('2024-02');
+
+      expect(snapshot?.costAnalysis.totalCost).toBe(28);
+      expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toHaveLength(1);
+    });
+
+    it('should return null when the file does not exist', async () => {
+      const repository = new FileCostSnapshotRepository(path.join(directory, 'missing.json'));
+
+      expect(await repository.getLatestSnapshot('2024-02')).toBeNull();
+    });
+  });
+
+  describe('DynamoDBCostSnapshotRepository', () => {
+    let mockSend: jest.Mock;
+    const snapshot: CostSnapshot = createCostSnapshot(buildCostAnalysis('2024-02-14', { 'Amazon EC2': 28 }));
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockSend = jest.fn();
+      (DynamoDBClient as jest.Mock).mockImplementation(() => ({ send: mockSend }));
+    });
+
+    it('should write snapshots', async () => {
+      mockSend.mockResolvedValue({});
+      const repository = new DynamoDBCostSnapshotRepository('cost-history', 'us-east-1');
+
+      await repository.saveSnapshot(snapshot);
+
+      expect(PutItemCommand).toHaveBeenCalledWith({ TableName: 'cost-history', Item: snapshot });
+    });
+
+    it('should query the latest snapshot on or before a day', async () => {
+      mockSend.mockResolvedValue({ Items: [snapshot] });
+      const repository = new DynamoDBCostSnapshotRepository('cost-history', 'us-east-1');
+
+      expect(await repository.getLatestSnapshot('2024-02', '2024-02-15')).toEqual(snapshot);
+      expect(QueryCommand).toHaveBeenCalledWith({
+        TableName: 'cost-history',
+        KeyConditionExpression: 'billingPeriod = :billingPeriod AND snapshotDate <= :snapshotDate',
+        ExpressionAttributeValues: { ':billingPeriod': '2024-02', ':snapshotDate': '2024-02-15' },
+        ScanIndexForward: false,
+        Limit: 1
+      });
+    });
+
+    it('should return null when the billing period has no snapshots', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+      const repository = new DynamoDBCostSnapshotRepository('cost-history', 'us-east-1');
+
+      expect(await repository.getLatestSnapshot('2024-02')).toBeNull();
+    });
+  });
+
+  describe('createCostSnapshotRepository', () => {
+    it('should prefer DynamoDB, then the snapshot file', () => {
+      expect(createCostSnapshotRepository('us-east-1', { tableName: 'cost-history', filePath: 'history.json' }))
+        .toBeInstanceOf(DynamoDBCostSnapshotRepository);
+      expect(createCostSnapshotRepository('us-east-1', { filePath: 'history.json' }))
+        .toBeInstanceOf(FileCostSnapshotRepository);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { formatCostMetric, getRequestedMetrics, parseCostMetrics, toForecastMetric } from '../src/utils/cost-metrics';
+
+describe('cost metrics', () => {
+  it('should map metrics to Cost Explorer forecast metrics', () => {
+    expect(toForecastMetric()).toBe('BLENDED_COST');
+    expect(toForecastMetric('AmortizedCost')).toBe('AMORTIZED_COST');
+    expect(toForecastMetric('NetUnblendedCost')).toBe('NET_UNBLENDED_COST');
+  });
+
+  it('should format metric labels', () => {
+    expect(formatCostMetric('NetAmortizedCost')).toBe('Net Amortized');
+  });
+
+  it('should request the primary metric first without duplicates', () => {
+    expect(getRequestedMetrics('AmortizedCost', ['UnblendedCost', 'AmortizedCost'])).toEqual(['AmortizedCost', 'UnblendedCost']);
+    expect(getRequestedMetrics()).toEqual(['BlendedCost']);
+  });
+
+  it('should parse comma-separated metric lists', () => {
+    expect(parseCostMetrics('UnblendedCost, AmortizedCost,')).toEqual(['UnblendedCost', 'AmortizedCost']);
+  });
+});
@@ -569,6 +569,104 @@ describe('DeviceRegistrationHandler', () => {
     });
   });
 
+  describe('Alert Acknowledgement', () => {
+    const alertId = 'spend-alert-1704844800000-1a2b3c4d';
+    const sentAlert = {
+      alertId,
+      scope: 'account',
+      billingPeriod: '2024-01',
+      alertLevel: 'WARNING',
+      sentAt: '2024-01-10T00:00:00.000Z',
+      status: 'OPEN'
+    };
+
+    const createMockEvent = (action: string, body?: any, id: string = alertId): APIGatewayEvent => ({
+      httpMethod: 'POST',
+      path: `/alerts/${id}/${action}`,
+      pathParameters: { alertId: id },
+      queryStringParameters: null,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : null,
+      requestContext: {
+        requestId: 'test-request-id',
+        identity: { sourceIp: '127.0.0.1' }
+      }
+    });
+
+    beforeEach(() => {
+      process.env.ALERT_ACKNOWLEDGEMENT_TABLE_NAME = 'spend-monitor-alert-acknowledgements';
+      handler = new DeviceRegistrationHandler();
+    });
+
+    afterEach(() => {
+      delete process.env.ALERT_ACKNOWLEDGEMENT_TABLE_NAME;
+    });
+
+    it('should acknowledge an alert', async () => {
+      mockDynamoDBSend.mockResolvedValueOnce({ Item: sentAlert });
+      mockDynamoDBSend.mockResolvedValueOnce({});
+
+      const response = await handler.handleRequest(createMockEvent('ack', { userId: 'user123' }));
+
+      expect(response.statusCode).toBe(200);
+
+      const responseBody = JSON.parse(response.body);
+      expect(responseBody).toEqual(expect.objectContaining({ success: true, alertId, status: 'ACKNOWLEDGED' }));
+      expect(responseBody.acknowledgedAt).toBeDefined();
+      expect(PutItemCommand).toHaveBeenCalledWith({
+        TableName: 'spend-monitor-alert-acknowledgements',
+        Item: expect.objectContaining({ alertId, status: 'ACKNOWLEDGED', acknowledgedBy: 'user123' })
+      });
+    });
+
+    it('should snooze an alert for the requested duration', async () => {
+      mockDynamoDBSend.mockResolvedValueOnce({ Item: sentAlert });
+      mockDynamoDBSend.mockResolvedValueOnce({});
+
+      const before = Date.now();
+      const response = await handler.handleRequest(createMockEvent('snooze', { durationHours: 4 }));
+
+      expect(response.statusCode).toBe(200);
+
+      const responseBody = JSON.parse(response.body);
+      expect(responseBody.status).toBe('SNOOZED');
+      expect(new Date(responseBody.snoozedUntil).getTime()).toBeGreaterThanOrEqual(before + 4 * 60 * 60 * 1000);
+    });
+
+    it('should validate the snooze duration', async () => {
+      const response = await handler.handleRequest(createMockEvent('snooze', { durationHours: 500 }));
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toContain('durationHours');
+      expect(mockDynamoDBSend).not.toHaveBeenCalled();
+    });
+
+    it('should validate the alert ID format', async () => {
+      const response = await handler.handleRequest(createMockEvent('ack', undefined, 'bad id!'));
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe('Invalid alert ID format');
+    });
+
+    it('should return 404 for unknown alerts', async () => {
+      mockDynamoDBSend.mockResolvedValueOnce({ Item: undefined });
+
+      const response = await handler.handleRequest(createMockEvent('ack'));
+
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(response.body).error).toBe('Alert not found');
+    });
+
+    it('should return 503 when no acknowledgement table is configured', async () => {
+      delete process.env.ALERT_ACKNOWLEDGEMENT_TABLE_NAME;
+      handler = new DeviceRegistrationHandler();
+
+      const response = await handler.handleRequest(createMockEvent('ack'));
+
+      expect(response.statusCode).toBe(503);
+    });
+  });
+
   describe('CORS and Options', () => {
     const createMockEvent = (method: string, path: string): APIGatewayEvent => ({
       httpMethod: method,
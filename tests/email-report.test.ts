@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  EmailReportContent,
+  escapeHtml,
+  loadEmailTemplate,
+  renderEmailHtml,
+  renderTextSparkline
+} from '../src/utils/email-report';
+
+function buildContent(overrides: Partial<EmailReportContent> = {}): EmailReportContent {
+  return {
+    title: 'AWS Spend Alert: $5.50 over budget',
+    headline: 'Spending is 55.0% over the $10.00 budget',
+    accentColor: '#CB2431',
+    facts: [['Current Spending', '$15.50'], ['Alert Level', 'CRITICAL']],
+    spend: 15.50,
+    threshold: 10.00,
+    services: [
+      { serviceName: 'Amazon EC2', cost: 10.00, percentage: 64.5 },
+      { serviceName: 'S3 <Standard>', cost: 5.50, percentage: 35.5 }
+    ],
+    dailyCosts: [
+      { date: '2024-03-01', cost: 1.00 },
+      { date: '2024-03-02', cost: 2.00 },
+      { date: '2024-03-03', cost: 4.00 }
+    ],
+    aiInsights: ['🤖 AI Analysis:', 'EC2 usage doubled after the deploy'],
+    recommendations: ['Review your AWS resources and usage patterns'],
+    period: 'Mar 1 - Mar 3, 2024',
+    generatedAt: '3/3/2024, 10:00:00 AM UTC',
+    ...overrides
+  };
+}
+
+describe('email report', () => {
+  describe('renderEmailHtml', () => {
+    it('should render the service table, threshold bar, sparkline and AI insights', () => {
+      const html = renderEmailHtml(buildContent());
+
+      expect(html).toContain('<title>AWS Spend Alert: $5.50 over budget</title>');
+      expect(html).toContain('background:#CB2431');
+      expect(html).toContain('155.0% of budget ($15.50 of $10.00)');
+      expect(html).toContain('<td width="77.5%"');
+      expect(html).toContain('S3 &lt;Standard&gt;</td>');
+      expect(html).toContain('64.5%</td>');
+      expect(html).toContain('Daily Spend (last 3 days)');
+      expect(html.match(/<div style="width:8px;height:(\d+)px;/g)).toEqual([
+        '<div style="width:8px;height:10px;',
+        '<div style="width:8px;height:20px;',
+        '<div style="width:8px;height:40px;'
+      ]);
+      expect(html).toContain('EC2 usage doubled after the deploy');
+      expect(html).toContain('<li>Review your AWS resources and usage patterns</li>');
+      expect(html).not.toMatch(/\{\{\w+\}\}/);
+    });
+
+    it('should leave out sections without data', () => {
+      const html = renderEmailHtml(buildContent({ dailyCosts: undefined, aiInsights: [], services: [] }));
+
+      expect(html).not.toContain('Daily Spend');
+      expect(html).not.toContain('AI Insights');
+      expect(html).not.toContain('Top Cost-Driving Services');
+    });
+
+    it('should fill override templates, escaping text and blanking unknown placeholders', () => {
+      const html = renderEmailHtml(
+        buildContent({ headline: 'Over <b>budget</b>' }),
+        '<h1>Acme FinOps</h1><p>{{ headline }}</p><p>{{spend}} / {{threshold}}</p>{{serviceTable}}{{unknown}}'
+      );
+
+      expect(html).toContain('<h1>Acme FinOps</h1><p>Over &lt;b&gt;budget&lt;/b&gt;</p><p>$15.50 / $10.00</p>');
+      expect(html).toContain('<th style="padding:6px 8px;border-bottom:1px solid #e1e4e8;text-align:left;">Service</th>');
+      expect(html.endsWith('</table></div>')).toBe(true);
+    });
+  });
+
+  describe('renderTextSparkline', () => {
+    it('should scale daily costs between the lowest and highest day', () => {
+      expect(renderTextSparkline([
+        { date: '2024-03-01', cost: 1 },
+        { date: '2024-03-02', cost: 4.5 },
+        { date: '2024-03-03', cost: 8 }
+      ])).toBe('▁▅█ $1.00 – $8.00');
+    });
+
+    it('should render a flat line when spend does not change', () => {
+      expect(renderTextSparkline([{ date: '2024-03-01', cost: 2 }, { date: '2024-03-02', cost: 2 }])).toBe('▁▁ $2.00 – $2.00');
+    });
+  });
+
+  describe('loadEmailTemplate', () => {
+    it('should load template overrides from disk', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'email-template-'));
+      const templatePath = path.join(directory, 'template.html');
+      await fs.writeFile(templatePath, '<p>{{title}}</p>', 'utf8');
+
+      try {
+        expect(await loadEmailTemplate(templatePath)).toBe('<p>{{title}}</p>');
+        await expect(loadEmailTemplate(path.join(directory, 'missing.html'))).rejects.toThrow('Email template load failed');
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('escapeHtml', () => {
+    it('should escape markup and quotes', () => {
+      expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+    });
+  });
+});
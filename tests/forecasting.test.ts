@@ -0,0 +1,129 @@
+import { CostExplorerClient, GetCostForecastCommand } from '@aws-sdk/client-cost-explorer';
+import {
+  CostExplorerForecaster,
+  ForecastInput,
+  LinearForecaster,
+  TrailingSevenDayForecaster,
+  WeekdaySeasonalForecaster,
+  createForecaster
+} from '../src/utils/forecasting';
+import { DailyCost } from '../src/types';
+
+function buildDailyCosts(start: string, days: number, costFor: (date: Date) => number): DailyCost[] {
+  const costs: DailyCost[] = [];
+  const cursor = new Date(`${start}T00:00:00Z`);
+  for (let i = 0; i < days; i++) {
+    costs.push({ date: cursor.toISOString().split('T')[0], cost: costFor(cursor) });
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return costs;
+}
+
+describe('forecasting', () => {
+  let input: ForecastInput;
+
+  beforeEach(() => {
+    input = {
+      monthToDateCost: 140,
+      now: new Date(2024, 0, 15),
+      startOfMonth: new Date(2024, 0, 1),
+      endOfMonth: new Date(2024, 0, 31),
+      dailyCosts: [],
+      confidenceLevel: 80
+    };
+  });
+
+  describe('LinearForecaster', () => {
+    it('should project cost linearly over the month', async () => {
+      const forecast = await new LinearForecaster().forecast(input);
+
+      expect(forecast).toEqual({ method: 'linear', projectedMonthly: 289.33 });
+    });
+  });
+
+  describe('TrailingSevenDayForecaster', () => {
+    it('should project the remaining days from the last seven days', async () => {
+      // One-off $70 charge on day 1 is outside the trailing window
+      input.dailyCosts = buildDailyCosts('2024-01-01', 14, date => (date.getUTCDate() === 1 ? 70 : 10));
+
+      const forecast = await new TrailingSevenDayForecaster().forecast(input);
+
+      expect(forecast.method).toBe('trailing-7-day');
+      expect(forecast.projectedMonthly).toBe(310);
+      expect(forecast.confidenceInterval).toEqual({ lower: 310, upper: 310, level: 80 });
+    });
+
+    it('should widen the interval for volatile daily costs', async () => {
+      input.dailyCosts = buildDailyCosts('2024-01-08', 7, date => (date.getUTCDate() % 2 === 0 ? 5 : 15));
+
+      const forecast = await new TrailingSevenDayForecaster().forecast(input);
+
+      expect(forecast.confidenceInterval!.lower).toBeLessThan(forecast.projectedMonthly);
+      expect(forecast.confidenceInterval!.upper).toBeGreaterThan(forecast.projectedMonthly);
+    });
+
+    it('should fall back to linear without history', async () => {
+      const forecast = await new TrailingSevenDayForecaster().forecast(input);
+
+      expect(forecast.method).toBe('linear');
+    });
+  });
+
+  describe('WeekdaySeasonalForecaster', () => {
+    it('should project remaining days from weekday averages', async () => {
+      // Weekdays cost $10, weekends $2 (2024-01-01 is a Monday)
+      input.dailyCosts = buildDailyCosts('2024-01-01', 14, date => ([0, 6].includes(date.getUTCDay()) ? 2 : 10));
+
+      const forecast = await new WeekdaySeasonalForecaster().forecast(input);
+
+      // 13 weekdays and 4 weekend days remain from Jan 15 through Jan 31
+      expect(forecast.method).toBe('weekday-seasonal');
+      expect(forecast.projectedMonthly).toBe(140 + 13 * 10 + 4 * 2);
+      expect(forecast.confidenceInterval).toEqual({ lower: 278, upper: 278, level: 80 });
+    });
+  });
+
+  describe('CostExplorerForecaster', () => {
+    it('should add the Cost Explorer forecast for the rest of the month', async () => {
+      const client = {
+        send: jest.fn().mockResolvedValue({
+          Total: { Amount: '100' },
+          ForecastResultsByTime: [{ PredictionIntervalLowerBound: '80', PredictionIntervalUpperBound: '120' }]
+        })
+      };
+
+      const forecast = await new CostExplorerForecaster(client as unknown as CostExplorerClient).forecast(input);
+
+      expect(GetCostForecastCommand).toHaveBeenCalledWith({
+        TimePeriod: { Start: '2024-01-15', End: '2024-02-01' },
+        Metric: 'BLENDED_COST',
+        Granularity: 'MONTHLY',
+        PredictionIntervalLevel: 80
+      });
+      expect(forecast).toEqual({
+        method: 'cost-explorer',
+        projectedMonthly: 240,
+        confidenceInterval: { lower: 220, upper: 260, level: 80 }
+      });
+    });
+
+    it('should forecast the configured cost metric', async () => {
+      const client = { send: jest.fn().mockResolvedValue({ Total: { Amount: '100' } }) };
+
+      await new CostExplorerForecaster(client as unknown as CostExplorerClient).forecast({ ...input, metric: 'NetAmortizedCost' });
+
+      expect(GetCostForecastCommand).toHaveBeenCalledWith(expect.objectContaining({ Metric: 'NET_AMORTIZED_COST' }));
+    });
+  });
+
+  describe('createForecaster', () => {
+    it('should create the configured forecaster', () => {
+      const client = {} as CostExplorerClient;
+
+      expect(createForecaster(undefined, client)).toBeInstanceOf(LinearForecaster);
+      expect(createForecaster({ method: 'trailing-7-day' }, client)).toBeInstanceOf(TrailingSevenDayForecaster);
+      expect(createForecaster({ method: 'weekday-seasonal' }, client)).toBeInstanceOf(WeekdaySeasonalForecaster);
+      expect(createForecaster({ method: 'cost-explorer' }, client)).toBeInstanceOf(CostExplorerForecaster);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  OpsgenieNotifier,
+  PagerDutyNotifier,
+  createIncidentNotifier,
+  getIncidentDedupKey
+} from '../src/utils/incidents';
+
+describe('incidents', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ url?: string; headers: http.IncomingHttpHeaders; body: any }>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+        res.writeHead(202).end('{}');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const event = {
+    dedupKey: 'aws-spend-monitor/123456789012/2024-03',
+    summary: 'AWS Spend Alert: $5.50 over budget',
+    details: { spend: '15.50', threshold: '10.00', tier: undefined }
+  };
+
+  describe('getIncidentDedupKey', () => {
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:spend-alerts';
+
+    it('should key account incidents by account and billing period', () => {
+      expect(getIncidentDedupKey(topicArn, '2024-03')).toBe('aws-spend-monitor/123456789012/2024-03');
+      expect(getIncidentDedupKey(topicArn, '2024-03', { type: 'account' })).toBe('aws-spend-monitor/123456789012/2024-03');
+    });
+
+    it('should include the budget scope for scoped incidents', () => {
+      expect(getIncidentDedupKey(topicArn, '2024-03', { type: 'service', value: 'Amazon EC2' }))
+        .toBe('aws-spend-monitor/123456789012/2024-03/service:Amazon EC2');
+    });
+  });
+
+  describe('PagerDutyNotifier', () => {
+    it('should send trigger and resolve events with the same dedup key', async () => {
+      const notifier = new PagerDutyNotifier('routing-key', `${baseUrl}/v2/enqueue`);
+
+      await notifier.trigger(event);
+      await notifier.resolve(event.dedupKey);
+
+      expect(requests.map(request => request.url)).toEqual(['/v2/enqueue', '/v2/enqueue']);
+      expect(requests[0].body).toEqual({
+        routing_key: 'routing-key',
+        event_action: 'trigger',
+        dedup_key: event.dedupKey,
+        payload: {
+          summary: event.summary,
+          source: 'aws-spend-monitor',
+          severity: 'critical',
+          class: 'aws-spend',
+          custom_details: { spend: '15.50', threshold: '10.00' }
+        }
+      });
+      expect(requests[1].body).toEqual({ routing_key: 'routing-key', event_action: 'resolve', dedup_key: event.dedupKey });
+    });
+  });
+
+  describe('OpsgenieNotifier', () => {
+    it('should create alerts aliased by the dedup key and close them by alias', async () => {
+      const notifier = new OpsgenieNotifier('genie-key', `${baseUrl}/`);
+
+      await notifier.trigger(event);
+      await notifier.resolve(event.dedupKey);
+
+      expect(requests[0].url).toBe('/v2/alerts');
+      expect(requests[0].headers.authorization).toBe('GenieKey genie-key');
+      expect(requests[0].body).toMatchObject({
+        message: event.summary,
+        alias: event.dedupKey,
+        priority: 'P1'
+      });
+      expect(requests[0].body.details).toEqual({ spend: '15.50', threshold: '10.00' });
+      expect(requests[1].url).toBe('/v2/alerts/aws-spend-monitor%2F123456789012%2F2024-03/close?identifierType=alias');
+      expect(requests[1].headers.authorization).toBe('GenieKey genie-key');
+    });
+  });
+
+  describe('createIncidentNotifier', () => {
+    it('should create the notifier for the configured provider', () => {
+      expect(createIncidentNotifier({ provider: 'pagerduty', routingKey: 'key' })).toBeInstanceOf(PagerDutyNotifier);
+      expect(createIncidentNotifier({ provider: 'opsgenie', apiKey: 'key' })).toBeInstanceOf(OpsgenieNotifier);
+    });
+  });
+});
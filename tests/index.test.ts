@@ -295,6 +295,47 @@ describe('Lambda Handler', () => {
       expect(config.retryAttempts).toBe(5);
       expect(config.minServiceCostThreshold).toBe(2.5);
     });
+
+    it('should load Bedrock configuration with the AI cache and spend ledger tables', () => {
+      process.env.BEDROCK_ENABLED = 'true';
+      process.env.BEDROCK_MODEL_ID = 'amazon.titan-text-lite-v1';
+      process.env.BEDROCK_COST_THRESHOLD = '25';
+      process.env.BEDROCK_CACHE_TABLE_NAME = 'spend-monitor-ai-cache';
+      process.env.BEDROCK_SPEND_LEDGER_TABLE_NAME = 'spend-monitor-bedrock-spend';
+      process.env.BEDROCK_MAX_REPAIR_ATTEMPTS = '2';
+      process.env.BEDROCK_REPAIR_BUDGET = '0.01';
+
+      const config = loadConfiguration();
+
+      expect(config.bedrockConfig).toEqual(expect.objectContaining({
+        enabled: true,
+        modelId: 'amazon.titan-text-lite-v1',
+        region: 'us-east-1',
+        costThreshold: 25,
+        cacheResults: true,
+        cacheTableName: 'spend-monitor-ai-cache',
+        spendLedgerTableName: 'spend-monitor-bedrock-spend',
+        maxRepairAttempts: 2,
+        repairBudget: 0.01
+      }));
+    });
+
+    it('should load Bedrock model pricing overrides and reject invalid prices', () => {
+      process.env.BEDROCK_MODEL_ID = 'amazon.titan-text-lite-v1';
+      process.env.BEDROCK_MODEL_PRICING = JSON.stringify({ 'amazon.titan-text-lite': { inputPer1K: 0.00015, outputPer1K: 0.0002 } });
+
+      expect(loadConfiguration().bedrockConfig?.modelPricing).toEqual({
+        'amazon.titan-text-lite': { inputPer1K: 0.00015, outputPer1K: 0.0002 }
+      });
+
+      process.env.BEDROCK_MODEL_PRICING = JSON.stringify({ 'amazon.titan-text-lite': { inputPer1K: -1, outputPer1K: 0.0002 } });
+      expect(() => loadConfiguration()).toThrow(
+        'Bedrock modelPricing for amazon.titan-text-lite must have non-negative inputPer1K and outputPer1K'
+      );
+
+      process.env.BEDROCK_MODEL_PRICING = '{not json';
+      expect(() => loadConfiguration()).toThrow('Invalid Bedrock model pricing JSON');
+    });
   });
 
   describe('validateEnvironmentVariables', () => {
@@ -0,0 +1,89 @@
+import {
+  AlertMessageFormatter,
+  MESSAGE_CATALOGS,
+  formatMoney,
+  parseLocaleAssignments,
+  resolveLocale
+} from '../src/utils/localization';
+import { LocalizationConfig } from '../src/types';
+
+describe('localization', () => {
+  describe('formatMoney', () => {
+    it('should format amounts in the billing currency for the locale', () => {
+      expect(formatMoney(1234.5)).toBe('$1,234.50');
+      expect(formatMoney(1234.5, 'EUR', 'de')).toBe('1.234,50\u00a0€');
+      expect(formatMoney(1234.5, 'JPY', 'ja')).toBe('￥1,235');
+    });
+
+    it('should drop minor units of whole amounts when trimming', () => {
+      expect(formatMoney(10, 'USD', 'en', { trimZeros: true })).toBe('$10');
+      expect(formatMoney(10.5, 'USD', 'en', { trimZeros: true })).toBe('$10.50');
+      expect(formatMoney(12.4, 'EUR', 'de', { wholeUnits: true })).toBe('12\u00a0€');
+    });
+
+    it('should fall back to the amount and code for unknown currencies', () => {
+      expect(formatMoney(5, 'XX')).toBe('5.00 XX');
+    });
+  });
+
+  describe('AlertMessageFormatter', () => {
+    it('should fill placeholders and leave unknown ones as written', () => {
+      const format = new AlertMessageFormatter('de', 'EUR');
+
+      expect(format.t('alert.currentSpending', { amount: format.money(15.5) })).toBe('💰 Aktuelle Ausgaben: 15,50\u00a0€');
+      expect(format.t('alert.period')).toBe('📅 Zeitraum: {period}');
+    });
+
+    it('should format percentages, levels and dates for the locale', () => {
+      const format = new AlertMessageFormatter('de', 'EUR');
+
+      expect(format.percent(55, 1)).toBe('55,0\u00a0%');
+      expect(format.percent(12.5, 1, true)).toBe('+12,5\u00a0%');
+      expect(format.level('WARNING')).toBe('WARNUNG');
+      expect(new AlertMessageFormatter('ja').dateRange({ start: '2024-03-01', end: '2024-03-15' })).toBe('2024年3月1日 - 2024年3月15日');
+    });
+
+    it('should fall back to English and USD', () => {
+      const format = new AlertMessageFormatter(undefined, '');
+
+      expect(format.locale).toBe('en');
+      expect(format.money(2)).toBe('$2.00');
+      expect(format.percent(150)).toBe('150%');
+    });
+  });
+
+  it('should translate every message in each catalog', () => {
+    const keys = Object.keys(MESSAGE_CATALOGS.en).sort();
+
+    expect(Object.keys(MESSAGE_CATALOGS.de).sort()).toEqual(keys);
+    expect(Object.keys(MESSAGE_CATALOGS.ja).sort()).toEqual(keys);
+  });
+
+  describe('resolveLocale', () => {
+    const config: LocalizationConfig = {
+      defaultLocale: 'de',
+      channelLocales: { sms: 'ja' },
+      recipientLocales: { 'Ops@Example.jp': 'ja' }
+    };
+
+    it('should prefer the recipient locale, then the channel locale, then the default', () => {
+      expect(resolveLocale(config, 'ses', 'ops@example.jp')).toBe('ja');
+      expect(resolveLocale(config, 'ses', 'finance@example.de')).toBe('de');
+      expect(resolveLocale(config, 'sms')).toBe('ja');
+      expect(resolveLocale(config, 'email')).toBe('de');
+      expect(resolveLocale(undefined, 'email')).toBe('en');
+    });
+  });
+
+  describe('parseLocaleAssignments', () => {
+    it('should parse comma-separated key=locale pairs', () => {
+      expect(parseLocaleAssignments('sms=ja, email=de')).toEqual({ sms: 'ja', email: 'de' });
+      expect(parseLocaleAssignments('ops@example.jp=ja')).toEqual({ 'ops@example.jp': 'ja' });
+    });
+
+    it('should reject pairs without a key or locale', () => {
+      expect(() => parseLocaleAssignments('sms')).toThrow('Invalid locale assignment "sms": expected key=locale');
+      expect(() => parseLocaleAssignments('sms=')).toThrow('expected key=locale');
+    });
+  });
+});
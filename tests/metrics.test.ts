@@ -308,6 +308,61 @@ describe('MetricsCollector', () => {
     });
   });
 
+  describe('recordBedrockResponseOutcome', () => {
+    it('should record the outcome and repair attempts', async () => {
+      await metricsCollector.recordBedrockResponseOutcome('amazon.titan-text-express-v1', 'spending_analysis', 'REPAIRED', 1);
+
+      expect(PutMetricDataCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          MetricData: [
+            expect.objectContaining({
+              MetricName: 'BedrockResponseOutcome',
+              Value: 1,
+              Dimensions: expect.arrayContaining([
+                { Name: 'AnalysisType', Value: 'spending_analysis' },
+                { Name: 'Outcome', Value: 'REPAIRED' }
+              ])
+            }),
+            expect.objectContaining({
+              MetricName: 'BedrockRepairAttempts',
+              Value: 1
+            })
+          ]
+        })
+      );
+    });
+
+    it('should omit repair attempts when no repair was needed', async () => {
+      await metricsCollector.recordBedrockResponseOutcome('amazon.titan-text-express-v1', 'anomaly_detection', 'API_FAILURE');
+
+      expect((PutMetricDataCommand as unknown as jest.Mock).mock.calls[0][0].MetricData).toHaveLength(1);
+    });
+  });
+
+  describe('recordBedrockCostTracking', () => {
+    it('should reconcile the estimated and actual request cost', async () => {
+      await metricsCollector.recordBedrockCostTracking(0.5, 10, 3, 0, 0.002, 0.0025);
+
+      expect(PutMetricDataCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          MetricData: expect.arrayContaining([
+            expect.objectContaining({ MetricName: 'BedrockEstimatedRequestCost', Value: 0.002 }),
+            expect.objectContaining({ MetricName: 'BedrockActualRequestCost', Value: 0.0025 }),
+            expect.objectContaining({ MetricName: 'BedrockCostEstimateError', Value: 25, Unit: 'Percent' })
+          ])
+        })
+      );
+    });
+
+    it('should omit reconciliation metrics without an estimate', async () => {
+      await metricsCollector.recordBedrockCostTracking(0.5, 10, 3);
+
+      const metricNames = (PutMetricDataCommand as unknown as jest.Mock).mock.calls[0][0].MetricData
+        .map((datum: { MetricName: string }) => datum.MetricName);
+      expect(metricNames).not.toContain('BedrockCostEstimateError');
+    });
+  });
+
   describe('createTimer', () => {
     it('should create timer and record metrics on stop', async () => {
       const timer = metricsCollector.createTimer('TestOperation');
@@ -0,0 +1,163 @@
+import {
+  SQSClient,
+  SendMessageCommand,
+  ChangeMessageVisibilityCommand,
+  DeleteMessageBatchCommand
+} from '@aws-sdk/client-sqs';
+import {
+  InMemoryDeferredNotificationQueue,
+  SQSDeferredNotificationQueue,
+  createDeferredNotificationQueue,
+  getQuietChannels,
+  parseQuietHoursConfig
+} from '../src/utils/quiet-hours';
+import { DeferredNotification, QuietHoursConfig } from '../src/types';
+
+jest.mock('@aws-sdk/client-sqs', () => ({
+  SQSClient: jest.fn().mockImplementation(() => ({
+    send: jest.fn()
+  })),
+  SendMessageCommand: jest.fn(),
+  ReceiveMessageCommand: jest.fn(),
+  ChangeMessageVisibilityCommand: jest.fn(),
+  DeleteMessageBatchCommand: jest.fn()
+}));
+
+describe('quiet hours', () => {
+  const queueUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/spend-monitor-deferred-notifications';
+
+  const notification = (id: string, channel: DeferredNotification['channel'] = 'sms'): DeferredNotification => ({
+    id,
+    channel,
+    alertLevel: 'WARNING',
+    scope: 'account',
+    title: 'AWS Spend Alert',
+    message: 'Spending is over budget',
+    spend: 15.5,
+    threshold: 10,
+    deferredAt: '2024-03-15T23:00:00.000Z'
+  });
+
+  describe('getQuietChannels', () => {
+    const config: QuietHoursConfig = {
+      sms: { start: '22:00', end: '07:00' },
+      ios: { start: '22:00', end: '07:00', timeZone: 'America/New_York' }
+    };
+
+    it('should return the channels inside their quiet hours', () => {
+      // 23:00 UTC is 19:00 in New York (UTC-4 in March)
+      expect(getQuietChannels(config, ['email', 'sms', 'ios'], new Date('2024-03-15T23:00:00Z'))).toEqual(['sms']);
+      expect(getQuietChannels(config, ['email', 'sms', 'ios'], new Date('2024-03-16T04:00:00Z'))).toEqual(['sms', 'ios']);
+      expect(getQuietChannels(config, ['email', 'sms', 'ios'], new Date('2024-03-16T12:00:00Z'))).toEqual([]);
+    });
+
+    it('should ignore channels the alert is not routed to or without quiet hours', () => {
+      expect(getQuietChannels(config, ['email', 'ios'], new Date('2024-03-15T23:00:00Z'))).toEqual([]);
+      expect(getQuietChannels({ ios: config.ios }, ['sms'], new Date('2024-03-16T04:00:00Z'))).toEqual([]);
+      expect(getQuietChannels(undefined, ['sms'], new Date('2024-03-16T04:00:00Z'))).toEqual([]);
+    });
+  });
+
+  describe('InMemoryDeferredNotificationQueue', () => {
+    it('should receive notifications by channel and remove delivered ones', async () => {
+      const queue = new InMemoryDeferredNotificationQueue();
+      await queue.enqueue(notification('1', 'sms'));
+      await queue.enqueue(notification('2', 'ios'));
+
+      const entries = await queue.receive(['sms']);
+      expect(entries).toEqual([{ notification: notification('1', 'sms'), receiptHandle: '1' }]);
+
+      await queue.remove(entries);
+      expect(queue.size()).toBe(1);
+      expect(await queue.receive(['sms'])).toEqual([]);
+    });
+  });
+
+  describe('SQSDeferredNotificationQueue', () => {
+    let mockSend: jest.Mock;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockSend = jest.fn().mockResolvedValue({});
+      (SQSClient as jest.Mock).mockImplementation(() => ({ send: mockSend }));
+    });
+
+    it('should enqueue notifications with a channel attribute', async () => {
+      const queue = new SQSDeferredNotificationQueue(queueUrl, 'us-east-1');
+
+      await queue.enqueue(notification('1'));
+
+      expect(SendMessageCommand).toHaveBeenCalledWith({
+        QueueUrl: queueUrl,
+        MessageBody: JSON.stringify(notification('1')),
+        MessageAttributes: { channel: { DataType: 'String', StringValue: 'sms' } }
+      });
+    });
+
+    it('should release notifications for other channels and discard unreadable ones', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Messages: [
+            { ReceiptHandle: 'rh-1', Body: JSON.stringify(notification('1', 'sms')) },
+            { ReceiptHandle: 'rh-2', Body: JSON.stringify(notification('2', 'ios')) },
+            { ReceiptHandle: 'rh-3', Body: 'not json' }
+          ]
+        })
+        .mockResolvedValueOnce({ Messages: [] });
+      const queue = new SQSDeferredNotificationQueue(queueUrl, 'us-east-1');
+
+      const entries = await queue.receive(['sms']);
+
+      expect(entries).toEqual([{ notification: notification('1', 'sms'), receiptHandle: 'rh-1' }]);
+      expect(ChangeMessageVisibilityCommand).toHaveBeenCalledWith({ QueueUrl: queueUrl, ReceiptHandle: 'rh-2', VisibilityTimeout: 0 });
+      expect(DeleteMessageBatchCommand).toHaveBeenCalledWith({ QueueUrl: queueUrl, Entries: [{ Id: '0', ReceiptHandle: 'rh-3' }] });
+    });
+
+    it('should delete delivered notifications in batches of ten', async () => {
+      const queue = new SQSDeferredNotificationQueue(queueUrl, 'us-east-1');
+      const entries = Array.from({ length: 12 }, (_, index) => ({
+        notification: notification(String(index)),
+        receiptHandle: `rh-${index}`
+      }));
+
+      await queue.remove(entries);
+
+      expect(DeleteMessageBatchCommand).toHaveBeenCalledTimes(2);
+      expect((DeleteMessageBatchCommand as unknown as jest.Mock).mock.calls[1][0].Entries).toEqual([
+        { Id: '10', ReceiptHandle: 'rh-10' },
+        { Id: '11', ReceiptHandle: 'rh-11' }
+      ]);
+    });
+  });
+
+  describe('createDeferredNotificationQueue', () => {
+    it('should use SQS when a queue URL is configured', () => {
+      expect(createDeferredNotificationQueue('us-east-1', { queueUrl })).toBeInstanceOf(SQSDeferredNotificationQueue);
+    });
+
+    it('should fall back to the in-memory queue', () => {
+      expect(createDeferredNotificationQueue('us-east-1', {})).toBeInstanceOf(InMemoryDeferredNotificationQueue);
+    });
+  });
+
+  describe('parseQuietHoursConfig', () => {
+    it('should parse channel windows and attach the queue URL', () => {
+      expect(parseQuietHoursConfig('{"sms":{"start":"22:00","end":"07:00"}}', queueUrl)).toEqual({
+        sms: { start: '22:00', end: '07:00' },
+        queueUrl
+      });
+    });
+
+    it('should reject malformed JSON and non-object values', () => {
+      expect(() => parseQuietHoursConfig('{')).toThrow('Invalid quiet hours JSON');
+      expect(() => parseQuietHoursConfig('[]')).toThrow('expected an object of channel time windows');
+    });
+
+    it('should reject unsupported channels and malformed windows', () => {
+      expect(() => parseQuietHoursConfig('{"email":{"start":"22:00","end":"07:00"}}')).toThrow('unsupported channel email (expected sms or ios)');
+      expect(() => parseQuietHoursConfig('{"sms":"22:00-07:00"}')).toThrow('sms must be an object with start and end times');
+      expect(() => parseQuietHoursConfig('{"ios":{"start":22,"end":"07:00"}}')).toThrow('ios start and end must be strings');
+      expect(() => parseQuietHoursConfig('{"sms":{"start":"22:00","end":"07:00","timeZone":1}}')).toThrow('sms timeZone must be a string');
+    });
+  });
+});
@@ -7,6 +7,7 @@ import {
   createCircuitBreaker,
   DEFAULT_RETRY_CONFIG 
 } from '../src/utils/retry';
+import { ConfigurationError, NotificationError } from '../src/utils/errors';
 
 describe('isRetryableError', () => {
   it('should identify retryable error codes', () => {
@@ -40,6 +41,12 @@ describe('isRetryableError', () => {
     });
   });
 
+  it('should use the retryable flag of spend monitor errors', () => {
+    expect(isRetryableError(new NotificationError('Webhook responded with status 503', true))).toBe(true);
+    expect(isRetryableError(new NotificationError('Webhook request timed out', false))).toBe(false);
+    expect(isRetryableError(new ConfigurationError('Connection settings missing'))).toBe(false);
+  });
+
   it('should identify network errors by message pattern', () => {
     const networkErrors = [
       { message: 'Network timeout occurred' },
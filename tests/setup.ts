@@ -5,7 +5,8 @@ jest.mock('@aws-sdk/client-cost-explorer', () => ({
   CostExplorerClient: jest.fn().mockImplementation(() => ({
     send: jest.fn()
   })),
-  GetCostAndUsageCommand: jest.fn()
+  GetCostAndUsageCommand: jest.fn(),
+  GetCostForecastCommand: jest.fn()
 }));
 
 jest.mock('@aws-sdk/client-sns', () => ({
@@ -0,0 +1,75 @@
+import { buildSpendDigest, getDigestPeriods } from '../src/utils/spend-digest';
+import { CostAnalysis } from '../src/types';
+
+describe('spend digest', () => {
+  const costAnalysis = (totalCost: number, serviceBreakdown: { [service: string]: number }, start = '2024-03-01', end = '2024-03-15'): CostAnalysis => ({
+    totalCost,
+    serviceBreakdown,
+    period: { start, end },
+    projectedMonthly: totalCost * 2,
+    currency: 'USD',
+    lastUpdated: '2024-03-15T08:00:00.000Z'
+  });
+
+  describe('getDigestPeriods', () => {
+    const now = new Date('2024-03-15T08:30:00Z');
+
+    it('should compare yesterday with the day before for daily digests', () => {
+      const { current, previous } = getDigestPeriods('daily', now);
+
+      expect(current).toEqual({ start: new Date('2024-03-14T00:00:00Z'), end: new Date('2024-03-15T00:00:00Z') });
+      expect(previous).toEqual({ start: new Date('2024-03-13T00:00:00Z'), end: new Date('2024-03-14T00:00:00Z') });
+    });
+
+    it('should compare the last seven days with the seven before for weekly digests', () => {
+      const { current, previous } = getDigestPeriods('weekly', now);
+
+      expect(current).toEqual({ start: new Date('2024-03-08T00:00:00Z'), end: new Date('2024-03-15T00:00:00Z') });
+      expect(previous).toEqual({ start: new Date('2024-03-01T00:00:00Z'), end: new Date('2024-03-08T00:00:00Z') });
+    });
+  });
+
+  describe('buildSpendDigest', () => {
+    const period = { start: new Date('2024-03-08T00:00:00Z'), end: new Date('2024-03-15T00:00:00Z') };
+
+    it('should summarise month-to-date spend and list the largest movers first', () => {
+      const digest = buildSpendDigest({ frequency: 'weekly', topMoverCount: 2 }, 100, {
+        monthToDate: costAnalysis(60, { 'Amazon EC2': 40, 'Amazon S3': 20 }),
+        period,
+        currentPeriod: costAnalysis(30, { 'Amazon EC2': 20, 'Amazon S3': 6, 'AWS Lambda': 4 }),
+        previousPeriod: costAnalysis(25, { 'Amazon EC2': 12, 'Amazon S3': 6, 'Amazon RDS': 7 }),
+        topServices: [{ serviceName: 'Amazon EC2', cost: 40, percentage: 66.7 }],
+        aiSummary: 'EC2 usage grew after the launch'
+      });
+
+      expect(digest).toEqual(expect.objectContaining({
+        frequency: 'weekly',
+        spendToDate: 60,
+        projectedMonthly: 120,
+        threshold: 100,
+        monthToDate: { start: '2024-03-01', end: '2024-03-15' },
+        period: { start: '2024-03-08', end: '2024-03-14' },
+        periodTotal: 30,
+        previousPeriodTotal: 25,
+        aiSummary: 'EC2 usage grew after the launch'
+      }));
+      expect(digest.topMovers).toEqual([
+        { service: 'Amazon EC2', currentCost: 20, previousCost: 12, delta: 8, deltaPercent: 66.7 },
+        { service: 'Amazon RDS', currentCost: 0, previousCost: 7, delta: -7, deltaPercent: -100 }
+      ]);
+    });
+
+    it('should leave out services whose cost did not change', () => {
+      const digest = buildSpendDigest({ frequency: 'daily' }, 100, {
+        monthToDate: costAnalysis(10, { 'Amazon S3': 10 }),
+        period,
+        currentPeriod: costAnalysis(1, { 'Amazon S3': 1 }),
+        previousPeriod: costAnalysis(1, { 'Amazon S3': 1 }),
+        topServices: []
+      });
+
+      expect(digest.topMovers).toEqual([]);
+      expect(digest.aiSummary).toBeUndefined();
+    });
+  });
+});
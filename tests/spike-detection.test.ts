@@ -0,0 +1,70 @@
+import { detectCostSpikes } from '../src/utils/spike-detection';
+import { CostAnalysis } from '../src/types';
+
+function buildHistory(dailyCosts: Array<{ [service: string]: number }>): CostAnalysis[] {
+  return dailyCosts.map((serviceBreakdown, index) => {
+    const date = `2024-01-${String(index + 1).padStart(2, '0')}`;
+    return {
+      totalCost: Object.values(serviceBreakdown).reduce((sum, cost) => sum + cost, 0),
+      serviceBreakdown,
+      period: { start: `${date}T00:00:00.000Z`, end: `${date}T23:59:59.999Z` },
+      projectedMonthly: 0,
+      currency: 'USD',
+      lastUpdated: '2024-01-15T00:00:00.000Z'
+    };
+  });
+}
+
+describe('detectCostSpikes', () => {
+  const steady = [10, 11, 9, 10, 12, 10, 11];
+
+  it('should flag a service whose latest day is far above its median', () => {
+    const history = buildHistory([
+      ...steady.map(cost => ({ 'Amazon EC2': cost, 'Amazon S3': 5 })),
+      { 'Amazon EC2': 40, 'Amazon S3': 5 }
+    ]);
+
+    const spikes = detectCostSpikes(history);
+
+    expect(spikes).toHaveLength(1);
+    expect(spikes[0]).toMatchObject({
+      service: 'Amazon EC2',
+      date: '2024-01-08',
+      cost: 40,
+      baseline: 10,
+      previousDayCost: 11,
+      method: 'mad'
+    });
+    expect(spikes[0].score).toBeGreaterThan(3);
+  });
+
+  it('should score against the mean and standard deviation with z-score', () => {
+    const history = buildHistory([...steady.map(cost => ({ 'Amazon EC2': cost })), { 'Amazon EC2': 14 }]);
+
+    const spikes = detectCostSpikes(history, { method: 'z-score', threshold: 2 });
+
+    expect(spikes).toHaveLength(1);
+    expect(spikes[0].method).toBe('z-score');
+    expect(spikes[0].baseline).toBeCloseTo(10.43, 2);
+  });
+
+  it('should give finite scores for flat histories and new services', () => {
+    const history = buildHistory([
+      ...steady.map(() => ({ 'Amazon EC2': 10 })),
+      { 'Amazon EC2': 10.5, 'Amazon Bedrock': 25 }
+    ]);
+
+    const spikes = detectCostSpikes(history);
+
+    expect(spikes.map(spike => spike.service)).toEqual(['Amazon Bedrock']);
+    expect(Number.isFinite(spikes[0].score)).toBe(true);
+  });
+
+  it('should ignore services below the minimum daily cost and short histories', () => {
+    const history = buildHistory([...steady.map(() => ({ 'AWS Lambda': 0.01 })), { 'AWS Lambda': 0.5 }]);
+
+    expect(detectCostSpikes(history)).toEqual([]);
+    expect(detectCostSpikes(history, { minDailyCost: 0.1 })).toHaveLength(1);
+    expect(detectCostSpikes(history.slice(-3))).toEqual([]);
+  });
+});
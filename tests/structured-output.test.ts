@@ -0,0 +1,90 @@
+import {
+  AI_ANALYSIS_SCHEMA,
+  ANOMALY_DETECTION_SCHEMA,
+  OPTIMIZATION_RECOMMENDATIONS_SCHEMA,
+  extractJson,
+  formatRepairPrompt,
+  parseStructuredOutput,
+  validateJsonSchema
+} from '../src/utils/structured-output';
+
+describe('structured output', () => {
+  describe('validateJsonSchema', () => {
+    it('should accept output matching the analysis schema', () => {
+      expect(validateJsonSchema({ summary: 'ok', keyInsights: ['a'], confidenceScore: 1.4 }, AI_ANALYSIS_SCHEMA)).toEqual([]);
+    });
+
+    it('should report missing fields and wrong types with their paths', () => {
+      expect(validateJsonSchema({ summary: '', keyInsights: 'a', confidenceScore: 'high' }, AI_ANALYSIS_SCHEMA)).toEqual([
+        '$.summary must not be empty',
+        '$.keyInsights must be an array',
+        '$.confidenceScore must be a number'
+      ]);
+      expect(validateJsonSchema([], AI_ANALYSIS_SCHEMA)).toEqual(['$ must be an object']);
+    });
+
+    it('should validate array items against enums and ranges', () => {
+      const errors = validateJsonSchema({
+        anomaliesDetected: true,
+        anomalies: [
+          { service: 'Amazon EC2', severity: 'HIGH', description: 'Spike', confidenceScore: 0.9 },
+          { service: 'Amazon S3', severity: 'CRITICAL', description: 'Spike', confidenceScore: 2 }
+        ]
+      }, ANOMALY_DETECTION_SCHEMA);
+
+      expect(errors).toEqual([
+        '$.anomalies[1].severity must be one of LOW, MEDIUM, HIGH',
+        '$.anomalies[1].confidenceScore must be between 0 and 1'
+      ]);
+    });
+
+    it('should treat optional recommendation fields as optional', () => {
+      expect(validateJsonSchema({
+        recommendations: [{ category: 'RIGHTSIZING', service: 'Amazon EC2', description: 'Downsize', priority: 'HIGH' }]
+      }, OPTIMIZATION_RECOMMENDATIONS_SCHEMA)).toEqual([]);
+      expect(validateJsonSchema({
+        recommendations: [{ category: 'RIGHTSIZING', service: 'Amazon EC2', description: 'Downsize', priority: 'HIGH', estimatedSavings: -5 }]
+      }, OPTIMIZATION_RECOMMENDATIONS_SCHEMA)).toEqual(['$.recommendations[0].estimatedSavings must be between 0 and Infinity']);
+    });
+  });
+
+  describe('extractJson', () => {
+    it('should ignore surrounding prose and code fences', () => {
+      expect(extractJson('Here you go:\n```json\n{"a": {"b": 1}}\n```\nThanks')).toEqual({ a: { b: 1 } });
+    });
+
+    it('should throw when there is no JSON object', () => {
+      expect(() => extractJson('No JSON here')).toThrow('Response does not contain a JSON object');
+    });
+  });
+
+  describe('parseStructuredOutput', () => {
+    it('should return the validated value', () => {
+      expect(parseStructuredOutput('{"summary":"ok","keyInsights":[],"confidenceScore":0.5}', AI_ANALYSIS_SCHEMA))
+        .toEqual({ valid: true, value: { summary: 'ok', keyInsights: [], confidenceScore: 0.5 } });
+    });
+
+    it('should distinguish invalid JSON from schema violations', () => {
+      const invalidJson = parseStructuredOutput('{"summary": ', AI_ANALYSIS_SCHEMA);
+      const invalidSchema = parseStructuredOutput('{"summary":"ok"}', AI_ANALYSIS_SCHEMA);
+
+      expect(invalidJson.valid).toBe(false);
+      expect(!invalidJson.valid && invalidJson.errors[0]).toMatch(/^Invalid JSON: /);
+      expect(invalidSchema).toEqual({
+        valid: false,
+        errors: ['$.keyInsights is required', '$.confidenceScore is required']
+      });
+    });
+  });
+
+  describe('formatRepairPrompt', () => {
+    it('should include the original prompt, errors and truncated previous response', () => {
+      const prompt = formatRepairPrompt('Analyze costs', 'x'.repeat(3000), ['$.summary is required']);
+
+      expect(prompt.startsWith('Analyze costs')).toBe(true);
+      expect(prompt).toContain('- $.summary is required');
+      expect(prompt).toContain('x'.repeat(2000));
+      expect(prompt).not.toContain('x'.repeat(2001));
+    });
+  });
+});
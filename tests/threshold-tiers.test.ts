@@ -0,0 +1,73 @@
+import {
+  DEFAULT_THRESHOLD_TIERS,
+  getThresholdTiers,
+  parseThresholdTiers,
+  renderTierMessage,
+  resolveThresholdTier
+} from '../src/utils/threshold-tiers';
+import { ThresholdTier } from '../src/types';
+
+describe('threshold tiers', () => {
+  const tiers: ThresholdTier[] = [
+    { name: 'budget-150', percentOfBudget: 150, severity: 'CRITICAL', channels: ['email', 'sms', 'ios'] },
+    { name: 'budget-50', percentOfBudget: 50, severity: 'WARNING', channels: ['email'] },
+    { name: 'budget-100', percentOfBudget: 100, severity: 'CRITICAL', channels: ['email', 'ios'] },
+    { name: 'budget-80', percentOfBudget: 80, severity: 'WARNING', channels: ['email'] }
+  ];
+
+  describe('getThresholdTiers', () => {
+    it('should sort configured tiers by budget percentage', () => {
+      expect(getThresholdTiers(tiers).map(tier => tier.percentOfBudget)).toEqual([50, 80, 100, 150]);
+    });
+
+    it('should fall back to the default tiers', () => {
+      expect(getThresholdTiers()).toEqual(DEFAULT_THRESHOLD_TIERS);
+      expect(getThresholdTiers([])).toEqual(DEFAULT_THRESHOLD_TIERS);
+    });
+  });
+
+  describe('resolveThresholdTier', () => {
+    it('should return the highest tier exceeded', () => {
+      expect(resolveThresholdTier(4, 10, tiers)).toBeNull();
+      expect(resolveThresholdTier(6, 10, tiers)?.name).toBe('budget-50');
+      expect(resolveThresholdTier(9, 10, tiers)?.name).toBe('budget-80');
+      expect(resolveThresholdTier(12, 10, tiers)?.name).toBe('budget-100');
+      expect(resolveThresholdTier(16, 10, tiers)?.name).toBe('budget-150');
+    });
+
+    it('should require spend to exceed the tier amount', () => {
+      expect(resolveThresholdTier(5, 10, tiers)).toBeNull();
+      expect(resolveThresholdTier(10, 10)).toBeNull();
+      expect(resolveThresholdTier(15, 10)?.severity).toBe('WARNING');
+      expect(resolveThresholdTier(15.1, 10)?.severity).toBe('CRITICAL');
+    });
+  });
+
+  describe('renderTierMessage', () => {
+    it('should substitute known placeholders and keep unknown ones', () => {
+      const message = renderTierMessage('{{ tierName }}: ${{totalCost}} of ${{threshold}} {{unknown}}', {
+        tierName: 'budget-80',
+        totalCost: '8.50',
+        threshold: '10.00'
+      });
+
+      expect(message).toBe('budget-80: $8.50 of $10.00 {{unknown}}');
+    });
+  });
+
+  describe('parseThresholdTiers', () => {
+    it('should parse a JSON array and default channels', () => {
+      const parsed = parseThresholdTiers('[{"name":"budget-80","percentOfBudget":80,"severity":"WARNING"}]');
+
+      expect(parsed).toEqual([
+        { name: 'budget-80', percentOfBudget: 80, severity: 'WARNING', channels: ['email', 'sms', 'ios'] }
+      ]);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseThresholdTiers('not-json')).toThrow('Invalid threshold tiers JSON');
+      expect(() => parseThresholdTiers('{"name":"x"}')).toThrow('expected an array of tiers');
+      expect(() => parseThresholdTiers('[null]')).toThrow('each tier must be an object');
+    });
+  });
+});
@@ -2,10 +2,27 @@ import {
   validateSpendMonitorConfig,
   validateiOSPushConfig,
   validateiOSDeviceRegistration,
+  validateThresholdTiers,
+  validateAlertRoutingRules,
+  validateQuietHoursConfig,
+  validateSpendDigestConfig,
+  validateLocalizationConfig,
+  validateAlertTemplateConfig,
+  validateServiceBudgets,
+  validateScopedBudgets,
+  validateCostGroupings,
+  validateCostMetricConfig,
+  validateSpikeDetectionConfig,
+  validateCostHistoryConfig,
+  validateWebhookConfig,
+  validateIncidentConfig,
+  validateEmailReportConfig,
+  validateForecastAlertConfig,
+  validateForecastConfig,
   ValidationError,
   createDefaultConfig
 } from '../src/validation';
-import { SpendMonitorConfig, iOSPushConfig, iOSDeviceRegistration } from '../src/types';
+import { SpendMonitorConfig, iOSPushConfig, iOSDeviceRegistration, ThresholdTier } from '../src/types';
 
 describe('Validation', () => {
   describe('validateSpendMonitorConfig', () => {
@@ -127,6 +144,465 @@ describe('Validation', () => {
     });
   });
 
+  describe('validateForecastAlertConfig', () => {
+    it('should validate a correct forecast config', () => {
+      const errors: string[] = [];
+      validateForecastAlertConfig({ enabled: true, minDaysElapsed: 3 }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject an out of range minDaysElapsed', () => {
+      const errors: string[] = [];
+      validateForecastAlertConfig({ enabled: true, minDaysElapsed: 40 }, errors);
+      expect(errors).toContain('forecastAlertConfig.minDaysElapsed must be a number between 0 and 31');
+    });
+  });
+
+  describe('validateForecastConfig', () => {
+    it('should validate a correct forecast method config', () => {
+      const errors: string[] = [];
+      validateForecastConfig({ method: 'weekday-seasonal', lookbackDays: 28, confidenceLevel: 95 }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject unknown methods and unsupported confidence levels', () => {
+      const errors: string[] = [];
+      validateForecastConfig({ method: 'arima' as any, lookbackDays: 3, confidenceLevel: 75 }, errors);
+
+      expect(errors).toContain('forecastConfig.method must be one of: linear, trailing-7-day, weekday-seasonal, cost-explorer');
+      expect(errors).toContain('forecastConfig.lookbackDays must be an integer between 7 and 90 if provided');
+      expect(errors).toContain('forecastConfig.confidenceLevel must be one of: 80, 90, 95, 99');
+    });
+  });
+
+  describe('validateCostMetricConfig', () => {
+    it('should validate a correct metric config', () => {
+      const errors: string[] = [];
+      validateCostMetricConfig({ metric: 'NetAmortizedCost', comparisonMetrics: ['UnblendedCost'] }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject unsupported metrics', () => {
+      const errors: string[] = [];
+      validateCostMetricConfig({ metric: 'ListCost' as any, comparisonMetrics: ['UsageQuantity' as any] }, errors);
+
+      expect(errors).toContain('costMetricConfig.metric must be one of: BlendedCost, UnblendedCost, AmortizedCost, NetAmortizedCost, NetUnblendedCost');
+      expect(errors).toContain('costMetricConfig.comparisonMetrics contains unsupported metrics: UsageQuantity');
+    });
+  });
+
+  describe('validateSpikeDetectionConfig', () => {
+    it('should validate a correct spike detection config', () => {
+      const errors: string[] = [];
+      validateSpikeDetectionConfig({ enabled: true, lookbackDays: 14, method: 'z-score', threshold: 2.5, minDailyCost: 0 }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject invalid spike detection settings', () => {
+      const errors: string[] = [];
+      validateSpikeDetectionConfig({ enabled: true, lookbackDays: 3, method: 'iqr' as any, threshold: 0, minDailyCost: -1 }, errors);
+
+      expect(errors).toEqual([
+        'spikeDetectionConfig.lookbackDays must be an integer between 7 and 90',
+        'spikeDetectionConfig.method must be one of: z-score, mad',
+        'spikeDetectionConfig.threshold must be a positive number if provided',
+        'spikeDetectionConfig.minDailyCost must be a non-negative number if provided'
+      ]);
+    });
+  });
+
+  describe('validateWebhookConfig', () => {
+    it('should accept https webhook URLs', () => {
+      const errors: string[] = [];
+      validateWebhookConfig({
+        slackWebhookUrl: 'https://hooks.slack.com/services/T000/B000/XXXX',
+        teamsWebhookUrl: 'https://example.webhook.office.com/webhookb2/abc',
+        timeoutMs: 3000
+      }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject invalid URLs and timeouts', () => {
+      const errors: string[] = [];
+      validateWebhookConfig({ slackWebhookUrl: 'http://hooks.slack.com/services/x', teamsWebhookUrl: 'not a url', timeoutMs: 0 }, errors);
+
+      expect(errors).toEqual([
+        'webhookConfig.slackWebhookUrl must be a valid https URL',
+        'webhookConfig.teamsWebhookUrl must be a valid https URL',
+        'webhookConfig.timeoutMs must be a positive integer if provided'
+      ]);
+    });
+
+    it('should require https generic webhook URLs and a signing secret', () => {
+      const errors: string[] = [];
+      validateWebhookConfig({ urls: ['https://automation.example.com/hooks/spend', 'http://insecure.example.com'] }, errors);
+
+      expect(errors).toEqual([
+        'webhookConfig.urls contains an invalid https URL: http://insecure.example.com',
+        'webhookConfig.signingSecret is required when webhookConfig.urls is set'
+      ]);
+    });
+  });
+
+  describe('validateEmailReportConfig', () => {
+    it('should accept a sender with base and per-level recipients', () => {
+      const errors: string[] = [];
+      validateEmailReportConfig({
+        fromAddress: 'alerts@example.com',
+        recipients: ['finance@example.com'],
+        recipientsByLevel: { CRITICAL: ['oncall@example.com'] },
+        templatePath: './templates/spend-alert.html',
+        sparklineDays: 30
+      }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject invalid addresses, alert levels and sparkline lengths', () => {
+      const errors: string[] = [];
+      validateEmailReportConfig({
+        fromAddress: 'alerts',
+        recipients: ['finance@example.com', 'not-an-address'],
+        recipientsByLevel: { URGENT: ['oncall@example.com'] } as any,
+        sparklineDays: 1
+      }, errors);
+
+      expect(errors).toEqual([
+        'emailReportConfig.fromAddress must be a valid email address',
+        'emailReportConfig.recipients contains an invalid email address: not-an-address',
+        'emailReportConfig.recipientsByLevel has an unknown alert level: URGENT',
+        'emailReportConfig.sparklineDays must be an integer between 2 and 90 if provided'
+      ]);
+    });
+  });
+
+  describe('validateIncidentConfig', () => {
+    it('should accept PagerDuty and Opsgenie configurations', () => {
+      const errors: string[] = [];
+      validateIncidentConfig({ provider: 'pagerduty', routingKey: 'routing-key' }, errors);
+      validateIncidentConfig({ provider: 'opsgenie', apiKey: 'api-key', apiUrl: 'https://api.eu.opsgenie.com', timeoutMs: 3000 }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should require the key for the provider and reject unknown providers', () => {
+      const errors: string[] = [];
+      validateIncidentConfig({ provider: 'pagerduty', apiKey: 'api-key' }, errors);
+      validateIncidentConfig({ provider: 'opsgenie', apiUrl: 'http://api.opsgenie.com' }, errors);
+      validateIncidentConfig({ provider: 'victorops' as any }, errors);
+
+      expect(errors).toEqual([
+        'incidentConfig.routingKey is required for PagerDuty',
+        'incidentConfig.apiKey is required for Opsgenie',
+        'incidentConfig.apiUrl must be a valid https URL',
+        'incidentConfig.provider must be one of: pagerduty, opsgenie'
+      ]);
+    });
+  });
+
+  describe('validateCostHistoryConfig', () => {
+    it('should accept a table name or a file path', () => {
+      const errors: string[] = [];
+      validateCostHistoryConfig({ tableName: 'spend-monitor-cost-history' }, errors);
+      validateCostHistoryConfig({ filePath: './data/cost-history.json' }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should require a table name or file path', () => {
+      const errors: string[] = [];
+      validateCostHistoryConfig({ filePath: '' }, errors);
+
+      expect(errors).toEqual([
+        'costHistoryConfig.filePath must be a non-empty string if provided',
+        'costHistoryConfig requires a tableName or filePath'
+      ]);
+    });
+  });
+
+  describe('validateThresholdTiers', () => {
+    const validTiers: ThresholdTier[] = [
+      { name: 'budget-50', percentOfBudget: 50, severity: 'WARNING', channels: ['email'] },
+      { name: 'budget-80', percentOfBudget: 80, severity: 'WARNING', channels: ['email', 'ios'] },
+      { name: 'budget-100', percentOfBudget: 100, severity: 'CRITICAL', channels: ['email', 'sms', 'ios'] }
+    ];
+
+    it('should validate correct threshold tiers', () => {
+      const errors: string[] = [];
+      validateThresholdTiers(validTiers, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject an empty tier list', () => {
+      const errors: string[] = [];
+      validateThresholdTiers([], errors);
+      expect(errors).toContain('thresholdTiers must be a non-empty array if provided');
+    });
+
+    it('should reject duplicate names, invalid percentages and unknown channels', () => {
+      const errors: string[] = [];
+      validateThresholdTiers([
+        validTiers[0],
+        { name: 'budget-50', percentOfBudget: -10, severity: 'WARNING', channels: ['fax' as any] }
+      ], errors);
+
+      expect(errors).toContain("thresholdTiers[1].name must be unique (duplicate 'budget-50')");
+      expect(errors).toContain('thresholdTiers[1].percentOfBudget must be a positive number');
+      expect(errors).toContain('thresholdTiers[1].channels contains unsupported channels: fax');
+    });
+
+    it('should reject tiers whose severity decreases', () => {
+      const errors: string[] = [];
+      validateThresholdTiers([
+        { name: 'budget-80', percentOfBudget: 80, severity: 'CRITICAL', channels: ['email'] },
+        { name: 'budget-100', percentOfBudget: 100, severity: 'WARNING', channels: ['email'] }
+      ], errors);
+
+      expect(errors).toContain('thresholdTiers severity must not decrease as percentOfBudget increases');
+    });
+
+    it('should be applied by validateSpendMonitorConfig', () => {
+      const config = {
+        spendThreshold: 10,
+        snsTopicArn: 'arn:aws:sns:us-east-1:123456789012:spend-alerts',
+        checkPeriodDays: 1,
+        region: 'us-east-1',
+        retryAttempts: 3,
+        minServiceCostThreshold: 1,
+        thresholdTiers: [{ name: '', percentOfBudget: 50, severity: 'WARNING' as const, channels: ['email' as const] }]
+      };
+
+      expect(() => validateSpendMonitorConfig(config)).toThrow('thresholdTiers[0].name is required and must be a string');
+    });
+  });
+
+  describe('validateAlertRoutingRules', () => {
+    it('should accept rules matching on level, service, scope and time of day', () => {
+      const errors: string[] = [];
+      validateAlertRoutingRules([
+        { name: 'critical-pager', alertLevels: ['CRITICAL'], channels: ['sms', 'ios', 'incident'] },
+        { name: 'platform-nights', scopes: ['TAG:team:*'], services: ['Amazon EC2'], timeOfDay: { start: '18:00', end: '08:00', timeZone: 'Europe/Berlin' }, channels: ['slack'] }
+      ], errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject duplicate names, bad criteria and unknown channels', () => {
+      const errors: string[] = [];
+      validateAlertRoutingRules([
+        { name: 'night', alertLevels: ['INFO' as any], timeOfDay: { start: '22:00', end: '22:00', timeZone: 'Mars/Olympus' }, channels: ['email'] },
+        { name: 'night', scopes: [], timeOfDay: { start: '7:00', end: '09:00' }, channels: ['pager' as any] }
+      ], errors);
+
+      expect(errors).toEqual([
+        'alertRoutingRules[0].alertLevels must only contain PROJECTED, WARNING or CRITICAL',
+        'alertRoutingRules[0].timeOfDay start and end must differ',
+        'alertRoutingRules[0].timeOfDay.timeZone must be a valid IANA time zone',
+        "alertRoutingRules[1].name must be unique (duplicate 'night')",
+        'alertRoutingRules[1].scopes must be a non-empty array of scope keys if provided',
+        'alertRoutingRules[1].timeOfDay start and end must be HH:MM times',
+        'alertRoutingRules[1].channels contains unsupported channels: pager'
+      ]);
+    });
+
+    it('should be applied by validateSpendMonitorConfig', () => {
+      const config = {
+        spendThreshold: 10,
+        snsTopicArn: 'arn:aws:sns:us-east-1:123456789012:spend-alerts',
+        checkPeriodDays: 1,
+        region: 'us-east-1',
+        retryAttempts: 3,
+        minServiceCostThreshold: 1,
+        alertRoutingRules: [{ name: 'empty', channels: [] }]
+      };
+
+      expect(() => validateSpendMonitorConfig(config)).toThrow('alertRoutingRules[0].channels must be a non-empty array');
+    });
+  });
+
+  describe('validateQuietHoursConfig', () => {
+    const channelTopicArns = {
+      sms: 'arn:aws:sns:us-east-1:123456789012:spend-alerts-sms',
+      ios: 'arn:aws:sns:us-east-1:123456789012:spend-alerts-ios'
+    };
+
+    it('should accept sms and ios quiet hours with a queue URL and channel topics', () => {
+      const errors: string[] = [];
+      validateQuietHoursConfig({
+        sms: { start: '22:00', end: '07:00' },
+        ios: { start: '23:00', end: '06:30', timeZone: 'America/New_York' },
+        queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/spend-monitor-deferred-notifications'
+      }, errors, channelTopicArns);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should require a channel topic for each quiet channel', () => {
+      const errors: string[] = [];
+      validateQuietHoursConfig({
+        sms: { start: '22:00', end: '07:00' },
+        ios: { start: '23:00', end: '06:30' },
+        queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/spend-monitor-deferred-notifications'
+      }, errors, { sms: channelTopicArns.sms });
+      expect(errors).toEqual(['quietHoursConfig requires a channel topic (channelTopicArns) for ios']);
+    });
+
+    it('should reject unsupported channels, bad windows and queue URLs', () => {
+      const errors: string[] = [];
+      validateQuietHoursConfig({
+        email: { start: '22:00', end: '07:00' },
+        sms: { start: '22:00', end: '7am', timeZone: 'Nowhere/Special' },
+        queueUrl: 'not-a-url'
+      } as any, errors, channelTopicArns);
+
+      expect(errors).toEqual([
+        'quietHoursConfig only supports sms and ios quiet hours (got email)',
+        'quietHoursConfig.sms start and end must be HH:MM times',
+        'quietHoursConfig.sms.timeZone must be a valid IANA time zone',
+        'quietHoursConfig.queueUrl must be a valid https URL'
+      ]);
+    });
+
+    it('should require at least one channel', () => {
+      const errors: string[] = [];
+      validateQuietHoursConfig({ queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/spend-monitor-deferred-notifications' }, errors);
+      expect(errors).toEqual(['quietHoursConfig requires quiet hours for sms or ios']);
+    });
+
+    it('should require a queue URL', () => {
+      const errors: string[] = [];
+      validateQuietHoursConfig({ sms: { start: '22:00', end: '07:00' } }, errors, channelTopicArns);
+      expect(errors).toEqual(['quietHoursConfig.queueUrl is required to hold deferred notifications between runs']);
+    });
+  });
+
+  describe('validateSpendDigestConfig', () => {
+    it('should accept daily and weekly digests', () => {
+      const errors: string[] = [];
+      validateSpendDigestConfig({ frequency: 'daily' }, errors);
+      validateSpendDigestConfig({ frequency: 'weekly', channels: ['email', 'slack', 'ses'], topMoverCount: 10 }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject unknown frequencies, alert-only channels and bad mover counts', () => {
+      const errors: string[] = [];
+      validateSpendDigestConfig({ frequency: 'hourly' as any, channels: ['email', 'incident', 'webhook'], topMoverCount: 0 }, errors);
+
+      expect(errors).toEqual([
+        'spendDigestConfig.frequency must be one of: daily, weekly',
+        'spendDigestConfig.channels contains unsupported channels: incident, webhook',
+        'spendDigestConfig.topMoverCount must be an integer between 1 and 20'
+      ]);
+    });
+  });
+
+  describe('validateLocalizationConfig', () => {
+    it('should accept supported locales for localized channels and recipients', () => {
+      const errors: string[] = [];
+      validateLocalizationConfig({
+        defaultLocale: 'de',
+        channelLocales: { sms: 'ja', ses: 'en' },
+        recipientLocales: { 'finance@example.de': 'de' }
+      }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject unsupported locales, unlocalized channels and invalid recipients', () => {
+      const errors: string[] = [];
+      validateLocalizationConfig({
+        defaultLocale: 'fr' as any,
+        channelLocales: { webhook: 'de', sms: 'es' as any },
+        recipientLocales: { 'not-an-email': 'ja' }
+      }, errors);
+
+      expect(errors).toEqual([
+        'localizationConfig.defaultLocale must be one of: en, de, ja',
+        'localizationConfig.channelLocales.webhook is not a localized channel (email, sms, ios, ses, slack, teams)',
+        'localizationConfig.channelLocales.sms must be one of: en, de, ja',
+        'localizationConfig.recipientLocales contains an invalid email address: not-an-email'
+      ]);
+    });
+  });
+
+  describe('validateAlertTemplateConfig', () => {
+    it('should accept inline templates and an S3 template source', () => {
+      const errors: string[] = [];
+      validateAlertTemplateConfig({
+        templates: { sms: '{{alert.levelLabel}} {{cost.total}}', chat: '{{#cost.topServices}}{{name}}{{/cost.topServices}}' },
+        source: 's3://alert-templates/spend-monitor.json'
+      }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject unknown, empty and unbalanced templates and malformed S3 URIs', () => {
+      const errors: string[] = [];
+      validateAlertTemplateConfig({
+        templates: { digest: 'x', sms: ' ', email: '{{#ai}}{{summary}}' } as any,
+        source: 's3://bucket-only'
+      }, errors);
+
+      expect(errors).toEqual([
+        'alertTemplateConfig.templates.digest is not an alert template (email, sms, pushTitle, pushBody, chat)',
+        'alertTemplateConfig.templates.sms must be a non-empty string',
+        'alertTemplateConfig.templates.email: Invalid alert template: unclosed section {{#ai}}',
+        'alertTemplateConfig.source must be an s3://bucket/key URI or a file path'
+      ]);
+    });
+  });
+
+  describe('validateServiceBudgets', () => {
+    it('should validate correct service budgets', () => {
+      const errors: string[] = [];
+      validateServiceBudgets({ 'Amazon Bedrock': 50, 'Amazon EC2': 100 }, errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject non-positive budgets and empty service names', () => {
+      const errors: string[] = [];
+      validateServiceBudgets({ 'Amazon Bedrock': 0, ' ': 10, 'Amazon S3': 'ten' as any }, errors);
+
+      expect(errors).toContain("serviceBudgets['Amazon Bedrock'] must be a positive number");
+      expect(errors).toContain('serviceBudgets service names must be non-empty');
+      expect(errors).toContain("serviceBudgets['Amazon S3'] must be a positive number");
+    });
+
+    it('should reject non-object service budgets', () => {
+      const errors: string[] = [];
+      validateServiceBudgets([10] as any, errors);
+      expect(errors).toContain('serviceBudgets must be an object mapping service names to budgets');
+    });
+  });
+
+  describe('validateScopedBudgets', () => {
+    it('should validate correct scoped budgets', () => {
+      const errors: string[] = [];
+      validateScopedBudgets([
+        { grouping: { type: 'TAG', tagKey: 'team' }, value: 'platform', budget: 500 },
+        { grouping: { type: 'LINKED_ACCOUNT' }, value: '123456789012', budget: 250 }
+      ], errors);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject missing tag keys, duplicates and invalid budgets', () => {
+      const errors: string[] = [];
+      validateScopedBudgets([
+        { grouping: { type: 'TAG' }, value: 'platform', budget: 500 },
+        { grouping: { type: 'REGION' }, value: 'us-east-1', budget: 100 },
+        { grouping: { type: 'REGION' }, value: 'us-east-1', budget: -1 },
+        { grouping: { type: 'SERVICE' as any }, value: '', budget: 10 }
+      ], errors);
+
+      expect(errors).toContain('scopedBudgets[0].grouping.tagKey is required for TAG groupings');
+      expect(errors).toContain('scopedBudgets[2] duplicates the budget for REGION:us-east-1');
+      expect(errors).toContain('scopedBudgets[2].budget must be a positive number');
+      expect(errors).toContain('scopedBudgets[3].grouping.type must be one of: TAG, LINKED_ACCOUNT, REGION, USAGE_TYPE');
+      expect(errors).toContain('scopedBudgets[3].value is required and must be a string');
+    });
+  });
+
+  describe('validateCostGroupings', () => {
+    it('should reject unsupported grouping types', () => {
+      const errors: string[] = [];
+      validateCostGroupings([{ type: 'REGION' }, { type: 'AZ' as any }], errors);
+      expect(errors).toEqual(['costGroupings[1].type must be one of: TAG, LINKED_ACCOUNT, REGION, USAGE_TYPE']);
+    });
+  });
+
   describe('validateiOSDeviceRegistration', () => {
     it('should validate a correct device registration', () => {
       const registration: iOSDeviceRegistration = {
@@ -0,0 +1,77 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { postSignedWebhook, postWebhook, signWebhookBody } from '../src/utils/webhooks';
+import { NotificationError } from '../src/utils/errors';
+
+describe('postWebhook', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders; body: string }>;
+  let respond: (res: http.ServerResponse) => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+        respond(res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    respond = res => res.writeHead(200).end('ok');
+  });
+
+  it('should post the payload as JSON', async () => {
+    await postWebhook(`${baseUrl}/services/T000/B000/XXXX`, { text: 'Budget exceeded' });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toBe('/services/T000/B000/XXXX');
+    expect(requests[0].headers['content-type']).toBe('application/json');
+    expect(JSON.parse(requests[0].body)).toEqual({ text: 'Budget exceeded' });
+  });
+
+  it('should reject non-2xx responses as non-retryable client errors', async () => {
+    respond = res => res.writeHead(400).end('invalid_blocks');
+
+    const error = await postWebhook(`${baseUrl}/hook`, {}).catch(err => err);
+
+    expect(error).toBeInstanceOf(NotificationError);
+    expect(error.message).toContain('responded with status 400: invalid_blocks');
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should mark rate limits and server errors as retryable', async () => {
+    respond = res => res.writeHead(429).end('rate_limited');
+
+    const error = await postWebhook(`${baseUrl}/hook`, {}).catch(err => err);
+
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should sign the exact request body with HMAC-SHA256', async () => {
+    await postSignedWebhook(`${baseUrl}/hook`, { schemaVersion: '1.0', totalCost: 15.5 }, 'shared-secret');
+
+    const expected = createHmac('sha256', 'shared-secret').update(requests[0].body).digest('hex');
+    expect(requests[0].headers['x-spend-monitor-signature']).toBe(`sha256=${expected}`);
+    expect(signWebhookBody(requests[0].body, 'shared-secret')).toBe(`sha256=${expected}`);
+    expect(signWebhookBody(requests[0].body, 'other-secret')).not.toBe(`sha256=${expected}`);
+  });
+
+  it('should time out slow webhooks', async () => {
+    respond = res => { setTimeout(() => res.writeHead(200).end('ok'), 500); };
+
+    await expect(postWebhook(`${baseUrl}/hook`, {}, 50)).rejects.toThrow('timed out after 50ms');
+  });
+});